@@ -6,6 +6,8 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./utils/TokenPermit.sol";
+import "./utils/SignedClaim.sol";
 
 /**
  * @title StraptDrop
@@ -13,7 +15,7 @@ import "@openzeppelin/contracts/utils/math/Math.sol";
  * @dev Users can create drops with fixed or random distribution of tokens
  * @author STRAPT Team
  */
-contract StraptDrop is ReentrancyGuard, Ownable {
+contract StraptDrop is ReentrancyGuard, Ownable, TokenPermit, SignedClaim {
     using SafeERC20 for IERC20;
 
     // Custom errors for gas optimization
@@ -91,7 +93,7 @@ contract StraptDrop is ReentrancyGuard, Ownable {
     /**
      * @dev Constructor sets the fee collector to the contract deployer
      */
-    constructor() Ownable(msg.sender) {
+    constructor() Ownable(msg.sender) EIP712("StraptDrop", "1") {
         feeCollector = msg.sender;
     }
 
@@ -139,6 +141,44 @@ contract StraptDrop is ReentrancyGuard, Ownable {
         uint256 expiryTime,
         string calldata message
     ) external nonReentrant returns (bytes32) {
+        return _createDrop(tokenAddress, totalAmount, totalRecipients, isRandom, expiryTime, message);
+    }
+
+    /**
+     * @notice Create a new STRAPT Drop using an EIP-2612 permit instead of a prior approval
+     * @param tokenAddress Address of the ERC20 token (must support EIP-2612)
+     * @param totalAmount Total amount of tokens to distribute
+     * @param totalRecipients Number of recipients who can claim
+     * @param isRandom Whether distribution is random or fixed
+     * @param expiryTime Time when the drop expires (unix timestamp)
+     * @param message Optional message for the drop
+     * @param permit Permit signature for `totalAmount` to this contract
+     * @return dropId Unique identifier for the created drop
+     */
+    function createDropWithPermit(
+        address tokenAddress,
+        uint256 totalAmount,
+        uint256 totalRecipients,
+        bool isRandom,
+        uint256 expiryTime,
+        string calldata message,
+        PermitSignature calldata permit
+    ) external nonReentrant returns (bytes32) {
+        _permit(tokenAddress, totalAmount, permit);
+        return _createDrop(tokenAddress, totalAmount, totalRecipients, isRandom, expiryTime, message);
+    }
+
+    /**
+     * @dev Internal function shared by createDrop and createDropWithPermit
+     */
+    function _createDrop(
+        address tokenAddress,
+        uint256 totalAmount,
+        uint256 totalRecipients,
+        bool isRandom,
+        uint256 expiryTime,
+        string calldata message
+    ) private returns (bytes32) {
         // Input validation
         if (totalAmount == 0) revert InvalidAmount();
         if (totalRecipients == 0) revert InvalidRecipients();
@@ -205,6 +245,32 @@ contract StraptDrop is ReentrancyGuard, Ownable {
      * @return amount Amount of tokens claimed
      */
     function claimDrop(bytes32 dropId) external nonReentrant returns (uint256) {
+        return _claimDrop(dropId, msg.sender);
+    }
+
+    /**
+     * @notice Claim tokens from a STRAPT Drop on behalf of a claimer who signed the claim
+     * @dev Lets a relayer pay the gas; the tokens still go to the signer
+     * @param dropId Unique identifier of the drop
+     * @param claimer Address that signed the claim and receives the tokens
+     * @param deadline Timestamp after which the signature is invalid
+     * @param signature The claimer's EIP-712 Claim signature
+     * @return amount Amount of tokens claimed
+     */
+    function claimDropWithSignature(
+        bytes32 dropId,
+        address claimer,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant returns (uint256) {
+        _verifyClaimSignature(dropId, claimer, deadline, signature);
+        return _claimDrop(dropId, claimer);
+    }
+
+    /**
+     * @dev Internal function shared by claimDrop and claimDropWithSignature
+     */
+    function _claimDrop(bytes32 dropId, address claimer) private returns (uint256) {
         Drop storage drop = drops[dropId];
 
         // Check if drop exists
@@ -214,12 +280,12 @@ contract StraptDrop is ReentrancyGuard, Ownable {
         if (!drop.isActive) revert DropNotActive();
         if (block.timestamp >= drop.expiryTime) revert DropExpired();
         if (drop.claimedCount >= drop.totalRecipients) revert AllClaimsTaken();
-        if (hasClaimed[dropId][msg.sender]) revert AlreadyClaimed();
+        if (hasClaimed[dropId][claimer]) revert AlreadyClaimed();
 
         uint256 amountToSend;
 
         if (drop.isRandom) {
-            amountToSend = _calculateRandomAmount(dropId, drop);
+            amountToSend = _calculateRandomAmount(dropId, drop, claimer);
         } else {
             // Fixed distribution
             amountToSend = drop.amountPerRecipient;
@@ -228,8 +294,8 @@ contract StraptDrop is ReentrancyGuard, Ownable {
         // Update state
         drop.remainingAmount -= amountToSend;
         drop.claimedCount += 1;
-        hasClaimed[dropId][msg.sender] = true;
-        claimedAmounts[dropId][msg.sender] = amountToSend;
+        hasClaimed[dropId][claimer] = true;
+        claimedAmounts[dropId][claimer] = amountToSend;
 
         // If all claimed, mark as inactive
         if (drop.claimedCount == drop.totalRecipients) {
@@ -238,9 +304,9 @@ contract StraptDrop is ReentrancyGuard, Ownable {
 
         // Transfer tokens to claimer
         IERC20 token = IERC20(drop.tokenAddress);
-        token.safeTransfer(msg.sender, amountToSend);
+        token.safeTransfer(claimer, amountToSend);
 
-        emit DropClaimed(dropId, msg.sender, amountToSend);
+        emit DropClaimed(dropId, claimer, amountToSend);
 
         return amountToSend;
     }
@@ -280,9 +346,10 @@ contract StraptDrop is ReentrancyGuard, Ownable {
      * @dev Internal function to calculate random amount for a claim
      * @param dropId Unique identifier of the drop
      * @param drop Drop storage reference
+     * @param claimer Address receiving the claim
      * @return amountToSend Amount to send to the claimer
      */
-    function _calculateRandomAmount(bytes32 dropId, Drop storage drop) private view returns (uint256) {
+    function _calculateRandomAmount(bytes32 dropId, Drop storage drop, address claimer) private view returns (uint256) {
         uint256 amountToSend;
 
         if (drop.claimedCount == drop.totalRecipients - 1) {
@@ -297,7 +364,7 @@ contract StraptDrop is ReentrancyGuard, Ownable {
             // Generate random number using keccak256
             uint256 randomFactor = uint256(keccak256(abi.encodePacked(
                 block.timestamp,
-                msg.sender,
+                claimer,
                 dropId,
                 drop.claimedCount
             ))) % 100;
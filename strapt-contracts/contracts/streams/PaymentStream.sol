@@ -5,6 +5,7 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "../utils/TokenPermit.sol";
 
 /**
  * @title PaymentStream
@@ -12,7 +13,7 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * @dev Supports ERC20 tokens with real-time streaming and milestone-based releases
  * @author STRAPT Team
  */
-contract PaymentStream is ReentrancyGuard, Ownable {
+contract PaymentStream is ReentrancyGuard, Ownable, TokenPermit {
     using SafeERC20 for IERC20;
 
     /// @notice Enum to track the status of a stream
@@ -235,6 +236,45 @@ contract PaymentStream is ReentrancyGuard, Ownable {
         uint256[] calldata milestonePercentages,
         string[] calldata milestoneDescriptions
     ) external nonReentrant returns (bytes32) {
+        return _createStream(recipient, tokenAddress, amount, duration, milestonePercentages, milestoneDescriptions);
+    }
+
+    /**
+     * @notice Create a new payment stream using an EIP-2612 permit instead of a prior approval
+     * @param recipient Address of the recipient
+     * @param tokenAddress Address of the token to stream (must support EIP-2612)
+     * @param amount Total amount to stream
+     * @param duration Duration of the stream in seconds
+     * @param milestonePercentages Array of milestone percentages (1-99)
+     * @param milestoneDescriptions Array of milestone descriptions
+     * @param permit Permit signature for `amount` to this contract
+     * @return streamId Unique ID of the created stream
+     */
+    function createStreamWithPermit(
+        address recipient,
+        address tokenAddress,
+        uint256 amount,
+        uint256 duration,
+        uint256[] calldata milestonePercentages,
+        string[] calldata milestoneDescriptions,
+        PermitSignature calldata permit
+    ) external nonReentrant returns (bytes32) {
+        _permit(tokenAddress, amount, permit);
+        return _createStream(recipient, tokenAddress, amount, duration, milestonePercentages, milestoneDescriptions);
+    }
+
+    /**
+     * @notice Helper function to validate, fund and record a new stream
+     * @dev Shared by createStream and createStreamWithPermit
+     */
+    function _createStream(
+        address recipient,
+        address tokenAddress,
+        uint256 amount,
+        uint256 duration,
+        uint256[] calldata milestonePercentages,
+        string[] calldata milestoneDescriptions
+    ) private returns (bytes32) {
         // Input validation
         if (tokenAddress == address(0)) revert InvalidTokenAddress();
         if (amount == 0) revert InvalidAmount();
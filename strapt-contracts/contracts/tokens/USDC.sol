@@ -3,6 +3,7 @@ pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
@@ -10,7 +11,7 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * @notice Mock ERC20 token representing USD Coin for testing purposes
  * @dev Implements a simple ERC20 token with minting capabilities for testing
  */
-contract USDCMock is ERC20, ERC20Burnable, Ownable {
+contract USDCMock is ERC20, ERC20Burnable, ERC20Permit, Ownable {
     uint8 private _decimals;
 
     /**
@@ -19,6 +20,7 @@ contract USDCMock is ERC20, ERC20Burnable, Ownable {
      */
     constructor(address initialOwner) 
         ERC20("USD Coin", "USDC") 
+        ERC20Permit("USD Coin")
         Ownable(initialOwner) 
     {
         _decimals = 6; // USDC uses 6 decimals
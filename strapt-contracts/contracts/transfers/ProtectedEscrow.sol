@@ -0,0 +1,485 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title ProtectedEscrow
+ * @notice Three-party escrow for marketplace deals: the sender funds it, the recipient claims
+ *         once the sender approves, and a named arbiter settles disputes with a split
+ * @dev An open dispute is closed by the arbiter; if the arbiter hasn't ruled within
+ *      DISPUTE_RESOLUTION_PERIOD, the sender can take the funds back
+ * @author STRAPT Team
+ */
+contract ProtectedEscrow is ReentrancyGuard, Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @notice Enum to track the status of an escrow (represented as uint8 for better frontend compatibility)
+    enum EscrowStatus {
+        Funded,     // 0: Funded by the sender, waiting for approval
+        Approved,   // 1: Sender approved the release, recipient can claim
+        Disputed,   // 2: A party raised a dispute, waiting for the arbiter
+        Released,   // 3: Recipient claimed the funds
+        Resolved,   // 4: Arbiter split the funds between the parties
+        Refunded    // 5: Funds went back to the sender
+    }
+
+    /// @notice Struct to store escrow details
+    struct Escrow {
+        address sender;         // Party that funded the escrow
+        address recipient;      // Party that gets paid on release
+        address arbiter;        // Settles disputes
+        address tokenAddress;   // ERC20 token address
+        uint256 amount;         // Net amount held (after fee)
+        uint256 grossAmount;    // Original amount before fee deduction
+        uint256 expiry;         // Timestamp after which an unapproved escrow can be refunded
+        EscrowStatus status;    // Current status of the escrow
+        uint256 createdAt;      // Timestamp when the escrow was created
+        address disputedBy;     // Party that raised the dispute, if any
+        uint256 disputeDeadline; // Timestamp after which an unresolved dispute can be refunded
+    }
+
+    /// @notice Mapping from escrow ID to escrow details
+    mapping(bytes32 => Escrow) public escrows;
+
+    /// @notice Escrow IDs per participant (sender, recipient and arbiter)
+    mapping(address => bytes32[]) private userEscrows;
+
+    /// @notice Mapping of supported tokens
+    mapping(address => bool) public supportedTokens;
+
+    /// @notice Fee collector address
+    address public feeCollector;
+
+    /// @notice Fee in basis points (1/100 of a percent, e.g. 20 = 0.2%)
+    uint16 public feeInBasisPoints;
+
+    /// @notice Minimum expiry time (1 day)
+    uint256 public constant MIN_EXPIRY_TIME = 1 days;
+
+    /// @notice Maximum expiry time (180 days)
+    uint256 public constant MAX_EXPIRY_TIME = 180 days;
+
+    /// @notice Default expiry time (14 days)
+    uint256 public constant DEFAULT_EXPIRY_TIME = 14 days;
+
+    /// @notice Time the arbiter has to resolve a dispute before the sender can refund (30 days)
+    uint256 public constant DISPUTE_RESOLUTION_PERIOD = 30 days;
+
+    /// @notice Maximum length of a dispute reason in bytes
+    uint256 public constant MAX_REASON_LENGTH = 280;
+
+    /// @notice Denominator for the recipient's share when resolving a dispute
+    uint16 public constant BASIS_POINTS = 10000;
+
+    /// @notice Incremented for every escrow so identical escrows in one block get distinct IDs
+    uint256 private escrowNonce;
+
+    // Events
+    event EscrowCreated(
+        bytes32 indexed escrowId,
+        address indexed sender,
+        address indexed recipient,
+        address arbiter,
+        address tokenAddress,
+        uint256 amount,
+        uint256 grossAmount,
+        uint256 expiry
+    );
+
+    event ReleaseApproved(
+        bytes32 indexed escrowId,
+        address indexed sender
+    );
+
+    event EscrowClaimed(
+        bytes32 indexed escrowId,
+        address indexed recipient,
+        uint256 amount
+    );
+
+    event DisputeRaised(
+        bytes32 indexed escrowId,
+        address indexed raisedBy,
+        string reason
+    );
+
+    event DisputeResolved(
+        bytes32 indexed escrowId,
+        address indexed arbiter,
+        uint256 recipientAmount,
+        uint256 senderAmount
+    );
+
+    event EscrowRefunded(
+        bytes32 indexed escrowId,
+        address indexed sender,
+        uint256 amount
+    );
+
+    event TokenSupportUpdated(
+        address indexed tokenAddress,
+        bool isSupported
+    );
+
+    event FeeUpdated(
+        uint16 feeInBasisPoints
+    );
+
+    event FeeCollectorUpdated(
+        address indexed feeCollector
+    );
+
+    // Custom errors for gas optimization
+    error InvalidTokenAddress();
+    error InvalidAmount();
+    error InvalidExpiryTime();
+    error InvalidParticipants();
+    error InvalidShare();
+    error ReasonTooLong();
+    error TokenNotSupported();
+    error ZeroFeeCollector();
+    error EscrowAlreadyExists();
+    error EscrowDoesNotExist();
+    error EscrowNotApprovable();
+    error EscrowNotClaimable();
+    error EscrowNotDisputable();
+    error EscrowNotDisputed();
+    error EscrowNotRefundable();
+    error EscrowNotExpired();
+    error DisputeStillOpen();
+    error NotEscrowSender();
+    error NotEscrowRecipient();
+    error NotEscrowParty();
+    error NotEscrowArbiter();
+
+    /**
+     * @notice Constructor to initialize the contract
+     * @param _feeCollector Address to collect fees (typically the deployer)
+     * @param _feeInBasisPoints Fee in basis points (1/100 of a percent, e.g. 20 = 0.2%)
+     */
+    constructor(address _feeCollector, uint16 _feeInBasisPoints) Ownable(msg.sender) {
+        if (_feeCollector == address(0)) revert ZeroFeeCollector();
+        feeCollector = _feeCollector;
+        feeInBasisPoints = _feeInBasisPoints;
+    }
+
+    /**
+     * @notice Funds a new escrow
+     * @param recipient The party that gets paid once the sender approves
+     * @param arbiter The party that settles disputes; must differ from sender and recipient
+     * @param tokenAddress The ERC20 token address
+     * @param amount The amount of tokens to escrow
+     * @param expiry The timestamp after which an unapproved escrow can be refunded (0 for default)
+     * @return escrowId The unique ID of the created escrow
+     */
+    function createEscrow(
+        address recipient,
+        address arbiter,
+        address tokenAddress,
+        uint256 amount,
+        uint256 expiry
+    ) external nonReentrant returns (bytes32) {
+        // Input validation
+        if (tokenAddress == address(0)) revert InvalidTokenAddress();
+        if (amount == 0) revert InvalidAmount();
+        if (!supportedTokens[tokenAddress]) revert TokenNotSupported();
+        if (
+            recipient == address(0) ||
+            arbiter == address(0) ||
+            recipient == msg.sender ||
+            arbiter == msg.sender ||
+            arbiter == recipient
+        ) revert InvalidParticipants();
+
+        // Validate expiry time
+        if (expiry == 0) {
+            expiry = block.timestamp + DEFAULT_EXPIRY_TIME;
+        } else if (expiry < block.timestamp + MIN_EXPIRY_TIME ||
+                  expiry > block.timestamp + MAX_EXPIRY_TIME) {
+            revert InvalidExpiryTime();
+        }
+
+        // Generate a unique escrow ID
+        bytes32 escrowId = keccak256(
+            abi.encodePacked(
+                msg.sender,
+                recipient,
+                arbiter,
+                tokenAddress,
+                amount,
+                expiry,
+                block.timestamp,
+                escrowNonce++
+            )
+        );
+
+        // Ensure escrow ID doesn't already exist
+        if (escrows[escrowId].createdAt != 0) revert EscrowAlreadyExists();
+
+        // Calculate fee if applicable
+        uint256 fee = 0;
+        uint256 escrowAmount = amount;
+
+        if (feeInBasisPoints > 0) {
+            fee = (amount * feeInBasisPoints) / 10000;
+            escrowAmount = amount - fee;
+        }
+
+        // Create the escrow record
+        escrows[escrowId] = Escrow({
+            sender: msg.sender,
+            recipient: recipient,
+            arbiter: arbiter,
+            tokenAddress: tokenAddress,
+            amount: escrowAmount,
+            grossAmount: amount,
+            expiry: expiry,
+            status: EscrowStatus.Funded,
+            createdAt: block.timestamp,
+            disputedBy: address(0),
+            disputeDeadline: 0
+        });
+
+        // Transfer tokens from sender to this contract
+        IERC20(tokenAddress).safeTransferFrom(msg.sender, address(this), amount);
+
+        // Transfer fee to fee collector if applicable
+        if (fee > 0) {
+            IERC20(tokenAddress).safeTransfer(feeCollector, fee);
+        }
+
+        // Track the escrow for every participant
+        userEscrows[msg.sender].push(escrowId);
+        userEscrows[recipient].push(escrowId);
+        userEscrows[arbiter].push(escrowId);
+
+        emit EscrowCreated(
+            escrowId,
+            msg.sender,
+            recipient,
+            arbiter,
+            tokenAddress,
+            escrowAmount,
+            amount,
+            expiry
+        );
+
+        return escrowId;
+    }
+
+    /**
+     * @notice Approves the release of a funded escrow to the recipient
+     * @dev Approval can't be withdrawn, but the sender can still raise a dispute before the recipient claims
+     * @param escrowId The ID of the escrow
+     */
+    function approveRelease(bytes32 escrowId) external {
+        Escrow storage escrow = escrows[escrowId];
+
+        if (escrow.createdAt == 0) revert EscrowDoesNotExist();
+        if (msg.sender != escrow.sender) revert NotEscrowSender();
+        if (escrow.status != EscrowStatus.Funded) revert EscrowNotApprovable();
+
+        escrow.status = EscrowStatus.Approved;
+
+        emit ReleaseApproved(escrowId, msg.sender);
+    }
+
+    /**
+     * @notice Claims an approved escrow
+     * @param escrowId The ID of the escrow
+     */
+    function claimEscrow(bytes32 escrowId) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+
+        if (escrow.createdAt == 0) revert EscrowDoesNotExist();
+        if (msg.sender != escrow.recipient) revert NotEscrowRecipient();
+        if (escrow.status != EscrowStatus.Approved) revert EscrowNotClaimable();
+
+        // Update escrow status first to prevent reentrancy
+        escrow.status = EscrowStatus.Released;
+
+        IERC20(escrow.tokenAddress).safeTransfer(escrow.recipient, escrow.amount);
+
+        emit EscrowClaimed(escrowId, escrow.recipient, escrow.amount);
+    }
+
+    /**
+     * @notice Raises a dispute, freezing the escrow until the arbiter resolves it
+     * @param escrowId The ID of the escrow
+     * @param reason Short explanation for the arbiter (at most MAX_REASON_LENGTH bytes)
+     */
+    function raiseDispute(bytes32 escrowId, string calldata reason) external {
+        Escrow storage escrow = escrows[escrowId];
+
+        if (escrow.createdAt == 0) revert EscrowDoesNotExist();
+        if (msg.sender != escrow.sender && msg.sender != escrow.recipient) revert NotEscrowParty();
+        if (escrow.status != EscrowStatus.Funded && escrow.status != EscrowStatus.Approved) {
+            revert EscrowNotDisputable();
+        }
+        if (bytes(reason).length > MAX_REASON_LENGTH) revert ReasonTooLong();
+
+        escrow.status = EscrowStatus.Disputed;
+        escrow.disputedBy = msg.sender;
+        escrow.disputeDeadline = block.timestamp + DISPUTE_RESOLUTION_PERIOD;
+
+        emit DisputeRaised(escrowId, msg.sender, reason);
+    }
+
+    /**
+     * @notice Settles a dispute by splitting the escrowed funds
+     * @dev Still possible after the dispute deadline, as long as the sender hasn't refunded
+     * @param escrowId The ID of the escrow
+     * @param recipientShareInBasisPoints Share of the funds paid to the recipient; the rest goes back to the sender
+     */
+    function resolveDispute(bytes32 escrowId, uint16 recipientShareInBasisPoints) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+
+        if (escrow.createdAt == 0) revert EscrowDoesNotExist();
+        if (msg.sender != escrow.arbiter) revert NotEscrowArbiter();
+        if (escrow.status != EscrowStatus.Disputed) revert EscrowNotDisputed();
+        if (recipientShareInBasisPoints > BASIS_POINTS) revert InvalidShare();
+
+        // Update escrow status first to prevent reentrancy
+        escrow.status = EscrowStatus.Resolved;
+
+        uint256 recipientAmount = (escrow.amount * recipientShareInBasisPoints) / BASIS_POINTS;
+        uint256 senderAmount = escrow.amount - recipientAmount;
+
+        if (recipientAmount > 0) {
+            IERC20(escrow.tokenAddress).safeTransfer(escrow.recipient, recipientAmount);
+        }
+        if (senderAmount > 0) {
+            IERC20(escrow.tokenAddress).safeTransfer(escrow.sender, senderAmount);
+        }
+
+        emit DisputeResolved(escrowId, msg.sender, recipientAmount, senderAmount);
+    }
+
+    /**
+     * @notice Returns the escrowed funds to the sender
+     * @dev The recipient can refund any undisputed escrow they haven't claimed; the sender an
+     *      unapproved one after expiry, or a disputed one the arbiter left unresolved past its deadline
+     * @param escrowId The ID of the escrow
+     */
+    function refundEscrow(bytes32 escrowId) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+
+        if (escrow.createdAt == 0) revert EscrowDoesNotExist();
+
+        if (msg.sender == escrow.recipient) {
+            if (escrow.status != EscrowStatus.Funded && escrow.status != EscrowStatus.Approved) {
+                revert EscrowNotRefundable();
+            }
+        } else if (msg.sender == escrow.sender) {
+            if (escrow.status == EscrowStatus.Disputed) {
+                // An arbiter that never rules can't lock the funds for good
+                if (block.timestamp <= escrow.disputeDeadline) revert DisputeStillOpen();
+            } else {
+                if (escrow.status != EscrowStatus.Funded) revert EscrowNotRefundable();
+                if (block.timestamp <= escrow.expiry) revert EscrowNotExpired();
+            }
+        } else {
+            revert NotEscrowParty();
+        }
+
+        // Update escrow status first to prevent reentrancy
+        escrow.status = EscrowStatus.Refunded;
+
+        IERC20(escrow.tokenAddress).safeTransfer(escrow.sender, escrow.amount);
+
+        emit EscrowRefunded(escrowId, escrow.sender, escrow.amount);
+    }
+
+    /**
+     * @notice Gets the details of an escrow
+     * @param escrowId The ID of the escrow
+     * @return sender The party that funded the escrow
+     * @return recipient The party that gets paid on release
+     * @return arbiter The party that settles disputes
+     * @return tokenAddress The ERC20 token address
+     * @return amount The net amount held (after fee)
+     * @return grossAmount The original amount before fee deduction
+     * @return expiry The expiry timestamp
+     * @return status The current status of the escrow (as uint8 for better frontend compatibility)
+     * @return createdAt The timestamp when the escrow was created
+     * @return disputedBy The party that raised the dispute, or the zero address
+     * @return disputeDeadline When the sender can refund an unresolved dispute, or 0 without a dispute
+     */
+    function getEscrow(bytes32 escrowId)
+        external
+        view
+        returns (
+            address sender,
+            address recipient,
+            address arbiter,
+            address tokenAddress,
+            uint256 amount,
+            uint256 grossAmount,
+            uint256 expiry,
+            uint8 status,
+            uint256 createdAt,
+            address disputedBy,
+            uint256 disputeDeadline
+        )
+    {
+        Escrow storage escrow = escrows[escrowId];
+        if (escrow.createdAt == 0) revert EscrowDoesNotExist();
+
+        return (
+            escrow.sender,
+            escrow.recipient,
+            escrow.arbiter,
+            escrow.tokenAddress,
+            escrow.amount,
+            escrow.grossAmount,
+            escrow.expiry,
+            uint8(escrow.status),
+            escrow.createdAt,
+            escrow.disputedBy,
+            escrow.disputeDeadline
+        );
+    }
+
+    /**
+     * @notice Gets every escrow a user takes part in, as sender, recipient or arbiter
+     * @param user The user address
+     * @return Array of escrow IDs
+     */
+    function getUserEscrows(address user) external view returns (bytes32[] memory) {
+        return userEscrows[user];
+    }
+
+    /**
+     * @notice Add or remove a token from the supported tokens list
+     * @param tokenAddress The token address
+     * @param isSupported Whether the token is supported
+     */
+    function setTokenSupport(address tokenAddress, bool isSupported) external onlyOwner {
+        if (tokenAddress == address(0)) revert InvalidTokenAddress();
+        supportedTokens[tokenAddress] = isSupported;
+        emit TokenSupportUpdated(tokenAddress, isSupported);
+    }
+
+    /**
+     * @notice Set the fee in basis points
+     * @param newFeeInBasisPoints The new fee in basis points (1/100 of a percent, e.g. 20 = 0.2%)
+     */
+    function setFee(uint16 newFeeInBasisPoints) external onlyOwner {
+        feeInBasisPoints = newFeeInBasisPoints;
+        emit FeeUpdated(newFeeInBasisPoints);
+    }
+
+    /**
+     * @notice Set the fee collector address
+     * @param newFeeCollector The new fee collector address
+     */
+    function setFeeCollector(address newFeeCollector) external onlyOwner {
+        if (newFeeCollector == address(0)) revert ZeroFeeCollector();
+        feeCollector = newFeeCollector;
+        emit FeeCollectorUpdated(newFeeCollector);
+    }
+}
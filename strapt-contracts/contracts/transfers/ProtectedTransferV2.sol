@@ -5,6 +5,8 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "../utils/TokenPermit.sol";
+import "../utils/SignedClaim.sol";
 
 /**
  * @title ProtectedTransferV2
@@ -12,7 +14,7 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * @dev Supports ERC20 tokens with improved UX and frontend compatibility
  * @author STRAPT Team
  */
-contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
+contract ProtectedTransferV2 is ReentrancyGuard, Ownable, TokenPermit, SignedClaim {
     using SafeERC20 for IERC20;
 
     /// @notice Enum to track the status of a transfer (represented as uint8 for better frontend compatibility)
@@ -20,7 +22,8 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         Pending,    // 0: Transfer is created but not claimed
         Claimed,    // 1: Transfer has been claimed by recipient
         Refunded,   // 2: Transfer has been refunded to sender
-        Expired     // 3: Transfer has expired (not used yet, for future auto-expiry)
+        Expired,    // 3: Transfer has expired (not used yet, for future auto-expiry)
+        Cancelled   // 4: Transfer was cancelled by the sender before it was claimed
     }
 
     /// @notice Struct to store transfer details
@@ -31,7 +34,7 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         uint256 amount;         // Net amount of tokens to transfer (after fee)
         uint256 grossAmount;    // Original amount before fee deduction
         uint256 expiry;         // Timestamp after which transfer can be refunded
-        bytes32 claimCodeHash;  // Hash of the claim code (can be empty for transfers without password)
+        bytes32 claimCodeHash;  // Hash of the claim code or link secret (empty for direct transfers without password)
         TransferStatus status;  // Current status of the transfer
         uint256 createdAt;      // Timestamp when transfer was created
         bool isLinkTransfer;    // Whether this is a link transfer (true) or direct transfer (false)
@@ -59,6 +62,26 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
     /// @notice Default expiry time (24 hours)
     uint256 public constant DEFAULT_EXPIRY_TIME = 24 hours;
 
+    /// @notice Maximum number of transfers in a single batch
+    uint256 public constant MAX_BATCH_SIZE = 50;
+
+    /// @notice Struct describing one direct transfer in a batch
+    struct BatchTransferParams {
+        address recipient;      // The recipient address
+        address tokenAddress;   // ERC20 token address
+        uint256 amount;         // Gross amount of tokens to transfer
+        uint256 expiry;         // Expiry timestamp (0 for default)
+    }
+
+    /// @notice Incremented for every direct transfer so identical transfers in one block get distinct IDs
+    uint256 private transferNonce;
+
+    /// @notice Blocks a claim commitment must wait before it can be revealed
+    uint256 public constant COMMIT_REVEAL_DELAY = 1;
+
+    /// @notice Mapping from claim commitment to the block it was committed in
+    mapping(bytes32 => uint256) public claimCommitments;
+
     // Events
     event TransferCreated(
         bytes32 indexed transferId,
@@ -82,6 +105,17 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         uint256 amount
     );
 
+    event TransferCancelled(
+        bytes32 indexed transferId,
+        address indexed sender,
+        uint256 amount
+    );
+
+    event ClaimCommitted(
+        bytes32 indexed commitment,
+        address indexed committer
+    );
+
     event TokenSupportUpdated(
         address indexed tokenAddress,
         bool isSupported
@@ -104,6 +138,7 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
     error TransferDoesNotExist();
     error TransferNotClaimable();
     error TransferNotRefundable();
+    error TransferNotCancellable();
     error TransferExpired();
     error TransferNotExpired();
     error NotIntendedRecipient();
@@ -112,13 +147,21 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
     error PasswordProtected();
     error NotLinkTransfer();
     error ZeroFeeCollector();
+    error InvalidBatchSize();
+    error CommitmentRequired();
+    error CommitmentAlreadyExists();
+    error CommitmentNotFound();
+    error CommitmentTooRecent();
 
     /**
      * @notice Constructor to initialize the contract
      * @param _feeCollector Address to collect fees (typically the deployer)
      * @param _feeInBasisPoints Fee in basis points (1/100 of a percent, e.g. 20 = 0.2%)
      */
-    constructor(address _feeCollector, uint16 _feeInBasisPoints) Ownable(msg.sender) {
+    constructor(address _feeCollector, uint16 _feeInBasisPoints)
+        Ownable(msg.sender)
+        EIP712("ProtectedTransferV2", "1")
+    {
         if (_feeCollector == address(0)) revert ZeroFeeCollector();
         feeCollector = _feeCollector;
         feeInBasisPoints = _feeInBasisPoints;
@@ -142,91 +185,69 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         bool hasPassword,
         bytes32 claimCodeHash
     ) external nonReentrant returns (bytes32) {
-        // Input validation
-        if (tokenAddress == address(0)) revert InvalidTokenAddress();
-        if (amount == 0) revert InvalidAmount();
-        if (!supportedTokens[tokenAddress]) revert TokenNotSupported();
-        if (recipient == address(0)) revert InvalidTokenAddress();
-
-        // If hasPassword is true, claimCodeHash must be non-zero
-        if (hasPassword && claimCodeHash == bytes32(0)) revert InvalidClaimCode();
-
-        // Validate expiry time
-        if (expiry == 0) {
-            expiry = block.timestamp + DEFAULT_EXPIRY_TIME;
-        } else if (expiry <= block.timestamp || // Must be in the future
-                  expiry > block.timestamp + MAX_EXPIRY_TIME) { // Must not be too far in the future
-            revert InvalidExpiryTime();
-        }
-
-        // Generate a unique transfer ID
-        bytes32 transferId = _generateTransferId(
-            msg.sender,
-            recipient,
-            tokenAddress,
-            amount,
-            expiry,
-            claimCodeHash
-        );
-
-        // Ensure transfer ID doesn't already exist
-        if (transfers[transferId].createdAt != 0) revert TransferAlreadyExists();
-
-        // Calculate fee if applicable
-        uint256 fee = 0;
-        uint256 transferAmount = amount;
-
-        if (feeInBasisPoints > 0) {
-            fee = (amount * feeInBasisPoints) / 10000;
-            transferAmount = amount - fee;
-        }
-
-        // Create the transfer record
-        transfers[transferId] = Transfer({
-            sender: msg.sender,
-            recipient: recipient,
-            tokenAddress: tokenAddress,
-            amount: transferAmount,
-            grossAmount: amount,
-            expiry: expiry,
-            claimCodeHash: hasPassword ? claimCodeHash : bytes32(0),
-            status: TransferStatus.Pending,
-            createdAt: block.timestamp,
-            isLinkTransfer: false,
-            hasPassword: hasPassword
-        });
+        return _createDirectTransfer(recipient, tokenAddress, amount, expiry, hasPassword, claimCodeHash);
+    }
 
-        // Transfer tokens from sender to this contract
-        IERC20(tokenAddress).safeTransferFrom(msg.sender, address(this), amount);
+    /**
+     * @notice Creates a direct transfer using an EIP-2612 permit instead of a prior approval
+     * @dev Same as createDirectTransfer; the permit must be signed for `amount` and this contract
+     * @param recipient The recipient address
+     * @param tokenAddress The ERC20 token address to transfer (must support EIP-2612)
+     * @param amount The amount of tokens to transfer
+     * @param expiry The timestamp after which the transfer can be refunded
+     * @param hasPassword Whether this transfer requires a password to claim
+     * @param claimCodeHash The hash of the claim code (keccak256) - can be bytes32(0) if hasPassword is false
+     * @param permit The permit signature
+     * @return transferId The unique ID of the created transfer
+     */
+    function createDirectTransferWithPermit(
+        address recipient,
+        address tokenAddress,
+        uint256 amount,
+        uint256 expiry,
+        bool hasPassword,
+        bytes32 claimCodeHash,
+        PermitSignature calldata permit
+    ) external nonReentrant returns (bytes32) {
+        _permit(tokenAddress, amount, permit);
+        return _createDirectTransfer(recipient, tokenAddress, amount, expiry, hasPassword, claimCodeHash);
+    }
 
-        // Transfer fee to fee collector if applicable
-        if (fee > 0) {
-            IERC20(tokenAddress).safeTransfer(feeCollector, fee);
+    /**
+     * @notice Creates several direct transfers without password protection in one transaction
+     * @dev Each entry is validated and funded exactly like createDirectTransfer; any invalid entry reverts the whole batch
+     * @param batch The transfers to create (at most MAX_BATCH_SIZE)
+     * @return transferIds The IDs of the created transfers, in the same order as the batch
+     */
+    function createDirectTransferBatch(BatchTransferParams[] calldata batch)
+        external
+        nonReentrant
+        returns (bytes32[] memory transferIds)
+    {
+        if (batch.length == 0 || batch.length > MAX_BATCH_SIZE) revert InvalidBatchSize();
+
+        transferIds = new bytes32[](batch.length);
+        for (uint256 i = 0; i < batch.length; i++) {
+            transferIds[i] = _createDirectTransfer(
+                batch[i].recipient,
+                batch[i].tokenAddress,
+                batch[i].amount,
+                batch[i].expiry,
+                false,
+                bytes32(0)
+            );
         }
-
-        // Associate the transfer with the recipient for tracking
-        _associateTransferWithRecipient(transferId, recipient);
-
-        emit TransferCreated(
-            transferId,
-            msg.sender,
-            recipient,
-            tokenAddress,
-            transferAmount,
-            amount,
-            expiry
-        );
-
-        return transferId;
     }
 
     /**
-     * @notice Creates a link/QR transfer that can be claimed with just the transfer ID
+     * @notice Creates a link/QR transfer that can be claimed by whoever holds its claim code
+     * @dev The transfer ID is public in TransferCreated, so every link transfer needs a secret:
+     * the password, or without one a random secret carried in the link itself
      * @param tokenAddress The ERC20 token address to transfer
      * @param amount The amount of tokens to transfer
      * @param expiry The timestamp after which the transfer can be refunded
-     * @param hasPassword Whether this transfer requires a password to claim
-     * @param claimCodeHash The hash of the claim code (keccak256) - can be bytes32(0) if hasPassword is false
+     * @param hasPassword Whether the claim code is a password shared apart from the link
+     * @param claimCodeHash The hash of the claim code or link secret (keccak256), never bytes32(0)
      * @return transferId The unique ID of the created transfer (to be shared as link/QR)
      */
     function createLinkTransfer(
@@ -236,13 +257,50 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         bool hasPassword,
         bytes32 claimCodeHash
     ) external nonReentrant returns (bytes32) {
+        return _createLinkTransfer(tokenAddress, amount, expiry, hasPassword, claimCodeHash);
+    }
+
+    /**
+     * @notice Creates a link/QR transfer using an EIP-2612 permit instead of a prior approval
+     * @dev Same as createLinkTransfer; the permit must be signed for `amount` and this contract
+     * @param tokenAddress The ERC20 token address to transfer (must support EIP-2612)
+     * @param amount The amount of tokens to transfer
+     * @param expiry The timestamp after which the transfer can be refunded
+     * @param hasPassword Whether the claim code is a password shared apart from the link
+     * @param claimCodeHash The hash of the claim code or link secret (keccak256), never bytes32(0)
+     * @param permit The permit signature
+     * @return transferId The unique ID of the created transfer (to be shared as link/QR)
+     */
+    function createLinkTransferWithPermit(
+        address tokenAddress,
+        uint256 amount,
+        uint256 expiry,
+        bool hasPassword,
+        bytes32 claimCodeHash,
+        PermitSignature calldata permit
+    ) external nonReentrant returns (bytes32) {
+        _permit(tokenAddress, amount, permit);
+        return _createLinkTransfer(tokenAddress, amount, expiry, hasPassword, claimCodeHash);
+    }
+
+    /**
+     * @notice Creates a link transfer on behalf of msg.sender
+     * @dev Shared by createLinkTransfer and createLinkTransferWithPermit
+     */
+    function _createLinkTransfer(
+        address tokenAddress,
+        uint256 amount,
+        uint256 expiry,
+        bool hasPassword,
+        bytes32 claimCodeHash
+    ) internal returns (bytes32) {
         // Input validation
         if (tokenAddress == address(0)) revert InvalidTokenAddress();
         if (amount == 0) revert InvalidAmount();
         if (!supportedTokens[tokenAddress]) revert TokenNotSupported();
 
-        // If hasPassword is true, claimCodeHash must be non-zero
-        if (hasPassword && claimCodeHash == bytes32(0)) revert InvalidClaimCode();
+        // Link transfers always need a secret, password or not
+        if (claimCodeHash == bytes32(0)) revert InvalidClaimCode();
 
         // Validate expiry time
         if (expiry == 0) {
@@ -259,7 +317,7 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
                 tokenAddress,
                 amount,
                 expiry,
-                hasPassword ? claimCodeHash : bytes32(0),
+                claimCodeHash,
                 block.timestamp,
                 blockhash(block.number - 1), // Add block hash for more randomness
                 address(this)                // Add contract address for uniqueness
@@ -286,7 +344,7 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
             amount: transferAmount,
             grossAmount: amount,
             expiry: expiry,
-            claimCodeHash: hasPassword ? claimCodeHash : bytes32(0),
+            claimCodeHash: claimCodeHash,
             status: TransferStatus.Pending,
             createdAt: block.timestamp,
             isLinkTransfer: true,
@@ -315,7 +373,9 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
     }
 
     /**
-     * @notice Claims a transfer (works for both direct and link transfers)
+     * @notice Claims a direct transfer
+     * @dev Link transfers must be claimed with commitClaim + revealClaim so the claim code
+     *      never appears in the mempool before the claimer is locked in
      * @param transferId The ID of the transfer to claim
      * @param claimCode The plain text claim code (only needed for password-protected transfers)
      */
@@ -323,31 +383,97 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         external
         nonReentrant
     {
-        Transfer storage transfer = transfers[transferId];
+        if (transfers[transferId].isLinkTransfer) revert CommitmentRequired();
 
-        // Validate transfer
-        if (transfer.createdAt == 0) revert TransferDoesNotExist();
-        if (transfer.status != TransferStatus.Pending) revert TransferNotClaimable();
-        if (block.timestamp > transfer.expiry) revert TransferExpired();
+        _claimTransfer(transferId, claimCode, msg.sender);
+    }
 
-        // For transfers with a password, verify the code
-        if (transfer.hasPassword) {
-            bytes32 providedCodeHash = keccak256(abi.encodePacked(claimCode));
-            if (providedCodeHash != transfer.claimCodeHash) revert InvalidClaimCode();
-        }
+    /**
+     * @notice Claims a direct transfer on behalf of the recipient, who signed the claim
+     * @dev Lets a relayer pay the gas; the tokens still go to the intended recipient
+     * @param transferId The ID of the transfer to claim
+     * @param claimCode The plain text claim code (only needed for password-protected transfers)
+     * @param claimer The recipient who signed the claim
+     * @param deadline Timestamp after which the signature is invalid
+     * @param signature The claimer's EIP-712 Claim signature
+     */
+    function claimTransferWithSignature(
+        bytes32 transferId,
+        string calldata claimCode,
+        address claimer,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant {
+        if (transfers[transferId].isLinkTransfer) revert CommitmentRequired();
+
+        _verifyClaimSignature(transferId, claimer, deadline, signature);
+        _claimTransfer(transferId, claimCode, claimer);
+    }
 
-        // If recipient is specified, only they can claim
-        if (transfer.recipient != address(0) && msg.sender != transfer.recipient) {
-            revert NotIntendedRecipient();
-        }
+    /**
+     * @notice First step of claiming a link transfer: records a hidden commitment
+     * @dev Anyone may submit the commitment, since it already names the claimer
+     * @param commitment The value returned by getClaimCommitment for the claim
+     */
+    function commitClaim(bytes32 commitment) external {
+        if (claimCommitments[commitment] != 0) revert CommitmentAlreadyExists();
 
-        // Update transfer status first to prevent reentrancy
-        transfer.status = TransferStatus.Claimed;
+        claimCommitments[commitment] = block.number;
 
-        // Transfer tokens to claimer
-        IERC20(transfer.tokenAddress).safeTransfer(msg.sender, transfer.amount);
+        emit ClaimCommitted(commitment, msg.sender);
+    }
 
-        emit TransferClaimed(transferId, msg.sender, transfer.amount);
+    /**
+     * @notice Second step of claiming a link transfer: reveals the claim code and claims
+     * @param transferId The ID of the transfer to claim
+     * @param claimCode The plain text claim code or link secret
+     * @param salt The random salt used when computing the commitment
+     */
+    function revealClaim(bytes32 transferId, string calldata claimCode, bytes32 salt)
+        external
+        nonReentrant
+    {
+        _revealClaim(transferId, claimCode, salt, msg.sender);
+    }
+
+    /**
+     * @notice Second step of claiming a link transfer, submitted on behalf of the claimer
+     * @dev Lets a relayer pay the gas for both steps; the commitment must name the signer
+     * @param transferId The ID of the transfer to claim
+     * @param claimCode The plain text claim code or link secret
+     * @param salt The random salt used when computing the commitment
+     * @param claimer The address that signed the claim and receives the tokens
+     * @param deadline Timestamp after which the signature is invalid
+     * @param signature The claimer's EIP-712 Claim signature
+     */
+    function revealClaimWithSignature(
+        bytes32 transferId,
+        string calldata claimCode,
+        bytes32 salt,
+        address claimer,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant {
+        _verifyClaimSignature(transferId, claimer, deadline, signature);
+        _revealClaim(transferId, claimCode, salt, claimer);
+    }
+
+    /**
+     * @notice Computes the commitment for a link transfer claim
+     * @dev Binds the claim code to the claimer, so a copied reveal is useless to anyone else
+     * @param transferId The ID of the transfer to claim
+     * @param claimCode The plain text claim code or link secret
+     * @param claimer The address that will reveal and receive the tokens
+     * @param salt A random value kept secret until the reveal
+     * @return The commitment hash
+     */
+    function getClaimCommitment(
+        bytes32 transferId,
+        string calldata claimCode,
+        address claimer,
+        bytes32 salt
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(transferId, claimCode, claimer, salt));
     }
 
     /**
@@ -355,6 +481,27 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
      * @param transferId The ID of the transfer to refund
      */
     function refundTransfer(bytes32 transferId) external nonReentrant {
+        _refundTransfer(transferId);
+    }
+
+    /**
+     * @notice Refunds several expired transfers back to the sender in one transaction
+     * @dev Each entry is validated exactly like refundTransfer; any non-refundable entry reverts the whole batch
+     * @param transferIds The IDs of the transfers to refund (at most MAX_BATCH_SIZE)
+     */
+    function refundTransfers(bytes32[] calldata transferIds) external nonReentrant {
+        if (transferIds.length == 0 || transferIds.length > MAX_BATCH_SIZE) revert InvalidBatchSize();
+
+        for (uint256 i = 0; i < transferIds.length; i++) {
+            _refundTransfer(transferIds[i]);
+        }
+    }
+
+    /**
+     * @notice Refunds an expired transfer of msg.sender
+     * @dev Shared by refundTransfer and refundTransfers
+     */
+    function _refundTransfer(bytes32 transferId) internal {
         Transfer storage transfer = transfers[transferId];
 
         // Validate transfer
@@ -372,6 +519,29 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         emit TransferRefunded(transferId, transfer.sender, transfer.amount);
     }
 
+    /**
+     * @notice Cancels a pending transfer and returns the tokens to the sender
+     * @dev Unlike refundTransfer this doesn't wait for expiry, so a transfer sent to a
+     *      mistyped address can be pulled back as long as nobody claimed it yet
+     * @param transferId The ID of the transfer to cancel
+     */
+    function cancelTransfer(bytes32 transferId) external nonReentrant {
+        Transfer storage transfer = transfers[transferId];
+
+        // Validate transfer
+        if (transfer.createdAt == 0) revert TransferDoesNotExist();
+        if (msg.sender != transfer.sender) revert NotTransferSender();
+        if (transfer.status != TransferStatus.Pending) revert TransferNotCancellable();
+
+        // Update transfer status first to prevent reentrancy
+        transfer.status = TransferStatus.Cancelled;
+
+        // Transfer tokens back to sender
+        IERC20(transfer.tokenAddress).safeTransfer(transfer.sender, transfer.amount);
+
+        emit TransferCancelled(transferId, transfer.sender, transfer.amount);
+    }
+
     /**
      * @notice Gets the details of a transfer
      * @param transferId The ID of the transfer
@@ -460,6 +630,155 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         address indexed recipient
     );
 
+    /**
+     * @notice Creates a direct transfer on behalf of msg.sender
+     * @dev Shared by createDirectTransfer, createDirectTransferWithPermit and createDirectTransferBatch
+     */
+    function _createDirectTransfer(
+        address recipient,
+        address tokenAddress,
+        uint256 amount,
+        uint256 expiry,
+        bool hasPassword,
+        bytes32 claimCodeHash
+    ) internal returns (bytes32) {
+        // Input validation
+        if (tokenAddress == address(0)) revert InvalidTokenAddress();
+        if (amount == 0) revert InvalidAmount();
+        if (!supportedTokens[tokenAddress]) revert TokenNotSupported();
+        if (recipient == address(0)) revert InvalidTokenAddress();
+
+        // If hasPassword is true, claimCodeHash must be non-zero
+        if (hasPassword && claimCodeHash == bytes32(0)) revert InvalidClaimCode();
+
+        // Validate expiry time
+        if (expiry == 0) {
+            expiry = block.timestamp + DEFAULT_EXPIRY_TIME;
+        } else if (expiry <= block.timestamp || // Must be in the future
+                  expiry > block.timestamp + MAX_EXPIRY_TIME) { // Must not be too far in the future
+            revert InvalidExpiryTime();
+        }
+
+        // Generate a unique transfer ID
+        bytes32 transferId = _generateTransferId(
+            msg.sender,
+            recipient,
+            tokenAddress,
+            amount,
+            expiry,
+            claimCodeHash
+        );
+
+        // Ensure transfer ID doesn't already exist
+        if (transfers[transferId].createdAt != 0) revert TransferAlreadyExists();
+
+        // Calculate fee if applicable
+        uint256 fee = 0;
+        uint256 transferAmount = amount;
+
+        if (feeInBasisPoints > 0) {
+            fee = (amount * feeInBasisPoints) / 10000;
+            transferAmount = amount - fee;
+        }
+
+        // Create the transfer record
+        transfers[transferId] = Transfer({
+            sender: msg.sender,
+            recipient: recipient,
+            tokenAddress: tokenAddress,
+            amount: transferAmount,
+            grossAmount: amount,
+            expiry: expiry,
+            claimCodeHash: hasPassword ? claimCodeHash : bytes32(0),
+            status: TransferStatus.Pending,
+            createdAt: block.timestamp,
+            isLinkTransfer: false,
+            hasPassword: hasPassword
+        });
+
+        // Transfer tokens from sender to this contract
+        IERC20(tokenAddress).safeTransferFrom(msg.sender, address(this), amount);
+
+        // Transfer fee to fee collector if applicable
+        if (fee > 0) {
+            IERC20(tokenAddress).safeTransfer(feeCollector, fee);
+        }
+
+        // Associate the transfer with the recipient for tracking
+        _associateTransferWithRecipient(transferId, recipient);
+
+        emit TransferCreated(
+            transferId,
+            msg.sender,
+            recipient,
+            tokenAddress,
+            transferAmount,
+            amount,
+            expiry
+        );
+
+        return transferId;
+    }
+
+    /**
+     * @notice Consumes a matured claim commitment and pays out the link transfer
+     * @param transferId The ID of the transfer to claim
+     * @param claimCode The plain text claim code or link secret
+     * @param salt The random salt used when computing the commitment
+     * @param claimer The address named in the commitment
+     */
+    function _revealClaim(
+        bytes32 transferId,
+        string calldata claimCode,
+        bytes32 salt,
+        address claimer
+    ) internal {
+        bytes32 commitment = getClaimCommitment(transferId, claimCode, claimer, salt);
+        uint256 committedAt = claimCommitments[commitment];
+
+        if (committedAt == 0) revert CommitmentNotFound();
+        if (block.number < committedAt + COMMIT_REVEAL_DELAY) revert CommitmentTooRecent();
+
+        delete claimCommitments[commitment];
+
+        _claimTransfer(transferId, claimCode, claimer);
+    }
+
+    /**
+     * @notice Validates a claim and pays out the transfer
+     * @dev Shared by the direct transfer claims and the link transfer reveals
+     * @param transferId The ID of the transfer to claim
+     * @param claimCode The plain text claim code (needed for link transfers and password-protected transfers)
+     * @param claimer The address receiving the tokens
+     */
+    function _claimTransfer(bytes32 transferId, string calldata claimCode, address claimer) internal {
+        Transfer storage transfer = transfers[transferId];
+
+        // Validate transfer
+        if (transfer.createdAt == 0) revert TransferDoesNotExist();
+        if (transfer.status != TransferStatus.Pending) revert TransferNotClaimable();
+        if (block.timestamp > transfer.expiry) revert TransferExpired();
+
+        // Verify the code for transfers with a password and for every link transfer
+        if (transfer.hasPassword || transfer.isLinkTransfer) {
+            bytes32 providedCodeHash = keccak256(abi.encodePacked(claimCode));
+            if (providedCodeHash != transfer.claimCodeHash) revert InvalidClaimCode();
+        }
+
+        // If recipient is specified, only they can claim
+        if (transfer.recipient != address(0) && claimer != transfer.recipient) {
+            revert NotIntendedRecipient();
+        }
+
+        // Update transfer status first to prevent reentrancy
+        transfer.status = TransferStatus.Claimed;
+
+        // Transfer tokens to claimer
+        IERC20(transfer.tokenAddress).safeTransfer(claimer, transfer.amount);
+
+        emit TransferClaimed(transferId, claimer, transfer.amount);
+    }
+
     /**
      * @notice Associates a transfer with a recipient for tracking purposes
      * @dev This is called internally when creating a direct transfer
@@ -484,7 +803,7 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
 
     /**
      * @notice Generates a transfer ID for direct transfers
-     * @dev Internal function used by createDirectTransfer
+     * @dev Internal function used by _createDirectTransfer; consumes a nonce so IDs never repeat
      */
     function _generateTransferId(
         address sender,
@@ -493,7 +812,7 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
         uint256 amount,
         uint256 expiry,
         bytes32 claimCodeHash
-    ) internal view returns (bytes32) {
+    ) internal returns (bytes32) {
         return keccak256(
             abi.encodePacked(
                 sender,
@@ -503,7 +822,8 @@ contract ProtectedTransferV2 is ReentrancyGuard, Ownable {
                 expiry,
                 claimCodeHash,
                 block.timestamp,
-                blockhash(block.number - 1)
+                blockhash(block.number - 1),
+                transferNonce++
             )
         );
     }
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+
+/**
+ * @title SignedClaim
+ * @notice Shared EIP-712 helper for claims submitted by a relayer on behalf of the claimer
+ * @dev The claimer signs Claim(id, claimer, deadline); whoever submits it pays the gas,
+ *      but the tokens always go to the signer. Claims are one-shot per id and claimer,
+ *      so the signature needs no nonce
+ * @author STRAPT Team
+ */
+abstract contract SignedClaim is EIP712 {
+    /// @notice EIP-712 type hash of the signed claim
+    bytes32 public constant CLAIM_TYPEHASH =
+        keccak256("Claim(bytes32 id,address claimer,uint256 deadline)");
+
+    error ClaimSignatureExpired();
+    error InvalidClaimSignature();
+
+    /**
+     * @notice Reverts unless claimer signed a claim for id that is still valid
+     * @dev Accepts EOA signatures and ERC-1271 smart wallet signatures
+     * @param id The transfer or drop ID being claimed
+     * @param claimer The address that signed and receives the tokens
+     * @param deadline Timestamp after which the signature is invalid
+     * @param signature The claimer's EIP-712 signature
+     */
+    function _verifyClaimSignature(
+        bytes32 id,
+        address claimer,
+        uint256 deadline,
+        bytes calldata signature
+    ) internal view {
+        if (block.timestamp > deadline) revert ClaimSignatureExpired();
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(CLAIM_TYPEHASH, id, claimer, deadline)));
+        if (!SignatureChecker.isValidSignatureNow(claimer, digest, signature)) {
+            revert InvalidClaimSignature();
+        }
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+
+/**
+ * @title TokenPermit
+ * @notice Shared EIP-2612 helper for contracts that pull tokens from the caller
+ * @dev Lets create functions accept a signed permit instead of a separate approve transaction
+ * @author STRAPT Team
+ */
+abstract contract TokenPermit {
+    /// @notice EIP-2612 permit signature for the caller's tokens
+    struct PermitSignature {
+        uint256 deadline;       // Timestamp after which the signature is invalid
+        uint8 v;                // Signature recovery byte
+        bytes32 r;              // Signature r value
+        bytes32 s;              // Signature s value
+    }
+
+    /**
+     * @notice Applies a permit from msg.sender to this contract
+     * @dev A failing permit is ignored: if someone front-ran it the allowance is already set,
+     *      and if not, the following transferFrom reverts with the token's own error
+     * @param tokenAddress The EIP-2612 token
+     * @param amount The amount the permit was signed for
+     * @param permit The permit signature
+     */
+    function _permit(address tokenAddress, uint256 amount, PermitSignature calldata permit) internal {
+        try IERC20Permit(tokenAddress).permit(
+            msg.sender,
+            address(this),
+            amount,
+            permit.deadline,
+            permit.v,
+            permit.r,
+            permit.s
+        ) {} catch {}
+    }
+}
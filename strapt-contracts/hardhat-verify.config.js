@@ -13,6 +13,7 @@ module.exports = {
       },
       // viaIR disabled for verification
       viaIR: false,
+      evmVersion: "cancun",
     },
   },
   networks: {
@@ -2,6 +2,10 @@ require("@nomicfoundation/hardhat-toolbox");
 require("@nomicfoundation/hardhat-verify");
 require("dotenv").config();
 
+// Tasks are written in TypeScript; compile them as CommonJS with the tasks' own tsconfig
+require("ts-node").register({ project: `${__dirname}/tasks/tsconfig.json`, transpileOnly: true });
+require("./tasks/deploy-local");
+
 /** @type import('hardhat/config').HardhatUserConfig */
 module.exports = {
   solidity: {
@@ -12,12 +16,17 @@ module.exports = {
         runs: 200,
       },
       viaIR: true,
+      evmVersion: "cancun",
     },
   },
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      url: process.env.LOCALHOST_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
     baseSepolia: {
       url: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
@@ -0,0 +1,187 @@
+// Encrypted transfer note storage
+// The relayer only ever sees ciphertext: notes are encrypted in the sender's browser
+// and decrypted in the recipient's, see strapt-frontend/src/services/TransferNoteService.ts
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { Contract, getAddress, isAddress, isHexString, keccak256, toUtf8Bytes, verifyMessage, type Provider } from "ethers";
+import { RelayRequestError } from "./relayer.ts";
+
+// Must match NOTE_KEY_BINDING_PREFIX in the frontend
+const NOTE_KEY_BINDING_PREFIX = "STRAPT encrypted notes key\n";
+
+// Must match NOTE_SIGNATURE_PREFIX in the frontend
+const NOTE_SIGNATURE_PREFIX = "STRAPT transfer note\n";
+
+const PROTECTED_TRANSFER_ABI = [
+  "function transfers(bytes32) view returns (address sender, address recipient, address tokenAddress, uint256 amount, uint256 grossAmount, uint256 expiry, bytes32 claimCodeHash, uint8 status, uint256 createdAt, bool isLinkTransfer, bool hasPassword)",
+];
+
+const PROTECTED_ESCROW_ABI = [
+  "function escrows(bytes32) view returns (address sender, address recipient, address arbiter, address tokenAddress, uint256 amount, uint256 grossAmount, uint256 expiry, uint8 status, uint256 createdAt, address disputedBy, uint256 disputeDeadline)",
+];
+
+// Generous upper bound for a 280 character note plus a handful of key shares
+const MAX_NOTE_BYTES = 8 * 1024;
+
+/**
+ * A note encrypted for one transfer, stored as-is
+ */
+export interface StoredNote {
+  transferId: string;
+  [field: string]: unknown;
+}
+
+/**
+ * A public note key published by its owner
+ * The private half is stored encrypted under a key only the owner's wallet can derive
+ */
+export interface StoredNoteKey {
+  address: string;
+  publicKey: string;
+  encryptedPrivateKey: string;
+  iv: string;
+  signature: string;
+}
+
+interface NoteFile {
+  notes: Record<string, StoredNote>;
+  noteKeys: Record<string, StoredNoteKey>;
+}
+
+/**
+ * Resolves the address allowed to write the note for an ID, or undefined if the ID is unknown
+ */
+export type NoteOwnerLookup = (transferId: string) => Promise<string | undefined>;
+
+export interface NoteOwnerConfig {
+  provider: Provider;
+  protectedTransferAddress?: string;
+  protectedEscrowAddress?: string;
+}
+
+/**
+ * Look up note owners on-chain
+ * A note belongs to the sender of the transfer or escrow it is attached to; notes on plain
+ * token transfers are keyed by transaction hash and belong to whoever sent the transaction
+ * @param config The provider and the contract addresses whose transfers carry notes
+ */
+export const createNoteOwnerLookup = ({ provider, protectedTransferAddress, protectedEscrowAddress }: NoteOwnerConfig): NoteOwnerLookup => {
+  const protectedTransfer = protectedTransferAddress
+    ? new Contract(protectedTransferAddress, PROTECTED_TRANSFER_ABI, provider)
+    : null;
+  const protectedEscrow = protectedEscrowAddress
+    ? new Contract(protectedEscrowAddress, PROTECTED_ESCROW_ABI, provider)
+    : null;
+
+  return async (transferId: string) => {
+    for (const [contract, getter] of [[protectedTransfer, "transfers"], [protectedEscrow, "escrows"]] as const) {
+      if (!contract) continue;
+      const record = await contract.getFunction(getter)(transferId);
+      if (record.createdAt !== 0n) return record.sender;
+    }
+
+    const tx = await provider.getTransaction(transferId);
+    return tx?.from;
+  };
+};
+
+/**
+ * The message a sender signs to store the note for a transfer
+ * @param transferId Lowercase transfer ID
+ * @param note The note as sent, without its signature
+ */
+const getNoteSignatureMessage = (transferId: string, note: object): string =>
+  `${NOTE_SIGNATURE_PREFIX}${transferId}\n${keccak256(toUtf8Bytes(JSON.stringify(note)))}`;
+
+/**
+ * Create a note store persisted to a JSON file
+ * Notes are write-once per transfer and must be signed by the transfer's sender;
+ * note keys may be replaced by their owner
+ * @param filePath JSON file to load from and save to
+ * @param getNoteOwner Resolves who may write the note for a transfer
+ */
+export const createNoteStore = (filePath: string, getNoteOwner: NoteOwnerLookup) => {
+  const data: NoteFile = existsSync(filePath)
+    ? JSON.parse(readFileSync(filePath, "utf8"))
+    : { notes: {}, noteKeys: {} };
+
+  const save = () => {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(data));
+  };
+
+  const getNote = (transferId: string): StoredNote | undefined => data.notes[transferId.toLowerCase()];
+
+  /**
+   * Store the note for a transfer
+   * Only the transfer's sender can write it, since the transfer ID is public, and the
+   * first note wins, so a note can't be swapped out after the recipient read it
+   */
+  const putNote = async (transferId: string, body: unknown): Promise<void> => {
+    if (!isHexString(transferId, 32)) throw new RelayRequestError("Invalid transfer ID");
+    if (typeof body !== "object" || body === null) throw new RelayRequestError("Invalid note");
+    if (JSON.stringify(body).length > MAX_NOTE_BYTES) throw new RelayRequestError("Note too large");
+
+    const key = transferId.toLowerCase();
+    if (data.notes[key]) throw new RelayRequestError("A note already exists for this transfer");
+
+    const { signature, ...note } = body as Record<string, unknown>;
+    if (typeof signature !== "string") throw new RelayRequestError("Note is not signed");
+
+    const owner = await getNoteOwner(key);
+    if (!owner) throw new RelayRequestError("Transfer not found");
+
+    let signer: string;
+    try {
+      signer = verifyMessage(getNoteSignatureMessage(key, note), signature);
+    } catch (e) {
+      throw new RelayRequestError("Invalid note signature");
+    }
+    if (signer !== getAddress(owner)) throw new RelayRequestError("Note is not signed by the transfer's sender");
+
+    // Another note may have been stored while the owner was looked up
+    if (data.notes[key]) throw new RelayRequestError("A note already exists for this transfer");
+
+    data.notes[key] = { ...note, transferId: key };
+    save();
+  };
+
+  const getNoteKey = (address: string): StoredNoteKey | undefined => data.noteKeys[address.toLowerCase()];
+
+  /**
+   * Publish a note key
+   * The owner's signature over the public key is checked here to keep out spoofed keys,
+   * and checked again by senders before they encrypt anything to it
+   */
+  const putNoteKey = (address: string, record: Partial<StoredNoteKey>): void => {
+    if (!isAddress(address)) throw new RelayRequestError("Invalid address");
+    const { publicKey, encryptedPrivateKey, iv, signature } = record;
+    if (![publicKey, encryptedPrivateKey, iv, signature].every((value) => typeof value === "string" && value.length > 0)) {
+      throw new RelayRequestError("Invalid note key");
+    }
+
+    let signer: string;
+    try {
+      signer = verifyMessage(`${NOTE_KEY_BINDING_PREFIX}${publicKey}`, signature as string);
+    } catch (e) {
+      throw new RelayRequestError("Invalid note key signature");
+    }
+    if (signer !== getAddress(address)) throw new RelayRequestError("Note key is not signed by its owner");
+
+    data.noteKeys[address.toLowerCase()] = {
+      address: getAddress(address),
+      publicKey: publicKey as string,
+      encryptedPrivateKey: encryptedPrivateKey as string,
+      iv: iv as string,
+      signature: signature as string,
+    };
+    save();
+  };
+
+  return {
+    getNote,
+    putNote,
+    getNoteKey,
+    putNoteKey,
+  };
+};
@@ -0,0 +1,220 @@
+// Gasless claim relayer: submits EIP-712 signed claims and pays the gas for the claimer
+import { Contract, TypedDataEncoder, getAddress, isAddress, isHexString, keccak256, toUtf8Bytes, verifyTypedData, type Signer } from "ethers";
+
+// Shared by both contracts' EIP-712 support (OpenZeppelin EIP712 and ERC-1271)
+const SIGNED_CLAIM_ABI = [
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+];
+const ERC1271_ABI = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+// Must match CLAIM_TYPEHASH in contracts/utils/SignedClaim.sol
+const CLAIM_TYPES = {
+  Claim: [
+    { name: "id", type: "bytes32" },
+    { name: "claimer", type: "address" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const PROTECTED_TRANSFER_ABI = [
+  "function transfers(bytes32) view returns (address sender, address recipient, address tokenAddress, uint256 amount, uint256 grossAmount, uint256 expiry, bytes32 claimCodeHash, uint8 status, uint256 createdAt, bool isLinkTransfer, bool hasPassword)",
+  "function COMMIT_REVEAL_DELAY() view returns (uint256)",
+  "function claimCommitments(bytes32) view returns (uint256)",
+  "function getClaimCommitment(bytes32 transferId, string claimCode, address claimer, bytes32 salt) pure returns (bytes32)",
+  "function commitClaim(bytes32 commitment)",
+  "function claimTransferWithSignature(bytes32 transferId, string claimCode, address claimer, uint256 deadline, bytes signature)",
+  "function revealClaimWithSignature(bytes32 transferId, string claimCode, bytes32 salt, address claimer, uint256 deadline, bytes signature)",
+  ...SIGNED_CLAIM_ABI,
+];
+
+const STRAPT_DROP_ABI = [
+  "function claimDropWithSignature(bytes32 dropId, address claimer, uint256 deadline, bytes signature) returns (uint256)",
+  ...SIGNED_CLAIM_ABI,
+];
+
+// How often to poll for new blocks while a link claim commitment matures
+const BLOCK_POLL_INTERVAL_MS = 1000;
+
+// A link claim is revealed a few blocks after its commitment, so its signature and the
+// transfer must stay valid at least this long for the commitment to be worth sending
+const LINK_CLAIM_MARGIN_SECONDS = 60n;
+
+export interface RelayerConfig {
+  signer: Signer;
+  protectedTransferAddress?: string;
+  straptDropAddress?: string;
+}
+
+/**
+ * A signed claim for a ProtectedTransferV2 transfer
+ * `salt` is required for link transfers, which are claimed through commit + reveal
+ */
+export interface TransferClaimRequest {
+  transferId: string;
+  claimCode: string;
+  claimer: string;
+  deadline: string;
+  signature: string;
+  salt?: string;
+}
+
+/**
+ * A signed claim for a StraptDrop drop
+ */
+export interface DropClaimRequest {
+  dropId: string;
+  claimer: string;
+  deadline: string;
+  signature: string;
+}
+
+/**
+ * Error for requests the relayer refuses, as opposed to node or network failures
+ */
+export class RelayRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RelayRequestError";
+  }
+}
+
+const isBytes32 = (value: unknown): value is string => typeof value === "string" && isHexString(value, 32);
+
+const validateCommon = (claimer: unknown, deadline: unknown, signature: unknown) => {
+  if (typeof claimer !== "string" || !isAddress(claimer)) throw new RelayRequestError("Invalid claimer address");
+  if (typeof deadline !== "string" || !/^\d+$/.test(deadline)) throw new RelayRequestError("Invalid deadline");
+  if (BigInt(deadline) < BigInt(Math.floor(Date.now() / 1000))) throw new RelayRequestError("Signature expired");
+  if (typeof signature !== "string" || !isHexString(signature)) throw new RelayRequestError("Invalid signature");
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const now = () => BigInt(Math.floor(Date.now() / 1000));
+
+/**
+ * Check a claim signature off-chain the way SignedClaim does on-chain
+ * EOA signatures are recovered locally; contract wallets are asked through ERC-1271
+ */
+const verifyClaimSignature = async (contract: Contract, id: string, claimer: string, deadline: string, signature: string) => {
+  const [, name, version, chainId, verifyingContract] = await contract.getFunction("eip712Domain")();
+  const domain = { name, version, chainId, verifyingContract };
+  const value = { id, claimer, deadline };
+
+  try {
+    if (verifyTypedData(domain, CLAIM_TYPES, value, signature) === getAddress(claimer)) return;
+  } catch (e) {
+    // Not a recoverable EOA signature; it may still be a contract wallet's
+  }
+
+  const provider = contract.runner?.provider;
+  if (provider && (await provider.getCode(claimer)) !== "0x") {
+    const wallet = new Contract(claimer, ERC1271_ABI, provider);
+    const digest = TypedDataEncoder.hash(domain, CLAIM_TYPES, value);
+    const result: string = await wallet.getFunction("isValidSignature")(digest, signature).catch(() => "0x");
+    if (result === ERC1271_MAGIC_VALUE) return;
+  }
+
+  throw new RelayRequestError("Invalid claim signature");
+};
+
+/**
+ * Create a relayer bound to a funded signer
+ * Every claim is simulated before it is sent, so the relayer never pays for a reverting claim
+ * @param config The signer and the contract addresses to relay for
+ * @returns Functions that relay transfer and drop claims and resolve with the claim transaction hash
+ */
+export const createRelayer = ({ signer, protectedTransferAddress, straptDropAddress }: RelayerConfig) => {
+  const protectedTransfer = protectedTransferAddress
+    ? new Contract(protectedTransferAddress, PROTECTED_TRANSFER_ABI, signer)
+    : null;
+  const straptDrop = straptDropAddress ? new Contract(straptDropAddress, STRAPT_DROP_ABI, signer) : null;
+
+  const waitForBlock = async (blockNumber: bigint) => {
+    const provider = signer.provider;
+    if (!provider) throw new Error("Relayer signer has no provider");
+    while (BigInt(await provider.getBlockNumber()) < blockNumber) {
+      await sleep(BLOCK_POLL_INTERVAL_MS);
+    }
+  };
+
+  /**
+   * Relay a claim for a direct or link transfer
+   * Link transfers take two transactions: the commitment, then the signed reveal once it matured.
+   * The reveal can't be simulated before its commitment exists, so everything it checks is checked
+   * off-chain first and a claim that would fail never costs the relayer a commitment
+   */
+  const relayTransferClaim = async (request: TransferClaimRequest): Promise<string> => {
+    if (!protectedTransfer) throw new RelayRequestError("Transfer claims are not relayed on this network");
+
+    const { transferId, claimCode, claimer, deadline, signature, salt } = request;
+    if (!isBytes32(transferId)) throw new RelayRequestError("Invalid transfer ID");
+    if (typeof claimCode !== "string") throw new RelayRequestError("Invalid claim code");
+    validateCommon(claimer, deadline, signature);
+
+    const transfer = await protectedTransfer.getFunction("transfers")(transferId);
+    if (transfer.createdAt === 0n) throw new RelayRequestError("Transfer does not exist");
+    // Checked up front so a dead link never costs the relayer a commitment
+    if (transfer.status !== 0n || transfer.expiry < now()) {
+      throw new RelayRequestError("Transfer is no longer claimable");
+    }
+
+    await verifyClaimSignature(protectedTransfer, transferId, claimer, deadline, signature);
+
+    if (!transfer.isLinkTransfer) {
+      const args = [transferId, claimCode, claimer, deadline, signature] as const;
+      await protectedTransfer.getFunction("claimTransferWithSignature").staticCall(...args);
+      const tx = await protectedTransfer.getFunction("claimTransferWithSignature")(...args);
+      await tx.wait();
+      return tx.hash;
+    }
+
+    if (!isBytes32(salt)) throw new RelayRequestError("Link transfer claims need a salt");
+    if (keccak256(toUtf8Bytes(claimCode)) !== transfer.claimCodeHash) throw new RelayRequestError("Invalid claim code");
+    if (BigInt(deadline) < now() + LINK_CLAIM_MARGIN_SECONDS || transfer.expiry < now() + LINK_CLAIM_MARGIN_SECONDS) {
+      throw new RelayRequestError("Claim would expire before it can be revealed");
+    }
+
+    const commitment: string = await protectedTransfer.getFunction("getClaimCommitment")(transferId, claimCode, claimer, salt);
+    let committedAt: bigint = await protectedTransfer.getFunction("claimCommitments")(commitment);
+
+    // The commitment hides the claim code, so it is safe to send once the reveal checks passed
+    if (committedAt === 0n) {
+      const commitTx = await protectedTransfer.getFunction("commitClaim")(commitment);
+      const receipt = await commitTx.wait();
+      committedAt = BigInt(receipt.blockNumber);
+    }
+
+    const delay: bigint = await protectedTransfer.getFunction("COMMIT_REVEAL_DELAY")();
+    await waitForBlock(committedAt + delay);
+
+    const args = [transferId, claimCode, salt, claimer, deadline, signature] as const;
+    await protectedTransfer.getFunction("revealClaimWithSignature").staticCall(...args);
+    const tx = await protectedTransfer.getFunction("revealClaimWithSignature")(...args);
+    await tx.wait();
+    return tx.hash;
+  };
+
+  /**
+   * Relay a claim for a STRAPT Drop
+   */
+  const relayDropClaim = async (request: DropClaimRequest): Promise<string> => {
+    if (!straptDrop) throw new RelayRequestError("Drop claims are not relayed on this network");
+
+    const { dropId, claimer, deadline, signature } = request;
+    if (!isBytes32(dropId)) throw new RelayRequestError("Invalid drop ID");
+    validateCommon(claimer, deadline, signature);
+    await verifyClaimSignature(straptDrop, dropId, claimer, deadline, signature);
+
+    const args = [dropId, claimer, deadline, signature] as const;
+    await straptDrop.getFunction("claimDropWithSignature").staticCall(...args);
+    const tx = await straptDrop.getFunction("claimDropWithSignature")(...args);
+    await tx.wait();
+    return tx.hash;
+  };
+
+  return {
+    relayTransferClaim,
+    relayDropClaim,
+  };
+};
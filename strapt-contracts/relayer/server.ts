@@ -0,0 +1,159 @@
+// HTTP front for the claim relayer
+//
+// Usage:
+//   bun relayer/server.ts            # uses RELAYER_* settings from .env
+//   bun relayer/server.ts --local    # local stand-in: Hardhat node on 127.0.0.1:8545, first Hardhat account
+//
+// Endpoints:
+//   GET  /health                -> { ok, relayer, chainId }
+//   POST /claims/transfer       -> TransferClaimRequest, responds { hash }
+//   POST /claims/drop           -> DropClaimRequest, responds { hash }
+//   GET  /notes/:transferId     -> encrypted transfer note
+//   PUT  /notes/:transferId     -> stores an encrypted note signed by the transfer's sender, once per transfer
+//   GET  /note-keys/:address    -> public note key of an address
+//   PUT  /note-keys/:address    -> publishes a note key signed by the address
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { readFileSync, existsSync } from "node:fs";
+import path from "node:path";
+import { JsonRpcProvider, NonceManager, Wallet } from "ethers";
+import dotenv from "dotenv";
+import { createRelayer, RelayRequestError } from "./relayer.ts";
+import { createNoteOwnerLookup, createNoteStore } from "./notes.ts";
+
+dotenv.config();
+
+const isLocal = process.argv.includes("--local");
+
+// Well-known Hardhat account #0; only ever used against a local node
+const HARDHAT_ACCOUNT_0_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+// Reject bodies larger than this; claims are a few hundred bytes
+const MAX_BODY_BYTES = 16 * 1024;
+
+/**
+ * Read a deployed contract address from deployments/<Contract>-<network>.json
+ */
+const getDeployedAddress = (contractName: string, network: string): string | undefined => {
+  const file = path.join(import.meta.dirname, "..", "deployments", `${contractName}-${network}.json`);
+  if (!existsSync(file)) return undefined;
+  return JSON.parse(readFileSync(file, "utf8")).contractAddress;
+};
+
+const network = process.env.RELAYER_NETWORK || (isLocal ? "localhost" : "liskSepolia");
+const rpcUrl = isLocal
+  ? process.env.RELAYER_RPC_URL || "http://127.0.0.1:8545"
+  : process.env.RELAYER_RPC_URL || process.env.LISK_SEPOLIA_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+const privateKey = process.env.RELAYER_PRIVATE_KEY || (isLocal ? HARDHAT_ACCOUNT_0_KEY : undefined);
+const port = Number(process.env.RELAYER_PORT || 8787);
+const allowedOrigin = process.env.RELAYER_ALLOWED_ORIGIN || "*";
+const notesFile = process.env.RELAYER_NOTES_FILE || path.join(import.meta.dirname, "data", `notes-${network}.json`);
+
+if (!privateKey) {
+  console.error("RELAYER_PRIVATE_KEY is not set (or run with --local against a Hardhat node)");
+  process.exit(1);
+}
+
+const provider = new JsonRpcProvider(rpcUrl);
+const wallet = new Wallet(privateKey, provider);
+const protectedTransferAddress = process.env.RELAYER_PROTECTED_TRANSFER_ADDRESS || getDeployedAddress("ProtectedTransferV2", network);
+const relayer = createRelayer({
+  // NonceManager keeps concurrent claims from reusing a nonce
+  signer: new NonceManager(wallet),
+  protectedTransferAddress,
+  straptDropAddress: process.env.RELAYER_STRAPT_DROP_ADDRESS || getDeployedAddress("StraptDrop", network),
+});
+const notes = createNoteStore(notesFile, createNoteOwnerLookup({
+  provider,
+  protectedTransferAddress,
+  protectedEscrowAddress: process.env.RELAYER_PROTECTED_ESCROW_ADDRESS || getDeployedAddress("ProtectedEscrow", network),
+}));
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
+  });
+  res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage) => {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) throw new RelayRequestError("Request body too large");
+  }
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    throw new RelayRequestError("Request body is not valid JSON");
+  }
+};
+
+/**
+ * Turn a relay failure into an HTTP status and message
+ * Reverting claims are the caller's problem (400); anything else is ours (502)
+ */
+const describeError = (error: any): [number, string] => {
+  if (error instanceof RelayRequestError) return [400, error.message];
+  if (error?.code === "CALL_EXCEPTION") {
+    return [400, error.revert?.name || error.reason || error.shortMessage || "Claim would revert"];
+  }
+  return [502, error?.shortMessage || error?.message || "Relayer error"];
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return sendJson(res, 204, null);
+
+  try {
+    if (req.method === "GET" && req.url === "/health") {
+      const { chainId } = await provider.getNetwork();
+      return sendJson(res, 200, { ok: true, relayer: wallet.address, chainId: Number(chainId) });
+    }
+
+    if (req.method === "POST" && req.url === "/claims/transfer") {
+      const hash = await relayer.relayTransferClaim(await readJsonBody(req));
+      return sendJson(res, 200, { hash });
+    }
+
+    if (req.method === "POST" && req.url === "/claims/drop") {
+      const hash = await relayer.relayDropClaim(await readJsonBody(req));
+      return sendJson(res, 200, { hash });
+    }
+
+    const [, resource, key] = req.url?.split("/") ?? [];
+
+    if (resource === "notes" && key) {
+      if (req.method === "GET") {
+        const note = notes.getNote(key);
+        return note ? sendJson(res, 200, note) : sendJson(res, 404, { error: "No note for this transfer" });
+      }
+      if (req.method === "PUT") {
+        await notes.putNote(key, await readJsonBody(req));
+        return sendJson(res, 201, { ok: true });
+      }
+    }
+
+    if (resource === "note-keys" && key) {
+      if (req.method === "GET") {
+        const noteKey = notes.getNoteKey(key);
+        return noteKey ? sendJson(res, 200, noteKey) : sendJson(res, 404, { error: "No note key for this address" });
+      }
+      if (req.method === "PUT") {
+        notes.putNoteKey(key, await readJsonBody(req));
+        return sendJson(res, 201, { ok: true });
+      }
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  } catch (error) {
+    const [status, message] = describeError(error);
+    console.error(`${req.method} ${req.url} failed:`, message);
+    sendJson(res, status, { error: message });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Claim relayer ${wallet.address} listening on :${port} (${network}, ${rpcUrl})`);
+});
@@ -55,8 +55,10 @@ async function main() {
   }
 
   const network = hre.network.name;
+  const { chainId } = await hre.ethers.provider.getNetwork();
   const deploymentInfo = {
     network,
+    chainId: Number(chainId),
     contractAddress: usdcFaucetAddress,
     owner: deployer.address,
     usdcAddress: USDC_ADDRESS,
@@ -7,6 +7,7 @@ require("dotenv").config();
 // Contract types
 const CONTRACT_TYPES = {
   PROTECTED_TRANSFER: "ProtectedTransferV2",
+  PROTECTED_ESCROW: "ProtectedEscrow",
   PAYMENT_STREAM: "PaymentStream",
   STRAPT_DROP: "StraptDrop"
 };
@@ -52,6 +53,9 @@ async function main() {
     case CONTRACT_TYPES.PROTECTED_TRANSFER:
       contract = await deployProtectedTransfer(feeCollector, feeInBasisPoints);
       break;
+    case CONTRACT_TYPES.PROTECTED_ESCROW:
+      contract = await deployProtectedEscrow(feeCollector, feeInBasisPoints);
+      break;
     case CONTRACT_TYPES.PAYMENT_STREAM:
       contract = await deployPaymentStream(feeCollector, feeInBasisPoints);
       break;
@@ -63,8 +67,11 @@ async function main() {
   contractAddress = await contract.getAddress();
   console.log(`${contractType} deployed to: ${contractAddress}`);
 
+  // The frontend starts scanning the contract's events at this block
+  const deploymentBlock = (await contract.deploymentTransaction()?.wait())?.blockNumber;
+
   // Save deployment info
-  await saveDeploymentInfo(contractType, contractAddress, feeCollector, feeInBasisPoints);
+  await saveDeploymentInfo(contractType, contractAddress, feeCollector, feeInBasisPoints, deploymentBlock);
 
   // Update frontend ABI
   await updateFrontendABI(contractType);
@@ -91,6 +98,20 @@ async function deployProtectedTransfer(feeCollector, feeInBasisPoints) {
   return protectedTransferV2;
 }
 
+async function deployProtectedEscrow(feeCollector, feeInBasisPoints) {
+  console.log("Deploying ProtectedEscrow...");
+  const ProtectedEscrow = await hre.ethers.getContractFactory("ProtectedEscrow");
+  const protectedEscrow = await ProtectedEscrow.deploy(feeCollector, feeInBasisPoints);
+  await protectedEscrow.waitForDeployment();
+
+  // Set token support
+  console.log("Setting token support...");
+  await protectedEscrow.setTokenSupport(TOKENS.USDC, true);
+  await protectedEscrow.setTokenSupport(TOKENS.IDRX, true);
+
+  return protectedEscrow;
+}
+
 async function deployPaymentStream(feeCollector, feeInBasisPoints) {
   console.log("Deploying PaymentStream...");
   const PaymentStream = await hre.ethers.getContractFactory("PaymentStream");
@@ -127,7 +148,7 @@ async function deployStraptDrop(feeCollector, feeInBasisPoints) {
   return straptDrop;
 }
 
-async function saveDeploymentInfo(contractType, contractAddress, feeCollector, feeInBasisPoints) {
+async function saveDeploymentInfo(contractType, contractAddress, feeCollector, feeInBasisPoints, deploymentBlock) {
   // Create deployments directory if it doesn't exist
   const deploymentsDir = path.join(__dirname, "../deployments");
   if (!fs.existsSync(deploymentsDir)) {
@@ -135,9 +156,12 @@ async function saveDeploymentInfo(contractType, contractAddress, feeCollector, f
   }
 
   // Create deployment info
+  const { chainId } = await hre.ethers.provider.getNetwork();
   const deploymentInfo = {
     network: hre.network.name,
+    chainId: Number(chainId),
     contractAddress,
+    deploymentBlock,
     feeCollector,
     feeInBasisPoints,
     supportedTokens: {
@@ -174,6 +198,9 @@ async function updateFrontendABI(contractType) {
       case CONTRACT_TYPES.PROTECTED_TRANSFER:
         contractPath = "transfers/ProtectedTransferV2.sol";
         break;
+      case CONTRACT_TYPES.PROTECTED_ESCROW:
+        contractPath = "transfers/ProtectedEscrow.sol";
+        break;
       case CONTRACT_TYPES.PAYMENT_STREAM:
         contractPath = "streams/PaymentStream.sol";
         break;
@@ -224,20 +251,27 @@ async function updateContractConfig(frontendDir) {
     config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
   }
 
-  // Update config for each contract type
+  // Update config for each contract type on every network it is deployed to
+  // The config is keyed by chain ID so the frontend can follow the connected network
   for (const contractType of Object.values(CONTRACT_TYPES)) {
     const files = fs.readdirSync(deploymentPath).filter(file => file.startsWith(`${contractType}-`));
-    if (files.length > 0) {
-      const latestFile = files.sort().pop();
-      const deploymentInfo = require(path.join(deploymentPath, latestFile));
-
-      config[contractType] = {
+    for (const file of files) {
+      const deploymentInfo = require(path.join(deploymentPath, file));
+      if (!deploymentInfo.chainId) {
+        console.log(`Skipping ${file}: no chain ID recorded.`);
+        continue;
+      }
+
+      const chainId = String(deploymentInfo.chainId);
+      config[chainId] = config[chainId] || {};
+      config[chainId][contractType] = {
         address: deploymentInfo.contractAddress,
-        network: deploymentInfo.network,
-        supportedTokens: deploymentInfo.supportedTokens
+        deploymentBlock: deploymentInfo.deploymentBlock,
+        supportedTokens: deploymentInfo.supportedTokens,
+        feeInBasisPoints: deploymentInfo.feeInBasisPoints || 0
       };
 
-      console.log(`Updated config with ${contractType} deployment info.`);
+      console.log(`Updated config with ${contractType} deployment info for chain ${chainId}.`);
     }
   }
 
@@ -262,6 +296,7 @@ async function verifyContract(contractType, contractAddress, feeCollector, feeIn
 
     switch (contractType) {
       case CONTRACT_TYPES.PROTECTED_TRANSFER:
+      case CONTRACT_TYPES.PROTECTED_ESCROW:
         constructorArgs = [feeCollector, feeInBasisPoints];
         contractPath = `contracts/transfers/${contractType}.sol:${contractType}`;
         break;
@@ -88,52 +88,28 @@ async function updateContractConfig(frontendDir) {
       config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
     }
 
-    // Update ProtectedTransferV2 config
-    const ptv2Files = fs.readdirSync(deploymentPath).filter(file => file.startsWith('ProtectedTransferV2-'));
-    if (ptv2Files.length > 0) {
-      const latestPtv2 = ptv2Files.sort().pop();
-      const ptv2Info = require(path.join(deploymentPath, latestPtv2));
-
-      config.ProtectedTransferV2 = {
-        address: ptv2Info.contractAddress,
-        network: ptv2Info.network,
-        supportedTokens: ptv2Info.supportedTokens,
-        feeInBasisPoints: ptv2Info.feeInBasisPoints || 0
-      };
-
-      console.log("Updated config with ProtectedTransferV2 deployment info.");
-    }
-
-    // Update PaymentStream config
-    const psFiles = fs.readdirSync(deploymentPath).filter(file => file.startsWith('PaymentStream-'));
-    if (psFiles.length > 0) {
-      const latestPs = psFiles.sort().pop();
-      const psInfo = require(path.join(deploymentPath, latestPs));
-
-      config.PaymentStream = {
-        address: psInfo.contractAddress,
-        network: psInfo.network,
-        supportedTokens: psInfo.supportedTokens,
-        feeInBasisPoints: psInfo.feeInBasisPoints || 0
-      };
-
-      console.log("Updated config with PaymentStream deployment info.");
-    }
-
-    // Update StraptDrop config
-    const sdFiles = fs.readdirSync(deploymentPath).filter(file => file.startsWith('StraptDrop-'));
-    if (sdFiles.length > 0) {
-      const latestSd = sdFiles.sort().pop();
-      const sdInfo = require(path.join(deploymentPath, latestSd));
-
-      config.StraptDrop = {
-        address: sdInfo.contractAddress,
-        network: sdInfo.network,
-        supportedTokens: sdInfo.supportedTokens,
-        feeInBasisPoints: sdInfo.feeInBasisPoints || 0
-      };
-
-      console.log("Updated config with StraptDrop deployment info.");
+    // Update config for each contract on every network it is deployed to
+    // The config is keyed by chain ID so the frontend can follow the connected network
+    for (const contractName of ['ProtectedTransferV2', 'PaymentStream', 'StraptDrop']) {
+      const files = fs.readdirSync(deploymentPath).filter(file => file.startsWith(`${contractName}-`));
+      for (const file of files) {
+        const info = require(path.join(deploymentPath, file));
+        if (!info.chainId) {
+          console.log(`Skipping ${file}: no chain ID recorded.`);
+          continue;
+        }
+
+        const chainId = String(info.chainId);
+        config[chainId] = config[chainId] || {};
+        config[chainId][contractName] = {
+          address: info.contractAddress,
+          deploymentBlock: info.deploymentBlock,
+          supportedTokens: info.supportedTokens,
+          feeInBasisPoints: info.feeInBasisPoints || 0
+        };
+
+        console.log(`Updated config with ${contractName} deployment info for chain ${chainId}.`);
+      }
     }
 
     // Write updated config
@@ -0,0 +1,238 @@
+// Local development deployment
+//
+// Usage:
+//   npx hardhat node
+//   npx hardhat deploy-local --network localhost
+//
+// Deploys every STRAPT contract against a local Hardhat node, deploys mock USDC and
+// IDRX, funds the first local accounts and the faucet, and writes the addresses and
+// ABIs straight into the frontend so the app runs against the node with no editing.
+import "@nomicfoundation/hardhat-toolbox";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+const HARDHAT_CHAIN_ID = 31337;
+
+const DEFAULT_FRONTEND_DIR = path.join(__dirname, "../../strapt-frontend/src/contracts");
+const DEFAULT_DEPLOYMENTS_DIR = path.join(__dirname, "../deployments");
+
+// Mock tokens, matching the symbols and decimals used on Lisk Sepolia
+const MOCK_TOKENS = [
+  { symbol: "IDRX", name: "IDRX Token", decimals: 2, icon: "/IDRX BLUE COIN.svg", color: "purple" },
+  { symbol: "USDC", name: "USD Coin", decimals: 6, icon: "/usd-coin-usdc-logo.svg", color: "blue" },
+] as const;
+
+// Fees in basis points, matching the live deployments
+const FEES = {
+  ProtectedTransferV2: 0,
+  ProtectedTransfer: 0,
+  ProtectedEscrow: 0,
+  PaymentStream: 20,
+  StraptDrop: 5,
+} as const;
+
+// Faucet limits, in whole USDC
+const FAUCET = {
+  claimAmount: 1_000,
+  cooldownPeriod: 86_400,
+  maxClaimPerAddress: 100_000,
+  funding: 1_000_000,
+} as const;
+
+// Contracts whose ABIs the frontend imports
+const FRONTEND_CONTRACTS = [
+  "ProtectedTransferV2",
+  "ProtectedTransfer",
+  "ProtectedEscrow",
+  "PaymentStream",
+  "StraptDrop",
+  "USDCFaucet",
+] as const;
+
+type ContractName = (typeof FRONTEND_CONTRACTS)[number];
+
+interface DeployLocalArgs {
+  frontend: string;
+  deployments: string;
+  accounts: number;
+  mint: number;
+}
+
+export interface LocalDeployment {
+  chainId: number;
+  tokens: Record<string, string>;
+  contracts: Record<ContractName, string>;
+  deploymentBlocks: Record<ContractName, number>;  // Where the frontend starts scanning each contract's events
+}
+
+const readJson = <T>(file: string, fallback: T): T => {
+  return existsSync(file) ? (JSON.parse(readFileSync(file, "utf8")) as T) : fallback;
+};
+
+const writeJson = (file: string, value: unknown) => {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(value, null, 2)}\n`);
+};
+
+/**
+ * Deploy everything and fund the local accounts
+ */
+const deploy = async (hre: HardhatRuntimeEnvironment, args: DeployLocalArgs): Promise<LocalDeployment> => {
+  const { ethers } = hre;
+  const signers = await ethers.getSigners();
+  const deployer = signers[0];
+  if (!deployer) throw new Error("No local accounts available");
+
+  const deployContract = async (name: string, constructorArgs: unknown[] = [], label = name) => {
+    const contract = await ethers.deployContract(name, constructorArgs);
+    await contract.waitForDeployment();
+    const address = await contract.getAddress();
+    const deploymentBlock = (await contract.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+    console.log(`${label} deployed to: ${address}`);
+    return { contract, address, deploymentBlock };
+  };
+
+  // Mock tokens, minted to the first local accounts
+  const tokens: Record<string, string> = {};
+  for (const token of MOCK_TOKENS) {
+    const { contract, address } = await deployContract("MockERC20", [token.name, token.symbol, token.decimals], `Mock ${token.symbol}`);
+    tokens[token.symbol] = address;
+
+    const amount = ethers.parseUnits(String(args.mint), token.decimals);
+    for (const signer of signers.slice(0, args.accounts)) {
+      await (await contract.getFunction("mint")(signer.address, amount)).wait();
+    }
+  }
+  console.log(`Minted ${args.mint} of each token to ${Math.min(args.accounts, signers.length)} accounts`);
+
+  const protectedTransferV2 = await deployContract("ProtectedTransferV2", [deployer.address, FEES.ProtectedTransferV2]);
+  const protectedTransfer = await deployContract("ProtectedTransfer", [deployer.address, deployer.address, FEES.ProtectedTransfer]);
+  const protectedEscrow = await deployContract("ProtectedEscrow", [deployer.address, FEES.ProtectedEscrow]);
+  const paymentStream = await deployContract("PaymentStream", [deployer.address, FEES.PaymentStream]);
+
+  const straptDrop = await deployContract("StraptDrop");
+  await (await straptDrop.contract.getFunction("setFeePercentage")(FEES.StraptDrop)).wait();
+
+  for (const { contract } of [protectedTransferV2, protectedTransfer, protectedEscrow, paymentStream]) {
+    for (const address of Object.values(tokens)) {
+      await (await contract.getFunction("setTokenSupport")(address, true)).wait();
+    }
+  }
+
+  const usdc = await ethers.getContractAt("MockERC20", tokens.USDC!);
+  const usdcFaucet = await deployContract("USDCFaucet", [
+    tokens.USDC,
+    ethers.parseUnits(String(FAUCET.claimAmount), 6),
+    FAUCET.cooldownPeriod,
+    ethers.parseUnits(String(FAUCET.maxClaimPerAddress), 6),
+    deployer.address,
+  ]);
+  await (await usdc.getFunction("mint")(usdcFaucet.address, ethers.parseUnits(String(FAUCET.funding), 6))).wait();
+
+  const { chainId } = await ethers.provider.getNetwork();
+
+  return {
+    chainId: Number(chainId),
+    tokens,
+    contracts: {
+      ProtectedTransferV2: protectedTransferV2.address,
+      ProtectedTransfer: protectedTransfer.address,
+      ProtectedEscrow: protectedEscrow.address,
+      PaymentStream: paymentStream.address,
+      StraptDrop: straptDrop.address,
+      USDCFaucet: usdcFaucet.address,
+    },
+    deploymentBlocks: {
+      ProtectedTransferV2: protectedTransferV2.deploymentBlock,
+      ProtectedTransfer: protectedTransfer.deploymentBlock,
+      ProtectedEscrow: protectedEscrow.deploymentBlock,
+      PaymentStream: paymentStream.deploymentBlock,
+      StraptDrop: straptDrop.deploymentBlock,
+      USDCFaucet: usdcFaucet.deploymentBlock,
+    },
+  };
+};
+
+/**
+ * Write the deployment into the frontend: ABIs, contract-config.json and tokens.json
+ * Entries for other chains are left untouched
+ */
+const syncFrontend = async (hre: HardhatRuntimeEnvironment, deployment: LocalDeployment, frontendDir: string) => {
+  const chainKey = String(deployment.chainId);
+
+  for (const name of FRONTEND_CONTRACTS) {
+    writeJson(path.join(frontendDir, `${name}.json`), await hre.artifacts.readArtifact(name));
+  }
+
+  const configPath = path.join(frontendDir, "contract-config.json");
+  const config = readJson<Record<string, unknown>>(configPath, {});
+  const supportedTokens = deployment.tokens;
+  const entry = (name: ContractName) => ({ address: deployment.contracts[name], deploymentBlock: deployment.deploymentBlocks[name] });
+  config[chainKey] = {
+    ProtectedTransferV2: { ...entry("ProtectedTransferV2"), supportedTokens, feeInBasisPoints: FEES.ProtectedTransferV2 },
+    ProtectedTransfer: { ...entry("ProtectedTransfer"), supportedTokens, feeInBasisPoints: FEES.ProtectedTransfer },
+    ProtectedEscrow: { ...entry("ProtectedEscrow"), supportedTokens, feeInBasisPoints: FEES.ProtectedEscrow },
+    PaymentStream: { ...entry("PaymentStream"), supportedTokens, feeInBasisPoints: FEES.PaymentStream },
+    StraptDrop: { ...entry("StraptDrop"), supportedTokens, feeInBasisPoints: FEES.StraptDrop },
+    USDCFaucet: {
+      ...entry("USDCFaucet"),
+      tokenAddress: deployment.tokens.USDC,
+      claimAmount: hre.ethers.parseUnits(String(FAUCET.claimAmount), 6).toString(),
+      cooldownPeriod: FAUCET.cooldownPeriod,
+      maxClaimPerAddress: hre.ethers.parseUnits(String(FAUCET.maxClaimPerAddress), 6).toString(),
+    },
+  };
+  writeJson(configPath, config);
+
+  const tokensPath = path.join(frontendDir, "tokens.json");
+  const tokenConfig = readJson<Record<string, unknown>>(tokensPath, {});
+  tokenConfig[chainKey] = MOCK_TOKENS.map((token) => ({ ...token, address: deployment.tokens[token.symbol] }));
+  writeJson(tokensPath, tokenConfig);
+
+  console.log(`Frontend contracts updated at: ${frontendDir}`);
+};
+
+/**
+ * Record each contract under deployments/<Contract>-<network>.json, where the relayer looks for it
+ */
+const saveDeployments = (hre: HardhatRuntimeEnvironment, deployment: LocalDeployment, deploymentsDir: string) => {
+  const deploymentTime = new Date().toISOString();
+
+  for (const name of FRONTEND_CONTRACTS) {
+    writeJson(path.join(deploymentsDir, `${name}-${hre.network.name}.json`), {
+      network: hre.network.name,
+      chainId: deployment.chainId,
+      contractAddress: deployment.contracts[name],
+      deploymentBlock: deployment.deploymentBlocks[name],
+      supportedTokens: deployment.tokens,
+      feeInBasisPoints: name === "USDCFaucet" ? undefined : FEES[name],
+      deploymentTime,
+    });
+  }
+
+  console.log(`Deployment info saved to: ${deploymentsDir}`);
+};
+
+task("deploy-local", "Deploys every STRAPT contract with mock tokens to a local node and syncs the frontend")
+  .addOptionalParam("frontend", "Frontend contracts directory to write addresses and ABIs to", DEFAULT_FRONTEND_DIR)
+  .addOptionalParam("deployments", "Directory for the per-contract deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addOptionalParam("accounts", "Number of local accounts to mint mock tokens to", 5, types.int)
+  .addOptionalParam("mint", "Whole tokens of each mock token minted to every account", 1_000_000, types.int)
+  .setAction(async (args: DeployLocalArgs, hre): Promise<LocalDeployment> => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    if (Number(chainId) !== HARDHAT_CHAIN_ID) {
+      throw new Error(`deploy-local only runs against a local Hardhat node (chain ${HARDHAT_CHAIN_ID}), not chain ${chainId}`);
+    }
+
+    await hre.run("compile", { quiet: true });
+
+    console.log(`Deploying STRAPT to ${hre.network.name}...`);
+    const deployment = await deploy(hre, args);
+
+    await syncFrontend(hre, deployment, path.resolve(args.frontend));
+    saveDeployments(hre, deployment, path.resolve(args.deployments));
+
+    return deployment;
+  });
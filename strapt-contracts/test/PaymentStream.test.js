@@ -16,6 +16,37 @@ describe("PaymentStream", function () {
 
   const FEE_BASIS_POINTS = 20; // 0.2%
 
+  // Helper function to sign an EIP-2612 permit and split it for the ...WithPermit functions
+  async function signPermit(permitToken, owner, spender, value, deadline) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const signature = await owner.signTypedData(
+      {
+        name: await permitToken.name(),
+        version: "1",
+        chainId,
+        verifyingContract: await permitToken.getAddress(),
+      },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      {
+        owner: owner.address,
+        spender,
+        value,
+        nonce: await permitToken.nonces(owner.address),
+        deadline,
+      }
+    );
+    const { v, r, s } = ethers.Signature.from(signature);
+    return { deadline, v, r, s };
+  }
+
   beforeEach(async function () {
     // Get signers
     [owner, feeCollector, sender, recipient, user3, user4] = await ethers.getSigners();
@@ -177,6 +208,31 @@ describe("PaymentStream", function () {
         )
       ).to.be.revertedWithCustomError(paymentStream, "InvalidMilestonePercentage");
     });
+
+    it("Should create a stream with a permit instead of an approval", async function () {
+      const amount = ethers.parseEther("100");
+      const paymentStreamAddress = await paymentStream.getAddress();
+
+      // user3 holds tokens but has never approved the contract
+      await token.mint(user3.address, amount);
+      const deadline = (await time.latest()) + 3600;
+      const permit = await signPermit(token, user3, paymentStreamAddress, amount, deadline);
+
+      await expect(
+        paymentStream.connect(user3).createStreamWithPermit(
+          recipient.address,
+          await token.getAddress(),
+          amount,
+          3600,
+          [],
+          [],
+          permit
+        )
+      ).to.emit(paymentStream, "StreamCreated");
+
+      expect(await token.balanceOf(user3.address)).to.equal(0);
+      expect(await token.allowance(user3.address, paymentStreamAddress)).to.equal(0);
+    });
   });
 
   describe("Stream Operations", function () {
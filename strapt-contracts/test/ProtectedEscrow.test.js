@@ -0,0 +1,285 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+describe("ProtectedEscrow", function () {
+  // Test variables
+  let escrowContract;
+  let mockUSDC;
+  let owner;
+  let feeCollector;
+  let sender;
+  let recipient;
+  let arbiter;
+  let user4;
+
+  // Constants
+  const INITIAL_BALANCE = ethers.parseUnits("1000", 6); // 1000 USDC
+  const ESCROW_AMOUNT = ethers.parseUnits("100", 6);    // 100 USDC
+  const FEE_BASIS_POINTS = 20; // 0.2%
+  const NET_AMOUNT = ESCROW_AMOUNT - (ESCROW_AMOUNT * BigInt(FEE_BASIS_POINTS)) / 10000n;
+  const ONE_DAY = 24 * 60 * 60; // 24 hours in seconds
+
+  // Helper function to create an escrow and return its ID
+  async function createEscrow(expiry = 0) {
+    const tx = await escrowContract.connect(sender).createEscrow(
+      recipient.address,
+      arbiter.address,
+      await mockUSDC.getAddress(),
+      ESCROW_AMOUNT,
+      expiry
+    );
+    const receipt = await tx.wait();
+    const event = receipt.logs.find(
+      log => log.fragment && log.fragment.name === 'EscrowCreated'
+    );
+    return event.args[0];
+  }
+
+  beforeEach(async function () {
+    // Get signers
+    [owner, feeCollector, sender, recipient, arbiter, user4] = await ethers.getSigners();
+
+    // Deploy mock token
+    const MockToken = await ethers.getContractFactory("MockERC20");
+    mockUSDC = await MockToken.deploy("Mock USDC", "USDC", 6);
+
+    // Deploy ProtectedEscrow
+    const ProtectedEscrow = await ethers.getContractFactory("ProtectedEscrow");
+    escrowContract = await ProtectedEscrow.deploy(feeCollector.address, FEE_BASIS_POINTS);
+    await escrowContract.setTokenSupport(await mockUSDC.getAddress(), true);
+
+    // Mint and approve tokens for the sender
+    await mockUSDC.mint(sender.address, INITIAL_BALANCE);
+    await mockUSDC.connect(sender).approve(await escrowContract.getAddress(), INITIAL_BALANCE);
+  });
+
+  describe("Creating Escrows", function () {
+    it("Should hold the net amount and index the escrow for every participant", async function () {
+      const escrowId = await createEscrow();
+
+      const escrow = await escrowContract.getEscrow(escrowId);
+      expect(escrow.sender).to.equal(sender.address);
+      expect(escrow.recipient).to.equal(recipient.address);
+      expect(escrow.arbiter).to.equal(arbiter.address);
+      expect(escrow.amount).to.equal(NET_AMOUNT);
+      expect(escrow.grossAmount).to.equal(ESCROW_AMOUNT);
+      expect(escrow.status).to.equal(0); // Funded
+
+      expect(await mockUSDC.balanceOf(await escrowContract.getAddress())).to.equal(NET_AMOUNT);
+      expect(await mockUSDC.balanceOf(feeCollector.address)).to.equal(ESCROW_AMOUNT - NET_AMOUNT);
+
+      for (const user of [sender, recipient, arbiter]) {
+        expect(await escrowContract.getUserEscrows(user.address)).to.deep.equal([escrowId]);
+      }
+    });
+
+    it("Should reject an arbiter who is also a party", async function () {
+      await expect(
+        escrowContract.connect(sender).createEscrow(
+          recipient.address,
+          recipient.address,
+          await mockUSDC.getAddress(),
+          ESCROW_AMOUNT,
+          0
+        )
+      ).to.be.revertedWithCustomError(escrowContract, "InvalidParticipants");
+
+      await expect(
+        escrowContract.connect(sender).createEscrow(
+          recipient.address,
+          sender.address,
+          await mockUSDC.getAddress(),
+          ESCROW_AMOUNT,
+          0
+        )
+      ).to.be.revertedWithCustomError(escrowContract, "InvalidParticipants");
+    });
+
+    it("Should reject an expiry outside the allowed range", async function () {
+      const now = await time.latest();
+      await expect(createEscrow(now + 60)).to.be.revertedWithCustomError(escrowContract, "InvalidExpiryTime");
+      await expect(createEscrow(now + 181 * ONE_DAY)).to.be.revertedWithCustomError(escrowContract, "InvalidExpiryTime");
+    });
+  });
+
+  describe("Approval and Claim", function () {
+    let escrowId;
+
+    beforeEach(async function () {
+      escrowId = await createEscrow();
+    });
+
+    it("Should not let the recipient claim before the sender approves", async function () {
+      await expect(
+        escrowContract.connect(recipient).claimEscrow(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotClaimable");
+    });
+
+    it("Should only let the sender approve the release", async function () {
+      await expect(
+        escrowContract.connect(recipient).approveRelease(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "NotEscrowSender");
+    });
+
+    it("Should pay the recipient after approval", async function () {
+      await expect(escrowContract.connect(sender).approveRelease(escrowId))
+        .to.emit(escrowContract, "ReleaseApproved")
+        .withArgs(escrowId, sender.address);
+
+      await expect(escrowContract.connect(recipient).claimEscrow(escrowId))
+        .to.emit(escrowContract, "EscrowClaimed")
+        .withArgs(escrowId, recipient.address, NET_AMOUNT);
+
+      expect(await mockUSDC.balanceOf(recipient.address)).to.equal(NET_AMOUNT);
+      expect((await escrowContract.getEscrow(escrowId)).status).to.equal(3); // Released
+    });
+  });
+
+  describe("Disputes", function () {
+    let escrowId;
+
+    beforeEach(async function () {
+      escrowId = await createEscrow();
+    });
+
+    it("Should let either party raise a dispute, but not outsiders", async function () {
+      await expect(
+        escrowContract.connect(user4).raiseDispute(escrowId, "Not mine")
+      ).to.be.revertedWithCustomError(escrowContract, "NotEscrowParty");
+
+      await expect(escrowContract.connect(recipient).raiseDispute(escrowId, "Item delivered, no approval"))
+        .to.emit(escrowContract, "DisputeRaised")
+        .withArgs(escrowId, recipient.address, "Item delivered, no approval");
+
+      const escrow = await escrowContract.getEscrow(escrowId);
+      expect(escrow.status).to.equal(2); // Disputed
+      expect(escrow.disputedBy).to.equal(recipient.address);
+    });
+
+    it("Should freeze an approved escrow when the sender disputes it", async function () {
+      await escrowContract.connect(sender).approveRelease(escrowId);
+      await escrowContract.connect(sender).raiseDispute(escrowId, "Item arrived damaged");
+
+      await expect(
+        escrowContract.connect(recipient).claimEscrow(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotClaimable");
+    });
+
+    it("Should reject overly long reasons", async function () {
+      await expect(
+        escrowContract.connect(sender).raiseDispute(escrowId, "x".repeat(281))
+      ).to.be.revertedWithCustomError(escrowContract, "ReasonTooLong");
+    });
+
+    it("Should split the funds as the arbiter decides", async function () {
+      await escrowContract.connect(sender).raiseDispute(escrowId, "Partial delivery");
+
+      await expect(
+        escrowContract.connect(sender).resolveDispute(escrowId, 5000)
+      ).to.be.revertedWithCustomError(escrowContract, "NotEscrowArbiter");
+      await expect(
+        escrowContract.connect(arbiter).resolveDispute(escrowId, 10001)
+      ).to.be.revertedWithCustomError(escrowContract, "InvalidShare");
+
+      const senderBalanceBefore = await mockUSDC.balanceOf(sender.address);
+      const recipientAmount = (NET_AMOUNT * 7000n) / 10000n;
+
+      await expect(escrowContract.connect(arbiter).resolveDispute(escrowId, 7000))
+        .to.emit(escrowContract, "DisputeResolved")
+        .withArgs(escrowId, arbiter.address, recipientAmount, NET_AMOUNT - recipientAmount);
+
+      expect(await mockUSDC.balanceOf(recipient.address)).to.equal(recipientAmount);
+      expect(await mockUSDC.balanceOf(sender.address)).to.equal(senderBalanceBefore + NET_AMOUNT - recipientAmount);
+      expect((await escrowContract.getEscrow(escrowId)).status).to.equal(4); // Resolved
+    });
+
+    it("Should not let the arbiter act without a dispute", async function () {
+      await expect(
+        escrowContract.connect(arbiter).resolveDispute(escrowId, 10000)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotDisputed");
+    });
+  });
+
+  describe("Refunds", function () {
+    let escrowId;
+
+    beforeEach(async function () {
+      escrowId = await createEscrow();
+    });
+
+    it("Should only let the sender refund after expiry", async function () {
+      await expect(
+        escrowContract.connect(sender).refundEscrow(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotExpired");
+
+      await time.increase(15 * ONE_DAY);
+
+      await expect(escrowContract.connect(sender).refundEscrow(escrowId))
+        .to.emit(escrowContract, "EscrowRefunded")
+        .withArgs(escrowId, sender.address, NET_AMOUNT);
+      expect((await escrowContract.getEscrow(escrowId)).status).to.equal(5); // Refunded
+    });
+
+    it("Should not let the sender refund an approved escrow", async function () {
+      await escrowContract.connect(sender).approveRelease(escrowId);
+      await time.increase(15 * ONE_DAY);
+
+      await expect(
+        escrowContract.connect(sender).refundEscrow(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotRefundable");
+    });
+
+    it("Should let the recipient refund at any time before claiming", async function () {
+      await escrowContract.connect(sender).approveRelease(escrowId);
+      const senderBalanceBefore = await mockUSDC.balanceOf(sender.address);
+
+      await escrowContract.connect(recipient).refundEscrow(escrowId);
+
+      expect(await mockUSDC.balanceOf(sender.address)).to.equal(senderBalanceBefore + NET_AMOUNT);
+    });
+
+    it("Should not refund a disputed escrow", async function () {
+      await escrowContract.connect(recipient).raiseDispute(escrowId, "Wrong item");
+
+      await expect(
+        escrowContract.connect(recipient).refundEscrow(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotRefundable");
+    });
+
+    it("Should let the sender refund a dispute the arbiter left unresolved past its deadline", async function () {
+      await escrowContract.connect(sender).approveRelease(escrowId);
+      await escrowContract.connect(recipient).raiseDispute(escrowId, "Wrong item");
+
+      const { disputeDeadline } = await escrowContract.getEscrow(escrowId);
+      expect(disputeDeadline).to.equal(BigInt(await time.latest()) + await escrowContract.DISPUTE_RESOLUTION_PERIOD());
+
+      await expect(
+        escrowContract.connect(sender).refundEscrow(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "DisputeStillOpen");
+
+      await time.increaseTo(disputeDeadline + 1n);
+
+      await expect(
+        escrowContract.connect(recipient).refundEscrow(escrowId)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotRefundable");
+      await expect(escrowContract.connect(sender).refundEscrow(escrowId))
+        .to.emit(escrowContract, "EscrowRefunded")
+        .withArgs(escrowId, sender.address, NET_AMOUNT);
+      expect((await escrowContract.getEscrow(escrowId)).status).to.equal(5); // Refunded
+
+      await expect(
+        escrowContract.connect(arbiter).resolveDispute(escrowId, 5000)
+      ).to.be.revertedWithCustomError(escrowContract, "EscrowNotDisputed");
+    });
+
+    it("Should still let the arbiter resolve after the deadline if the sender hasn't refunded", async function () {
+      await escrowContract.connect(sender).raiseDispute(escrowId, "Late delivery");
+      await time.increase(31 * ONE_DAY);
+
+      await expect(escrowContract.connect(arbiter).resolveDispute(escrowId, 10000))
+        .to.emit(escrowContract, "DisputeResolved")
+        .withArgs(escrowId, arbiter.address, NET_AMOUNT, 0);
+    });
+  });
+});
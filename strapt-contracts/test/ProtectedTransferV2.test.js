@@ -1,6 +1,7 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
 const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { anyValue } = require("@nomicfoundation/hardhat-chai-matchers/withArgs");
 
 describe("ProtectedTransferV2", function () {
   // Test variables
@@ -20,12 +21,73 @@ describe("ProtectedTransferV2", function () {
   const TRANSFER_AMOUNT = ethers.parseUnits("100", 6);  // 100 USDC
   const FEE_BASIS_POINTS = 20; // 0.2%
   const ONE_DAY = 24 * 60 * 60; // 24 hours in seconds
+  const LINK_SECRET = "K7Q2M9X4TZ8R3WNB"; // Carried in the link of a transfer without password
 
   // Helper function to create a claim code hash
   function createClaimCodeHash(claimCode) {
     return ethers.keccak256(ethers.toUtf8Bytes(claimCode));
   }
 
+  // Helper function to sign an EIP-2612 permit and split it for the ...WithPermit functions
+  async function signPermit(permitToken, owner, spender, value, deadline) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const signature = await owner.signTypedData(
+      {
+        name: await permitToken.name(),
+        version: "1",
+        chainId,
+        verifyingContract: await permitToken.getAddress(),
+      },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      {
+        owner: owner.address,
+        spender,
+        value,
+        nonce: await permitToken.nonces(owner.address),
+        deadline,
+      }
+    );
+    const { v, r, s } = ethers.Signature.from(signature);
+    return { deadline, v, r, s };
+  }
+
+  // Helper function to sign an EIP-712 claim that a relayer can submit for the claimer
+  async function signClaim(claimer, id, deadline) {
+    const { chainId } = await ethers.provider.getNetwork();
+    return claimer.signTypedData(
+      {
+        name: "ProtectedTransferV2",
+        version: "1",
+        chainId,
+        verifyingContract: await protectedTransfer.getAddress(),
+      },
+      {
+        Claim: [
+          { name: "id", type: "bytes32" },
+          { name: "claimer", type: "address" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { id, claimer: claimer.address, deadline }
+    );
+  }
+
+  // Helper function to claim a link transfer through commit + reveal
+  async function commitAndRevealClaim(claimer, transferId, claimCode) {
+    const salt = ethers.hexlify(ethers.randomBytes(32));
+    const commitment = await protectedTransfer.getClaimCommitment(transferId, claimCode, claimer.address, salt);
+    await protectedTransfer.connect(claimer).commitClaim(commitment);
+    return protectedTransfer.connect(claimer).revealClaim(transferId, claimCode, salt);
+  }
+
   beforeEach(async function () {
     // Get signers
     [owner, feeCollector, sender, recipient, user3, user4] = await ethers.getSigners();
@@ -229,11 +291,11 @@ describe("ProtectedTransferV2", function () {
     it("Should require the correct password to claim", async function () {
       // Try to claim with wrong password
       await expect(
-        protectedTransfer.connect(user3).claimTransfer(transferId, "wrongpassword")
+        commitAndRevealClaim(user3, transferId, "wrongpassword")
       ).to.be.revertedWithCustomError(protectedTransfer, "InvalidClaimCode");
 
       // Claim with correct password
-      await protectedTransfer.connect(user3).claimTransfer(transferId, claimCode);
+      await commitAndRevealClaim(user3, transferId, claimCode);
 
       // Check claimer balance
       const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
@@ -243,7 +305,7 @@ describe("ProtectedTransferV2", function () {
 
     it("Should allow anyone with the correct password to claim", async function () {
       // Claim with correct password from a different user
-      await protectedTransfer.connect(user4).claimTransfer(transferId, claimCode);
+      await commitAndRevealClaim(user4, transferId, claimCode);
 
       // Check claimer balance
       const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
@@ -262,7 +324,7 @@ describe("ProtectedTransferV2", function () {
         TRANSFER_AMOUNT,
         0, // Use default expiry
         false, // No password
-        ethers.ZeroHash // Empty claim code hash
+        createClaimCodeHash(LINK_SECRET) // Link secret
       );
 
       // Get the transfer ID from the event
@@ -283,15 +345,282 @@ describe("ProtectedTransferV2", function () {
       expect(transfer[9]).to.equal(false); // hasPassword
     });
 
-    it("Should allow anyone to claim without a password", async function () {
-      // Claim without password
-      await protectedTransfer.connect(user3).claimTransfer(transferId, "");
+    it("Should allow anyone with the link to claim without a password", async function () {
+      // Claim with the secret carried in the link
+      await commitAndRevealClaim(user3, transferId, LINK_SECRET);
 
       // Check claimer balance
       const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
       const expectedAmount = TRANSFER_AMOUNT - fee;
       expect(await mockUSDC.balanceOf(user3.address)).to.equal(expectedAmount);
     });
+
+    it("Should not allow a claim by someone who only knows the transfer ID", async function () {
+      // The transfer ID is public in TransferCreated, the link secret is not
+      await expect(
+        commitAndRevealClaim(user4, transferId, "")
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidClaimCode");
+
+      const transfer = await protectedTransfer.getTransfer(transferId);
+      expect(transfer[6]).to.equal(0); // status = Pending
+    });
+
+    it("Should reject a link transfer created without a secret", async function () {
+      await expect(
+        protectedTransfer.connect(sender).createLinkTransfer(
+          await mockUSDC.getAddress(),
+          TRANSFER_AMOUNT,
+          0,
+          false,
+          ethers.ZeroHash
+        )
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidClaimCode");
+    });
+  });
+
+  describe("Link Transfer Commit-Reveal Claims", function () {
+    let transferId;
+    const claimCode = "revealme";
+
+    beforeEach(async function () {
+      const tx = await protectedTransfer.connect(sender).createLinkTransfer(
+        await mockUSDC.getAddress(),
+        TRANSFER_AMOUNT,
+        0, // Use default expiry
+        true, // Has password
+        createClaimCodeHash(claimCode)
+      );
+
+      const receipt = await tx.wait();
+      const event = receipt.logs.find(
+        log => log.fragment && log.fragment.name === 'TransferCreated'
+      );
+      transferId = event.args[0];
+    });
+
+    it("Should reject a plain claim of a link transfer", async function () {
+      await expect(
+        protectedTransfer.connect(user3).claimTransfer(transferId, claimCode)
+      ).to.be.revertedWithCustomError(protectedTransfer, "CommitmentRequired");
+    });
+
+    it("Should reject a reveal without a matching commitment", async function () {
+      await expect(
+        protectedTransfer.connect(user3).revealClaim(transferId, claimCode, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(protectedTransfer, "CommitmentNotFound");
+    });
+
+    it("Should reject a reveal in the same block as the commitment", async function () {
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      const commitment = await protectedTransfer.getClaimCommitment(transferId, claimCode, user3.address, salt);
+
+      await ethers.provider.send("evm_setAutomine", [false]);
+      try {
+        const commitTx = await protectedTransfer.connect(user3).commitClaim(commitment);
+        const revealTx = await protectedTransfer.connect(user3).revealClaim(transferId, claimCode, salt, { gasLimit: 500000 });
+        await ethers.provider.send("evm_mine", []);
+
+        expect((await commitTx.wait()).status).to.equal(1);
+        await expect(revealTx.wait()).to.be.rejected;
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+
+      expect(await protectedTransfer.claimCommitments(commitment)).to.not.equal(0);
+    });
+
+    it("Should not let a front-runner reuse someone else's reveal", async function () {
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      const commitment = await protectedTransfer.getClaimCommitment(transferId, claimCode, user3.address, salt);
+      await protectedTransfer.connect(user3).commitClaim(commitment);
+
+      // user4 copies the revealed code and salt, but the commitment is bound to user3
+      await expect(
+        protectedTransfer.connect(user4).revealClaim(transferId, claimCode, salt)
+      ).to.be.revertedWithCustomError(protectedTransfer, "CommitmentNotFound");
+
+      await expect(protectedTransfer.connect(user3).revealClaim(transferId, claimCode, salt))
+        .to.emit(protectedTransfer, "TransferClaimed");
+      expect(await protectedTransfer.claimCommitments(commitment)).to.equal(0);
+    });
+
+    it("Should reject reusing a commitment", async function () {
+      const commitment = ethers.hexlify(ethers.randomBytes(32));
+      await protectedTransfer.connect(user3).commitClaim(commitment);
+
+      await expect(
+        protectedTransfer.connect(user4).commitClaim(commitment)
+      ).to.be.revertedWithCustomError(protectedTransfer, "CommitmentAlreadyExists");
+    });
+  });
+
+  describe("Permit Transfers", function () {
+    let permitSpender;
+    let deadline;
+
+    beforeEach(async function () {
+      // user3 holds tokens but has never approved the contract
+      await mockUSDC.mint(user3.address, INITIAL_BALANCE);
+      permitSpender = await protectedTransfer.getAddress();
+      deadline = (await time.latest()) + ONE_DAY;
+    });
+
+    it("Should create a link transfer with a permit instead of an approval", async function () {
+      const permit = await signPermit(mockUSDC, user3, permitSpender, TRANSFER_AMOUNT, deadline);
+
+      await expect(
+        protectedTransfer.connect(user3).createLinkTransferWithPermit(
+          await mockUSDC.getAddress(),
+          TRANSFER_AMOUNT,
+          0,
+          false,
+          createClaimCodeHash(LINK_SECRET),
+          permit
+        )
+      ).to.emit(protectedTransfer, "TransferCreated");
+
+      expect(await mockUSDC.balanceOf(user3.address)).to.equal(INITIAL_BALANCE - TRANSFER_AMOUNT);
+      expect(await mockUSDC.allowance(user3.address, permitSpender)).to.equal(0);
+    });
+
+    it("Should create a direct transfer with a permit instead of an approval", async function () {
+      const permit = await signPermit(mockUSDC, user3, permitSpender, TRANSFER_AMOUNT, deadline);
+
+      const tx = await protectedTransfer.connect(user3).createDirectTransferWithPermit(
+        recipient.address,
+        await mockUSDC.getAddress(),
+        TRANSFER_AMOUNT,
+        0,
+        false,
+        ethers.ZeroHash,
+        permit
+      );
+      const receipt = await tx.wait();
+      const event = receipt.logs.find(
+        log => log.fragment && log.fragment.name === 'TransferCreated'
+      );
+
+      await protectedTransfer.connect(recipient).claimTransfer(event.args[0], "");
+      const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
+      expect(await mockUSDC.balanceOf(recipient.address)).to.equal(TRANSFER_AMOUNT - fee);
+    });
+
+    it("Should still work when the permit was already used by someone else", async function () {
+      const permit = await signPermit(mockUSDC, user3, permitSpender, TRANSFER_AMOUNT, deadline);
+
+      // A front-runner submits the permit first; the allowance is set either way
+      await mockUSDC.connect(user4).permit(user3.address, permitSpender, TRANSFER_AMOUNT, permit.deadline, permit.v, permit.r, permit.s);
+
+      await expect(
+        protectedTransfer.connect(user3).createLinkTransferWithPermit(
+          await mockUSDC.getAddress(),
+          TRANSFER_AMOUNT,
+          0,
+          false,
+          createClaimCodeHash(LINK_SECRET),
+          permit
+        )
+      ).to.emit(protectedTransfer, "TransferCreated");
+    });
+
+    it("Should revert with an invalid permit and no allowance", async function () {
+      // Signed by the wrong account
+      const permit = await signPermit(mockUSDC, user4, permitSpender, TRANSFER_AMOUNT, deadline);
+
+      await expect(
+        protectedTransfer.connect(user3).createLinkTransferWithPermit(
+          await mockUSDC.getAddress(),
+          TRANSFER_AMOUNT,
+          0,
+          false,
+          createClaimCodeHash(LINK_SECRET),
+          permit
+        )
+      ).to.be.revertedWithCustomError(mockUSDC, "ERC20InsufficientAllowance");
+    });
+  });
+
+  describe("Signed Claims", function () {
+    let directTransferId;
+    let linkTransferId;
+    let deadline;
+    const claimCode = "gasless";
+
+    beforeEach(async function () {
+      let tx = await protectedTransfer.connect(sender).createDirectTransfer(
+        recipient.address,
+        await mockUSDC.getAddress(),
+        TRANSFER_AMOUNT,
+        0,
+        true,
+        createClaimCodeHash(claimCode)
+      );
+      let receipt = await tx.wait();
+      directTransferId = receipt.logs.find(log => log.fragment && log.fragment.name === 'TransferCreated').args[0];
+
+      tx = await protectedTransfer.connect(sender).createLinkTransfer(
+        await mockUSDC.getAddress(),
+        TRANSFER_AMOUNT,
+        0,
+        true,
+        createClaimCodeHash(claimCode)
+      );
+      receipt = await tx.wait();
+      linkTransferId = receipt.logs.find(log => log.fragment && log.fragment.name === 'TransferCreated').args[0];
+
+      deadline = (await time.latest()) + ONE_DAY;
+    });
+
+    it("Should let a relayer claim a direct transfer for the recipient", async function () {
+      const signature = await signClaim(recipient, directTransferId, deadline);
+
+      // user4 acts as the relayer and pays the gas
+      await expect(
+        protectedTransfer.connect(user4).claimTransferWithSignature(directTransferId, claimCode, recipient.address, deadline, signature)
+      ).to.emit(protectedTransfer, "TransferClaimed").withArgs(directTransferId, recipient.address, anyValue);
+
+      const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
+      expect(await mockUSDC.balanceOf(recipient.address)).to.equal(TRANSFER_AMOUNT - fee);
+      expect(await mockUSDC.balanceOf(user4.address)).to.equal(0);
+    });
+
+    it("Should let a relayer commit and reveal a link transfer for the claimer", async function () {
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      const commitment = await protectedTransfer.getClaimCommitment(linkTransferId, claimCode, user3.address, salt);
+      const signature = await signClaim(user3, linkTransferId, deadline);
+
+      await protectedTransfer.connect(user4).commitClaim(commitment);
+      await expect(
+        protectedTransfer.connect(user4).revealClaimWithSignature(linkTransferId, claimCode, salt, user3.address, deadline, signature)
+      ).to.emit(protectedTransfer, "TransferClaimed").withArgs(linkTransferId, user3.address, anyValue);
+
+      expect(await mockUSDC.balanceOf(user4.address)).to.equal(0);
+    });
+
+    it("Should reject a signature from someone other than the claimer", async function () {
+      const signature = await signClaim(user4, directTransferId, deadline);
+
+      await expect(
+        protectedTransfer.connect(user4).claimTransferWithSignature(directTransferId, claimCode, recipient.address, deadline, signature)
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidClaimSignature");
+    });
+
+    it("Should reject an expired signature", async function () {
+      const signature = await signClaim(recipient, directTransferId, deadline);
+      await time.increaseTo(deadline + 1);
+
+      await expect(
+        protectedTransfer.connect(user4).claimTransferWithSignature(directTransferId, claimCode, recipient.address, deadline, signature)
+      ).to.be.revertedWithCustomError(protectedTransfer, "ClaimSignatureExpired");
+    });
+
+    it("Should still require commit-reveal for link transfers", async function () {
+      const signature = await signClaim(user3, linkTransferId, deadline);
+
+      await expect(
+        protectedTransfer.connect(user4).claimTransferWithSignature(linkTransferId, claimCode, user3.address, deadline, signature)
+      ).to.be.revertedWithCustomError(protectedTransfer, "CommitmentRequired");
+    });
   });
 
   describe("Refund Functionality", function () {
@@ -365,4 +694,205 @@ describe("ProtectedTransferV2", function () {
       ).to.be.revertedWithCustomError(protectedTransfer, "TransferNotRefundable");
     });
   });
+
+  describe("Batch Refunds", function () {
+    let transferIds;
+
+    beforeEach(async function () {
+      // Two link transfers in different tokens, so the refund covers both
+      transferIds = [];
+      for (const token of [mockUSDC, mockIDRX]) {
+        const tx = await protectedTransfer.connect(sender).createLinkTransfer(
+          await token.getAddress(),
+          TRANSFER_AMOUNT,
+          (await time.latest()) + ONE_DAY,
+          false,
+          createClaimCodeHash(LINK_SECRET)
+        );
+        const receipt = await tx.wait();
+        const event = receipt.logs.find(
+          log => log.fragment && log.fragment.name === 'TransferCreated'
+        );
+        transferIds.push(event.args[0]);
+      }
+    });
+
+    it("Should refund every expired transfer in one transaction", async function () {
+      const initialUSDC = await mockUSDC.balanceOf(sender.address);
+      const initialIDRX = await mockIDRX.balanceOf(sender.address);
+      await time.increase(ONE_DAY + 1);
+
+      const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
+      await expect(protectedTransfer.connect(sender).refundTransfers(transferIds))
+        .to.emit(protectedTransfer, "TransferRefunded")
+        .withArgs(transferIds[1], sender.address, TRANSFER_AMOUNT - fee);
+
+      expect(await mockUSDC.balanceOf(sender.address)).to.equal(initialUSDC + TRANSFER_AMOUNT - fee);
+      expect(await mockIDRX.balanceOf(sender.address)).to.equal(initialIDRX + TRANSFER_AMOUNT - fee);
+      for (const transferId of transferIds) {
+        const transfer = await protectedTransfer.getTransfer(transferId);
+        expect(transfer[6]).to.equal(2); // status = Refunded
+      }
+    });
+
+    it("Should revert the whole batch if one transfer is not refundable", async function () {
+      await time.increase(ONE_DAY + 1);
+      await protectedTransfer.connect(sender).refundTransfer(transferIds[1]);
+
+      await expect(
+        protectedTransfer.connect(sender).refundTransfers(transferIds)
+      ).to.be.revertedWithCustomError(protectedTransfer, "TransferNotRefundable");
+      const transfer = await protectedTransfer.getTransfer(transferIds[0]);
+      expect(transfer[6]).to.equal(0); // status = Pending
+    });
+
+    it("Should not refund other senders' transfers", async function () {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(
+        protectedTransfer.connect(user3).refundTransfers(transferIds)
+      ).to.be.revertedWithCustomError(protectedTransfer, "NotTransferSender");
+    });
+
+    it("Should reject empty and oversized batches", async function () {
+      await expect(
+        protectedTransfer.connect(sender).refundTransfers([])
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidBatchSize");
+
+      const maxBatchSize = Number(await protectedTransfer.MAX_BATCH_SIZE());
+      await expect(
+        protectedTransfer.connect(sender).refundTransfers(Array(maxBatchSize + 1).fill(transferIds[0]))
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidBatchSize");
+    });
+  });
+
+  describe("Cancel Functionality", function () {
+    let transferId;
+
+    beforeEach(async function () {
+      const tx = await protectedTransfer.connect(sender).createDirectTransfer(
+        recipient.address,
+        await mockUSDC.getAddress(),
+        TRANSFER_AMOUNT,
+        (await time.latest()) + ONE_DAY,
+        true,
+        createClaimCodeHash("canceltest")
+      );
+
+      const receipt = await tx.wait();
+      const event = receipt.logs.find(
+        log => log.fragment && log.fragment.name === 'TransferCreated'
+      );
+      transferId = event.args[0];
+    });
+
+    it("Should allow the sender to cancel before expiry", async function () {
+      const initialBalance = await mockUSDC.balanceOf(sender.address);
+      const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
+
+      await expect(protectedTransfer.connect(sender).cancelTransfer(transferId))
+        .to.emit(protectedTransfer, "TransferCancelled")
+        .withArgs(transferId, sender.address, TRANSFER_AMOUNT - fee);
+
+      expect(await mockUSDC.balanceOf(sender.address)).to.equal(initialBalance + TRANSFER_AMOUNT - fee);
+
+      const transfer = await protectedTransfer.getTransfer(transferId);
+      expect(transfer[6]).to.equal(4); // status = Cancelled
+    });
+
+    it("Should not allow a cancelled transfer to be claimed", async function () {
+      await protectedTransfer.connect(sender).cancelTransfer(transferId);
+
+      await expect(
+        protectedTransfer.connect(recipient).claimTransfer(transferId, "canceltest")
+      ).to.be.revertedWithCustomError(protectedTransfer, "TransferNotClaimable");
+    });
+
+    it("Should not allow non-sender to cancel", async function () {
+      await expect(
+        protectedTransfer.connect(recipient).cancelTransfer(transferId)
+      ).to.be.revertedWithCustomError(protectedTransfer, "NotTransferSender");
+    });
+
+    it("Should not allow cancelling a claimed transfer", async function () {
+      await protectedTransfer.connect(recipient).claimTransfer(transferId, "canceltest");
+
+      await expect(
+        protectedTransfer.connect(sender).cancelTransfer(transferId)
+      ).to.be.revertedWithCustomError(protectedTransfer, "TransferNotCancellable");
+    });
+  });
+
+  describe("Batch Direct Transfers", function () {
+    it("Should create one transfer per batch entry", async function () {
+      const expiry = (await time.latest()) + ONE_DAY;
+      const batch = [
+        { recipient: recipient.address, tokenAddress: await mockUSDC.getAddress(), amount: TRANSFER_AMOUNT, expiry },
+        { recipient: user3.address, tokenAddress: await mockIDRX.getAddress(), amount: TRANSFER_AMOUNT, expiry: 0 },
+      ];
+
+      const tx = await protectedTransfer.connect(sender).createDirectTransferBatch(batch);
+      const receipt = await tx.wait();
+      const events = receipt.logs.filter(
+        log => log.fragment && log.fragment.name === 'TransferCreated'
+      );
+      expect(events.length).to.equal(2);
+
+      // Both transfers are claimable by their recipients without a password
+      await protectedTransfer.connect(recipient).claimTransfer(events[0].args[0], "");
+      await protectedTransfer.connect(user3).claimTransfer(events[1].args[0], "");
+
+      const fee = TRANSFER_AMOUNT * BigInt(FEE_BASIS_POINTS) / 10000n;
+      expect(await mockUSDC.balanceOf(recipient.address)).to.equal(TRANSFER_AMOUNT - fee);
+      expect(await mockIDRX.balanceOf(user3.address)).to.equal(TRANSFER_AMOUNT - fee);
+    });
+
+    it("Should give identical entries distinct transfer IDs", async function () {
+      const entry = {
+        recipient: recipient.address,
+        tokenAddress: await mockUSDC.getAddress(),
+        amount: TRANSFER_AMOUNT,
+        expiry: 0,
+      };
+
+      const tx = await protectedTransfer.connect(sender).createDirectTransferBatch([entry, entry]);
+      const receipt = await tx.wait();
+      const ids = receipt.logs
+        .filter(log => log.fragment && log.fragment.name === 'TransferCreated')
+        .map(log => log.args[0]);
+
+      expect(ids.length).to.equal(2);
+      expect(ids[0]).to.not.equal(ids[1]);
+      expect((await protectedTransfer.getRecipientTransfers(recipient.address)).length).to.equal(2);
+    });
+
+    it("Should revert the whole batch if one entry is invalid", async function () {
+      const batch = [
+        { recipient: recipient.address, tokenAddress: await mockUSDC.getAddress(), amount: TRANSFER_AMOUNT, expiry: 0 },
+        { recipient: user3.address, tokenAddress: await mockUSDC.getAddress(), amount: 0, expiry: 0 },
+      ];
+
+      await expect(
+        protectedTransfer.connect(sender).createDirectTransferBatch(batch)
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidAmount");
+      expect(await mockUSDC.balanceOf(sender.address)).to.equal(INITIAL_BALANCE);
+    });
+
+    it("Should reject empty and oversized batches", async function () {
+      await expect(
+        protectedTransfer.connect(sender).createDirectTransferBatch([])
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidBatchSize");
+
+      const maxBatchSize = Number(await protectedTransfer.MAX_BATCH_SIZE());
+      const entry = {
+        recipient: recipient.address,
+        tokenAddress: await mockUSDC.getAddress(),
+        amount: 1n,
+        expiry: 0,
+      };
+      await expect(
+        protectedTransfer.connect(sender).createDirectTransferBatch(Array(maxBatchSize + 1).fill(entry))
+      ).to.be.revertedWithCustomError(protectedTransfer, "InvalidBatchSize");
+    });
+  });
 });
@@ -16,6 +16,58 @@ describe("StraptDrop", function () {
   const INITIAL_SUPPLY = ethers.parseUnits("1000000", TOKEN_DECIMALS);
   const BASIS_POINTS = 100; // Match the contract's BASIS_POINTS constant
 
+  // Helper function to sign an EIP-2612 permit and split it for the ...WithPermit functions
+  async function signPermit(permitToken, owner, spender, value, deadline) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const signature = await owner.signTypedData(
+      {
+        name: await permitToken.name(),
+        version: "1",
+        chainId,
+        verifyingContract: await permitToken.getAddress(),
+      },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      {
+        owner: owner.address,
+        spender,
+        value,
+        nonce: await permitToken.nonces(owner.address),
+        deadline,
+      }
+    );
+    const { v, r, s } = ethers.Signature.from(signature);
+    return { deadline, v, r, s };
+  }
+
+  // Helper function to sign an EIP-712 claim that a relayer can submit for the claimer
+  async function signClaim(claimer, id, deadline) {
+    const { chainId } = await ethers.provider.getNetwork();
+    return claimer.signTypedData(
+      {
+        name: "StraptDrop",
+        version: "1",
+        chainId,
+        verifyingContract: await straptDrop.getAddress(),
+      },
+      {
+        Claim: [
+          { name: "id", type: "bytes32" },
+          { name: "claimer", type: "address" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { id, claimer: claimer.address, deadline }
+    );
+  }
+
   beforeEach(async function () {
     // Get signers
     [owner, user1, user2, user3, feeCollector] = await ethers.getSigners();
@@ -255,6 +307,29 @@ describe("StraptDrop", function () {
       const feeCollectorAddress = await feeCollector.getAddress();
       expect(await mockToken.balanceOf(feeCollectorAddress)).to.equal(feeAmount);
     });
+
+    it("Should create a drop with a permit instead of an approval", async function () {
+      const straptDropAddress = await straptDrop.getAddress();
+
+      // user2 holds tokens but has never approved the contract
+      const deadline = (await time.latest()) + 3600;
+      const permit = await signPermit(mockToken, user2, straptDropAddress, totalAmount, deadline);
+
+      await expect(
+        straptDrop.connect(user2).createDropWithPermit(
+          await mockToken.getAddress(),
+          totalAmount,
+          totalRecipients,
+          false,
+          expiryTime,
+          message,
+          permit
+        )
+      ).to.emit(straptDrop, "DropCreated");
+
+      expect(await mockToken.balanceOf(user2.address)).to.equal(INITIAL_SUPPLY - totalAmount);
+      expect(await mockToken.allowance(user2.address, straptDropAddress)).to.equal(0);
+    });
   });
 
   describe("Claim Drop", function () {
@@ -487,6 +562,33 @@ describe("StraptDrop", function () {
         .to.be.revertedWithCustomError(straptDrop, "AlreadyClaimed");
     });
 
+    it("Should let a relayer claim on behalf of a signed claimer", async function () {
+      const deadline = expiryTime;
+      const signature = await signClaim(user3, fixedDropId, deadline);
+
+      // User2 relays the claim and pays the gas; user3 receives the tokens
+      const user2BalanceBefore = await mockToken.balanceOf(user2.address);
+      await expect(straptDrop.connect(user2).claimDropWithSignature(fixedDropId, user3.address, deadline, signature))
+        .to.emit(straptDrop, "DropClaimed");
+
+      expect(await straptDrop.hasAddressClaimed(fixedDropId, user3.address)).to.equal(true);
+      expect(await straptDrop.hasAddressClaimed(fixedDropId, user2.address)).to.equal(false);
+      expect(await mockToken.balanceOf(user3.address)).to.equal(await straptDrop.getClaimedAmount(fixedDropId, user3.address));
+      expect(await mockToken.balanceOf(user2.address)).to.equal(user2BalanceBefore);
+
+      // The same signature can't claim twice
+      await expect(straptDrop.connect(user2).claimDropWithSignature(fixedDropId, user3.address, deadline, signature))
+        .to.be.revertedWithCustomError(straptDrop, "AlreadyClaimed");
+    });
+
+    it("Should reject a relayed claim signed by another account", async function () {
+      const deadline = expiryTime;
+      const signature = await signClaim(user2, fixedDropId, deadline);
+
+      await expect(straptDrop.connect(user2).claimDropWithSignature(fixedDropId, user3.address, deadline, signature))
+        .to.be.revertedWithCustomError(straptDrop, "InvalidClaimSignature");
+    });
+
     it("Should mark drop as inactive when all recipients have claimed", async function () {
       // Create a drop with only 2 recipients
       const mockTokenAddress = await mockToken.getAddress();
@@ -0,0 +1,99 @@
+const { expect } = require("chai");
+const hre = require("hardhat");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const { ethers } = hre;
+
+describe("deploy-local task", function () {
+  let frontendDir;
+  let deploymentsDir;
+  let deployment;
+  let accounts;
+
+  const MINT_AMOUNT = 1000;
+  const FUNDED_ACCOUNTS = 2;
+
+  const readJson = (file) => JSON.parse(fs.readFileSync(file, "utf8"));
+
+  before(async function () {
+    accounts = await ethers.getSigners();
+
+    frontendDir = fs.mkdtempSync(path.join(os.tmpdir(), "strapt-frontend-"));
+    deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "strapt-deployments-"));
+
+    // Existing testnet entries must survive a local deploy
+    fs.writeFileSync(
+      path.join(frontendDir, "contract-config.json"),
+      JSON.stringify({ 4202: { PaymentStream: { address: "0xDFa0a6101f25630d3122e1b6b34590848ba35402" } } })
+    );
+
+    deployment = await hre.run("deploy-local", {
+      frontend: frontendDir,
+      deployments: deploymentsDir,
+      accounts: FUNDED_ACCOUNTS,
+      mint: MINT_AMOUNT,
+    });
+  });
+
+  after(function () {
+    fs.rmSync(frontendDir, { recursive: true, force: true });
+    fs.rmSync(deploymentsDir, { recursive: true, force: true });
+  });
+
+  it("Should deploy every contract on the local chain", async function () {
+    expect(deployment.chainId).to.equal(31337);
+
+    for (const address of Object.values(deployment.contracts)) {
+      expect(await ethers.provider.getCode(address)).to.not.equal("0x");
+    }
+  });
+
+  it("Should mint mock tokens to the first accounts only", async function () {
+    const usdc = await ethers.getContractAt("MockERC20", deployment.tokens.USDC);
+    const idrx = await ethers.getContractAt("MockERC20", deployment.tokens.IDRX);
+
+    expect(await usdc.decimals()).to.equal(6);
+    expect(await idrx.decimals()).to.equal(2);
+    expect(await usdc.balanceOf(accounts[1].address)).to.equal(ethers.parseUnits(String(MINT_AMOUNT), 6));
+    expect(await idrx.balanceOf(accounts[1].address)).to.equal(ethers.parseUnits(String(MINT_AMOUNT), 2));
+    expect(await usdc.balanceOf(accounts[FUNDED_ACCOUNTS].address)).to.equal(0);
+  });
+
+  it("Should support both tokens and fund the faucet", async function () {
+    const protectedTransfer = await ethers.getContractAt("ProtectedTransferV2", deployment.contracts.ProtectedTransferV2);
+    const paymentStream = await ethers.getContractAt("PaymentStream", deployment.contracts.PaymentStream);
+    const usdc = await ethers.getContractAt("MockERC20", deployment.tokens.USDC);
+
+    for (const token of Object.values(deployment.tokens)) {
+      expect(await protectedTransfer.supportedTokens(token)).to.equal(true);
+      expect(await paymentStream.supportedTokens(token)).to.equal(true);
+    }
+    expect(await usdc.balanceOf(deployment.contracts.USDCFaucet)).to.be.gt(0);
+  });
+
+  it("Should write addresses and tokens into the frontend config by chain ID", function () {
+    const config = readJson(path.join(frontendDir, "contract-config.json"));
+    const tokens = readJson(path.join(frontendDir, "tokens.json"));
+
+    expect(config["4202"].PaymentStream.address).to.equal("0xDFa0a6101f25630d3122e1b6b34590848ba35402");
+    expect(config["31337"].ProtectedTransferV2.address).to.equal(deployment.contracts.ProtectedTransferV2);
+    expect(config["31337"].StraptDrop.address).to.equal(deployment.contracts.StraptDrop);
+    expect(config["31337"].USDCFaucet.tokenAddress).to.equal(deployment.tokens.USDC);
+    expect(config["31337"].ProtectedTransferV2.deploymentBlock).to.equal(deployment.deploymentBlocks.ProtectedTransferV2);
+    expect(config["31337"].ProtectedTransferV2.deploymentBlock).to.be.greaterThan(0);
+
+    expect(tokens["31337"].map((token) => token.symbol)).to.have.members(["USDC", "IDRX"]);
+    expect(tokens["31337"].find((token) => token.symbol === "USDC").address).to.equal(deployment.tokens.USDC);
+  });
+
+  it("Should write the contract ABIs and deployment records", function () {
+    const abi = readJson(path.join(frontendDir, "ProtectedEscrow.json")).abi;
+    expect(abi.some((item) => item.name === "createEscrow")).to.equal(true);
+
+    const record = readJson(path.join(deploymentsDir, `StraptDrop-${hre.network.name}.json`));
+    expect(record.contractAddress).to.equal(deployment.contracts.StraptDrop);
+    expect(record.chainId).to.equal(31337);
+  });
+});
@@ -16,6 +16,9 @@ import TransactionDetector from './components/TransactionDetector';
 // Import WalletCheck eagerly as it's needed for route protection
 import WalletCheck from './components/WalletCheck';
 
+// Pages backed by a contract only render on networks where it is deployed
+import DeploymentCheck from './components/DeploymentCheck';
+
 // Eagerly load layouts as they're used on every page
 import Layout from "./components/Layout";
 import DesktopLayout from "./components/DesktopLayout";
@@ -24,6 +27,7 @@ import DesktopLayout from "./components/DesktopLayout";
 const Index = lazy(() => import("./pages/Index"));
 const Home = lazy(() => import("./pages/Home"));
 const Transfer = lazy(() => import("./pages/Transfer"));
+const BatchTransfer = lazy(() => import("./pages/BatchTransfer"));
 const Streams = lazy(() => import("./pages/OptimizedStreams"));
 const AutoRefreshStreams = lazy(() => import("./pages/AutoRefreshStreams"));
 const Pools = lazy(() => import("./pages/Pools"));
@@ -33,6 +37,10 @@ const MyDrops = lazy(() => import("./pages/OptimizedMyDrops"));
 const Profile = lazy(() => import("./pages/OptimizedProfile"));
 const Claims = lazy(() => import("./pages/Claims"));
 const Savings = lazy(() => import("./pages/Savings"));
+const Invoices = lazy(() => import("./pages/Invoices"));
+const InvoicePay = lazy(() => import("./pages/InvoicePay"));
+const Escrows = lazy(() => import("./pages/Escrows"));
+const Approvals = lazy(() => import("./pages/Approvals"));
 const ComingSoon = lazy(() => import("./pages/ComingSoon"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
@@ -76,17 +84,30 @@ const App = () => {
                       } />
                       <Route path="transfer" element={
                         <Suspense fallback={<PageLoading />}>
-                          <Transfer />
+                          <DeploymentCheck contract="ProtectedTransferV2" feature="Transfers">
+                            <Transfer />
+                          </DeploymentCheck>
+                        </Suspense>
+                      } />
+                      <Route path="transfer/batch" element={
+                        <Suspense fallback={<PageLoading />}>
+                          <DeploymentCheck contract="ProtectedTransferV2" feature="Batch transfers" requireCurrent>
+                            <BatchTransfer />
+                          </DeploymentCheck>
                         </Suspense>
                       } />
                       <Route path="streams" element={
                         <Suspense fallback={<PageLoading />}>
-                          <AutoRefreshStreams />
+                          <DeploymentCheck contract="PaymentStream" feature="Streams">
+                            <AutoRefreshStreams />
+                          </DeploymentCheck>
                         </Suspense>
                       } />
                       <Route path="streams-old" element={
                         <Suspense fallback={<PageLoading />}>
-                          <Streams />
+                          <DeploymentCheck contract="PaymentStream" feature="Streams">
+                            <Streams />
+                          </DeploymentCheck>
                         </Suspense>
                       } />
                       <Route path="savings" element={
@@ -101,17 +122,23 @@ const App = () => {
                       } />
                       <Route path="strapt-drop" element={
                         <Suspense fallback={<PageLoading />}>
-                          <StraptDrop />
+                          <DeploymentCheck contract="StraptDrop" feature="STRAPT Drop">
+                            <StraptDrop />
+                          </DeploymentCheck>
                         </Suspense>
                       } />
                       <Route path="strapt-drop/claim/:id?" element={
                         <Suspense fallback={<PageLoading />}>
-                          <StraptDropClaim />
+                          <DeploymentCheck contract="StraptDrop" feature="STRAPT Drop">
+                            <StraptDropClaim />
+                          </DeploymentCheck>
                         </Suspense>
                       } />
                       <Route path="strapt-drop/my-drops" element={
                         <Suspense fallback={<PageLoading />}>
-                          <MyDrops />
+                          <DeploymentCheck contract="StraptDrop" feature="STRAPT Drop">
+                            <MyDrops />
+                          </DeploymentCheck>
                         </Suspense>
                       } />
                       <Route path="profile" element={
@@ -121,7 +148,31 @@ const App = () => {
                       } />
                       <Route path="claims" element={
                         <Suspense fallback={<PageLoading />}>
-                          <Claims />
+                          <DeploymentCheck contract="ProtectedTransferV2" feature="Claims">
+                            <Claims />
+                          </DeploymentCheck>
+                        </Suspense>
+                      } />
+                      <Route path="escrows" element={
+                        <Suspense fallback={<PageLoading />}>
+                          <DeploymentCheck contract="ProtectedEscrow" feature="Escrow">
+                            <Escrows />
+                          </DeploymentCheck>
+                        </Suspense>
+                      } />
+                      <Route path="invoices" element={
+                        <Suspense fallback={<PageLoading />}>
+                          <Invoices />
+                        </Suspense>
+                      } />
+                      <Route path="invoices/pay" element={
+                        <Suspense fallback={<PageLoading />}>
+                          <InvoicePay />
+                        </Suspense>
+                      } />
+                      <Route path="approvals" element={
+                        <Suspense fallback={<PageLoading />}>
+                          <Approvals />
                         </Suspense>
                       } />
                       <Route path="coming-soon" element={
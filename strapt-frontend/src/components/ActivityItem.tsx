@@ -3,6 +3,7 @@ import { useState } from 'react';
 import { ArrowUpRight, ArrowDownLeft, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import TransactionDetails from './TransactionDetails';
+import TransferNote from './transfer/TransferNote';
 
 type ActivityType = 'sent' | 'received' | 'pending';
 
@@ -13,9 +14,10 @@ interface ActivityItemProps {
   date: string;
   recipient?: string;
   hash?: string;
+  transferId?: string;
 }
 
-const ActivityItem = ({ type, title, amount, date, recipient, hash }: ActivityItemProps) => {
+const ActivityItem = ({ type, title, amount, date, recipient, hash, transferId }: ActivityItemProps) => {
   const [showDetails, setShowDetails] = useState(false);
 
   const getIcon = () => {
@@ -53,6 +55,7 @@ const ActivityItem = ({ type, title, amount, date, recipient, hash }: ActivityIt
           <div>
             <h3 className="font-medium">{title}</h3>
             <p className="text-xs text-muted-foreground">{recipient || date}</p>
+            <TransferNote transferId={transferId ?? hash} compact />
           </div>
         </div>
         <span className={cn('font-semibold', getAmountColor())}>{amount}</span>
@@ -67,7 +70,8 @@ const ActivityItem = ({ type, title, amount, date, recipient, hash }: ActivityIt
           amount,
           date,
           recipient,
-          hash
+          hash,
+          transferId
         }}
       />
     </>
@@ -0,0 +1,70 @@
+import { Fragment, type ReactNode } from 'react';
+import { useAccount, useChainId, useSwitchChain } from 'wagmi';
+import { Network } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { getSupportedChain } from '@/lib/chains';
+import { getDeployedChainIds, isContractDeployed, isCurrentContractDeployed, type ContractName } from '@/services/ContractRegistryService';
+
+interface DeploymentCheckProps {
+  contract: ContractName;
+  feature: string;
+  requireCurrent?: boolean;   // The feature calls functions older deployments don't have
+  children: ReactNode;
+}
+
+/**
+ * Renders a feature only on networks where its contract is deployed, and offers
+ * to switch networks everywhere else. The feature remounts on every network change
+ * so it never keeps data from the previous chain.
+ */
+const DeploymentCheck = ({ contract, feature, requireCurrent = false, children }: DeploymentCheckProps) => {
+  const configChainId = useChainId();
+  const { chainId: walletChainId } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+
+  // The wallet may be on a network the app doesn't support at all
+  const chainId = walletChainId ?? configChainId;
+
+  const isDeployed = requireCurrent ? isCurrentContractDeployed : isContractDeployed;
+  if (isDeployed(contract, chainId)) {
+    return <Fragment key={chainId}>{children}</Fragment>;
+  }
+
+  const networkName = getSupportedChain(chainId)?.name ?? 'this network';
+  const deployedChains = getDeployedChainIds(contract, requireCurrent).map((id) => getSupportedChain(id)).filter((chain) => !!chain);
+
+  const handleSwitch = (targetChainId: number, name: string) => {
+    switchChain({ chainId: targetChainId }, {
+      onError: (error) => {
+        console.error('Error switching network:', error);
+        toast.error(`Could not switch to ${name}`);
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] px-4 text-center">
+      <div className="rounded-full bg-primary/10 p-6 mb-6">
+        <Network className="h-12 w-12 text-primary" />
+      </div>
+
+      <h1 className="text-2xl font-bold mb-3">Not deployed here</h1>
+      <p className="text-muted-foreground mb-8 max-w-md">
+        {deployedChains.length > 0
+          ? `${feature} isn't available on ${networkName}. Switch to a network where it is deployed to use it.`
+          : `${feature} isn't deployed on any network yet.`}
+      </p>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        {deployedChains.map((chain) => (
+          <Button key={chain.id} onClick={() => handleSwitch(chain.id, chain.name)} disabled={isPending}>
+            Switch to {chain.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DeploymentCheck;
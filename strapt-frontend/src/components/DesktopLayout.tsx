@@ -5,7 +5,6 @@ import {
   ArrowUp,
   BarChart2,
   Users,
-  Bell,
   Shield,
   Wallet,
   Menu,
@@ -18,6 +17,9 @@ import { Dialog, DialogContent } from '@/components/ui/dialog';
 import FaucetClaim from './FaucetClaim';
 import { cn } from '@/lib/utils';
 import XellarWalletProfile from './XellarWalletProfile';
+import NotificationCenter from './NotificationCenter';
+import PendingTransactions from './PendingTransactions';
+import NetworkSelector from './NetworkSelector';
 import { ThemeToggleSimple } from '@/components/ui/theme-toggle';
 
 const DesktopLayout = () => {
@@ -122,9 +124,9 @@ const DesktopLayout = () => {
               <h1 className="text-lg font-bold gradient-text">{getTitle()}</h1>
               <div className="flex items-center gap-3">
                 <ThemeToggleSimple />
-                <Button variant="ghost" size="icon" className="rounded-full h-8 w-8">
-                  <Bell className="h-4 w-4" />
-                </Button>
+                <NetworkSelector />
+                <PendingTransactions />
+                <NotificationCenter />
                 <XellarWalletProfile />
               </div>
             </div>
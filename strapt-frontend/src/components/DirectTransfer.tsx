@@ -7,6 +7,8 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TransactionProgress } from './TransactionProgress';
 import { TokenSelector } from './TokenSelector';
+import { useTokenRegistry } from '@/hooks/use-token-registry';
+import type { TokenType } from '@/types/tokens';
 import { toast } from 'sonner';
 import { Copy } from 'lucide-react';
 // @ts-ignore
@@ -15,8 +17,9 @@ import Confetti from 'react-confetti';
 export function DirectTransfer() {
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
-  const [selectedToken, setSelectedToken] = useState<'USDC' | 'IDRX'>('USDC');
-  const { createDirectTransfer } = useProtectedTransferV2();
+  const registryTokens = useTokenRegistry();
+  const [selectedToken, setSelectedToken] = useState<TokenType>(() => registryTokens[0]?.symbol ?? '');
+  const { createDirectTransfer, pendingTransaction } = useProtectedTransferV2();
   const { progress, startTransaction, setError, completeTransaction } = useTransactionProgress();
   const [success, setSuccess] = useState(false);
   const [transferResult, setTransferResult] = useState<{
@@ -157,7 +160,7 @@ export function DirectTransfer() {
           {progress.status === 'idle' ? 'Transfer' : 'Processing...'}
         </Button>
 
-        <TransactionProgress />
+        <TransactionProgress progress={progress} transaction={pendingTransaction} />
       </CardContent>
     </Card>
   );
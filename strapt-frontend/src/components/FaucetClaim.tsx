@@ -7,7 +7,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useUSDCFaucet } from '@/hooks/use-usdc-faucet';
 import { useXellarWallet } from '@/hooks/use-xellar-wallet';
 import { formatUnits } from 'viem';
-import { USDC_DECIMALS } from '@/hooks/useTokenUtils';
+import { findToken } from '@/services/TokenRegistryService';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -19,6 +19,7 @@ interface FaucetClaimProps {
 const FaucetClaim = ({ onClose }: FaucetClaimProps) => {
   const { isConnected } = useXellarWallet();
   const {
+    isAvailable,
     isClaiming,
     faucetInfo,
     userClaimInfo,
@@ -46,19 +47,21 @@ const FaucetClaim = ({ onClose }: FaucetClaimProps) => {
     ? Number((userClaimInfo.totalClaimed * 100n) / faucetInfo.maxClaimPerAddress)
     : 0;
 
+  const faucetDecimals = findToken('USDC')?.decimals ?? 6;
+
   // Format claim amount
   const formattedClaimAmount = faucetInfo.claimAmount
-    ? formatUnits(faucetInfo.claimAmount, USDC_DECIMALS)
+    ? formatUnits(faucetInfo.claimAmount, faucetDecimals)
     : '10';
 
   // Format max claim amount
   const formattedMaxClaimAmount = faucetInfo.maxClaimPerAddress
-    ? formatUnits(faucetInfo.maxClaimPerAddress, USDC_DECIMALS)
+    ? formatUnits(faucetInfo.maxClaimPerAddress, faucetDecimals)
     : '100';
 
   // Format total claimed
   const formattedTotalClaimed = userClaimInfo.totalClaimed
-    ? formatUnits(userClaimInfo.totalClaimed, USDC_DECIMALS)
+    ? formatUnits(userClaimInfo.totalClaimed, faucetDecimals)
     : '0';
 
   // Check if faucet has sufficient balance
@@ -98,6 +101,15 @@ const FaucetClaim = ({ onClose }: FaucetClaimProps) => {
           </Alert>
         )}
 
+        {!isAvailable && (
+          <Alert variant="destructive" className="mt-2">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              The faucet is not deployed on this network. Switch networks to claim tokens.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {!hasSufficientBalance && isConnected && (
           <Alert variant="destructive" className="mt-2">
             <AlertCircle className="h-4 w-4" />
@@ -142,6 +154,7 @@ const FaucetClaim = ({ onClose }: FaucetClaimProps) => {
           onClick={handleClaim}
           disabled={
             !isConnected ||
+            !isAvailable ||
             isClaiming ||
             claimed ||
             !userClaimInfo.canClaim ||
@@ -1,7 +1,8 @@
-import { Bell } from 'lucide-react';
-import { Button } from '@/components/ui/button';
 import { useLocation } from 'react-router-dom';
 import XellarWalletProfile from './XellarWalletProfile';
+import NotificationCenter from './NotificationCenter';
+import PendingTransactions from './PendingTransactions';
+import NetworkSelector from './NetworkSelector';
 import { ThemeToggleSimple } from '@/components/ui/theme-toggle';
 
 const Header = () => {
@@ -20,9 +21,9 @@ const Header = () => {
           <h1 className="text-lg font-bold gradient-text">{getTitle()}</h1>
           <div className="flex items-center gap-2">
             <ThemeToggleSimple />
-            <Button variant="ghost" size="icon" className="rounded-full h-8 w-8">
-              <Bell className="h-4 w-4" />
-            </Button>
+            <NetworkSelector />
+            <PendingTransactions />
+            <NotificationCenter />
             <XellarWalletProfile />
           </div>
         </div>
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { StreamStatus } from '@/hooks/use-payment-stream';
+import { getDisplayDecimals } from '@/utils/format-utils';
 
 interface LiveStreamCounterProps {
   startTime: number;
@@ -98,7 +99,7 @@ const LiveStreamCounter = ({
       );
 
       // Format to appropriate decimal places based on token type
-      const formattedStreamed = streamedSoFar.toFixed(token === 'IDRX' ? 2 : 6);
+      const formattedStreamed = streamedSoFar.toFixed(getDisplayDecimals(token));
       setCurrentStreamed(formattedStreamed);
       const newPercentage = (streamedSoFar / totalAmount) * 100;
       setPercentage(newPercentage);
@@ -153,7 +154,7 @@ const LiveStreamCounter = ({
         <div className="flex justify-between text-xs">
           <span className="text-green-600 dark:text-green-400">Claimable</span>
           <span className="text-green-600 dark:text-green-400 font-medium">
-            {withdrawableAmount.toFixed(token === 'IDRX' ? 2 : 6)} {token}
+            {withdrawableAmount.toFixed(getDisplayDecimals(token))} {token}
           </span>
         </div>
       )}
@@ -0,0 +1,77 @@
+import { useAccount, useChainId, useSwitchChain } from 'wagmi';
+import { Check, ChevronDown, Network } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { SUPPORTED_CHAINS, getSupportedChain } from '@/lib/chains';
+
+/**
+ * Shows the active network and lets the user switch between supported networks
+ */
+const NetworkSelector = () => {
+  const configChainId = useChainId();
+  const { chainId: walletChainId, isConnected } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+
+  const chainId = walletChainId ?? configChainId;
+  const currentChain = getSupportedChain(chainId);
+
+  const handleSwitchNetwork = (targetChainId: number) => {
+    if (targetChainId === chainId) return;
+
+    const name = getSupportedChain(targetChainId)?.name ?? 'new network';
+    switchChain({ chainId: targetChainId }, {
+      onSuccess: () => toast.success(`Switched to ${name}`),
+      onError: (error) => {
+        console.error('Error switching network:', error);
+        toast.error('Failed to switch network');
+      },
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            'h-8 gap-1.5 px-2 text-xs',
+            isConnected && !currentChain && 'border-destructive text-destructive'
+          )}
+          disabled={isPending}
+        >
+          <Network className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">{currentChain?.name ?? 'Unsupported network'}</span>
+          <ChevronDown className="h-3 w-3 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Network</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {SUPPORTED_CHAINS.map((chain) => (
+          <DropdownMenuItem
+            key={chain.id}
+            className="cursor-pointer"
+            onClick={() => handleSwitchNetwork(chain.id)}
+          >
+            <div className="flex items-center justify-between w-full gap-4">
+              <span>{chain.name}</span>
+              {chain.id === chainId && <Check className="h-4 w-4" />}
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NetworkSelector;
@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Clock, RotateCcw, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useProtectedTransferV2 } from '@/hooks/use-protected-transfer-v2';
+import { getTransferClaimPath } from '@/utils/qr-code-utils';
+import {
+  useExpiryNotifications,
+  markAllNotificationsRead,
+  dismissNotification,
+  refreshExpiryWatcher,
+  getExpiryWarningWindow,
+  setExpiryWarningWindow,
+  EXPIRY_WARNING_OPTIONS,
+  type ExpiryNotification,
+} from '@/services/ExpiryWatcherService';
+
+// Notifications already shown as a toast in this session
+const announcedIds = new Set<string>();
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const describe = (notification: ExpiryNotification) => {
+  const amount = `${notification.amount} ${notification.tokenSymbol}`;
+  return notification.kind === 'claim-expiring'
+    ? {
+        title: `${amount} expires ${formatDistanceToNow(notification.expiry * 1000, { addSuffix: true })}`,
+        description: `Claim it from ${shortenAddress(notification.counterparty)} before it goes back to the sender`,
+      }
+    : {
+        title: `${amount} can be refunded`,
+        description: `Your transfer expired ${formatDistanceToNow(notification.expiry * 1000, { addSuffix: true })} without being claimed`,
+      };
+};
+
+/**
+ * Bell in the header listing transfers about to expire and expired transfers to refund
+ */
+const NotificationCenter = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount } = useExpiryNotifications();
+  const { refundTransfer } = useProtectedTransferV2();
+  const [open, setOpen] = useState(false);
+  const [warningWindow, setWarningWindow] = useState(getExpiryWarningWindow);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+
+  const handleClaim = (notification: ExpiryNotification) => {
+    setOpen(false);
+    navigate(getTransferClaimPath(notification.transferId));
+  };
+
+  const handleRefund = async (notification: ExpiryNotification) => {
+    setRefundingId(notification.transferId);
+    try {
+      await refundTransfer(notification.transferId);
+      toast.success('Transfer refunded', {
+        description: `${notification.amount} ${notification.tokenSymbol} is back in your wallet`,
+      });
+      await refreshExpiryWatcher();
+    } catch (error) {
+      // refundTransfer already reported the error
+      console.error('Error refunding transfer:', error);
+    } finally {
+      setRefundingId(null);
+    }
+  };
+
+  const handleAction = (notification: ExpiryNotification) => {
+    if (notification.kind === 'claim-expiring') {
+      handleClaim(notification);
+    } else {
+      handleRefund(notification);
+    }
+  };
+
+  // Raise a toast the first time a notification shows up
+  useEffect(() => {
+    for (const notification of notifications) {
+      if (notification.read || announcedIds.has(notification.id)) continue;
+      announcedIds.add(notification.id);
+
+      const { title, description } = describe(notification);
+      toast.warning(title, {
+        description,
+        action: {
+          label: notification.kind === 'claim-expiring' ? 'Claim' : 'Refund',
+          onClick: () => handleAction(notification),
+        },
+      });
+    }
+    // Toasts keep the handler from when they were raised
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [notifications]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    // Opening the list counts as reading it
+    if (nextOpen && unreadCount > 0) markAllNotificationsRead();
+  };
+
+  const handleWindowChange = (value: string) => {
+    const hours = Number(value);
+    setWarningWindow(hours);
+    setExpiryWarningWindow(hours);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full h-8 w-8 relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="text-sm font-medium">Notifications</p>
+          <Select value={String(warningWindow)} onValueChange={handleWindowChange}>
+            <SelectTrigger className="h-7 w-auto gap-1 text-xs" aria-label="Warn before expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_WARNING_OPTIONS.map((hours) => (
+                <SelectItem key={hours} value={String(hours)}>
+                  Warn {hours < 24 ? `${hours}h` : `${hours / 24}d`} before expiry
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">
+            Nothing is about to expire
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto divide-y">
+            {notifications.map((notification) => {
+              const { title, description } = describe(notification);
+              const isClaim = notification.kind === 'claim-expiring';
+              return (
+                <div key={notification.id} className="flex gap-3 px-4 py-3">
+                  <div className={cn(
+                    'mt-0.5 h-7 w-7 flex-shrink-0 rounded-full flex items-center justify-center',
+                    isClaim ? 'bg-amber-500/10 text-amber-500' : 'bg-primary/10 text-primary'
+                  )}>
+                    {isClaim ? <Clock className="h-4 w-4" /> : <RotateCcw className="h-4 w-4" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{title}</p>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="mt-2 h-7"
+                      disabled={refundingId === notification.transferId}
+                      onClick={() => handleAction(notification)}
+                    >
+                      {isClaim ? 'Claim' : refundingId === notification.transferId ? 'Refunding...' : 'Refund'}
+                    </Button>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0"
+                    aria-label="Dismiss"
+                    onClick={() => dismissNotification(notification.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationCenter;
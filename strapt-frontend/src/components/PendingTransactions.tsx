@@ -0,0 +1,128 @@
+import { useEffect } from 'react';
+import { CheckCircle2, ExternalLink, Loader2, XCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { getExplorerTxUrl } from '@/lib/chains';
+import { useXellarWallet } from '@/hooks/use-xellar-wallet';
+import {
+  useTransactionOutbox,
+  clearSettledTransactions,
+  isReplaceable,
+  type OutboxTransaction,
+} from '@/services/TransactionOutboxService';
+import { ReplaceTransactionButtons } from './ReplaceTransactionButtons';
+
+// Recovered transactions already announced in this session
+const announcedHashes = new Set<string>();
+
+const STATUS_LABELS: Record<OutboxTransaction['status'], string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  dropped: 'Dropped',
+};
+
+const openExplorer = (transaction: OutboxTransaction) =>
+  window.open(getExplorerTxUrl(transaction.chainId, transaction.hash), '_blank');
+
+/**
+ * Header button listing the wallet's submitted transactions until they settle
+ * Pending ones can be sped up or cancelled from here, whichever page sent them
+ * Hidden while there is nothing to show
+ */
+const PendingTransactions = () => {
+  const { address } = useXellarWallet();
+  const { transactions, pending } = useTransactionOutbox(address);
+
+  // Hooks report the transactions they wait on; the ones sent before a reload settle unannounced
+  useEffect(() => {
+    for (const transaction of transactions) {
+      if (!transaction.recovered || transaction.status === 'pending' || announcedHashes.has(transaction.hash)) continue;
+      announcedHashes.add(transaction.hash);
+
+      const action = { label: 'View', onClick: () => openExplorer(transaction) };
+      if (transaction.status === 'confirmed') {
+        toast.success(`${transaction.description} confirmed`, { action });
+      } else {
+        toast.error(`${transaction.description} ${transaction.status}`, { action });
+      }
+    }
+  }, [transactions]);
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full h-8 w-8 relative" aria-label="Transactions">
+          {pending.length > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <CheckCircle2 className="h-4 w-4" />
+          )}
+          {pending.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4 text-center">
+              {pending.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="text-sm font-medium">Transactions</p>
+          {transactions.length > pending.length && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearSettledTransactions}>
+              Clear settled
+            </Button>
+          )}
+        </div>
+        <div className="max-h-80 overflow-y-auto divide-y">
+          {transactions.map((transaction) => (
+            <div key={transaction.hash} className="flex gap-3 px-4 py-3">
+              <div className={cn(
+                'mt-0.5 h-7 w-7 flex-shrink-0 rounded-full flex items-center justify-center',
+                transaction.status === 'pending' && 'bg-primary/10 text-primary',
+                transaction.status === 'confirmed' && 'bg-green-500/10 text-green-600',
+                (transaction.status === 'failed' || transaction.status === 'cancelled' || transaction.status === 'dropped') && 'bg-destructive/10 text-destructive'
+              )}>
+                {transaction.status === 'pending' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : transaction.status === 'confirmed' ? (
+                  <CheckCircle2 className="h-4 w-4" />
+                ) : (
+                  <XCircle className="h-4 w-4" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{transaction.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {transaction.replacement === 'cancel' && transaction.status === 'pending' ? 'Cancelling' : STATUS_LABELS[transaction.status]} · sent {formatDistanceToNow(transaction.submittedAt, { addSuffix: true })}
+                </p>
+                {isReplaceable(transaction) && (
+                  <div className="mt-2">
+                    <ReplaceTransactionButtons transaction={transaction} />
+                  </div>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 flex-shrink-0"
+                aria-label="View on explorer"
+                onClick={() => openExplorer(transaction)}
+              >
+                <ExternalLink className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PendingTransactions;
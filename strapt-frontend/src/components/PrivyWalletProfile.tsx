@@ -1,5 +1,4 @@
 import { usePrivyWallet } from '@/hooks/use-privy-wallet';
-import { useSeiNetwork } from '@/hooks/use-sei-network';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,8 +14,7 @@ import { useNavigate } from 'react-router-dom';
 import { Network, LogOut, Copy, ExternalLink, Wallet, Check } from 'lucide-react';
 import { useState } from 'react';
 import { useConfig, useAccount, useChainId, useSwitchChain, useBalance } from 'wagmi';
-import { sepolia, baseSepolia } from 'viem/chains';
-import { seiTestnet } from '@/lib/chains';
+import { SUPPORTED_CHAINS } from '@/lib/chains';
 import { formatBalanceWithoutDecimals } from '@/utils/format-utils';
 
 const PrivyWalletProfile = () => {
@@ -38,11 +36,7 @@ const PrivyWalletProfile = () => {
   const currentChain = config.chains.find(c => c.id === chainId);
 
   // Available networks
-  const networks = [
-    { ...sepolia, name: 'Sepolia' },
-    { ...baseSepolia, name: 'Base Sepolia' },
-    { ...seiTestnet, name: 'SEI Testnet' }
-  ];
+  const networks = SUPPORTED_CHAINS;
 
   // If not connected, show connect button
   if (!isConnected || !address) {
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Ban, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useErrorHandler } from '@/hooks/useErrorHandler';
+import {
+  speedUpTransaction,
+  cancelTransaction,
+  isReplaceable,
+  type OutboxTransaction,
+} from '@/services/TransactionOutboxService';
+
+interface ReplaceTransactionButtonsProps {
+  transaction: OutboxTransaction;   // A pending outbox entry
+}
+
+/**
+ * Speed up and Cancel for a pending transaction
+ * Renders nothing once the transaction settled, or for transactions the relayer sent
+ */
+export function ReplaceTransactionButtons({ transaction }: ReplaceTransactionButtonsProps) {
+  const { handleError } = useErrorHandler();
+  const [replacing, setReplacing] = useState<'speed-up' | 'cancel' | null>(null);
+
+  if (!isReplaceable(transaction)) {
+    return null;
+  }
+
+  const handleSpeedUp = async () => {
+    setReplacing('speed-up');
+    try {
+      await speedUpTransaction(transaction.hash);
+      toast.success('Speed-up sent', {
+        description: 'Your transaction was resent with a higher fee'
+      });
+    } catch (error) {
+      handleError(error, 'Failed to speed up transaction');
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    setReplacing('cancel');
+    try {
+      await cancelTransaction(transaction.hash);
+      toast.success('Cancellation sent', {
+        description: "If it's mined first, the original transaction won't go through"
+      });
+    } catch (error) {
+      handleError(error, 'Failed to cancel transaction');
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  const isCancelling = transaction.replacement === 'cancel';
+
+  return (
+    <div className="flex gap-2 flex-shrink-0">
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7"
+        disabled={replacing !== null || isCancelling}
+        onClick={handleSpeedUp}
+      >
+        <Zap className="h-3 w-3 mr-1" />
+        {replacing === 'speed-up' ? 'Sending...' : 'Speed up'}
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7"
+        disabled={replacing !== null || isCancelling}
+        onClick={handleCancel}
+      >
+        <Ban className="h-3 w-3 mr-1" />
+        {replacing === 'cancel' ? 'Sending...' : 'Cancel'}
+      </Button>
+    </div>
+  );
+}
@@ -13,26 +13,63 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
+import type { TokenColor } from '@/services/TokenRegistryService';
 
-// Token color mapping for dynamic styling
-const TOKEN_COLORS = {
-  'USDC': {
+// Styling per registry token color
+const TOKEN_COLORS: Record<TokenColor, {
+  bg: string;
+  bgDark: string;
+  text: string;
+  textDark: string;
+  border: string;
+  borderDark: string;
+  iconBgDark: string;
+}> = {
+  blue: {
     bg: 'bg-blue-100',
     bgDark: 'dark:bg-blue-900/30',
     text: 'text-blue-700',
     textDark: 'dark:text-blue-100',
     border: 'border-blue-500',
     borderDark: 'dark:border-blue-400',
+    iconBgDark: 'dark:bg-blue-800',
   },
-  'IDRX': {
+  purple: {
     bg: 'bg-purple-100',
     bgDark: 'dark:bg-purple-900/30',
     text: 'text-purple-700',
     textDark: 'dark:text-purple-100',
     border: 'border-purple-500',
     borderDark: 'dark:border-purple-400',
+    iconBgDark: 'dark:bg-purple-800',
+  },
+  green: {
+    bg: 'bg-green-100',
+    bgDark: 'dark:bg-green-900/30',
+    text: 'text-green-700',
+    textDark: 'dark:text-green-100',
+    border: 'border-green-500',
+    borderDark: 'dark:border-green-400',
+    iconBgDark: 'dark:bg-green-800',
+  },
+  orange: {
+    bg: 'bg-orange-100',
+    bgDark: 'dark:bg-orange-900/30',
+    text: 'text-orange-700',
+    textDark: 'dark:text-orange-100',
+    border: 'border-orange-500',
+    borderDark: 'dark:border-orange-400',
+    iconBgDark: 'dark:bg-orange-800',
+  },
+  gray: {
+    bg: 'bg-gray-100',
+    bgDark: 'dark:bg-gray-800',
+    text: 'text-gray-700',
+    textDark: 'dark:text-gray-300',
+    border: 'border-gray-400',
+    borderDark: 'dark:border-gray-600',
+    iconBgDark: 'dark:bg-gray-700',
   },
-  // Add more tokens here in the future
 };
 
 export interface TokenOption {
@@ -40,6 +77,7 @@ export interface TokenOption {
   name: string;
   icon?: string;
   balance?: number;
+  color?: TokenColor;
 }
 
 interface TokenSelectProps {
@@ -54,21 +92,14 @@ const TokenSelect = ({ tokens, selectedToken, onTokenChange, className, isLoadin
   const [open, setOpen] = useState(false);
 
   // Helper function to get token colors or default colors
-  const getTokenColors = useCallback((symbol: string) => {
-    return TOKEN_COLORS[symbol as keyof typeof TOKEN_COLORS] || {
-      bg: 'bg-gray-100',
-      bgDark: 'dark:bg-gray-800',
-      text: 'text-gray-700',
-      textDark: 'dark:text-gray-300',
-      border: 'border-gray-400',
-      borderDark: 'dark:border-gray-600',
-    };
+  const getTokenColors = useCallback((token: TokenOption) => {
+    return TOKEN_COLORS[token.color ?? 'gray'] ?? TOKEN_COLORS.gray;
   }, []);
 
   // Get colors for the selected token
   const selectedTokenColors = useMemo(() =>
-    getTokenColors(selectedToken.symbol),
-    [selectedToken.symbol, getTokenColors]
+    getTokenColors(selectedToken),
+    [selectedToken, getTokenColors]
   );
 
   return (
@@ -116,30 +147,29 @@ const TokenSelect = ({ tokens, selectedToken, onTokenChange, className, isLoadin
                     }}
                     className={cn(
                       "flex items-center py-2",
-                      getTokenColors(token.symbol).bg,
-                      getTokenColors(token.symbol).bgDark
+                      getTokenColors(token).bg,
+                      getTokenColors(token).bgDark
                     )}
                   >
                     {token.icon && (
                       <div className={cn(
                         "mr-2 h-4 w-4 overflow-hidden rounded-full",
                         "bg-white",
-                        token.symbol === 'USDC' && "dark:bg-blue-800",
-                        token.symbol === 'IDRX' && "dark:bg-purple-800"
+                        getTokenColors(token).iconBgDark
                       )}>
                         <img src={token.icon} alt={token.name} className="h-full w-full object-cover" />
                       </div>
                     )}
                     <span className={cn(
                       "flex-1 font-medium text-sm",
-                      getTokenColors(token.symbol).text,
-                      getTokenColors(token.symbol).textDark
+                      getTokenColors(token).text,
+                      getTokenColors(token).textDark
                     )}>{token.symbol}</span>
                     {token.symbol === selectedToken.symbol && (
                       <CheckIcon className={cn(
                         "ml-1 h-4 w-4",
-                        getTokenColors(token.symbol).text,
-                        getTokenColors(token.symbol).textDark
+                        getTokenColors(token).text,
+                        getTokenColors(token).textDark
                       )} />
                     )}
                   </CommandItem>
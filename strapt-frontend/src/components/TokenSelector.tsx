@@ -1,6 +1,17 @@
 import { TokenType } from '@/types/tokens';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { useTokenRegistry } from '@/hooks/use-token-registry';
+import type { TokenColor } from '@/services/TokenRegistryService';
+
+// Selected button color per registry token color
+const SELECTED_COLORS: Record<TokenColor, string> = {
+  blue: 'bg-blue-500 hover:bg-blue-600',
+  purple: 'bg-purple-500 hover:bg-purple-600',
+  green: 'bg-green-500 hover:bg-green-600',
+  orange: 'bg-orange-500 hover:bg-orange-600',
+  gray: 'bg-gray-500 hover:bg-gray-600',
+};
 
 interface TokenSelectorProps {
   value: TokenType;
@@ -8,30 +19,24 @@ interface TokenSelectorProps {
 }
 
 export function TokenSelector({ value, onChange }: TokenSelectorProps) {
+  const tokens = useTokenRegistry();
+
   return (
     <div className="flex gap-2">
-      <Button
-        type="button"
-        variant={value === 'USDC' ? 'default' : 'outline'}
-        className={cn(
-          'flex-1',
-          value === 'USDC' && 'bg-blue-500 hover:bg-blue-600'
-        )}
-        onClick={() => onChange('USDC')}
-      >
-        USDC
-      </Button>
-      <Button
-        type="button"
-        variant={value === 'IDRX' ? 'default' : 'outline'}
-        className={cn(
-          'flex-1',
-          value === 'IDRX' && 'bg-purple-500 hover:bg-purple-600'
-        )}
-        onClick={() => onChange('IDRX')}
-      >
-        IDRX
-      </Button>
+      {tokens.map((token) => (
+        <Button
+          key={token.symbol}
+          type="button"
+          variant={value === token.symbol ? 'default' : 'outline'}
+          className={cn(
+            'flex-1',
+            value === token.symbol && SELECTED_COLORS[token.color ?? 'gray']
+          )}
+          onClick={() => onChange(token.symbol)}
+        >
+          {token.symbol}
+        </Button>
+      ))}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,8 +1,11 @@
 
+import { useChainId } from 'wagmi';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { ArrowUpRight, ArrowDownLeft, Clock, ExternalLink, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import TransferNote from './transfer/TransferNote';
+import { getExplorerTxUrl } from '@/lib/chains';
 
 interface TransactionDetailsProps {
   open: boolean;
@@ -14,11 +17,13 @@ interface TransactionDetailsProps {
     date: string;
     recipient?: string;
     hash: string;
+    transferId?: string;    // Notes are keyed by the transfer ID, or the hash for plain transfers
   };
 }
 
 const TransactionDetails = ({ open, onClose, transaction }: TransactionDetailsProps) => {
   const { toast } = useToast();
+  const chainId = useChainId();
 
   if (!transaction) return null;
 
@@ -64,8 +69,8 @@ const TransactionDetails = ({ open, onClose, transaction }: TransactionDetailsPr
   };
 
   const handleViewExplorer = () => {
-    // Use Lisk Sepolia explorer
-    window.open(`https://sepolia-blockscout.lisk.com/tx/${transaction.hash}`, '_blank');
+    // Explorer of the network the wallet is on
+    window.open(getExplorerTxUrl(chainId, transaction.hash), '_blank');
   };
 
   return (
@@ -115,6 +120,8 @@ const TransactionDetails = ({ open, onClose, transaction }: TransactionDetailsPr
                 </Button>
               </div>
             </div>
+
+            <TransferNote transferId={transaction.transferId ?? transaction.hash} />
           </div>
 
           <Button
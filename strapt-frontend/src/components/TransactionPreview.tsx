@@ -0,0 +1,142 @@
+import { formatUnits } from 'viem';
+import { AlertTriangle, FlaskConical, Fuel, RefreshCw } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import type { TransactionPreview as TransactionPreviewData } from '@/services/SimulationService';
+
+interface TransactionPreviewProps {
+  preview: TransactionPreviewData | null;
+  isLoading: boolean;
+  error: string | null;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const formatAmount = (value: bigint, decimals: number, maximumFractionDigits = 6) =>
+  Number(formatUnits(value, decimals)).toLocaleString(undefined, { maximumFractionDigits });
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Shows what a transaction will do before it is signed: balance changes per
+ * address, the fee the contract takes and the network cost
+ */
+const TransactionPreview = ({ preview, isLoading, error, onRetry, className }: TransactionPreviewProps) => {
+  if (isLoading && !preview) {
+    return (
+      <div className={cn('border border-border rounded-lg p-4 space-y-2', className)}>
+        <Skeleton className="h-4 w-32" />
+        <Skeleton className="h-3 w-full" />
+        <Skeleton className="h-3 w-full" />
+        <Skeleton className="h-3 w-2/3" />
+      </div>
+    );
+  }
+
+  if (error && !preview) {
+    return (
+      <Alert className={className}>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Preview unavailable</AlertTitle>
+        <AlertDescription className="flex items-center justify-between gap-2">
+          <span>The transaction couldn't be simulated. You can still review it in your wallet.</span>
+          {onRetry && (
+            <Button size="sm" variant="outline" onClick={onRetry}>
+              Retry
+            </Button>
+          )}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!preview) return null;
+
+  const { token, nativeSymbol, nativeDecimals } = preview;
+
+  return (
+    <div className={cn('border border-border rounded-lg p-4 space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium flex items-center gap-2">
+          <FlaskConical className="h-4 w-4 text-primary" />
+          Expected Result
+        </span>
+        <div className="flex items-center gap-1">
+          <Badge variant="outline" className="text-xs">
+            {preview.source === 'simulated' ? 'Simulated' : 'Estimated'}
+          </Badge>
+          {onRetry && (
+            <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onRetry} disabled={isLoading}>
+              <RefreshCw className={cn('h-3 w-3', isLoading && 'animate-spin')} />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {preview.revertReason && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>This transaction is expected to fail</AlertTitle>
+          <AlertDescription className="break-words">{preview.revertReason}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-1.5">
+        {preview.balanceChanges.map((change) => (
+          <div key={change.address} className="flex justify-between text-sm gap-2">
+            <span className="text-muted-foreground truncate">
+              {change.label}
+              {!change.label.startsWith('0x') && (
+                <span className="text-xs ml-1 opacity-70">{shortenAddress(change.address)}</span>
+              )}
+            </span>
+            <span className={cn('font-medium whitespace-nowrap', change.delta < 0n ? 'text-destructive' : 'text-green-600')}>
+              {change.delta > 0n ? '+' : '-'}
+              {formatAmount(change.delta < 0n ? -change.delta : change.delta, token.decimals)} {token.symbol}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t border-border pt-2 space-y-1.5">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Fee:</span>
+          <span className="font-medium">
+            {preview.fee > 0n
+              ? `${formatAmount(preview.fee, token.decimals)} ${token.symbol} (${preview.feeBasisPoints / 100}%)`
+              : 'No fee'}
+          </span>
+        </div>
+        <div className="flex justify-between text-sm gap-2">
+          <span className="text-muted-foreground flex items-center gap-1">
+            <Fuel className="h-3.5 w-3.5" /> Network cost:
+          </span>
+          <span className="font-medium text-right">
+            {preview.gasCost !== null ? (
+              <>
+                ~{formatAmount(preview.gasCost, nativeDecimals, 8)} {nativeSymbol}
+                {preview.gasCostUsd !== null && (
+                  <span className="text-muted-foreground font-normal"> (≈ ${preview.gasCostUsd.toFixed(preview.gasCostUsd < 0.01 ? 4 : 2)})</span>
+                )}
+              </>
+            ) : (
+              'Unknown'
+            )}
+          </span>
+        </div>
+        {preview.needsApproval && (
+          <p className="text-xs text-muted-foreground">
+            {preview.isGasPartial
+              ? `Covers the ${token.symbol} approval; the transaction itself is estimated once approved.`
+              : `Includes the ${token.symbol} approval, unless your wallet signs a permit instead.`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionPreview;
@@ -1,6 +1,12 @@
 import { Progress } from '@/components/ui/progress';
-import { useTransactionProgress, TransactionStatus } from '@/hooks/useTransactionProgress';
+import {
+  useTransactionProgress,
+  TransactionStatus,
+  type TransactionProgress as TransactionProgressState,
+} from '@/hooks/useTransactionProgress';
+import type { OutboxTransaction } from '@/services/TransactionOutboxService';
 import { cn } from '@/lib/utils';
+import { ReplaceTransactionButtons } from './ReplaceTransactionButtons';
 
 const statusMessages: Record<TransactionStatus, string> = {
   idle: 'Ready',
@@ -20,30 +26,49 @@ const statusColors: Record<TransactionStatus, string> = {
   failed: 'bg-red-500'
 };
 
-export function TransactionProgress() {
-  const { progress } = useTransactionProgress();
+interface TransactionProgressProps {
+  progress?: TransactionProgressState;       // The caller's progress; defaults to a fresh one
+  transaction?: OutboxTransaction | null;    // The caller's pending transaction, to speed up or cancel
+}
 
-  if (progress.status === 'idle') {
+export function TransactionProgress({ progress: callerProgress, transaction }: TransactionProgressProps = {}) {
+  const { progress: ownProgress } = useTransactionProgress();
+
+  const progress = callerProgress ?? ownProgress;
+  const isPending = transaction?.status === 'pending';
+  const status: TransactionStatus = isPending ? 'confirming' : progress.status;
+
+  if (status === 'idle') {
     return null;
   }
 
+  const isCancelling = transaction?.replacement === 'cancel';
+
   return (
     <div className="w-full space-y-2">
       <div className="flex items-center justify-between">
         <span className="text-sm font-medium">
-          {statusMessages[progress.status]}
+          {isCancelling ? 'Cancelling transaction...' : statusMessages[status]}
         </span>
         <span className="text-sm text-muted-foreground">
           {progress.progress}%
         </span>
       </div>
-      <Progress 
-        value={progress.progress} 
+      <Progress
+        value={progress.progress}
         className={cn(
           "h-2",
-          statusColors[progress.status]
+          statusColors[status]
         )}
       />
+      {isPending && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground truncate">
+            {transaction.description}
+          </span>
+          <ReplaceTransactionButtons transaction={transaction} />
+        </div>
+      )}
       {progress.error && (
         <p className="text-sm text-red-500 mt-2">
           {progress.error}
@@ -51,4 +76,4 @@ export function TransactionProgress() {
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
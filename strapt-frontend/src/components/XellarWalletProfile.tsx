@@ -14,7 +14,7 @@ import { useNavigate } from 'react-router-dom';
 import { Network, LogOut, Copy, ExternalLink, Wallet, Check, HelpCircle } from 'lucide-react';
 import { useState } from 'react';
 import { useConfig, useChainId, useSwitchChain, useBalance } from 'wagmi';
-import { polygonAmoy, liskSepolia, baseSepolia } from 'viem/chains';
+import { SUPPORTED_CHAINS } from '@/lib/chains';
 import InfoTooltip from '@/components/InfoTooltip';
 import { formatBalanceWithoutDecimals } from '@/utils/format-utils';
 
@@ -37,11 +37,7 @@ const XellarWalletProfile = () => {
   const currentChain = config.chains.find(c => c.id === chainId);
 
   // Available networks
-  const networks = [
-    { ...liskSepolia, name: 'Lisk Sepolia' },
-    { ...baseSepolia, name: 'Base Sepolia' },
-    { ...polygonAmoy, name: 'Polygon Amoy' }
-  ];
+  const networks = SUPPORTED_CHAINS;
 
   // If not connected, show connect button
   if (!isConnected || !address) {
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Gavel, Lock, RotateCcw, Wallet } from 'lucide-react';
+import dayjs from 'dayjs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useEscrow, type Escrow, type EscrowTimelineEvent } from '@/hooks/use-escrow';
+
+interface EscrowTimelineProps {
+  escrow: Escrow;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const EVENT_STYLES: Record<EscrowTimelineEvent['type'], { label: string; icon: typeof Lock; className: string }> = {
+  created: { label: 'Escrow funded', icon: Lock, className: 'text-primary' },
+  approved: { label: 'Release approved', icon: CheckCircle2, className: 'text-green-600' },
+  disputed: { label: 'Dispute raised', icon: AlertTriangle, className: 'text-red-600' },
+  resolved: { label: 'Dispute resolved', icon: Gavel, className: 'text-purple-600' },
+  claimed: { label: 'Claimed by recipient', icon: Wallet, className: 'text-green-600' },
+  refunded: { label: 'Refunded to sender', icon: RotateCcw, className: 'text-yellow-600' },
+};
+
+/**
+ * History of an escrow, from funding through any dispute to settlement
+ */
+const EscrowTimeline = ({ escrow }: EscrowTimelineProps) => {
+  const { getEscrowTimeline } = useEscrow();
+  const [events, setEvents] = useState<EscrowTimelineEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload when the escrow moves to a new status
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getEscrowTimeline(escrow)
+      .then((timeline) => {
+        if (!cancelled) setEvents(timeline);
+      })
+      .catch((e) => {
+        console.error('Error loading escrow timeline:', e);
+        if (!cancelled) setError('Could not load the escrow history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [escrow, getEscrowTimeline]);
+
+  // Who did what, as seen by the parties
+  const getRole = (actor: string) => {
+    const normalized = actor.toLowerCase();
+    if (normalized === escrow.sender.toLowerCase()) return 'Sender';
+    if (normalized === escrow.recipient.toLowerCase()) return 'Recipient';
+    if (normalized === escrow.arbiter.toLowerCase()) return 'Arbiter';
+    return shortenAddress(actor);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No activity recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {events.map((event) => {
+        const style = EVENT_STYLES[event.type];
+        const Icon = style.icon;
+        return (
+          <li key={`${event.transactionHash}-${event.type}`} className="ml-4">
+            <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+              <Icon className={cn("h-4 w-4", style.className)} />
+            </span>
+            <div className="flex justify-between gap-2">
+              <p className="text-sm font-medium">{style.label}</p>
+              {event.timestamp && (
+                <span className="text-xs text-muted-foreground">
+                  {dayjs.unix(event.timestamp).format('MMM D, YYYY HH:mm')}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">By {getRole(event.actor)}</p>
+            {event.reason && (
+              <p className="text-sm mt-1 bg-secondary/50 rounded p-2">"{event.reason}"</p>
+            )}
+            {event.type === 'resolved' && (
+              <p className="text-xs mt-1">
+                {event.recipientAmount} {escrow.tokenSymbol} to the recipient, {event.senderAmount} {escrow.tokenSymbol} back to the sender
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default EscrowTimeline;
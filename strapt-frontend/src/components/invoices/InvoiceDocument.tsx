@@ -0,0 +1,99 @@
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { computeInvoiceTotals } from '@/utils/invoice-utils';
+import type { InvoiceDetails } from '@/types/invoices';
+
+interface InvoiceDocumentProps {
+  invoice: InvoiceDetails;
+  className?: string;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Printable invoice
+ * Only this element is printed when the page is printed, see index.css
+ */
+const InvoiceDocument = ({ invoice, className }: InvoiceDocumentProps) => {
+  const totals = computeInvoiceTotals(invoice);
+
+  return (
+    <div className={cn("invoice-printable rounded-lg border bg-card p-6 space-y-6", className)}>
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Invoice</h2>
+          <p className="text-sm text-muted-foreground">{invoice.number}</p>
+        </div>
+        <div className="text-right text-sm">
+          <p>Issued {format(new Date(invoice.issueDate), 'PPP')}</p>
+          <p className="font-medium">Due {format(new Date(invoice.dueDate), 'PPP')}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-xs uppercase text-muted-foreground">From</p>
+          {invoice.issuerName && <p className="font-medium">{invoice.issuerName}</p>}
+          <p className="font-mono text-xs break-all" title={invoice.issuer}>{invoice.issuer}</p>
+        </div>
+        <div>
+          <p className="text-xs uppercase text-muted-foreground">Bill to</p>
+          <p className="font-medium">{invoice.clientName}</p>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+            <th className="py-2 font-medium">Description</th>
+            <th className="py-2 font-medium text-right">Qty</th>
+            <th className="py-2 font-medium text-right">Unit price</th>
+            <th className="py-2 font-medium text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.lineItems.map((item) => (
+            <tr key={item.id} className="border-b last:border-0">
+              <td className="py-2 pr-2">{item.description}</td>
+              <td className="py-2 text-right">{item.quantity}</td>
+              <td className="py-2 text-right">{item.unitPrice}</td>
+              <td className="py-2 text-right">
+                {computeInvoiceTotals({ token: invoice.token, lineItems: [item], taxRate: 0 }).total}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="ml-auto w-full max-w-xs space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Subtotal</span>
+          <span>{totals.subtotal} {invoice.token}</span>
+        </div>
+        {invoice.taxRate > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Tax ({invoice.taxRate}%)</span>
+            <span>{totals.tax} {invoice.token}</span>
+          </div>
+        )}
+        <div className="flex justify-between border-t pt-1 font-semibold">
+          <span>Total due</span>
+          <span>{totals.total} {invoice.token}</span>
+        </div>
+      </div>
+
+      {invoice.notes && (
+        <div className="text-sm">
+          <p className="text-xs uppercase text-muted-foreground">Notes</p>
+          <p className="whitespace-pre-wrap">{invoice.notes}</p>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Pay in {invoice.token} to {shortenAddress(invoice.issuer)} on STRAPT
+      </p>
+    </div>
+  );
+};
+
+export default InvoiceDocument;
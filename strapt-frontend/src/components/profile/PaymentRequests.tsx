@@ -0,0 +1,174 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format } from 'date-fns';
+import { CalendarIcon, ChevronRight, ReceiptText, Trash, User, XCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { usePaymentRequests, isPaymentRequestOverdue, PAYMENT_TYPE_LABELS, type PaymentRequest } from '@/hooks/use-payment-requests';
+import { useToast } from '@/hooks/use-toast';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const getStatusLabel = (request: PaymentRequest) =>
+  isPaymentRequestOverdue(request) ? 'overdue' : request.status;
+
+const PaymentRequests = () => {
+  const {
+    paymentRequests,
+    isLoading,
+    cancelPaymentRequest,
+    removePaymentRequest
+  } = usePaymentRequests();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  // Newest first
+  const sortedRequests = [...paymentRequests].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const handleCancelRequest = (id: string) => {
+    cancelPaymentRequest(id);
+    toast({
+      title: "Request cancelled",
+      description: "Payments will no longer be matched to this request",
+      duration: 3000,
+    });
+  };
+
+  const handleDeleteRequest = (id: string) => {
+    removePaymentRequest(id);
+    toast({
+      title: "Request removed",
+      description: "The payment request has been removed",
+      duration: 3000,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Payment Requests</CardTitle>
+        <CardDescription>Requests you sent and whether they were paid</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, index) => (
+              <div key={`skeleton-request-${index}`} className="bg-secondary/30 rounded-lg p-4 animate-pulse">
+                <Skeleton className="h-4 w-32 mb-2" />
+                <Skeleton className="h-3 w-20 mb-2" />
+                <Skeleton className="h-5 w-16 mt-2" />
+              </div>
+            ))}
+          </div>
+        ) : sortedRequests.length === 0 ? (
+          <div className="text-center py-8">
+            <ReceiptText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No payment requests</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Create one from Receive &gt; Request on the home page
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sortedRequests.map((request, index) => {
+              const status = getStatusLabel(request);
+              return (
+                <div key={request.id}>
+                  <div className={cn(
+                    "bg-secondary/30 rounded-lg p-4",
+                    request.status === 'cancelled' && "opacity-60"
+                  )}>
+                    <div className="flex justify-between items-start">
+                      <div className="min-w-0">
+                        <h3 className="font-medium">
+                          {request.amount} {request.token}
+                        </h3>
+                        {request.memo && (
+                          <p className="text-sm text-muted-foreground truncate">{request.memo}</p>
+                        )}
+                        {request.payer && (
+                          <div className="flex items-center gap-1 mt-1">
+                            <User className="h-3.5 w-3.5 text-muted-foreground" />
+                            <span className="text-xs">From {shortenAddress(request.payer)}</span>
+                          </div>
+                        )}
+                        {request.dueDate && (
+                          <div className="flex items-center gap-1 mt-1">
+                            <CalendarIcon className="h-3.5 w-3.5 text-muted-foreground" />
+                            <span className="text-xs">Due {format(new Date(request.dueDate), 'PPP')}</span>
+                          </div>
+                        )}
+                        {request.payment && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Paid by {shortenAddress(request.payment.from)} via {PAYMENT_TYPE_LABELS[request.payment.type]} on{' '}
+                            {format(new Date(request.payment.paidAt), 'PPP')}
+                          </p>
+                        )}
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            "mt-2",
+                            status === 'open' && "bg-yellow-500/10 text-yellow-600",
+                            status === 'overdue' && "bg-red-500/10 text-red-600",
+                            status === 'paid' && "bg-green-500/10 text-green-600",
+                            status === 'cancelled' && "bg-gray-500/10 text-gray-600"
+                          )}
+                        >
+                          {status}
+                        </Badge>
+                      </div>
+                      <div className="flex gap-1">
+                        {request.status === 'open' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-yellow-600 hover:text-yellow-700 hover:bg-yellow-100"
+                            title="Cancel request"
+                            onClick={() => handleCancelRequest(request.id)}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-100"
+                          title="Delete request"
+                          onClick={() => handleDeleteRequest(request.id)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  {index < sortedRequests.length - 1 && <Separator className="my-2" />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="justify-center gap-2">
+        <Button
+          variant="link"
+          onClick={() => navigate('/app')}
+          className="text-sm"
+        >
+          Request a payment <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+        <Button
+          variant="link"
+          onClick={() => navigate('/app/invoices')}
+          className="text-sm"
+        >
+          Invoices <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default PaymentRequests;
@@ -9,11 +9,27 @@ import { useProfileActivity } from '@/hooks/use-profile-activity';
 import type { ProfileActivity } from '@/hooks/use-profile-activity';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { useProtectedTransferV2 } from '@/hooks/use-protected-transfer-v2';
+import RefundExpiredTransfers from '@/components/transfer/RefundExpiredTransfers';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 type Activity = ProfileActivity;
 
 const ProfileActivityTimeline = () => {
-  const { activities, isLoading } = useProfileActivity();
+  const { activities, isLoading, refreshTransfers } = useProfileActivity();
+  const { cancelTransfer, isCancelAvailable } = useProtectedTransferV2();
+  const [activityToCancel, setActivityToCancel] = useState<Activity | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
   const [filteredActivities, setFilteredActivities] = useState<Activity[]>([]);
   const [displayedActivities, setDisplayedActivities] = useState<Activity[]>([]);
   const [filter, setFilter] = useState<string | null>(null);
@@ -67,6 +83,26 @@ const ProfileActivityTimeline = () => {
     setCurrentPage(prev => prev + 1);
   };
 
+  // Pull back a sent transfer that hasn't been claimed yet
+  const handleCancel = async () => {
+    const transferId = activityToCancel?.transferId;
+    setActivityToCancel(null);
+    if (!transferId) return;
+
+    setCancellingId(transferId);
+    try {
+      await cancelTransfer(transferId);
+      toast.success('Transfer cancelled', {
+        description: 'The tokens are back in your wallet'
+      });
+      await refreshTransfers();
+    } catch (error) {
+      // The hook already reported the error
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     try {
       const date = new Date(dateString);
@@ -91,6 +127,7 @@ const ProfileActivityTimeline = () => {
       case 'active':
         return <BarChart2 className="h-5 w-5 text-blue-500" />;
       case 'failed':
+      case 'cancelled':
         return <X className="h-5 w-5 text-red-500" />;
       default:
         return <Clock className="h-5 w-5 text-muted-foreground" />;
@@ -126,6 +163,8 @@ const ProfileActivityTimeline = () => {
         return 'bg-blue-500';
       case 'failed':
         return 'bg-red-500';
+      case 'cancelled':
+        return 'bg-zinc-500';
       default:
         return 'bg-gray-500';
     }
@@ -134,7 +173,10 @@ const ProfileActivityTimeline = () => {
   return (
     <Card className="bg-black rounded-t-none border-t-0">
       <CardHeader className="pb-2">
-        <CardTitle className="text-xl">Recent Activity</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl">Recent Activity</CardTitle>
+          <RefundExpiredTransfers onRefunded={refreshTransfers} />
+        </div>
         <div className="flex gap-2 mt-2 overflow-x-auto pb-1 no-scrollbar">
           <button
             type="button"
@@ -251,6 +293,17 @@ const ProfileActivityTimeline = () => {
                           <p className="text-xs text-muted-foreground">
                             {formatDate(activity.timestamp)}
                           </p>
+                          {isCancelAvailable && activity.canCancel && activity.status === 'pending' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 mt-1 text-xs text-red-500 hover:text-red-600"
+                              onClick={() => setActivityToCancel(activity)}
+                              disabled={cancellingId === activity.transferId}
+                            >
+                              {cancellingId === activity.transferId ? 'Cancelling...' : 'Cancel'}
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -274,6 +327,22 @@ const ProfileActivityTimeline = () => {
           )}
         </div>
       </CardContent>
+
+      <AlertDialog open={!!activityToCancel} onOpenChange={(open) => !open && setActivityToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this transfer?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {activityToCancel?.amount} goes back to your wallet and the recipient can no longer claim it.
+              This only works while nobody has claimed the transfer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep transfer</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel}>Cancel transfer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
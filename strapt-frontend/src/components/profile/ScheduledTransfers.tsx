@@ -15,6 +15,7 @@ import { CalendarIcon, CalendarClock, Clock, ChevronRight, Plus, Edit2, Trash, L
 import { useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { useScheduledTransfers } from '@/hooks/use-scheduled-transfers';
+import { useTokenRegistry } from '@/hooks/use-token-registry';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 
@@ -31,7 +32,8 @@ const ScheduledTransfers = () => {
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedFrequency, setSelectedFrequency] = useState('once');
-  const [selectedToken, setSelectedToken] = useState('IDRX');
+  const registryTokens = useTokenRegistry();
+  const [selectedToken, setSelectedToken] = useState(() => registryTokens[0]?.symbol ?? '');
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -89,7 +91,7 @@ const ScheduledTransfers = () => {
     if (amountRef.current) amountRef.current.value = '';
     setDate(new Date());
     setSelectedFrequency('once');
-    setSelectedToken('IDRX');
+    setSelectedToken(registryTokens[0]?.symbol ?? '');
 
     toast({
       title: "Transfer scheduled",
@@ -319,8 +321,9 @@ const ScheduledTransfers = () => {
                       <SelectValue placeholder="Select token" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="IDRX">IDRX</SelectItem>
-                      <SelectItem value="USDC">USDC</SelectItem>
+                      {registryTokens.map((token) => (
+                        <SelectItem key={token.symbol} value={token.symbol}>{token.symbol}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
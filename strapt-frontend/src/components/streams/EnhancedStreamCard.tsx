@@ -9,6 +9,7 @@ import { useToast } from '@/hooks/use-toast';
 import InfoTooltip from '@/components/InfoTooltip';
 import LiveStreamCounter from '@/components/LiveStreamCounter';
 import { StreamStatus } from '@/hooks/use-payment-stream';
+import { getDisplayDecimals } from '@/utils/format-utils';
 import { Milestone as MilestoneType } from '@/components/MilestoneInput';
 // We'll implement date formatting without external dependencies
 
@@ -443,7 +444,7 @@ const EnhancedStreamCard = memo(({
               disabled={!onWithdraw || claimableAmount <= 0}
             >
               <CircleDollarSign className="h-4 w-4 mr-1" />
-              Claim {claimableAmount.toFixed(stream.token === 'IDRX' ? 2 : 6)} {stream.token}
+              Claim {claimableAmount.toFixed(getDisplayDecimals(stream.token))} {stream.token}
             </Button>
             <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 p-2 bg-popover text-popover-foreground text-xs rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-opacity z-50">
               Claim the tokens that have been streamed to you. You can claim at any time.
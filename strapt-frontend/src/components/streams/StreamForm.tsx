@@ -1,4 +1,5 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useAccount } from 'wagmi';
 import { ArrowRight, BarChart2, Play } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,30 +14,63 @@ import type { DurationUnit } from '@/components/DurationSelect';
 import TokenSelect from '@/components/TokenSelect';
 import type { TokenOption } from '@/components/TokenSelect';
 import type { TokenType } from '@/hooks/use-payment-stream';
+import TransactionPreview from '@/components/TransactionPreview';
+import { useTransactionPreview } from '@/hooks/use-transaction-preview';
+import { getStreamPreviewRequest } from '@/services/SimulationService';
+
+interface StreamFormData {
+  recipient: string;
+  tokenType: TokenType;
+  amount: string;
+  durationInSeconds: number;
+  milestonePercentages: number[];
+  milestoneDescriptions: string[];
+}
 
 interface StreamFormProps {
   onCancel: () => void;
-  onSubmit: (data: {
-    recipient: string;
-    tokenType: TokenType;
-    amount: string;
-    durationInSeconds: number;
-    milestonePercentages: number[];
-    milestoneDescriptions: string[];
-  }) => Promise<void>;
+  onSubmit: (data: StreamFormData) => Promise<void>;
   isCreatingStream: boolean;
   tokens: TokenOption[];
   isLoadingTokens: boolean;
+  // Pre-filled values, e.g. when paying an invoice
+  initialValues?: {
+    recipient?: string;
+    amount?: string;
+    tokenSymbol?: string;
+    milestones?: Milestone[];
+  };
 }
 
-const StreamForm = ({ onCancel, onSubmit, isCreatingStream, tokens, isLoadingTokens }: StreamFormProps) => {
-  const [recipient, setRecipient] = useState('');
-  const [amount, setAmount] = useState('');
+const StreamForm = ({ onCancel, onSubmit, isCreatingStream, tokens, isLoadingTokens, initialValues }: StreamFormProps) => {
+  const [recipient, setRecipient] = useState(initialValues?.recipient ?? '');
+  const [amount, setAmount] = useState(initialValues?.amount ?? '');
   const [duration, setDuration] = useState(60);
   const [durationUnit, setDurationUnit] = useState<DurationUnit>('minutes');
-  const [milestones, setMilestones] = useState<Milestone[]>([]);
-  const [selectedToken, setSelectedToken] = useState<TokenOption>(tokens[0]);
+  const [milestones, setMilestones] = useState<Milestone[]>(initialValues?.milestones ?? []);
+  const [selectedToken, setSelectedToken] = useState<TokenOption>(
+    tokens.find(token => token.symbol === initialValues?.tokenSymbol) ?? tokens[0]
+  );
   const { toast } = useToast();
+  const { address } = useAccount();
+
+  // Stream under review; the wallet is only prompted once its preview is confirmed
+  const [reviewData, setReviewData] = useState<StreamFormData | null>(null);
+  const previewRequest = useMemo(
+    () => reviewData && address
+      ? getStreamPreviewRequest({ account: address, tokenSymbol: reviewData.tokenType, ...reviewData })
+      : null,
+    [reviewData, address]
+  );
+  const { preview, isLoading: isPreviewLoading, error: previewError, refresh: refreshPreview } = useTransactionPreview(previewRequest);
+
+  // Select the pre-filled token once balances have loaded
+  const initialTokenSymbol = initialValues?.tokenSymbol;
+  const initialToken = tokens.find(token => token.symbol === initialTokenSymbol);
+  useEffect(() => {
+    if (initialToken) setSelectedToken(initialToken);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialToken?.symbol, initialToken?.balance]);
 
   const handleDurationChange = useCallback((value: number, unit: DurationUnit) => {
     setDuration(value);
@@ -112,27 +146,29 @@ const StreamForm = ({ onCancel, onSubmit, isCreatingStream, tokens, isLoadingTok
       return;
     }
 
-    try {
-      // Calculate duration in seconds
-      let durationInSeconds = duration;
-      if (durationUnit === 'minutes') durationInSeconds *= 60;
-      if (durationUnit === 'hours') durationInSeconds *= 3600;
-      if (durationUnit === 'days') durationInSeconds *= 86400;
+    // Calculate duration in seconds
+    let durationInSeconds = duration;
+    if (durationUnit === 'minutes') durationInSeconds *= 60;
+    if (durationUnit === 'hours') durationInSeconds *= 3600;
+    if (durationUnit === 'days') durationInSeconds *= 86400;
 
-      // Extract milestone data
-      const milestonePercentages = milestones.map(m => m.percentage);
-      const milestoneDescriptions = milestones.map(m => m.description);
+    // Review the stream before creating it
+    setReviewData({
+      recipient,
+      tokenType: selectedToken.symbol as TokenType,
+      amount,
+      durationInSeconds,
+      milestonePercentages: milestones.map(m => m.percentage),
+      milestoneDescriptions: milestones.map(m => m.description),
+    });
+  }, [recipient, amount, duration, durationUnit, milestones, selectedToken, toast]);
 
+  const handleConfirmStream = useCallback(async () => {
+    if (!reviewData) return;
+
+    try {
       // Create the stream
-      const tokenType = selectedToken.symbol as TokenType;
-      await onSubmit({
-        recipient,
-        tokenType,
-        amount,
-        durationInSeconds,
-        milestonePercentages,
-        milestoneDescriptions
-      });
+      await onSubmit(reviewData);
     } catch (error) {
       console.error('Error creating stream:', error);
       toast({
@@ -141,7 +177,70 @@ const StreamForm = ({ onCancel, onSubmit, isCreatingStream, tokens, isLoadingTok
         variant: "destructive"
       });
     }
-  }, [recipient, amount, duration, durationUnit, milestones, selectedToken, toast, onSubmit]);
+  }, [reviewData, onSubmit, toast]);
+
+  if (reviewData) {
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center mb-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReviewData(null)}
+            className="mr-2 p-0 h-auto"
+            disabled={isCreatingStream}
+          >
+            <ArrowRight className="h-4 w-4 rotate-180" />
+          </Button>
+          <h2 className="text-base font-semibold">Review Stream</h2>
+        </div>
+
+        <div className="p-3 bg-secondary/50 rounded-lg space-y-1 text-xs">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Recipient:</span>
+            <span>{`${reviewData.recipient.slice(0, 6)}...${reviewData.recipient.slice(-4)}`}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Amount:</span>
+            <span>{reviewData.amount} {reviewData.tokenType}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Rate:</span>
+            <span>{calculateStreamRate()}</span>
+          </div>
+          {reviewData.milestonePercentages.length > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Milestones:</span>
+              <span>{reviewData.milestonePercentages.length}</span>
+            </div>
+          )}
+        </div>
+
+        <TransactionPreview
+          preview={preview}
+          isLoading={isPreviewLoading}
+          error={previewError}
+          onRetry={refreshPreview}
+        />
+
+        <Button
+          className="w-full h-9 mt-1"
+          onClick={handleConfirmStream}
+          disabled={isCreatingStream || isPreviewLoading}
+        >
+          {isCreatingStream ? (
+            <>
+              <Loading size="sm" className="mr-2" /> Creating Stream...
+            </>
+          ) : (
+            <>
+              Confirm & Start Stream <Play className="ml-2 h-4 w-4" />
+            </>
+          )}
+        </Button>
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-3">
@@ -262,15 +361,7 @@ const StreamForm = ({ onCancel, onSubmit, isCreatingStream, tokens, isLoadingTok
               (selectedToken.balance && Number(amount) > selectedToken.balance)
             }
           >
-            {isCreatingStream ? (
-              <>
-                <Loading size="sm" className="mr-2" /> Creating Stream...
-              </>
-            ) : (
-              <>
-                Start Stream <Play className="ml-2 h-4 w-4" />
-              </>
-            )}
+            Review Stream <ArrowRight className="ml-2 h-4 w-4" />
           </Button>
         </div>
       </form>
@@ -1,9 +1,14 @@
+import { useEffect, useMemo } from 'react';
+import { useAccount } from 'wagmi';
 import { Shield, Loader2, Check, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useTransferContext } from '@/contexts/TransferContext';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import TransactionPreview from '@/components/TransactionPreview';
+import { useTransactionPreview } from '@/hooks/use-transaction-preview';
+import { getTransferPreviewRequest } from '@/services/SimulationService';
 
 import { toast } from 'sonner';
 
@@ -17,6 +22,8 @@ const ConfirmTransferForm = ({ onSubmit }: ConfirmTransferFormProps) => {
     amount,
     note,
     withPassword,
+    withEscrow,
+    arbiter,
     selectedToken,
     transferType,
     isLoading,
@@ -27,6 +34,29 @@ const ConfirmTransferForm = ({ onSubmit }: ConfirmTransferFormProps) => {
     createProtectedTransfer,
     createProtectedLinkTransfer,
   } = useTransferContext();
+  const { address } = useAccount();
+
+  // Simulate the transfer as it will be sent, including the approval it still needs
+  const previewRequest = useMemo(
+    () => address
+      ? getTransferPreviewRequest({
+          account: address,
+          tokenSymbol: selectedToken.symbol,
+          amount,
+          transferType,
+          recipient,
+          withPassword,
+          arbiter: withEscrow ? arbiter : undefined,
+        })
+      : null,
+    [address, selectedToken.symbol, amount, transferType, recipient, withPassword, withEscrow, arbiter]
+  );
+  const { preview, isLoading: isPreviewLoading, error: previewError, refresh: refreshPreview } = useTransactionPreview(previewRequest);
+
+  // The approval changes what the transfer needs, so simulate again once it lands
+  useEffect(() => {
+    if (isApproved) refreshPreview();
+  }, [isApproved, refreshPreview]);
 
   // Handle approval only
   const handleApprove = async () => {
@@ -172,7 +202,7 @@ const ConfirmTransferForm = ({ onSubmit }: ConfirmTransferFormProps) => {
                     </div>
                     <div>
                       <h4 className="font-medium text-sm">Approving {selectedToken.symbol}</h4>
-                      <p className="text-xs text-muted-foreground">Please confirm the approval transaction in your wallet</p>
+                      <p className="text-xs text-muted-foreground">Please confirm the approval transaction or permit signature in your wallet</p>
                     </div>
                   </div>
                   <div className="mt-3 w-full bg-primary/10 rounded-full h-1.5">
@@ -231,9 +261,17 @@ const ConfirmTransferForm = ({ onSubmit }: ConfirmTransferFormProps) => {
             <span className="font-medium">
               {transferType === 'direct'
                 ? 'Instant Direct Transfer'
-                : 'Claim via Link/QR'}
+                : withEscrow
+                  ? 'Escrow with Arbiter'
+                  : 'Claim via Link/QR'}
             </span>
           </div>
+          {transferType !== 'direct' && withEscrow && (
+            <div className="flex justify-between mb-2">
+              <span className="text-sm text-muted-foreground">Arbiter:</span>
+              <span className="font-medium">{`${arbiter.slice(0, 6)}...${arbiter.slice(-4)}`}</span>
+            </div>
+          )}
           {note && (
             <div className="flex justify-between mb-2">
               <span className="text-sm text-muted-foreground">Note:</span>
@@ -241,18 +279,20 @@ const ConfirmTransferForm = ({ onSubmit }: ConfirmTransferFormProps) => {
             </div>
           )}
           {/* Auto-refund timeout is always 24 hours, no need to show it in the UI */}
-          {transferType !== 'direct' && withPassword && (
+          {transferType !== 'direct' && withPassword && !withEscrow && (
             <div className="flex justify-between">
               <span className="text-sm text-muted-foreground">Password Protected:</span>
               <span className="font-medium">Yes</span>
             </div>
           )}
         </div>
+        <TransactionPreview
+          preview={preview}
+          isLoading={isPreviewLoading}
+          error={previewError}
+          onRetry={refreshPreview}
+        />
         <div className="border border-border rounded-lg p-4">
-          <div className="flex justify-between mb-2">
-            <span className="text-sm text-muted-foreground">Transfer Fee:</span>
-            <span className="font-medium">No fee</span>
-          </div>
           <div className="flex justify-between font-medium">
             <span>Total:</span>
             <span>{Number.parseFloat(amount).toFixed(3)} {selectedToken.symbol}</span>
@@ -327,7 +367,7 @@ const ConfirmTransferForm = ({ onSubmit }: ConfirmTransferFormProps) => {
                   <span>Processing Transfer...</span>
                 </div>
               ) : (
-                withPassword ? "Confirm Protected Transfer" : "Confirm Transfer"
+                withEscrow ? "Fund Escrow" : withPassword ? "Confirm Protected Transfer" : "Confirm Transfer"
               )}
             </Button>
           )
@@ -1,4 +1,6 @@
-import { Shield, Lock } from 'lucide-react';
+import { Shield, Lock, Scale } from 'lucide-react';
+import { isAddress } from 'viem';
+import { useAccount } from 'wagmi';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -17,7 +19,27 @@ const ProtectionOptionsForm = ({ onNext }: ProtectionOptionsFormProps) => {
     password,
     setPassword,
     transferType,
+    recipient,
+    setRecipient,
+    withEscrow,
+    setWithEscrow,
+    arbiter,
+    setArbiter,
+    isEscrowAvailable,
   } = useTransferContext();
+  const { address } = useAccount();
+
+  // Escrow needs three distinct parties
+  const escrowError = !withEscrow
+    ? null
+    : !isAddress(recipient)
+      ? 'Enter the recipient wallet address'
+      : !isAddress(arbiter)
+        ? 'Enter the arbiter wallet address'
+        : [recipient, arbiter].some((party) => party.toLowerCase() === address?.toLowerCase()) ||
+            recipient.toLowerCase() === arbiter.toLowerCase()
+          ? 'You, the recipient and the arbiter must all be different wallets'
+          : null;
 
   return (
     <Card>
@@ -28,8 +50,67 @@ const ProtectionOptionsForm = ({ onNext }: ProtectionOptionsFormProps) => {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Escrow: the recipient claims after you approve, an arbiter settles disputes */}
+        {transferType === 'claim' && isEscrowAvailable && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <div className="flex items-center">
+                  <Scale className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <label htmlFor="escrow" className="text-sm font-medium">
+                    Escrow with Arbiter
+                  </label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {withEscrow
+                    ? 'Funds are held until you approve the release; either side can dispute'
+                    : 'For marketplace deals where you pay before receiving the goods'}
+                </p>
+              </div>
+              <Switch
+                id="escrow"
+                checked={withEscrow}
+                onCheckedChange={setWithEscrow}
+              />
+            </div>
+
+            {withEscrow && (
+              <div className="space-y-3 pl-6">
+                <div className="space-y-2">
+                  <label htmlFor="escrow-recipient" className="text-sm font-medium">
+                    Recipient
+                  </label>
+                  <Input
+                    id="escrow-recipient"
+                    placeholder="0x..."
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value.trim())}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="escrow-arbiter" className="text-sm font-medium">
+                    Arbiter
+                  </label>
+                  <Input
+                    id="escrow-arbiter"
+                    placeholder="0x... someone you both trust"
+                    value={arbiter}
+                    onChange={(e) => setArbiter(e.target.value.trim())}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Only the arbiter can settle a dispute, by splitting the funds between you and the recipient
+                  </p>
+                </div>
+                {escrowError && (recipient || arbiter) && (
+                  <p className="text-xs text-red-500">{escrowError}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
         {/* Password protection only for claim transfers */}
-        {transferType === 'claim' && (
+        {transferType === 'claim' && !withEscrow && (
           <>
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -81,7 +162,7 @@ const ProtectionOptionsForm = ({ onNext }: ProtectionOptionsFormProps) => {
         )}
       </CardContent>
       <CardFooter>
-        <Button type="button" onClick={onNext} className="w-full">
+        <Button type="button" onClick={onNext} className="w-full" disabled={!!escrowError}>
           Continue <ArrowRight className="ml-2 h-4 w-4" />
         </Button>
       </CardFooter>
@@ -10,8 +10,13 @@ import { ArrowRight } from 'lucide-react';
 import { useTransferContext } from '@/contexts/TransferContext';
 import QRCodeScanner from '@/components/QRCodeScanner';
 import { useLocation } from 'react-router-dom';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { getNoteKey, MAX_NOTE_LENGTH } from '@/services/TransferNoteService';
+import { isPaymentRequestUri, parsePaymentRequestUri } from '@/utils/payment-uri-utils';
+import { findTokenByAddress } from '@/services/TokenRegistryService';
+import { useChainId, useConfig } from 'wagmi';
+import { formatUnits } from 'viem';
 
 interface RecipientDetailsFormProps {
   onNext: () => void;
@@ -24,10 +29,15 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
     setRecipient,
     amount,
     setAmount,
+    note,
+    setNote,
     selectedToken,
     setSelectedToken,
     transferType,
     setTransferType,
+    setWithPassword,
+    setWithEscrow,
+    tokens,
   } = useTransferContext();
 
   // Validation state
@@ -45,6 +55,72 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
   });
 
   const location = useLocation();
+  const chainId = useChainId();
+  const { chains } = useConfig();
+
+  // Mismatches between a scanned payment request and what we can pay here
+  const [requestWarnings, setRequestWarnings] = useState<string[]>([]);
+
+  // Pre-fill the form from an EIP-681 payment request
+  // `protect` pays it as a protected transfer to the requester, e.g. for an invoice, instead of a plain one
+  const applyPaymentRequest = useCallback((uri: string, protect = false): boolean => {
+    const request = parsePaymentRequestUri(uri);
+    if (!request) return false;
+
+    const warnings: string[] = [];
+    setRecipient(request.recipient);
+    if (protect) {
+      // Only the requester can claim it, so no claim code is needed
+      setTransferType('claim');
+      setWithPassword(false);
+      setWithEscrow(false);
+    } else {
+      setTransferType('direct');
+    }
+
+    if (request.chainId && request.chainId !== chainId) {
+      const getName = (id: number) => chains.find((chain) => chain.id === id)?.name ?? `chain ${id}`;
+      warnings.push(`This request is for ${getName(request.chainId)}, but you're on ${getName(chainId)}. Switch networks before paying.`);
+    }
+
+    // Any registry token on this chain can pay a scanned request
+    const token = request.tokenAddress ? findTokenByAddress(request.tokenAddress, chainId) : undefined;
+    if (token) {
+      const tokenOption = tokens.find((option) => option.symbol === token.symbol);
+      if (tokenOption) setSelectedToken(tokenOption);
+      if (request.amount !== null) setAmount(formatUnits(request.amount, token.decimals));
+    } else {
+      warnings.push(request.tokenAddress
+        ? `This request asks for a token STRAPT doesn't support (${request.tokenAddress.slice(0, 6)}...${request.tokenAddress.slice(-4)}). Check the token and amount before paying.`
+        : "This request asks for the network's native currency, which STRAPT can't send. Check the token and amount before paying.");
+    }
+
+    setRequestWarnings(warnings);
+    return true;
+  }, [chainId, chains, tokens, setRecipient, setTransferType, setWithPassword, setWithEscrow, setSelectedToken, setAmount]);
+
+  // Plain token transfers have no claim code, so only a recipient with a note key can read the note
+  const [recipientHasNoteKey, setRecipientHasNoteKey] = useState(true);
+
+  useEffect(() => {
+    if (transferType !== 'direct' || !/^0x[a-fA-F0-9]{40}$/.test(recipient)) {
+      setRecipientHasNoteKey(true);
+      return;
+    }
+
+    let cancelled = false;
+    getNoteKey(recipient)
+      .then((record) => {
+        if (!cancelled) setRecipientHasNoteKey(!!record);
+      })
+      .catch(() => {
+        if (!cancelled) setRecipientHasNoteKey(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recipient, transferType]);
 
   // Validation functions
   const validateRecipient = (value: string): string | undefined => {
@@ -129,17 +205,27 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
     }
   };
 
-  // Check for recipient in URL query parameters (from QR code scanning)
+  // Check for recipient or payment request in URL query parameters (from QR code scanning)
+  const hasTokens = tokens.length > 0;
   useEffect(() => {
     const params = new URLSearchParams(location.search);
     const toAddress = params.get('to');
-
-    if (toAddress?.startsWith('0x')) {
+    const paymentRequest = params.get('request');
+    const requestNote = params.get('note');
+    const requestMode = params.get('mode');
+
+    if (paymentRequest) {
+      applyPaymentRequest(paymentRequest, requestMode === 'protected');
+      // e.g. the invoice number when paying an invoice
+      if (requestNote) setNote(requestNote.slice(0, MAX_NOTE_LENGTH));
+    } else if (toAddress?.startsWith('0x')) {
       setRecipient(toAddress);
       // Automatically set to direct transfer when an address is provided
       setTransferType('direct');
     }
-  }, [location.search, setRecipient, setTransferType]);
+    // Apply again once balances load, since loading them resets the selected token
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.search, hasTokens, setRecipient, setTransferType, setNote]);
 
   // Validate form when transfer type changes
   useEffect(() => {
@@ -159,6 +245,13 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {requestWarnings.map((warning) => (
+          <Alert key={warning} variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{warning}</AlertDescription>
+          </Alert>
+        ))}
+
         {/* Only show recipient field for direct transfers */}
         {transferType === 'direct' && (
           <div className="space-y-2">
@@ -182,8 +275,10 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
                 buttonSize="icon"
                 iconOnly={true}
                 onScanSuccess={(result) => {
-                  // Check if it's an Ethereum address
-                  if (result?.startsWith('0x') && result.length === 42) {
+                  if (result && isPaymentRequestUri(result)) {
+                    applyPaymentRequest(result);
+                  } else if (result?.startsWith('0x') && result.length === 42) {
+                    // Plain Ethereum address
                     setRecipient(result);
                   }
                 }}
@@ -205,7 +300,7 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
             Token
           </label>
           <TokenSelect
-            tokens={useTransferContext().tokens}
+            tokens={tokens}
             selectedToken={selectedToken}
             onTokenChange={setSelectedToken}
           />
@@ -250,7 +345,7 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
           </p>
         </div>
 
-        {/* <div className="space-y-2">
+        <div className="space-y-2">
           <label htmlFor="note" className="text-sm font-medium">
             Note (Optional)
           </label>
@@ -258,9 +353,15 @@ const RecipientDetailsForm = ({ onNext, hideTransferMethod = false }: RecipientD
             id="note"
             placeholder="What's this for?"
             value={note}
+            maxLength={MAX_NOTE_LENGTH}
             onChange={(e) => setNote(e.target.value)}
           />
-        </div> */}
+          <p className="text-xs text-muted-foreground">
+            {note && !recipientHasNoteKey
+              ? "This recipient hasn't enabled encrypted notes yet, so they won't be able to read it. Use a claim link instead."
+              : 'Encrypted so only the recipient can read it'}
+          </p>
+        </div>
 
         {!hideTransferMethod && (
           <div className="space-y-2">
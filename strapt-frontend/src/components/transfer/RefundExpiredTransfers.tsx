@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useXellarWallet } from '@/hooks/use-xellar-wallet';
+import { useProtectedTransferV2, type RefundableTransfers } from '@/hooks/use-protected-transfer-v2';
+
+interface RefundExpiredTransfersProps {
+  onRefunded?: () => void;
+  className?: string;
+}
+
+/**
+ * Button that refunds every expired, unclaimed transfer of the connected sender in one transaction
+ * Renders nothing when there is nothing to refund, or the deployment predates batch refunds
+ */
+const RefundExpiredTransfers = ({ onRefunded, className }: RefundExpiredTransfersProps) => {
+  const { address } = useXellarWallet();
+  const { getRefundableTransfers, refundTransfers, isBatchRefundAvailable } = useProtectedTransferV2();
+  const [refundable, setRefundable] = useState<RefundableTransfers | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  const loadRefundable = useCallback(async () => {
+    try {
+      setRefundable(await getRefundableTransfers());
+    } catch (error) {
+      console.error('Error loading refundable transfers:', error);
+      setRefundable(null);
+    }
+    // getRefundableTransfers reads the connected account itself
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [address]);
+
+  useEffect(() => {
+    if (address) loadRefundable();
+  }, [address, loadRefundable]);
+
+  const handleRefund = async () => {
+    if (!refundable) return;
+    setShowConfirm(false);
+    setIsRefunding(true);
+    try {
+      await refundTransfers(refundable.transfers.map((transfer) => transfer.id));
+      toast.success('Transfers refunded', {
+        description: refundable.totals.map((total) => `${total.amount} ${total.tokenSymbol}`).join(' and ') + ' is back in your wallet',
+      });
+      onRefunded?.();
+      await loadRefundable();
+    } catch (error) {
+      // The hook already reported the error
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  if (!isBatchRefundAvailable || !refundable || refundable.transfers.length === 0) return null;
+
+  const count = refundable.transfers.length;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className={className}
+        disabled={isRefunding}
+        onClick={() => setShowConfirm(true)}
+      >
+        <RotateCcw className="h-4 w-4 mr-1" />
+        {isRefunding ? 'Refunding...' : `Refund ${count} expired`}
+      </Button>
+
+      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Refund expired transfers?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {count === 1 ? 'One transfer' : `${count} transfers`} expired without being claimed.
+              Refunding {count === 1 ? 'it' : 'them'} in one transaction returns:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="rounded-lg border divide-y">
+            {refundable.totals.map((total) => (
+              <div key={total.tokenSymbol} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className="text-muted-foreground">
+                  {total.count} {total.count === 1 ? 'transfer' : 'transfers'}
+                </span>
+                <span className="font-medium">{total.amount} {total.tokenSymbol}</span>
+              </div>
+            ))}
+          </div>
+          {refundable.remaining > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {refundable.remaining} more can be refunded after this one
+            </p>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Not now</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRefund}>Refund all</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default RefundExpiredTransfers;
@@ -0,0 +1,55 @@
+import { MessageSquare, LockKeyhole } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useTransferNote } from '@/hooks/use-transfer-note';
+
+interface TransferNoteProps {
+  transferId?: string | null;
+  claimCode?: string;
+  linkKey?: string;
+  compact?: boolean;      // Single line without the unlock button, for lists
+  lockedHint?: string;
+  className?: string;
+}
+
+/**
+ * Shows the decrypted note of a transfer, or a locked placeholder
+ * Renders nothing when the transfer has no note
+ */
+const TransferNote = ({ transferId, claimCode, linkKey, compact = false, lockedHint, className }: TransferNoteProps) => {
+  const { note, hasNote, canUnlock, isUnlocking, unlock } = useTransferNote(transferId, { claimCode, linkKey });
+
+  if (!hasNote) return null;
+
+  if (compact) {
+    return (
+      <p className={cn('text-xs text-muted-foreground flex items-center gap-1 truncate', className)}>
+        {note ? <MessageSquare className="h-3 w-3 flex-shrink-0" /> : <LockKeyhole className="h-3 w-3 flex-shrink-0" />}
+        <span className="truncate">{note ?? 'Encrypted note'}</span>
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('rounded-lg border p-3 text-left', className)}>
+      <p className="text-xs text-muted-foreground flex items-center gap-1 mb-1">
+        {note ? <MessageSquare className="h-3 w-3" /> : <LockKeyhole className="h-3 w-3" />}
+        Note
+      </p>
+      {note ? (
+        <p className="text-sm whitespace-pre-wrap break-words">{note}</p>
+      ) : canUnlock ? (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">Sign with your wallet to read this note</p>
+          <Button variant="outline" size="sm" onClick={unlock} disabled={isUnlocking}>
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">{lockedHint || 'This note is encrypted for someone else'}</p>
+      )}
+    </div>
+  );
+};
+
+export default TransferNote;
@@ -18,6 +18,7 @@ const TransferSuccessView = ({ onReset, onShowQR }: TransferSuccessViewProps) =>
     recipient,
     amount,
     withPassword,
+    withEscrow,
     selectedToken,
     transferType,
     transferLink,
@@ -91,7 +92,7 @@ const TransferSuccessView = ({ onReset, onShowQR }: TransferSuccessViewProps) =>
             transition={{ delay: 0.3 }}
             className="text-muted-foreground"
           >
-            Your {transferType === 'direct' ? 'direct transfer' : 'protected transfer'} of {amount} {selectedToken.symbol}
+            Your {transferType === 'direct' ? 'direct transfer' : withEscrow ? 'escrow' : 'protected transfer'} of {amount} {selectedToken.symbol}
             {recipient ? (
               <> to {recipient.length > 12 ? `${recipient.slice(0, 6)}...${recipient.slice(-4)}` : recipient}</>
             ) : (
@@ -123,7 +124,11 @@ const TransferSuccessView = ({ onReset, onShowQR }: TransferSuccessViewProps) =>
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.5 }}
             >
-              <p className="text-sm text-muted-foreground mb-2">Share this link with the recipient:</p>
+              <p className="text-sm text-muted-foreground mb-2">
+                {withEscrow
+                  ? 'Share this link so the recipient can follow the escrow:'
+                  : 'Share this link with the recipient:'}
+              </p>
               <div className="bg-secondary p-2 rounded text-sm mb-2 overflow-hidden text-ellipsis">
                 {transferLink}
               </div>
@@ -179,7 +184,24 @@ const TransferSuccessView = ({ onReset, onShowQR }: TransferSuccessViewProps) =>
             </motion.div>
           )}
 
-          {transferType === 'claim' && (
+          {transferType === 'claim' && withEscrow && (
+            <motion.div
+              className="bg-secondary/30 p-3 rounded-md text-sm"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.6 }}
+            >
+              <div className="flex items-center text-amber-500 mb-1">
+                <Clock className="h-4 w-4 mr-1" /> Waiting for Your Approval
+              </div>
+              <p>
+                Approve the release from <Link to="/app/escrows" className="underline">Escrows</Link> once
+                the deal is done. If you never approve, you can refund it after it expires.
+              </p>
+            </motion.div>
+          )}
+
+          {transferType === 'claim' && !withEscrow && (
             <motion.div
               className="bg-secondary/30 p-3 rounded-md text-sm"
               initial={{ opacity: 0, y: 10 }}
@@ -2,10 +2,18 @@ import { createContext, useContext, useState, ReactNode, useEffect } from 'react
 import { TokenOption } from '@/components/TokenSelect';
 import { useProtectedTransferV2, TokenType } from '@/hooks/use-protected-transfer-v2';
 import { useTokenBalances } from '@/hooks/use-token-balances';
+import { useTokenUtils, type PermitSignature } from '@/hooks/useTokenUtils';
 import { toast } from 'sonner';
-import { writeContract, waitForTransactionReceipt } from 'wagmi/actions';
+import { writeContract, getChainId } from 'wagmi/actions';
 import { useAccount } from 'wagmi';
 import { config } from '@/providers/XellarProvider';
+import { getExplorerTxUrl, getSupportedChain } from '@/lib/chains';
+import { getContractAddress } from '@/services/ContractRegistryService';
+import { getApprovalAmount, isUnlimitedAllowance } from '@/services/ApprovalService';
+import { generateTransferClaimLink } from '@/utils/qr-code-utils';
+import { saveTransferNote } from '@/services/TransferNoteService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+import { useEscrow } from '@/hooks/use-escrow';
 
 export type TransferType = 'direct' | 'claim';
 
@@ -23,6 +31,11 @@ interface TransferContextType {
   setWithPassword: (value: boolean) => void;
   password: string;
   setPassword: (value: string) => void;
+  withEscrow: boolean;
+  setWithEscrow: (value: boolean) => void;
+  arbiter: string;
+  setArbiter: (value: string) => void;
+  isEscrowAvailable: boolean;
   selectedToken: TokenOption;
   setSelectedToken: (value: TokenOption) => void;
   transferType: TransferType;
@@ -55,7 +68,7 @@ interface TransferContextType {
   createProtectedTransfer: () => Promise<boolean | undefined>;
   createProtectedLinkTransfer: () => Promise<boolean | undefined>;
   claimProtectedTransfer: (transferId: string, claimCode: string) => Promise<boolean>;
-  claimProtectedLinkTransfer: (transferId: string) => Promise<boolean>;
+  claimProtectedLinkTransfer: (transferId: string, claimCode?: string) => Promise<boolean>;
   refundProtectedTransfer: (transferId: string) => Promise<boolean>;
 }
 
@@ -80,6 +93,9 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
   const [withTimeout, setWithTimeout] = useState(true); // Always true for 24-hour expiry
   const [withPassword, setWithPassword] = useState(true); // Default to true for claim code
   const [password, setPassword] = useState('');
+  // Escrow replaces the claim link: the recipient claims after the sender approves, an arbiter settles disputes
+  const [withEscrow, setWithEscrow] = useState(false);
+  const [arbiter, setArbiter] = useState('');
   const [transferType, setTransferType] = useState<TransferType>('direct'); // Default to direct transfer
   const [transferLink, setTransferLink] = useState('');
 
@@ -88,12 +104,7 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
 
   // Get real token balances
   const { tokens, isLoading: isLoadingTokens } = useTokenBalances();
-  const [selectedToken, setSelectedToken] = useState<TokenOption>({
-    symbol: 'IDRX',
-    name: 'IDRX Token',
-    balance: 0,
-    icon: '/IDRX BLUE COIN.svg',
-  });
+  const [selectedToken, setSelectedToken] = useState<TokenOption>(tokens[0]);
 
   useEffect(() => {
     if (tokens.length > 0) {
@@ -106,6 +117,8 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
   const [transferId, setTransferId] = useState<string | null>(null);
   const [isApproving, setIsApproving] = useState(false);
   const [isApproved, setIsApproved] = useState(false);
+  // Signed EIP-2612 permit used instead of an approve transaction, when the token supports it
+  const [permitSignature, setPermitSignature] = useState<PermitSignature | null>(null);
   const [isDirectTransferLoading, setIsDirectTransferLoading] = useState(false);
 
   // Use the Protected Transfer V2 hook
@@ -118,11 +131,30 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
     refundTransfer,
     generateClaimCode,
     checkAllowance,
-    USDC_ADDRESS,
-    IDRX_ADDRESS,
     isPasswordProtected,
   } = useProtectedTransferV2();
 
+  const {
+    supportsPermit,
+    signPermit,
+    getTokenAddress: getRegistryTokenAddress,
+    getTokenDecimals,
+    getTokenABI,
+  } = useTokenUtils();
+  const {
+    isAvailable: isEscrowAvailable,
+    isLoading: isEscrowLoading,
+    checkEscrowAllowance,
+    approveEscrow,
+    createEscrow,
+  } = useEscrow();
+
+  // A permit is signed for an exact amount, token and spender, so it's void once any changes
+  useEffect(() => {
+    setPermitSignature(null);
+    setIsApproved(false);
+  }, [amount, selectedToken.symbol, withEscrow]);
+
   // Format timeout for display - always returns 24 hours
   const formatTimeout = () => {
     return "24 hours";
@@ -141,12 +173,12 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
 
   // Get token type from selected token
   const getTokenType = (): TokenType => {
-    return selectedToken.symbol === 'USDC' ? 'USDC' : 'IDRX';
+    return selectedToken.symbol;
   };
 
   // Get token address from selected token
   const getTokenAddress = (): `0x${string}` => {
-    return selectedToken.symbol === 'USDC' ? USDC_ADDRESS : IDRX_ADDRESS;
+    return getRegistryTokenAddress(selectedToken.symbol);
   };
 
   // Validate amount before transfer
@@ -170,11 +202,31 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
     return true;
   };
 
+  // Encrypt and store the note, if any; a note that can't be saved doesn't undo the transfer
+  // Returns the key to put in the claim link when the link is the only way to read the note
+  const attachNote = async (
+    id: string,
+    options: { recipient?: string; claimCode?: string; withLinkKey?: boolean }
+  ): Promise<string | undefined> => {
+    if (!note.trim()) return undefined;
+
+    try {
+      return (await saveTransferNote(id, note.trim(), options)) ?? undefined;
+    } catch (error) {
+      console.error('Error saving transfer note:', error);
+      toast.warning("Transfer sent without its note", {
+        description: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  };
+
   // Approve token for transfer
   const approveToken = async (): Promise<boolean> => {
     try {
       setIsApproving(true);
       setIsApproved(false);
+      setPermitSignature(null);
 
       // Check if wallet is connected
       if (!address) {
@@ -191,6 +243,18 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
         return true;
       }
 
+      // Escrows pull the tokens through their own contract, approved for the exact amount
+      if (withEscrow) {
+        if (await checkEscrowAllowance(getTokenType(), amount, address)) {
+          setIsApproved(true);
+          toast.success("Token already approved");
+          return true;
+        }
+        const approved = await approveEscrow(getTokenType(), amount);
+        setIsApproved(approved);
+        return approved;
+      }
+
       // First check if we already have sufficient allowance
       // This avoids unnecessary approval transactions
       try {
@@ -206,45 +270,60 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
         // Continue with approval process even if allowance check fails
       }
 
+      // Get protected transfer contract address
+      const protectedTransferAddress = getContractAddress('ProtectedTransferV2');
+
+      // Tokens with EIP-2612 support only need a signature; the transfer itself submits the permit
+      if (await supportsPermit(getTokenType())) {
+        try {
+          const permit = await signPermit(getTokenType(), amount, protectedTransferAddress);
+          if (permit) {
+            setPermitSignature(permit);
+            setIsApproved(true);
+            toast.success("Transfer authorized", {
+              description: "No approval transaction needed"
+            });
+            return true;
+          }
+        } catch (error) {
+          console.error('Error signing permit:', error);
+          if (error.message?.includes('rejected') || error.message?.includes('denied')) {
+            toast.error("Signature rejected", {
+              description: "You canceled the permit signature"
+            });
+            return false;
+          }
+          // Otherwise fall back to a regular approval
+        }
+      }
+
       // Get token ABI based on selected token
-      const tokenABI = selectedToken.symbol === 'USDC'
-        ? (await import('@/contracts/USDCMock.json')).default.abi
-        : (await import('@/contracts/IDRX.json')).default.abi;
+      const tokenABI = getTokenABI(selectedToken.symbol);
 
       // Parse amount with correct decimals
       const { parseUnits } = await import('viem');
-      const decimals = selectedToken.symbol === 'USDC' ? 6 : 2;
-
-      // Use a much larger approval amount to avoid frequent re-approvals
-      // For safety, we'll approve for a large amount (1,000,000 tokens)
-      // This is a common pattern to reduce transactions and gas costs
-      const safetyFactor = BigInt("1000000000000"); // A very large multiplier
+      const decimals = getTokenDecimals(selectedToken.symbol);
 
       // Get token address
       const tokenAddress = getTokenAddress();
 
-      // Get protected transfer contract address
-      const protectedTransferAddress = (await import('@/contracts/contract-config.json')).default.ProtectedTransferV2.address as `0x${string}`;
-
       try {
-        console.log('Approving token for maximum allowance');
-
-        // Use the maximum possible approval (2^256 - 1) to avoid future approvals
-        const maxApproval = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
+        // Unlimited unless the user switched to exact-amount approvals
+        const approvalAmount = getApprovalAmount(parseUnits(amount, decimals));
+        console.log('Approving token for', isUnlimitedAllowance(approvalAmount) ? 'maximum allowance' : 'the transfer amount');
 
         const hash = await writeContract(config, {
           abi: tokenABI,
           functionName: 'approve',
-          args: [protectedTransferAddress, maxApproval],
+          args: [protectedTransferAddress, approvalAmount],
           address: tokenAddress,
           account: address,
-          chain: config.chains[0], // Use the first chain in the config
+          chain: getSupportedChain(getChainId(config)), // Use the connected chain
         });
+        trackTransaction({ hash, type: 'approve', description: `Approve ${selectedToken.symbol} for transfers`, amount, tokenSymbol: selectedToken.symbol });
 
         // Wait for transaction to be confirmed
-        const receipt = await waitForTransactionReceipt(config, {
-          hash
-        });
+        const receipt = await waitForTransaction(hash);
 
         if (receipt.status === 'success') {
           // After a successful approval transaction, assume it worked
@@ -310,13 +389,11 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
           setIsDirectTransferLoading(true);
 
           // Get token ABI based on selected token
-          const tokenABI = selectedToken.symbol === 'USDC'
-            ? (await import('@/contracts/USDCMock.json')).default.abi
-            : (await import('@/contracts/IDRX.json')).default.abi;
+          const tokenABI = getTokenABI(selectedToken.symbol);
 
           // Parse amount with correct decimals
           const { parseUnits } = await import('viem');
-          const decimals = selectedToken.symbol === 'USDC' ? 6 : 2;
+          const decimals = getTokenDecimals(selectedToken.symbol);
           const parsedAmount = parseUnits(amount, decimals);
 
           // Get token address
@@ -329,20 +406,22 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
             args: [recipient as `0x${string}`, parsedAmount],
             address: tokenAddress,
             account: address,
-            chain: config.chains[0], // Use the first chain in the config
+            chain: getSupportedChain(getChainId(config)), // Use the connected chain
           });
+          trackTransaction({ hash, type: 'transfer', description: `Send ${amount} ${selectedToken.symbol}`, amount, tokenSymbol: selectedToken.symbol });
 
           // Wait for transaction to be confirmed
-          const receipt = await waitForTransactionReceipt(config, {
-            hash
-          });
+          const receipt = await waitForTransaction(hash);
 
           if (receipt.status === 'success') {
+            // Plain token transfers have no transfer ID, so the note is keyed by the transaction hash
+            await attachNote(hash, { recipient });
+
             toast.success("Direct transfer successful", {
               description: `Transaction: ${hash}`,
               action: {
                 label: 'View on Explorer',
-                onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${hash}`, '_blank')
+                onClick: () => window.open(getExplorerTxUrl(getChainId(config), hash), '_blank')
               }
             });
 
@@ -385,7 +464,8 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
         amount,
         expiryTimestamp,
         withPassword,
-        customPassword
+        customPassword,
+        permitSignature
       );
 
       if (result?.transferId) {
@@ -396,10 +476,15 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
         // Set the gross amount (original amount before fee)
         setGrossAmount(amount);
 
+        const noteKey = await attachNote(result.transferId, {
+          recipient: recipient || undefined,
+          claimCode: result.claimCode || undefined,
+          withLinkKey: !recipient && !result.claimCode,
+        });
+
         // Generate transfer link with real domain
-        const baseUrl = window.location.origin;
         // For password-protected transfers, don't include the password in the URL
-        const link = `${baseUrl}/app/claims?id=${result.transferId}`;
+        const link = generateTransferClaimLink(result.transferId, undefined, undefined, noteKey);
         setTransferLink(link);
 
         toast.success("Transfer created successfully", {
@@ -408,6 +493,7 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
 
         // Reset approval state for next transfer
         setIsApproved(false);
+        setPermitSignature(null);
 
         return true;
       }
@@ -437,6 +523,32 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Fund an escrow for the recipient; its ID stands in for the transfer ID
+  const createEscrowTransfer = async (): Promise<boolean> => {
+    if (!recipient || !arbiter) {
+      toast.error("Escrow needs a recipient and an arbiter");
+      return false;
+    }
+
+    // 0 uses the contract's default escrow expiry
+    const escrowId = await createEscrow(recipient, arbiter, getTokenType(), amount, 0);
+
+    setClaimCode('');
+    setTransferId(escrowId);
+    setGrossAmount(amount);
+    await attachNote(escrowId, { recipient });
+
+    // The recipient follows the escrow there and claims once it's approved
+    setTransferLink(`${window.location.origin}/app/escrows?id=${escrowId}`);
+
+    toast.success("Escrow funded", {
+      description: `${amount} ${selectedToken.symbol} is held until you approve the release`
+    });
+
+    setIsApproved(false);
+    return true;
+  };
+
   // Create a protected link transfer
   const createProtectedLinkTransfer = async (): Promise<boolean | undefined> => {
     try {
@@ -457,6 +569,10 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
         return false;
       }
 
+      if (withEscrow) {
+        return await createEscrowTransfer();
+      }
+
       // Use fixed 24-hour expiry timestamp if withTimeout is true, otherwise no expiry
       const expiryTimestamp = withTimeout ? getExpiryTimestamp() : 0; // 0 means no expiry
 
@@ -476,7 +592,8 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
           amount,
           expiryTimestamp,
           true, // withPassword = true
-          customPassword
+          customPassword,
+          permitSignature
         );
 
         // Save the claim code - make sure the claim code is properly stored
@@ -484,9 +601,11 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
 
         // Generate transfer link with real domain and claim code
         if (result?.transferId) {
-          const baseUrl = window.location.origin;
+          // The note opens with the claim code, like the transfer itself
+          await attachNote(result.transferId, { claimCode: result.claimCode || customPassword });
+
           // For password-protected transfers, don't include the password in the URL
-          const link = `${baseUrl}/app/claims?id=${result.transferId}`;
+          const link = generateTransferClaimLink(result.transferId);
           setTransferLink(link);
 
           // Save the transfer ID
@@ -501,6 +620,7 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
 
           // Reset approval state for next transfer
           setIsApproved(false);
+          setPermitSignature(null);
 
           return true;
         }
@@ -511,16 +631,20 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
         result = await createLinkTransfer(
           getTokenType(),
           amount,
-          expiryTimestamp
+          expiryTimestamp,
+          false,
+          null,
+          permitSignature
         );
 
-        // For link transfers without password, we don't need a claim code
+        // Without a password there is no code to share; its secret travels in the link
         setClaimCode('');
 
-        // Generate transfer link with real domain (no claim code)
+        // Generate transfer link with real domain and the link secret
         if (result?.transferId) {
-          const baseUrl = window.location.origin;
-          const link = `${baseUrl}/app/claims?id=${result.transferId}`;
+          // Anyone with the link can claim, so the link also carries the note key
+          const noteKey = await attachNote(result.transferId, { withLinkKey: true });
+          const link = generateTransferClaimLink(result.transferId, result.claimCode, undefined, noteKey);
           setTransferLink(link);
 
           // Save the transfer ID
@@ -535,6 +659,7 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
 
           // Reset approval state for next transfer
           setIsApproved(false);
+          setPermitSignature(null);
 
           return true;
         }
@@ -625,7 +750,7 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Claim a protected link transfer
-  const claimProtectedLinkTransfer = async (id: string) => {
+  const claimProtectedLinkTransfer = async (id: string, code: string = '') => {
     try {
       console.log('Attempting to claim link transfer with ID:', id);
 
@@ -648,8 +773,8 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
       // For non-password protected transfers, attempt to claim directly
       if (!requiresPassword) {
         console.log('Attempting to claim non-password protected transfer');
-        // Pass an empty string as the claim code - this will skip simulation in the claimTransfer function
-        return await claimTransfer(id, '');
+        // The claim code is the secret carried in the link
+        return await claimTransfer(id, code.trim());
       } else {
         // For password-protected transfers, notify the user
         console.log('Transfer is password-protected, notifying user');
@@ -730,6 +855,11 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
     setWithPassword,
     password,
     setPassword,
+    withEscrow,
+    setWithEscrow,
+    arbiter,
+    setArbiter,
+    isEscrowAvailable,
     selectedToken,
     setSelectedToken,
     transferType,
@@ -744,7 +874,7 @@ export const TransferProvider = ({ children }: { children: ReactNode }) => {
     isLoadingTokens,
 
     // Protected Transfer state
-    isLoading: isLoading || isLoadingTokens || isDirectTransferLoading,
+    isLoading: isLoading || isEscrowLoading || isLoadingTokens || isDirectTransferLoading,
     isDirectTransferLoading,
     isConfirmed,
     isApproving,
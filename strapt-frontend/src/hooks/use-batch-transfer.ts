@@ -0,0 +1,252 @@
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { isAddress } from 'viem';
+import { toast } from 'sonner';
+import { useXellarWallet } from './use-xellar-wallet';
+import { TokenType, useTokenUtils, useTokenBalances } from './useTokenUtils';
+import { useProtectedTransferV2, MAX_BATCH_SIZE } from './use-protected-transfer-v2';
+import { useContractUtils } from './useContractUtils';
+import { refreshData } from '@/services/DataSubscriptionService';
+import { parseBatchTransferCsv, parseCsvExpiry, BatchTransferCsvRow } from '@/utils/csv-utils';
+import { findToken } from '@/services/TokenRegistryService';
+
+// Transfers sent per transaction; kept below the contract limit to stay well within block gas
+export const BATCH_CHUNK_SIZE = Math.min(25, MAX_BATCH_SIZE);
+
+// Same bound the contract enforces on expiry
+const MAX_EXPIRY_SECONDS = 30 * 24 * 60 * 60;
+
+// Keep row errors short enough for the table
+const shortenError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.length > 120 ? `${message.slice(0, 120)}...` : message;
+};
+
+// 'pending' chunks were broadcast but not confirmed; they are watched, never sent again
+export type BatchRowStatus = 'invalid' | 'ready' | 'sending' | 'pending' | 'sent' | 'failed';
+
+export interface BatchTransferRow extends BatchTransferCsvRow {
+  tokenType?: TokenType;
+  expiryTimestamp: number;
+  status: BatchRowStatus;
+  error?: string;
+  hash?: `0x${string}`;     // Transaction of the row's chunk, once broadcast
+  transferId?: string;
+}
+
+/**
+ * Hook for paying many recipients from a CSV through ProtectedTransferV2
+ * Validates rows, approves the total per token once, then sends the rows in chunks
+ */
+export function useBatchTransfer() {
+  const { address } = useXellarWallet();
+  const { parseTokenAmount, formatTokenAmount, checkAllowance, approveToken } = useTokenUtils();
+  const { balances } = useTokenBalances();
+  const { createDirectTransferBatch, waitForBatchTransfer } = useProtectedTransferV2();
+  const { getContractAddress } = useContractUtils();
+
+  const [rows, setRows] = useState<BatchTransferRow[]>([]);
+  const [isApproving, setIsApproving] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Hashes already being watched, and the latest waitForBatchTransfer for the watcher
+  const watchedHashes = useRef(new Set<string>());
+  const waitForBatchTransferRef = useRef(waitForBatchTransfer);
+  waitForBatchTransferRef.current = waitForBatchTransfer;
+
+  // Validate a single parsed CSV row
+  const validateRow = useCallback((row: BatchTransferCsvRow): BatchTransferRow => {
+    const invalid = (error: string): BatchTransferRow => ({ ...row, expiryTimestamp: 0, status: 'invalid', error });
+
+    if (!isAddress(row.recipient)) return invalid('Invalid recipient address');
+    const token = findToken(row.token);
+    if (!token) return invalid(`Unsupported token "${row.token}"`);
+
+    const tokenType: TokenType = token.symbol;
+    try {
+      if (parseTokenAmount(row.amount, tokenType) <= 0n) return invalid('Amount must be greater than 0');
+    } catch (e) {
+      return invalid('Invalid amount');
+    }
+
+    const expiryTimestamp = parseCsvExpiry(row.expiry);
+    const now = Math.floor(Date.now() / 1000);
+    if (expiryTimestamp === null) return invalid('Invalid expiry date');
+    if (expiryTimestamp !== 0 && (expiryTimestamp <= now || expiryTimestamp > now + MAX_EXPIRY_SECONDS)) {
+      return invalid('Expiry must be in the future and within 30 days');
+    }
+
+    return { ...row, tokenType, expiryTimestamp, status: 'ready' };
+  }, [parseTokenAmount]);
+
+  // Parse and validate a CSV file
+  const loadCsv = useCallback((text: string) => {
+    const parsed = parseBatchTransferCsv(text);
+    setRows(parsed.map(validateRow));
+    return parsed.length;
+  }, [validateRow]);
+
+  const reset = useCallback(() => {
+    setRows([]);
+  }, []);
+
+  // Rows that still have to be sent (new or from a failed chunk)
+  // Broadcast chunks stay out until their transaction settles, so they can't be paid twice
+  const pendingRows = useMemo(
+    () => rows.filter(row => row.status === 'ready' || row.status === 'failed'),
+    [rows]
+  );
+
+  // Transactions of chunks that were broadcast but never confirmed
+  const unconfirmedHashes = useMemo(
+    () => [...new Set(rows.filter(row => row.status === 'pending' && row.hash).map(row => row.hash))].join(','),
+    [rows]
+  );
+
+  // Settle unconfirmed chunks from their transaction: sent if it was mined, failed (and sendable again) if not
+  useEffect(() => {
+    if (!unconfirmedHashes) return;
+
+    for (const hash of unconfirmedHashes.split(',') as `0x${string}`[]) {
+      if (watchedHashes.current.has(hash)) continue;
+      watchedHashes.current.add(hash);
+
+      waitForBatchTransferRef.current(hash)
+        .then((transferIds) => {
+          setRows(current => {
+            const chunk = current.filter(row => row.hash === hash);
+            return current.map(row => {
+              const index = chunk.indexOf(row);
+              return index >= 0 ? { ...row, status: 'sent', error: undefined, transferId: transferIds[index] } : row;
+            });
+          });
+          refreshData('transfers');
+        })
+        .catch((error) => {
+          setRows(current => current.map(row => (
+            row.hash === hash ? { ...row, status: 'failed', hash: undefined, error: shortenError(error) } : row
+          )));
+        })
+        .finally(() => {
+          watchedHashes.current.delete(hash);
+        });
+    }
+  }, [unconfirmedHashes]);
+
+  // Total still to be sent per token, in raw units
+  const totals = useMemo(() => {
+    const result: Partial<Record<TokenType, bigint>> = {};
+    for (const row of pendingRows) {
+      result[row.tokenType] = (result[row.tokenType] || 0n) + parseTokenAmount(row.amount, row.tokenType);
+    }
+    return result;
+  }, [pendingRows, parseTokenAmount]);
+
+  // Tokens whose wallet balance does not cover the remaining total
+  const balanceErrors = useMemo(() => {
+    return (Object.keys(totals) as TokenType[])
+      .filter(tokenType => balances[tokenType] !== undefined && totals[tokenType] > balances[tokenType].value)
+      .map(tokenType =>
+        `Insufficient ${tokenType}: need ${formatTokenAmount(totals[tokenType], tokenType)}, have ${formatTokenAmount(balances[tokenType].value, tokenType)}`
+      );
+  }, [totals, balances, formatTokenAmount]);
+
+  const updateRows = (lines: number[], update: Partial<BatchTransferRow>) => {
+    setRows(current => current.map(row => (lines.includes(row.line) ? { ...row, ...update } : row)));
+  };
+
+  /**
+   * Approve and send all pending rows
+   * Stops at the first failing chunk; calling it again resumes with the unsent rows
+   * @returns Promise with true if every row was sent
+   */
+  const sendBatch = useCallback(async (): Promise<boolean> => {
+    if (!address) {
+      toast.error("No wallet connected");
+      return false;
+    }
+    if (pendingRows.length === 0) return true;
+    if (balanceErrors.length > 0) {
+      toast.error("Insufficient balance", { description: balanceErrors[0] });
+      return false;
+    }
+
+    const spender = getContractAddress('ProtectedTransferV2');
+
+    try {
+      setIsProcessing(true);
+
+      // Approve the remaining total once per token
+      setIsApproving(true);
+      for (const tokenType of Object.keys(totals) as TokenType[]) {
+        const total = formatTokenAmount(totals[tokenType], tokenType);
+        const hasAllowance = await checkAllowance(tokenType, total, address, spender);
+        if (!hasAllowance) {
+          const approved = await approveToken(tokenType, total, spender);
+          if (!approved) return false;
+        }
+      }
+      setIsApproving(false);
+
+      for (let start = 0; start < pendingRows.length; start += BATCH_CHUNK_SIZE) {
+        const chunk = pendingRows.slice(start, start + BATCH_CHUNK_SIZE);
+        const lines = chunk.map(row => row.line);
+
+        updateRows(lines, { status: 'sending', error: undefined });
+
+        const submitted: { hash?: `0x${string}` } = {};
+        try {
+          const transferIds = await createDirectTransferBatch(chunk.map(row => ({
+            recipient: row.recipient,
+            tokenType: row.tokenType,
+            amount: row.amount,
+            expiryTimestamp: row.expiryTimestamp,
+          })), (hash) => {
+            submitted.hash = hash;
+            updateRows(lines, { hash });
+          });
+
+          setRows(current => current.map(row => {
+            const index = lines.indexOf(row.line);
+            return index >= 0 ? { ...row, status: 'sent', transferId: transferIds[index] } : row;
+          }));
+        } catch (error) {
+          if (submitted.hash) {
+            // Broadcast, so it may still be mined; its transaction decides whether the rows were sent
+            updateRows(lines, { status: 'pending', hash: submitted.hash });
+            toast.info("Waiting for the batch transaction", {
+              description: "Its rows are sent again only if the transaction fails"
+            });
+            return false;
+          }
+          updateRows(lines, { status: 'failed', error: shortenError(error) });
+          return false;
+        }
+      }
+
+      toast.success("Batch transfer complete", {
+        description: `${pendingRows.length} transfers created`
+      });
+      return true;
+    } finally {
+      setIsApproving(false);
+      setIsProcessing(false);
+      refreshData('transfers');
+    }
+  }, [address, pendingRows, balanceErrors, totals, getContractAddress, formatTokenAmount, checkAllowance, approveToken, createDirectTransferBatch]);
+
+  return {
+    rows,
+    totals,
+    balanceErrors,
+    pendingCount: pendingRows.length,
+    sentCount: rows.filter(row => row.status === 'sent').length,
+    invalidCount: rows.filter(row => row.status === 'invalid').length,
+    unconfirmedCount: rows.filter(row => row.status === 'pending').length,
+    hasFailures: rows.some(row => row.status === 'failed'),
+    isApproving,
+    isProcessing,
+    loadCsv,
+    sendBatch,
+    reset,
+  };
+}
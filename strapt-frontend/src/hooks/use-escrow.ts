@@ -0,0 +1,333 @@
+import { useState, useCallback } from 'react';
+import { useChainId } from 'wagmi';
+import { decodeEventLog, formatUnits, type AbiEvent } from 'viem';
+import { readContract, simulateContract, writeContract, getAccount, getPublicClient } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import ProtectedEscrowABI from '@/contracts/ProtectedEscrow.json';
+import { TokenType, useTokenUtils } from './useTokenUtils';
+import { useErrorHandler } from './useErrorHandler';
+import { getEventSource } from '@/services/EventSource';
+import { findTokenByAddress } from '@/services/TokenRegistryService';
+import { findContractAddress } from '@/services/ContractRegistryService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+
+// Escrow status enum, matching ProtectedEscrow.EscrowStatus
+export enum EscrowStatus {
+  Funded = 0,
+  Approved = 1,
+  Disputed = 2,
+  Released = 3,
+  Resolved = 4,
+  Refunded = 5
+}
+
+// How each escrow call is listed in the transaction outbox
+const ESCROW_ACTIONS: Record<string, string> = {
+  createEscrow: 'Create escrow',
+  approveRelease: 'Approve escrow release',
+  claimEscrow: 'Claim escrow',
+  raiseDispute: 'Raise escrow dispute',
+  resolveDispute: 'Resolve escrow dispute',
+  refundEscrow: 'Refund escrow',
+};
+
+// Escrow type
+export interface Escrow {
+  id: string;
+  sender: string;
+  recipient: string;
+  arbiter: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  amount: string;       // Net amount held after fee
+  grossAmount: string;  // Original amount before fee
+  expiry: number;
+  status: EscrowStatus;
+  createdAt: number;
+  disputedBy?: string;
+  disputeDeadline?: number;  // When the sender can refund if the arbiter hasn't ruled
+}
+
+// One step in an escrow's history, read from contract events
+export interface EscrowTimelineEvent {
+  type: 'created' | 'approved' | 'disputed' | 'resolved' | 'claimed' | 'refunded';
+  actor: string;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+  timestamp?: number;        // Unix seconds, when the block could be read
+  reason?: string;           // Dispute reason
+  recipientAmount?: string;  // Dispute split
+  senderAmount?: string;
+}
+
+// Maximum length of a dispute reason the contract accepts, in bytes
+export const MAX_DISPUTE_REASON_LENGTH = 280;
+
+const getEscrowEvent = (name: string) => (ProtectedEscrowABI.abi as AbiEvent[]).find(
+  (item) => item.type === 'event' && item.name === name
+) as AbiEvent;
+
+// Events that make up the timeline, with the arg holding the acting address
+const TIMELINE_EVENTS: { name: string; type: EscrowTimelineEvent['type']; actorArg: string }[] = [
+  { name: 'EscrowCreated', type: 'created', actorArg: 'sender' },
+  { name: 'ReleaseApproved', type: 'approved', actorArg: 'sender' },
+  { name: 'DisputeRaised', type: 'disputed', actorArg: 'raisedBy' },
+  { name: 'DisputeResolved', type: 'resolved', actorArg: 'arbiter' },
+  { name: 'EscrowClaimed', type: 'claimed', actorArg: 'recipient' },
+  { name: 'EscrowRefunded', type: 'refunded', actorArg: 'sender' },
+];
+
+/**
+ * Hook for arbiter-mediated escrows
+ * The sender funds an escrow, the recipient claims once the sender approves,
+ * and the arbiter splits the funds if either side disputes
+ */
+export function useEscrow() {
+  const [isLoading, setIsLoading] = useState(false);
+  const { getTokenAddress, parseTokenAmount, checkAllowance, approveToken } = useTokenUtils();
+  const { handleError } = useErrorHandler();
+
+  // The escrow contract isn't deployed on every network yet
+  const chainId = useChainId();
+  const escrowAddress = findContractAddress('ProtectedEscrow', chainId);
+
+  const requireEscrowAddress = (): `0x${string}` => {
+    if (!escrowAddress) throw new Error('Escrow is not available on this network yet');
+    return escrowAddress;
+  };
+
+  const getTokenInfo = useCallback((tokenAddress: string): { symbol: string; decimals: number } => {
+    return findTokenByAddress(tokenAddress) ?? { symbol: 'Unknown', decimals: 18 };
+  }, []);
+
+  // Simulate, send and wait for an escrow call; returns the receipt
+  const sendEscrowTransaction = async (functionName: string, args: unknown[]) => {
+    const account = getAccount(config);
+    if (!account || !account.address) {
+      throw new Error("No wallet connected");
+    }
+
+    // Simulate first so calls the contract would reject fail before the wallet prompt
+    const { request } = await simulateContract(config, {
+      abi: ProtectedEscrowABI.abi,
+      address: requireEscrowAddress(),
+      functionName,
+      args,
+      account: account.address,
+    });
+
+    const hash = await writeContract(config, request);
+    trackTransaction({
+      hash,
+      type: functionName === 'createEscrow' ? 'create-escrow' : 'update-escrow',
+      description: ESCROW_ACTIONS[functionName] ?? functionName,
+      targetId: functionName === 'createEscrow' ? undefined : String(args[0]),
+    });
+    const receipt = await waitForTransaction(hash);
+    if (receipt.status !== 'success') {
+      throw new Error('Escrow transaction failed on-chain');
+    }
+    return receipt;
+  };
+
+  // Wrap an escrow action with loading state and error toasts
+  const runEscrowAction = async <T,>(errorMessage: string, action: () => Promise<T>): Promise<T> => {
+    try {
+      setIsLoading(true);
+      return await action();
+    } catch (error) {
+      handleError(error, errorMessage);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Check whether the escrow contract may already pull `amount` from the owner
+  const checkEscrowAllowance = async (tokenType: TokenType, amount: string, ownerAddress: string) =>
+    checkAllowance(tokenType, amount, ownerAddress, requireEscrowAddress());
+
+  // Approve the escrow contract for exactly `amount`
+  const approveEscrow = async (tokenType: TokenType, amount: string) =>
+    approveToken(tokenType, amount, requireEscrowAddress());
+
+  // Fund a new escrow; the caller is expected to have approved the amount beforehand
+  const createEscrow = (
+    recipient: string,
+    arbiter: string,
+    tokenType: TokenType,
+    amount: string,
+    expiryTimestamp: number   // 0 uses the contract default
+  ): Promise<string> => runEscrowAction('Failed to create escrow', async () => {
+    const receipt = await sendEscrowTransaction('createEscrow', [
+      recipient as `0x${string}`,
+      arbiter as `0x${string}`,
+      getTokenAddress(tokenType),
+      parseTokenAmount(amount, tokenType),
+      BigInt(expiryTimestamp),
+    ]);
+
+    // The token transfer logs come first, so find the escrow event itself
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== requireEscrowAddress().toLowerCase()) continue;
+      try {
+        const decoded = decodeEventLog({ abi: ProtectedEscrowABI.abi, data: log.data, topics: log.topics });
+        if (decoded.eventName === 'EscrowCreated') {
+          return (decoded.args as unknown as { escrowId: string }).escrowId;
+        }
+      } catch (e) {
+        // Not an escrow event
+      }
+    }
+    throw new Error('Failed to get escrow ID from transaction');
+  });
+
+  // Sender: let the recipient claim
+  const approveRelease = (escrowId: string) => runEscrowAction('Failed to approve release', async () => {
+    await sendEscrowTransaction('approveRelease', [escrowId as `0x${string}`]);
+    return true;
+  });
+
+  // Recipient: collect an approved escrow
+  const claimEscrow = (escrowId: string) => runEscrowAction('Failed to claim escrow', async () => {
+    await sendEscrowTransaction('claimEscrow', [escrowId as `0x${string}`]);
+    return true;
+  });
+
+  // Sender or recipient: freeze the escrow until the arbiter decides
+  const raiseDispute = (escrowId: string, reason: string) => runEscrowAction('Failed to raise dispute', async () => {
+    await sendEscrowTransaction('raiseDispute', [escrowId as `0x${string}`, reason]);
+    return true;
+  });
+
+  // Arbiter: pay `recipientSharePercent` to the recipient and the rest back to the sender
+  const resolveDispute = (escrowId: string, recipientSharePercent: number) => runEscrowAction('Failed to resolve dispute', async () => {
+    const basisPoints = Math.round(Math.min(100, Math.max(0, recipientSharePercent)) * 100);
+    await sendEscrowTransaction('resolveDispute', [escrowId as `0x${string}`, basisPoints]);
+    return true;
+  });
+
+  // Recipient at any time before claiming, sender after expiry or once an unresolved dispute's deadline passes
+  const refundEscrow = (escrowId: string) => runEscrowAction('Failed to refund escrow', async () => {
+    await sendEscrowTransaction('refundEscrow', [escrowId as `0x${string}`]);
+    return true;
+  });
+
+  // Read one escrow
+  const getEscrow = useCallback(async (escrowId: string): Promise<Escrow | null> => {
+    if (!escrowAddress) return null;
+
+    try {
+      const data = await readContract(config, {
+        abi: ProtectedEscrowABI.abi,
+        address: escrowAddress,
+        functionName: 'getEscrow',
+        args: [escrowId as `0x${string}`],
+      }) as readonly [string, string, string, string, bigint, bigint, bigint, number, bigint, string, bigint];
+
+      const [sender, recipient, arbiter, tokenAddress, amount, grossAmount, expiry, status, createdAt, disputedBy, disputeDeadline] = data;
+      const { symbol, decimals } = getTokenInfo(tokenAddress);
+
+      return {
+        id: escrowId,
+        sender,
+        recipient,
+        arbiter,
+        tokenAddress,
+        tokenSymbol: symbol,
+        amount: formatUnits(amount, decimals),
+        grossAmount: formatUnits(grossAmount, decimals),
+        expiry: Number(expiry),
+        status: Number(status) as EscrowStatus,
+        createdAt: Number(createdAt),
+        disputedBy: /^0x0+$/.test(disputedBy) ? undefined : disputedBy,
+        disputeDeadline: disputeDeadline > 0n ? Number(disputeDeadline) : undefined,
+      };
+    } catch (error) {
+      console.error('Error getting escrow:', error);
+      return null;
+    }
+  }, [escrowAddress, getTokenInfo]);
+
+  // Read every escrow the user takes part in, newest first
+  const getUserEscrows = useCallback(async (userAddress: string): Promise<Escrow[]> => {
+    if (!escrowAddress) return [];
+
+    const escrowIds = await readContract(config, {
+      abi: ProtectedEscrowABI.abi,
+      address: escrowAddress,
+      functionName: 'getUserEscrows',
+      args: [userAddress as `0x${string}`],
+    }) as readonly string[];
+
+    const escrows = await Promise.all(escrowIds.map((id) => getEscrow(id)));
+    return escrows
+      .filter((escrow): escrow is Escrow => escrow !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }, [escrowAddress, getEscrow]);
+
+  // Read the history of an escrow from its events, oldest first
+  const getEscrowTimeline = useCallback(async (escrow: Escrow): Promise<EscrowTimelineEvent[]> => {
+    if (!escrowAddress) return [];
+
+    const eventSource = getEventSource(chainId);
+    const { decimals } = getTokenInfo(escrow.tokenAddress);
+
+    const groups = await Promise.all(TIMELINE_EVENTS.map(async ({ name, type, actorArg }) => {
+      const logs = await eventSource.getLogs<Record<string, unknown>>({
+        address: escrowAddress,
+        event: getEscrowEvent(name),
+        args: { escrowId: escrow.id },
+      });
+
+      return logs.map((log): EscrowTimelineEvent => ({
+        type,
+        actor: String(log.args[actorArg] ?? ''),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        reason: typeof log.args.reason === 'string' ? log.args.reason : undefined,
+        recipientAmount: typeof log.args.recipientAmount === 'bigint' ? formatUnits(log.args.recipientAmount, decimals) : undefined,
+        senderAmount: typeof log.args.senderAmount === 'bigint' ? formatUnits(log.args.senderAmount, decimals) : undefined,
+      }));
+    }));
+
+    const timeline = groups.flat().sort((a, b) => Number(a.blockNumber - b.blockNumber));
+
+    // Block timestamps are nice to have; the timeline still shows without them
+    const client = getPublicClient(config, { chainId });
+    if (client) {
+      const blockNumbers = [...new Set(timeline.map((event) => event.blockNumber))];
+      const timestamps = new Map<bigint, number>();
+      await Promise.all(blockNumbers.map(async (blockNumber) => {
+        try {
+          const block = await client.getBlock({ blockNumber });
+          timestamps.set(blockNumber, Number(block.timestamp));
+        } catch (error) {
+          console.error('Error reading block timestamp:', error);
+        }
+      }));
+      for (const event of timeline) {
+        event.timestamp = timestamps.get(event.blockNumber);
+      }
+    }
+
+    return timeline;
+  }, [chainId, escrowAddress, getTokenInfo]);
+
+  return {
+    isLoading,
+    isAvailable: !!escrowAddress,
+    escrowAddress,
+    checkEscrowAllowance,
+    approveEscrow,
+    createEscrow,
+    approveRelease,
+    claimEscrow,
+    raiseDispute,
+    resolveDispute,
+    refundEscrow,
+    getEscrow,
+    getUserEscrows,
+    getEscrowTimeline,
+  };
+}
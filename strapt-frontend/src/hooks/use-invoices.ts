@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useXellarWallet } from './use-xellar-wallet';
+import { getMatchedPaymentIds, matchPayments, useIncomingPayments, INVOICES_STORAGE_KEY } from './use-payment-requests';
+import { computeInvoiceTotals } from '@/utils/invoice-utils';
+import type { Invoice, InvoiceDetails } from '@/types/invoices';
+
+// Fields the issuer fills in; the rest is derived
+export type NewInvoice = Omit<InvoiceDetails, 'number' | 'issuer' | 'issueDate'> & {
+  clientAddress?: string;
+};
+
+/**
+ * Hook to manage the connected wallet's invoices
+ * Open invoices are marked paid when a transfer or stream covering the total comes in
+ */
+export function useInvoices() {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { address } = useXellarWallet();
+  const { received, streams, tokenTransfers } = useIncomingPayments();
+
+  // Load invoices from local storage
+  useEffect(() => {
+    if (!address) {
+      setInvoices([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const storageKey = `${INVOICES_STORAGE_KEY}_${address}`;
+      const storedInvoices = localStorage.getItem(storageKey);
+      setInvoices(storedInvoices ? JSON.parse(storedInvoices) : []);
+    } catch (error) {
+      console.error('Error loading invoices:', error);
+      setInvoices([]);
+    }
+
+    setIsLoading(false);
+  }, [address]);
+
+  // Save invoices to local storage
+  const saveInvoices = useCallback((updatedInvoices: Invoice[]) => {
+    if (!address) return;
+
+    try {
+      const storageKey = `${INVOICES_STORAGE_KEY}_${address}`;
+      localStorage.setItem(storageKey, JSON.stringify(updatedInvoices));
+    } catch (error) {
+      console.error('Error saving invoices:', error);
+    }
+  }, [address]);
+
+  // Track on-chain payments
+  useEffect(() => {
+    if (!address || isLoading) return;
+
+    setInvoices(prevInvoices => {
+      const matched = matchPayments(prevInvoices, received ?? [], streams ?? [], tokenTransfers, address, getMatchedPaymentIds(address));
+      if (!matched) return prevInvoices;
+      saveInvoices(matched);
+      return matched;
+    });
+  }, [address, isLoading, received, streams, tokenTransfers, saveInvoices]);
+
+  // Create an invoice, numbered after the wallet's previous ones
+  const createInvoice = useCallback((invoice: NewInvoice) => {
+    if (!address) return null;
+
+    const { clientAddress, ...details } = invoice;
+    const now = new Date().toISOString();
+    const lastNumber = Math.max(0, ...invoices.map((existing) => Number(existing.number.replace(/\D/g, '')) || 0));
+    const newInvoice: Invoice = {
+      ...details,
+      id: `invoice_${Date.now()}`,
+      number: `INV-${String(lastNumber + 1).padStart(4, '0')}`,
+      issuer: address as `0x${string}`,
+      issueDate: now,
+      amount: computeInvoiceTotals(details).total,
+      payer: clientAddress || undefined,
+      status: 'open',
+      createdAt: now,
+    };
+
+    setInvoices(prevInvoices => {
+      const updatedInvoices = [...prevInvoices, newInvoice];
+      saveInvoices(updatedInvoices);
+      return updatedInvoices;
+    });
+    return newInvoice;
+  }, [address, invoices, saveInvoices]);
+
+  // Cancel an open invoice
+  const cancelInvoice = useCallback((id: string) => {
+    if (!address) return;
+
+    setInvoices(prevInvoices => {
+      const updatedInvoices = prevInvoices.map(invoice =>
+        invoice.id === id && invoice.status === 'open' ? { ...invoice, status: 'cancelled' as const } : invoice
+      );
+      saveInvoices(updatedInvoices);
+      return updatedInvoices;
+    });
+  }, [address, saveInvoices]);
+
+  // Remove an invoice
+  const removeInvoice = useCallback((id: string) => {
+    if (!address) return;
+
+    setInvoices(prevInvoices => {
+      const updatedInvoices = prevInvoices.filter(invoice => invoice.id !== id);
+      saveInvoices(updatedInvoices);
+      return updatedInvoices;
+    });
+  }, [address, saveInvoices]);
+
+  return {
+    invoices,
+    isLoading,
+    createInvoice,
+    cancelInvoice,
+    removeInvoice,
+  };
+}
@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback } from 'react';
+import { parseUnits } from 'viem';
+import { useChainId } from 'wagmi';
+import { useXellarWallet } from './use-xellar-wallet';
+import { TransferDetails, TransferStatus } from './use-protected-transfer-v2';
+import { Stream, StreamStatus } from './use-payment-stream';
+import type { TokenType } from './useTokenUtils';
+import { useDataSubscription } from '@/services/DataSubscriptionService';
+import { getToken } from '@/services/TokenRegistryService';
+import { useIncomingTokenTransfers, type IncomingTokenTransfer } from '@/services/IncomingTransfersService';
+
+// What fulfilled a payment request; 'token-transfer' is a plain ERC-20 transfer, e.g. from the request QR
+export interface PaymentRequestPayment {
+  type: 'transfer' | 'token-transfer' | 'stream';
+  id: string;
+  from: string;
+  paidAt: string; // ISO date string
+}
+
+// Anything that waits for an incoming payment; shared with invoices
+export interface PayableRecord {
+  id: string;
+  amount: string;
+  token: TokenType;
+  payer?: string;          // Only payments from this address count, when set
+  status: 'open' | 'paid' | 'cancelled';
+  createdAt: string;       // ISO date string
+  payment?: PaymentRequestPayment;
+}
+
+// Define the payment request type
+export interface PaymentRequest extends PayableRecord {
+  memo?: string;
+  dueDate?: string;        // ISO date string
+}
+
+interface TransfersData {
+  sent: TransferDetails[];
+  received: TransferDetails[];
+}
+
+// Local storage keys, per wallet
+const PAYMENT_REQUESTS_STORAGE_KEY = 'strapt_payment_requests';
+export const INVOICES_STORAGE_KEY = 'strapt_invoices';
+
+// Every kind of record incoming payments are matched to
+const PAYABLE_STORAGE_KEYS = [PAYMENT_REQUESTS_STORAGE_KEY, INVOICES_STORAGE_KEY];
+
+// Payments sent slightly before the request was saved still count, e.g. when the payer scanned the QR first
+const CREATED_AT_TOLERANCE_SECONDS = 10 * 60;
+
+// How each kind of payment reads in "Paid by ... via ..."
+export const PAYMENT_TYPE_LABELS: Record<PaymentRequestPayment['type'], string> = {
+  'transfer': 'protected transfer',
+  'token-transfer': 'token transfer',
+  'stream': 'stream',
+};
+
+/**
+ * Check whether an open request is past its due date
+ */
+export const isPaymentRequestOverdue = (request: PayableRecord & { dueDate?: string }): boolean =>
+  request.status === 'open' && !!request.dueDate && new Date(request.dueDate).getTime() < Date.now();
+
+const toBaseUnits = (amount: string, token: TokenType): bigint => {
+  try {
+    return parseUnits(amount, getToken(token).decimals);
+  } catch (error) {
+    return 0n;
+  }
+};
+
+// Whether a payment of `amount` from `from` at `paidAt` (unix seconds) can fulfil the request
+const canFulfil = (request: PayableRecord, token: string, amount: string, from: string, paidAt: number) => {
+  if (token !== request.token) return false;
+  if (request.payer && request.payer.toLowerCase() !== from.toLowerCase()) return false;
+  if (paidAt < new Date(request.createdAt).getTime() / 1000 - CREATED_AT_TOLERANCE_SECONDS) return false;
+  return toBaseUnits(amount, request.token) >= toBaseUnits(request.amount, request.token);
+};
+
+/**
+ * Get the payments already settling a saved request or invoice of a wallet
+ * Requests and invoices are paid from the same transfers and streams, so each
+ * matcher skips what the other has taken
+ * @returns Lowercased transfer and stream IDs
+ */
+export const getMatchedPaymentIds = (address: string): Set<string> => {
+  const matched = new Set<string>();
+
+  for (const storageKey of PAYABLE_STORAGE_KEYS) {
+    try {
+      const stored = localStorage.getItem(`${storageKey}_${address}`);
+      const records: PayableRecord[] = stored ? JSON.parse(stored) : [];
+      for (const record of records) {
+        if (record.status === 'paid' && record.payment) matched.add(record.payment.id.toLowerCase());
+      }
+    } catch (error) {
+      console.error('Error reading matched payments:', error);
+    }
+  }
+
+  return matched;
+};
+
+/**
+ * Match open requests against incoming protected transfers, token transfers and streams
+ * Each payment fulfils at most one request, oldest request first. A protected transfer
+ * that is cancelled or refunded after matching reopens its request.
+ * @param matchedPaymentIds Payments already taken by other records, e.g. from getMatchedPaymentIds
+ * @returns The updated requests, or null if nothing changed
+ */
+export const matchPayments = <T extends PayableRecord>(
+  requests: T[],
+  received: TransferDetails[],
+  streams: Stream[],
+  tokenTransfers: IncomingTokenTransfer[],
+  address: string,
+  matchedPaymentIds: Set<string> = new Set()
+): T[] | null => {
+  let changed = false;
+  const transfersById = new Map(received.map((transfer) => [transfer.id.toLowerCase(), transfer]));
+
+  // Reopen requests whose transfer was pulled back
+  let updated = requests.map((request) => {
+    if (request.status !== 'paid' || request.payment?.type !== 'transfer') return request;
+    const transfer = transfersById.get(request.payment.id.toLowerCase());
+    if (transfer && (transfer.status === TransferStatus.Cancelled || transfer.status === TransferStatus.Refunded)) {
+      changed = true;
+      return { ...request, status: 'open' as const, payment: undefined };
+    }
+    return request;
+  });
+
+  const usedPayments = new Set([
+    ...matchedPaymentIds,
+    ...updated.filter((request) => request.payment).map((request) => request.payment!.id.toLowerCase()),
+  ]);
+
+  // Transfers count while pending too, since only the recipient can claim them
+  const transfers = received.filter((transfer) =>
+    transfer.recipient.toLowerCase() === address.toLowerCase() &&
+    (transfer.status === TransferStatus.Pending || transfer.status === TransferStatus.Claimed)
+  );
+  const incomingStreams = streams.filter((stream) =>
+    stream.recipient.toLowerCase() === address.toLowerCase() && stream.status !== StreamStatus.Canceled
+  );
+
+  const openRequests = updated
+    .filter((request) => request.status === 'open')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const request of openRequests) {
+    // Transfers are matched on the amount the payer sent, before the fee
+    const transfer = transfers.find((candidate) =>
+      !usedPayments.has(candidate.id.toLowerCase()) &&
+      canFulfil(request, candidate.tokenSymbol, candidate.grossAmount, candidate.sender, candidate.createdAt)
+    );
+    const tokenTransfer = transfer ? undefined : tokenTransfers.find((candidate) =>
+      !usedPayments.has(candidate.id.toLowerCase()) &&
+      canFulfil(request, candidate.tokenSymbol, candidate.amount, candidate.from, candidate.timestamp)
+    );
+    // Streams too, since the PaymentStream fee comes out of what the payer sent
+    const stream = transfer || tokenTransfer ? undefined : incomingStreams.find((candidate) =>
+      !usedPayments.has(candidate.id.toLowerCase()) &&
+      canFulfil(request, candidate.tokenSymbol, candidate.grossAmount ?? candidate.amount, candidate.sender, candidate.startTime)
+    );
+
+    const payment: PaymentRequestPayment | null = transfer
+      ? { type: 'transfer', id: transfer.id, from: transfer.sender, paidAt: new Date(transfer.createdAt * 1000).toISOString() }
+      : tokenTransfer
+        ? { type: 'token-transfer', id: tokenTransfer.id, from: tokenTransfer.from, paidAt: new Date(tokenTransfer.timestamp * 1000).toISOString() }
+        : stream
+        ? { type: 'stream', id: stream.id, from: stream.sender, paidAt: new Date(stream.startTime * 1000).toISOString() }
+          : null;
+    if (!payment) continue;
+
+    usedPayments.add(payment.id.toLowerCase());
+    updated = updated.map((candidate) =>
+      candidate.id === request.id ? { ...candidate, status: 'paid' as const, payment } : candidate
+    );
+    changed = true;
+  }
+
+  return changed ? updated : null;
+};
+
+/**
+ * Hook to get the transfers and streams that could pay a request
+ * Kept up to date by the data services
+ */
+export function useIncomingPayments() {
+  const { address } = useXellarWallet();
+  const chainId = useChainId();
+  const [transfersData] = useDataSubscription<TransfersData>('transfers');
+  const [streamsData] = useDataSubscription<Stream[]>('streams');
+  const tokenTransfers = useIncomingTokenTransfers(address, chainId);
+
+  return {
+    received: transfersData?.received,
+    streams: streamsData,
+    tokenTransfers,
+  };
+}
+
+/**
+ * Hook to manage payment requests
+ * Open requests are marked paid when a matching transfer or stream comes in
+ */
+export function usePaymentRequests() {
+  const [paymentRequests, setPaymentRequests] = useState<PaymentRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { address } = useXellarWallet();
+  const { received, streams, tokenTransfers } = useIncomingPayments();
+
+  // Load payment requests from local storage
+  useEffect(() => {
+    if (!address) {
+      setPaymentRequests([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      // Use a user-specific key to store payment requests
+      const storageKey = `${PAYMENT_REQUESTS_STORAGE_KEY}_${address}`;
+      const storedRequests = localStorage.getItem(storageKey);
+      setPaymentRequests(storedRequests ? JSON.parse(storedRequests) : []);
+    } catch (error) {
+      console.error('Error loading payment requests:', error);
+      setPaymentRequests([]);
+    }
+
+    setIsLoading(false);
+  }, [address]);
+
+  // Save payment requests to local storage
+  const savePaymentRequests = useCallback((updatedRequests: PaymentRequest[]) => {
+    if (!address) return;
+
+    try {
+      const storageKey = `${PAYMENT_REQUESTS_STORAGE_KEY}_${address}`;
+      localStorage.setItem(storageKey, JSON.stringify(updatedRequests));
+    } catch (error) {
+      console.error('Error saving payment requests:', error);
+    }
+  }, [address]);
+
+  // Mark requests paid as matching payments arrive
+  useEffect(() => {
+    if (!address || isLoading) return;
+
+    setPaymentRequests(prevRequests => {
+      const matched = matchPayments(prevRequests, received ?? [], streams ?? [], tokenTransfers, address, getMatchedPaymentIds(address));
+      if (!matched) return prevRequests;
+      savePaymentRequests(matched);
+      return matched;
+    });
+  }, [address, isLoading, received, streams, tokenTransfers, savePaymentRequests]);
+
+  // Add a new payment request
+  const addPaymentRequest = useCallback((request: Omit<PaymentRequest, 'id' | 'createdAt' | 'status' | 'payment'>) => {
+    if (!address) return null;
+
+    const newRequest: PaymentRequest = {
+      ...request,
+      id: `request_${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      status: 'open',
+    };
+
+    setPaymentRequests(prevRequests => {
+      const updatedRequests = [...prevRequests, newRequest];
+      savePaymentRequests(updatedRequests);
+      return updatedRequests;
+    });
+    return newRequest;
+  }, [address, savePaymentRequests]);
+
+  // Cancel an open payment request
+  const cancelPaymentRequest = useCallback((id: string) => {
+    if (!address) return;
+
+    setPaymentRequests(prevRequests => {
+      const updatedRequests = prevRequests.map(request =>
+        request.id === id && request.status === 'open' ? { ...request, status: 'cancelled' as const } : request
+      );
+      savePaymentRequests(updatedRequests);
+      return updatedRequests;
+    });
+  }, [address, savePaymentRequests]);
+
+  // Remove a payment request
+  const removePaymentRequest = useCallback((id: string) => {
+    if (!address) return;
+
+    setPaymentRequests(prevRequests => {
+      const updatedRequests = prevRequests.filter(request => request.id !== id);
+      savePaymentRequests(updatedRequests);
+      return updatedRequests;
+    });
+  }, [address, savePaymentRequests]);
+
+  return {
+    paymentRequests,
+    isLoading,
+    addPaymentRequest,
+    cancelPaymentRequest,
+    removePaymentRequest,
+  };
+}
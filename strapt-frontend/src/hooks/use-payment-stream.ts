@@ -1,18 +1,24 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, formatUnits, keccak256, toBytes, decodeEventLog, AbiEventLog } from 'viem';
+import { parseUnits, formatUnits, keccak256, toBytes, decodeEventLog, erc20Abi, AbiEventLog } from 'viem';
 import { toast } from 'sonner';
-import { writeContract, waitForTransactionReceipt, readContract } from 'wagmi/actions';
+import { writeContract, readContract, getChainId } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
 import PaymentStreamABI from '@/contracts/PaymentStream.json';
-import contractConfig from '@/contracts/contract-config.json';
-import USDCABI from '@/contracts/USDCMock.json';
-import IDRXABI from '@/contracts/IDRX.json';
 import { useXellarWallet } from './use-xellar-wallet';
-import { liskSepolia } from 'viem/chains';
+import { useErrorHandler } from './useErrorHandler';
+import { signTokenPermit, type PermitSignature } from './useTokenUtils';
+import { getToken, findTokenByAddress } from '@/services/TokenRegistryService';
+import { getContractAddress } from '@/services/ContractRegistryService';
+import { getApprovalAmount } from '@/services/ApprovalService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+import { scheduleRead } from '@/services/ReadSchedulerService';
+import { useDataRefresh } from '@/services/DataSubscriptionService';
+import { getSupportedChain, getChainRpcUrl, getExplorerTxUrl } from '@/lib/chains';
+import type { TokenType } from '@/types/tokens';
 
 // Define token types
-export type TokenType = 'USDC' | 'IDRX';
+export type { TokenType };
 
 // Define stream status enum to match contract
 export enum StreamStatus {
@@ -36,7 +42,8 @@ export interface Stream {
   recipient: string;
   tokenAddress: string;
   tokenSymbol: TokenType;
-  amount: string;
+  amount: string;          // Net amount streamed after fee
+  grossAmount?: string;    // Amount the sender paid, before fee
   streamed: string;
   startTime: number;
   endTime: number;
@@ -45,60 +52,44 @@ export interface Stream {
   withdrawn?: string; // Track amount actually withdrawn from contract
 }
 
-// Get contract address from config
-const PAYMENT_STREAM_ADDRESS = contractConfig.PaymentStream.address as `0x${string}`;
+// Contract address on the active network
+const getPaymentStreamAddress = () => getContractAddress('PaymentStream');
 
-// Token addresses
-const USDC_ADDRESS = contractConfig.PaymentStream.supportedTokens.USDC as `0x${string}`;
-const IDRX_ADDRESS = contractConfig.PaymentStream.supportedTokens.IDRX as `0x${string}`;
-
-// Create a cache for stream data to reduce RPC calls
-const streamCache = new Map<string, { data: Stream; timestamp: number }>();
-const CACHE_TTL = 300000; // 5 minutes cache TTL (increased from 1 minute)
-const STREAM_FETCH_INTERVAL = 120000; // 2 minutes between stream updates (increased from 30 seconds)
+// Last read of each stream, the fallback when a read fails
+const lastKnownStreams = new Map<string, Stream>();
+const STREAM_FETCH_INTERVAL = 120000; // 2 minutes before cached streams count as stale on mount
 const UI_UPDATE_INTERVAL = 1000; // 1 second between UI updates for real-time feel
-let lastRpcCallTime = 0;
-const RPC_RATE_LIMIT = 1000; // Minimum time between RPC calls in ms (increased from 500ms)
-// Singleton public client instance with proper typing
-let publicClientInstance: ReturnType<typeof import('viem').createPublicClient> | null = null;
-
-// Helper function to implement rate limiting for RPC calls
-const rateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  const timeSinceLastCall = now - lastRpcCallTime;
-
-  if (timeSinceLastCall < RPC_RATE_LIMIT) {
-    // Wait for the rate limit to expire
-    await new Promise(resolve => setTimeout(resolve, RPC_RATE_LIMIT - timeSinceLastCall));
-  }
-
-  lastRpcCallTime = Date.now();
-};
+// One public client per chain, with proper typing
+const publicClientInstances = new Map<number, ReturnType<typeof import('viem').createPublicClient>>();
 
-// Helper function to get or create the public client instance
+// Helper function to get or create the public client for the active chain
 const getPublicClient = async () => {
-  if (publicClientInstance) {
-    return publicClientInstance;
+  const chainId = getChainId(config);
+  const existing = publicClientInstances.get(chainId);
+  if (existing) {
+    return existing;
   }
 
   // Import necessary functions from viem
   const { createPublicClient, http } = await import('viem');
 
   // Create a public client with retry logic
-  publicClientInstance = createPublicClient({
-    chain: liskSepolia,
-    transport: http('https://rpc.sepolia-api.lisk.com', {
+  const publicClient = createPublicClient({
+    chain: getSupportedChain(chainId),
+    transport: http(getChainRpcUrl(chainId), {
       retryCount: 3,
       retryDelay: 1000,
     })
   });
 
-  return publicClientInstance;
+  publicClientInstances.set(chainId, publicClient);
+  return publicClient;
 };
 
 export function usePaymentStream() {
   const [isLoading, setIsLoading] = useState(false);
   const { address, isConnected } = useXellarWallet();
+  const { handleError } = useErrorHandler();
 
   // Write contract hooks
   const { writeContract, isPending, data: hash } = useWriteContract();
@@ -109,37 +100,21 @@ export function usePaymentStream() {
 
   // Helper function to get token address from token type
   const getTokenAddress = useCallback((tokenType: TokenType): `0x${string}` => {
-    switch (tokenType) {
-      case 'USDC':
-        return USDC_ADDRESS;
-      case 'IDRX':
-        return IDRX_ADDRESS;
-      default:
-        throw new Error(`Unsupported token type: ${tokenType}`);
-    }
+    return getToken(tokenType).address;
   }, []);
 
   // Helper function to get token decimals
   const getTokenDecimals = useCallback((tokenType: TokenType): number => {
-    switch (tokenType) {
-      case 'USDC':
-        return 6;
-      case 'IDRX':
-        return 2;
-      default:
-        return 18;
-    }
+    return getToken(tokenType).decimals;
   }, []);
 
   // Helper function to get token symbol from address
   const getTokenSymbol = useCallback((tokenAddress: string): TokenType => {
-    if (tokenAddress.toLowerCase() === USDC_ADDRESS.toLowerCase()) {
-      return 'USDC';
+    const token = findTokenByAddress(tokenAddress);
+    if (!token) {
+      throw new Error(`Unknown token address: ${tokenAddress}`);
     }
-    if (tokenAddress.toLowerCase() === IDRX_ADDRESS.toLowerCase()) {
-      return 'IDRX';
-    }
-    throw new Error(`Unknown token address: ${tokenAddress}`);
+    return token.symbol;
   }, []);
 
   // Check if token is approved
@@ -153,8 +128,8 @@ export function usePaymentStream() {
       const decimals = getTokenDecimals(tokenType);
       const parsedAmount = parseUnits(amount, decimals);
 
-      // Get the appropriate ABI based on token type
-      const abi = tokenType === 'USDC' ? USDCABI.abi : IDRXABI.abi;
+      // Every registry token is a plain ERC20
+      const abi = erc20Abi;
 
       // Read allowance with retry mechanism
       let retryCount = 0;
@@ -166,7 +141,7 @@ export function usePaymentStream() {
             address: tokenAddress,
             abi,
             functionName: 'allowance',
-            args: [owner as `0x${string}`, PAYMENT_STREAM_ADDRESS],
+            args: [owner as `0x${string}`, getPaymentStreamAddress()],
           }) as bigint;
 
           console.log('Current allowance:', {
@@ -205,8 +180,8 @@ export function usePaymentStream() {
       const decimals = getTokenDecimals(tokenType);
       const parsedAmount = parseUnits(amount, decimals);
 
-      // Get the appropriate ABI based on token type
-      const abi = tokenType === 'USDC' ? USDCABI.abi : IDRXABI.abi;
+      // Every registry token is a plain ERC20
+      const abi = erc20Abi;
 
       // Import necessary functions from wagmi
       const { simulateContract, writeContract: writeContractAction } = await import('wagmi/actions');
@@ -217,24 +192,25 @@ export function usePaymentStream() {
         throw new Error("No wallet connected");
       }
 
-      // Use maximum possible approval to avoid future approvals
-      const maxApproval = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
+      // Unlimited unless the user switched to exact-amount approvals
+      const approvalAmount = getApprovalAmount(parsedAmount);
 
       // Simulate the transaction first
       const { request } = await simulateContract(config, {
         address: tokenAddress,
         abi,
         functionName: 'approve',
-        args: [PAYMENT_STREAM_ADDRESS, maxApproval],
+        args: [getPaymentStreamAddress(), approvalAmount],
         account: account.address,
       });
 
       // Send the transaction
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'approve', description: `Approve ${tokenType} for streams`, amount, tokenSymbol: tokenType });
       console.log('Approval transaction sent with hash:', hash);
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      const receipt = await waitForTransaction(hash);
       console.log('Approval transaction confirmed:', receipt);
 
       // Add a small delay to ensure the blockchain state is updated
@@ -251,7 +227,7 @@ export function usePaymentStream() {
             address: tokenAddress,
             abi,
             functionName: 'allowance',
-            args: [account.address, PAYMENT_STREAM_ADDRESS],
+            args: [account.address, getPaymentStreamAddress()],
           }) as bigint;
 
           console.log(`Allowance check (attempt ${retryCount + 1}):`, {
@@ -286,21 +262,12 @@ export function usePaymentStream() {
       toast.success('Token approved successfully');
       return hash;
     } catch (error) {
-      console.error('Error approving token:', error);
-      if (error instanceof Error) {
-        if (error.message.includes('user rejected')) {
-          toast.error('Approval rejected by user');
-        } else {
-          toast.error(`Failed to approve token: ${error.message}`);
-        }
-      } else {
-        toast.error('Failed to approve token');
-      }
+      handleError(error, 'Failed to approve token');
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, [getTokenAddress, getTokenDecimals]);
+  }, [getTokenAddress, getTokenDecimals, handleError]);
 
   // Create a new payment stream
   const createStream = useCallback(async (
@@ -328,7 +295,21 @@ export function usePaymentStream() {
       // Check if token is approved
       const isAllowanceSufficient = await checkAllowance(tokenType, amount, account.address);
 
+      // Tokens with EIP-2612 support only need a signed permit, which createStreamWithPermit submits
+      let permit: PermitSignature | null = null;
       if (!isAllowanceSufficient) {
+        try {
+          permit = await signTokenPermit(tokenAddress, account.address, getPaymentStreamAddress(), parsedAmount);
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('user rejected')) {
+            throw error;
+          }
+          // Otherwise fall back to a regular approval
+          console.error('Error signing permit:', error);
+        }
+      }
+
+      if (!isAllowanceSufficient && !permit) {
         // Approve token first
         try {
           console.log('Insufficient allowance, approving token...');
@@ -345,10 +326,21 @@ export function usePaymentStream() {
           console.error('Error during token approval:', error);
           throw new Error(`Token approval failed: ${error instanceof Error ? error.message : 'unknown error'}`);
         }
-      } else {
+      } else if (!permit) {
         console.log('Token already approved, proceeding with stream creation');
       }
 
+      const createFunctionName = permit ? 'createStreamWithPermit' : 'createStream';
+      const createArgs: unknown[] = [
+        recipient as `0x${string}`,
+        tokenAddress,
+        parsedAmount,
+        BigInt(durationInSeconds),
+        milestonePercentages.map(p => BigInt(p)),
+        milestoneDescriptions,
+        ...(permit ? [permit] : [])
+      ];
+
       // No fee calculation needed
       const netAmount = parsedAmount; // No fee deduction
 
@@ -356,17 +348,10 @@ export function usePaymentStream() {
       let request: { address: `0x${string}`; abi: any; functionName: string; args: any[]; account: `0x${string}` };
       try {
         const simulationResult = await simulateContract(config, {
-          address: PAYMENT_STREAM_ADDRESS,
+          address: getPaymentStreamAddress(),
           abi: PaymentStreamABI.abi,
-          functionName: 'createStream',
-          args: [
-            recipient as `0x${string}`,
-            tokenAddress,
-            parsedAmount,
-            BigInt(durationInSeconds),
-            milestonePercentages.map(p => BigInt(p)),
-            milestoneDescriptions
-          ],
+          functionName: createFunctionName,
+          args: createArgs,
           account: account.address,
         });
         request = simulationResult.request;
@@ -375,17 +360,10 @@ export function usePaymentStream() {
         if (error instanceof Error && error.message.includes('0xfb8f41b2')) {
           console.log('Ignoring known error signature 0xfb8f41b2 and proceeding with transaction');
           request = {
-            address: PAYMENT_STREAM_ADDRESS,
+            address: getPaymentStreamAddress(),
             abi: PaymentStreamABI.abi,
-            functionName: 'createStream',
-            args: [
-              recipient as `0x${string}`,
-              tokenAddress,
-              parsedAmount,
-              BigInt(durationInSeconds),
-              milestonePercentages.map(p => BigInt(p)),
-              milestoneDescriptions
-            ],
+            functionName: createFunctionName,
+            args: createArgs,
             account: account.address,
           };
         } else {
@@ -395,10 +373,11 @@ export function usePaymentStream() {
 
       // Send the transaction
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'create-stream', description: `Stream ${amount} ${tokenType}`, amount, tokenSymbol: tokenType });
       console.log('Stream creation transaction sent with hash:', hash);
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      const receipt = await waitForTransaction(hash);
       console.log('Stream creation transaction confirmed:', receipt);
 
       // Extract stream ID from logs using viem's decodeEventLog
@@ -436,21 +415,12 @@ export function usePaymentStream() {
       toast.success('Stream created successfully');
       return streamId;
     } catch (error) {
-      console.error('Error creating stream:', error);
-      if (error instanceof Error) {
-        if (error.message.includes('user rejected')) {
-          toast.error('Stream creation rejected by user');
-        } else {
-          toast.error(`Failed to create stream: ${error.message}`);
-        }
-      } else {
-        toast.error('Failed to create stream');
-      }
+      handleError(error, 'Failed to create stream');
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, [getTokenAddress, getTokenDecimals, checkAllowance, approveToken]);
+  }, [getTokenAddress, getTokenDecimals, checkAllowance, approveToken, handleError]);
 
   // Pause a stream
   const pauseStream = useCallback(async (streamId: string): Promise<string> => {
@@ -471,7 +441,7 @@ export function usePaymentStream() {
 
       // Simulate the transaction first
       const { request } = await simulateContract(config, {
-        address: PAYMENT_STREAM_ADDRESS,
+        address: getPaymentStreamAddress(),
         abi: PaymentStreamABI.abi,
         functionName: 'pauseStream',
         args: [hexStreamId],
@@ -480,25 +450,22 @@ export function usePaymentStream() {
 
       // Send the transaction
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'update-stream', description: 'Pause stream', targetId: streamId });
       console.log('Stream pause transaction sent with hash:', hash);
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      const receipt = await waitForTransaction(hash);
       console.log('Stream pause transaction confirmed:', receipt);
 
-      // Clear the stream from cache to force a fresh fetch
-      streamCache.delete(streamId);
-
       toast.success('Stream paused successfully');
       return hash;
     } catch (error) {
-      console.error('Error pausing stream:', error);
-      toast.error('Failed to pause stream');
+      handleError(error, 'Failed to pause stream');
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [handleError]);
 
   // Resume a stream
   const resumeStream = useCallback(async (streamId: string): Promise<string> => {
@@ -519,7 +486,7 @@ export function usePaymentStream() {
 
       // Simulate the transaction first
       const { request } = await simulateContract(config, {
-        address: PAYMENT_STREAM_ADDRESS,
+        address: getPaymentStreamAddress(),
         abi: PaymentStreamABI.abi,
         functionName: 'resumeStream',
         args: [hexStreamId],
@@ -528,25 +495,22 @@ export function usePaymentStream() {
 
       // Send the transaction
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'update-stream', description: 'Resume stream', targetId: streamId });
       console.log('Stream resume transaction sent with hash:', hash);
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      const receipt = await waitForTransaction(hash);
       console.log('Stream resume transaction confirmed:', receipt);
 
-      // Clear the stream from cache to force a fresh fetch
-      streamCache.delete(streamId);
-
       toast.success('Stream resumed successfully');
       return hash;
     } catch (error) {
-      console.error('Error resuming stream:', error);
-      toast.error('Failed to resume stream');
+      handleError(error, 'Failed to resume stream');
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [handleError]);
 
   // Cancel a stream
   const cancelStream = useCallback(async (streamId: string): Promise<string> => {
@@ -567,7 +531,7 @@ export function usePaymentStream() {
 
       // Simulate the transaction first
       const { request } = await simulateContract(config, {
-        address: PAYMENT_STREAM_ADDRESS,
+        address: getPaymentStreamAddress(),
         abi: PaymentStreamABI.abi,
         functionName: 'cancelStream',
         args: [hexStreamId],
@@ -576,44 +540,22 @@ export function usePaymentStream() {
 
       // Send the transaction
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'update-stream', description: 'Cancel stream', targetId: streamId });
       console.log('Stream cancel transaction sent with hash:', hash);
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      const receipt = await waitForTransaction(hash);
       console.log('Stream cancel transaction confirmed:', receipt);
 
-      // Clear the stream from cache to force a fresh fetch
-      streamCache.delete(streamId);
-
       toast.success('Stream canceled successfully');
       return hash;
     } catch (error) {
-      console.error('Error canceling stream:', error);
-
-      // Handle specific error cases
-      if (error instanceof Error) {
-        if (error.message.includes('0xe450d38c') || error.message.includes('ERC20InsufficientBalance')) {
-          toast.error('Stream has insufficient balance. Some tokens may have already been withdrawn.');
-        } else if (error.message.includes('StreamNotFound')) {
-          toast.error('Stream not found');
-        } else if (error.message.includes('NotStreamSender')) {
-          toast.error('Only the stream creator can cancel this stream');
-        } else if (error.message.includes('StreamAlreadyCompleted')) {
-          toast.error('Stream has already been completed');
-        } else if (error.message.includes('StreamAlreadyCanceled')) {
-          toast.error('Stream has already been canceled');
-        } else {
-          toast.error('Failed to cancel stream');
-        }
-      } else {
-        toast.error('Failed to cancel stream');
-      }
-
+      handleError(error, 'Failed to cancel stream');
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [handleError]);
 
   // Release a milestone
   const releaseMilestone = useCallback(async (
@@ -637,7 +579,7 @@ export function usePaymentStream() {
 
       // Simulate the transaction first
       const { request } = await simulateContract(config, {
-        address: PAYMENT_STREAM_ADDRESS,
+        address: getPaymentStreamAddress(),
         abi: PaymentStreamABI.abi,
         functionName: 'releaseMilestone',
         args: [hexStreamId, BigInt(milestoneIndex)],
@@ -646,84 +588,50 @@ export function usePaymentStream() {
 
       // Send the transaction
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'update-stream', description: `Release milestone ${milestoneIndex + 1}`, targetId: streamId });
       console.log('Milestone release transaction sent with hash:', hash);
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      const receipt = await waitForTransaction(hash);
       console.log('Milestone release transaction confirmed:', receipt);
 
-      // Clear the stream from cache to force a fresh fetch
-      streamCache.delete(streamId);
-
       toast.success('Milestone released successfully', {
         description: `Transaction: ${hash}`,
         action: {
           label: 'View on Explorer',
-          onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${hash}`, '_blank')
+          onClick: () => window.open(getExplorerTxUrl(getChainId(config), hash), '_blank')
         }
       });
       return hash;
     } catch (error) {
-      console.error('Error releasing milestone:', error);
-      toast.error('Failed to release milestone');
+      handleError(error, 'Failed to release milestone');
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [handleError]);
 
-  // Get stream details with caching and rate limiting
+  // Get stream details; reads for streams loaded together go out as one multicall
   const getStreamDetails = useCallback(async (streamId: string): Promise<Stream | null> => {
     try {
-      // Check cache first
-      const now = Date.now();
-      const cachedStream = streamCache.get(streamId);
-
-      if (cachedStream && (now - cachedStream.timestamp) < CACHE_TTL) {
-        console.log('Using cached stream data for ID:', streamId);
-        return cachedStream.data;
-      }
-
-      // Apply rate limiting
-      await rateLimit();
-
-      // Get or create the public client instance
-      const publicClient = await getPublicClient();
-
       // Ensure streamId is a valid hex string
       const hexStreamId = streamId.startsWith('0x') ? streamId as `0x${string}` : `0x${streamId}` as `0x${string}`;
       console.log('Getting details for stream ID:', hexStreamId);
 
-      // Get stream details with error handling
-      let streamData: [string, string, string, bigint, bigint, bigint, bigint, number] | null = null;
-      try {
-        streamData = await publicClient.readContract({
-          address: PAYMENT_STREAM_ADDRESS,
-          abi: PaymentStreamABI.abi,
+      const streamContract = { address: getPaymentStreamAddress(), abi: PaymentStreamABI.abi };
+      // getStream leaves out the amount before fee, which the public mapping has; both go in one multicall
+      const [streamData, storedStream] = await Promise.all([
+        scheduleRead<[string, string, string, bigint, bigint, bigint, bigint, number]>({
+          ...streamContract,
           functionName: 'getStream',
           args: [hexStreamId],
-        }) as [string, string, string, bigint, bigint, bigint, bigint, number];
-      } catch (error) {
-        console.error('Error reading stream data, retrying with delay:', error);
-        // Wait and retry once more with a longer delay
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        try {
-          streamData = await publicClient.readContract({
-            address: PAYMENT_STREAM_ADDRESS,
-            abi: PaymentStreamABI.abi,
-            functionName: 'getStream',
-            args: [hexStreamId],
-          }) as [string, string, string, bigint, bigint, bigint, bigint, number];
-        } catch (retryError) {
-          console.error('Retry failed, using cached data if available:', retryError);
-          // If we have cached data, return it even if expired
-          if (cachedStream) {
-            return cachedStream.data;
-          }
-          throw retryError;
-        }
-      }
+        }),
+        scheduleRead<readonly [string, string, string, bigint, bigint, ...unknown[]]>({
+          ...streamContract,
+          functionName: 'streams',
+          args: [hexStreamId],
+        }).catch(() => null),
+      ]);
 
       if (!streamData || !streamData[0]) {
         return null;
@@ -769,109 +677,59 @@ export function usePaymentStream() {
         tokenAddress: streamData[2],
         tokenSymbol,
         amount: formatUnits(streamData[3], decimals),
-        streamed: actualStreamed.toFixed(decimals === 2 ? 2 : 6),
+        grossAmount: storedStream ? formatUnits(storedStream[4], decimals) : undefined,
+        streamed: actualStreamed.toFixed(Math.min(decimals, 6)),
         startTime: startTime,
         endTime: endTime,
         status: status,
         milestones: [], // Initialize with empty array
-        withdrawn: contractStreamed.toFixed(decimals === 2 ? 2 : 6) // Track what was actually withdrawn from contract
+        withdrawn: contractStreamed.toFixed(Math.min(decimals, 6)) // Track what was actually withdrawn from contract
       };
 
       // Only fetch milestones if the stream is active or paused
       // This reduces unnecessary RPC calls for completed/canceled streams
+      const lastKnownStream = lastKnownStreams.get(streamId);
       if (stream.status === StreamStatus.Active || stream.status === StreamStatus.Paused) {
-        // Apply rate limiting before next RPC call
-        await rateLimit();
-
-        // Get milestone count with error handling
-        let milestoneCount: bigint = BigInt(0);
         try {
-          milestoneCount = await publicClient.readContract({
-            address: PAYMENT_STREAM_ADDRESS,
-            abi: PaymentStreamABI.abi,
+          const milestoneCount = await scheduleRead<bigint>({
+            ...streamContract,
             functionName: 'getMilestoneCount',
             args: [hexStreamId],
-          }) as bigint;
-        } catch (error) {
-          console.error('Error getting milestone count, assuming 0:', error);
-          // If we have cached data, use the milestones from there
-          if (cachedStream) {
-            stream.milestones = cachedStream.data.milestones;
-            milestoneCount = BigInt(0); // Skip further milestone fetching
-          }
-        }
-
-        // If we have cached milestones and encounter an error, use them as fallback
-        const cachedMilestones = cachedStream?.data.milestones || [];
-
-        // Only fetch milestones if there are any and we don't already have them from cache
-        if (Number(milestoneCount) > 0 && stream.milestones.length === 0) {
-          // Batch milestone fetches to reduce RPC calls
-          const milestoneBatchSize = 3; // Fetch 3 milestones at a time
-
-          for (let i = 0; i < Number(milestoneCount); i += milestoneBatchSize) {
-            // Apply rate limiting between milestone batches
-            if (i > 0) await rateLimit();
-
-            // Create a batch of promises for this group of milestones
-            const batchPromises = [];
-            for (let j = i; j < Math.min(i + milestoneBatchSize, Number(milestoneCount)); j++) {
-              // Use cached milestone as fallback if available
-              if (j < cachedMilestones.length) {
-                batchPromises.push(Promise.resolve(cachedMilestones[j]));
-                continue;
-              }
-
-              // Otherwise fetch from blockchain
-              batchPromises.push(
-                publicClient.readContract({
-                  address: PAYMENT_STREAM_ADDRESS,
-                  abi: PaymentStreamABI.abi,
-                  functionName: 'getMilestone',
-                  args: [hexStreamId, BigInt(j)],
-                }).then((data: any) => ({
-                  percentage: Number(data[0]),
-                  description: data[1],
-                  released: data[2]
-                })).catch(error => {
-                  console.error(`Error getting milestone ${j}:`, error);
-                  // Return cached milestone if available, otherwise null
-                  return j < cachedMilestones.length ? cachedMilestones[j] : null;
-                })
-              );
-            }
-
-            // Wait for all milestones in this batch
-            const batchResults = await Promise.all(batchPromises);
+          });
 
-            // Add valid milestones to the stream
-            for (const milestone of batchResults) {
-              if (milestone) {
-                stream.milestones.push(milestone);
-              }
-            }
-          }
-        } else if (stream.milestones.length === 0 && cachedMilestones.length > 0) {
-          // Use cached milestones if we have them
-          stream.milestones = cachedMilestones;
+          const milestones = await Promise.all(Array.from({ length: Number(milestoneCount) }, (_, index) =>
+            scheduleRead<[bigint, string, boolean]>({
+              ...streamContract,
+              functionName: 'getMilestone',
+              args: [hexStreamId, BigInt(index)],
+            })
+          ));
+
+          stream.milestones = milestones.map(([percentage, description, released]) => ({
+            percentage: Number(percentage),
+            description,
+            released
+          }));
+        } catch (error) {
+          console.error('Error getting milestones, using the last known ones:', error);
+          stream.milestones = lastKnownStream?.milestones ?? [];
         }
-      } else if (cachedStream) {
-        // For completed/canceled streams, use cached milestones if available
-        stream.milestones = cachedStream.data.milestones;
+      } else if (lastKnownStream) {
+        // For completed/canceled streams, keep the milestones we last read
+        stream.milestones = lastKnownStream.milestones;
       }
 
-      // Update cache with the new data
-      streamCache.set(streamId, { data: stream, timestamp: now });
+      lastKnownStreams.set(streamId, stream);
 
       return stream;
     } catch (error) {
       console.error('Error getting stream details:', error);
 
-      // If we have cached data, return it even if expired as a fallback
-      const cachedStream = streamCache.get(streamId);
-      if (cachedStream) {
-        console.log('Using expired cached data as fallback');
-        return cachedStream.data;
+      // Fall back to the last read of this stream, if any
+      const lastKnownStream = lastKnownStreams.get(streamId);
+      if (lastKnownStream) {
+        console.log('Using last known stream data as fallback');
+        return lastKnownStream;
       }
 
       return null;
@@ -898,7 +756,7 @@ export function usePaymentStream() {
       // First, update the stream to ensure the latest streamed amount is recorded
       try {
         await simulateContract(config, {
-          address: PAYMENT_STREAM_ADDRESS,
+          address: getPaymentStreamAddress(),
           abi: PaymentStreamABI.abi,
           functionName: 'updateStream',
           args: [hexStreamId],
@@ -933,126 +791,85 @@ export function usePaymentStream() {
         return null;
       }
 
-      try {
-        // Simulate the transaction first
-        const { request } = await simulateContract(config, {
-          address: PAYMENT_STREAM_ADDRESS,
-          abi: PaymentStreamABI.abi,
-          functionName: 'withdrawFromStream',
-          args: [hexStreamId],
-          account: account.address,
-        });
+      // Simulate the transaction first
+      const { request } = await simulateContract(config, {
+        address: getPaymentStreamAddress(),
+        abi: PaymentStreamABI.abi,
+        functionName: 'withdrawFromStream',
+        args: [hexStreamId],
+        account: account.address,
+      });
 
-        // Send the transaction
-        const hash = await writeContractAction(config, request);
-        console.log('Stream withdrawal transaction sent with hash:', hash);
-
-        // Wait for transaction to be confirmed
-        const receipt = await waitForTransactionReceipt(config, { hash });
-        console.log('Stream withdrawal transaction confirmed:', receipt);
-
-        // Format the claimed amount to 4 decimal places
-        const claimedAmount = Number(streamBefore.streamed).toFixed(4);
-
-        // Show success message with claimed amount
-        const tokenSymbol = await getTokenSymbol(streamBefore.tokenAddress);
-        const formattedAmount = withdrawableAmount.toFixed(tokenSymbol === 'IDRX' ? 2 : 6);
-
-        toast.success(
-          `Successfully claimed ${formattedAmount} ${tokenSymbol} from stream!`,
-          {
-            duration: 5000,
-            description: `Transaction: ${hash}`,
-            action: {
-              label: 'View on Explorer',
-              onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${hash}`, '_blank')
-            }
-          }
-        );
-
-        // Log detailed information about the claim
-        console.log('Stream claim successful', {
-          streamId,
-          claimedAmount,
-          token: streamBefore.tokenSymbol,
-          transactionHash: hash
-        });
+      // Send the transaction
+      const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'withdraw-stream', description: 'Withdraw from stream', targetId: streamId });
+      console.log('Stream withdrawal transaction sent with hash:', hash);
 
-        // Clear the stream from cache to force a fresh fetch
-        streamCache.delete(streamId);
-
-        // Get stream details after withdrawal to check if it's fully claimed
-        const streamAfter = await getStreamDetails(streamId);
-
-        // Check if the stream is now fully claimed (amount == streamed)
-        if (streamAfter &&
-            Number(streamAfter.amount) === Number(streamAfter.streamed) &&
-            streamAfter.status !== StreamStatus.Completed) {
-          console.log('Stream is fully claimed, updating status to Completed:', streamId);
-
-          // Update the stream status to Completed
-          try {
-            await simulateContract(config, {
-              address: PAYMENT_STREAM_ADDRESS,
-              abi: PaymentStreamABI.abi,
-              functionName: 'completeStream',
-              args: [hexStreamId],
-              account: account.address,
-            }).then(({ request }) => writeContractAction(config, request));
-
-            console.log('Stream status updated to Completed');
-
-            // Clear cache again after status update
-            streamCache.delete(streamId);
-          } catch (error) {
-            console.error('Error updating stream status to Completed:', error);
-            // Don't throw here, as the withdrawal was successful
+      // Wait for transaction to be confirmed
+      const receipt = await waitForTransaction(hash);
+      console.log('Stream withdrawal transaction confirmed:', receipt);
+
+      // Format the claimed amount to 4 decimal places
+      const claimedAmount = Number(streamBefore.streamed).toFixed(4);
+
+      // Show success message with claimed amount
+      const tokenSymbol = await getTokenSymbol(streamBefore.tokenAddress);
+      const formattedAmount = withdrawableAmount.toFixed(Math.min(getTokenDecimals(tokenSymbol), 6));
+
+      toast.success(
+        `Successfully claimed ${formattedAmount} ${tokenSymbol} from stream!`,
+        {
+          duration: 5000,
+          description: `Transaction: ${hash}`,
+          action: {
+            label: 'View on Explorer',
+            onClick: () => window.open(getExplorerTxUrl(getChainId(config), hash), '_blank')
           }
         }
+      );
+
+      // Log detailed information about the claim
+      console.log('Stream claim successful', {
+        streamId,
+        claimedAmount,
+        token: streamBefore.tokenSymbol,
+        transactionHash: hash
+      });
 
-        return hash;
-      } catch (error) {
-        // Check for specific error messages
-        const errorMessage = error instanceof Error ? error.message : String(error);
+      // Get stream details after withdrawal to check if it's fully claimed
+      const streamAfter = await getStreamDetails(streamId);
 
-        if (errorMessage.includes('transfer amount exceeds balance')) {
-          console.error('Contract has insufficient balance for withdrawal:', error);
-          toast.error('Insufficient balance in contract', {
-            description: 'The contract does not have enough tokens to complete this withdrawal. Please try again later or contact support.'
-          });
-          return null;
-        }
+      // Check if the stream is now fully claimed (amount == streamed)
+      if (streamAfter &&
+          Number(streamAfter.amount) === Number(streamAfter.streamed) &&
+          streamAfter.status !== StreamStatus.Completed) {
+        console.log('Stream is fully claimed, updating status to Completed:', streamId);
 
-        // Re-throw other errors
-        throw error;
-      }
-    } catch (error) {
-      console.error('Error withdrawing from stream:', error);
+        // Update the stream status to Completed
+        try {
+          await simulateContract(config, {
+            address: getPaymentStreamAddress(),
+            abi: PaymentStreamABI.abi,
+            functionName: 'completeStream',
+            args: [hexStreamId],
+            account: account.address,
+          }).then(({ request }) => writeContractAction(config, request));
 
-      // Handle specific error cases with better messages
-      if (error instanceof Error) {
-        if (error.message.includes('NotStreamRecipient')) {
-          toast.error('Not authorized', {
-            description: 'Only the recipient can withdraw from this stream'
-          });
-        } else if (error.message.includes('StreamNotFound')) {
-          toast.error('Stream not found');
-        } else if (error.message.includes('NoFundsToWithdraw')) {
-          toast.error('No funds to withdraw');
-        } else {
-          toast.error('Failed to withdraw from stream', {
-            description: error.message
-          });
+          console.log('Stream status updated to Completed');
+        } catch (error) {
+          console.error('Error updating stream status to Completed:', error);
+          // Don't throw here, as the withdrawal was successful
         }
-      } else {
-        toast.error('Failed to withdraw from stream');
       }
 
+      return hash;
+    } catch (error) {
+      handleError(error, 'Failed to withdraw from stream');
       return null;
     } finally {
       setIsLoading(false);
     }
-  }, [getStreamDetails]);
+  }, [getStreamDetails, getTokenDecimals, handleError]);
 
   // Check if a stream is fully claimed
   const isStreamFullyClaimed = useCallback((stream: Stream): boolean => {
@@ -1094,12 +911,12 @@ export function usePaymentStream() {
           );
         }
 
-        // Otherwise, just refresh the stream data from cache
-        const cachedStream = streamCache.get(streamId);
-        if (cachedStream) {
+        // Otherwise, just refresh the stream data from its last read
+        const lastKnownStream = lastKnownStreams.get(streamId);
+        if (lastKnownStream) {
           return prevStreams.map(stream =>
             stream.id === streamId
-              ? cachedStream.data
+              ? lastKnownStream
               : stream
           );
         }
@@ -1158,7 +975,7 @@ export function usePaymentStream() {
           const actualStreamed = Math.max(calculatedStreamed, alreadyWithdrawn);
 
           // Format to appropriate decimal places based on token
-          const formattedStreamed = actualStreamed.toFixed(stream.token === 'IDRX' ? 2 : 6);
+          const formattedStreamed = actualStreamed.toFixed(Math.min(getTokenDecimals(stream.tokenSymbol), 6));
 
           // Update the stream with new streamed amount
           return {
@@ -1183,9 +1000,6 @@ export function usePaymentStream() {
 
       setIsLoading(true);
       try {
-        // Apply rate limiting
-        await rateLimit();
-
         try {
           // Import necessary functions from viem
           const { getAbiItem } = await import('viem');
@@ -1204,7 +1018,7 @@ export function usePaymentStream() {
           const allStreamIds = new Set<string>();
 
           // First check if we have any cached stream IDs
-          const cachedStreamIds = Array.from(streamCache.keys());
+          const cachedStreamIds = Array.from(lastKnownStreams.keys());
           if (cachedStreamIds.length > 0) {
             // Add all cached stream IDs to our set
             for (const id of cachedStreamIds) {
@@ -1218,7 +1032,7 @@ export function usePaymentStream() {
               // Get logs for all StreamCreated events in a single call
               // We'll filter for the user's address client-side
               const logs = await publicClient.getLogs({
-                address: PAYMENT_STREAM_ADDRESS,
+                address: getPaymentStreamAddress(),
                 event: streamCreatedEventAbi,
                 fromBlock: BigInt(0),
                 toBlock: 'latest',
@@ -1256,31 +1070,11 @@ export function usePaymentStream() {
             return;
           }
 
-          // Fetch details for each stream with batching to reduce RPC calls
-          const batchSize = 5; // Process 5 streams at a time
-          const allStreamIdsArray = Array.from(allStreamIds);
-          const allStreams: Stream[] = [];
-
-          for (let i = 0; i < allStreamIdsArray.length; i += batchSize) {
-            const batch = allStreamIdsArray.slice(i, i + batchSize);
-
-            // Process this batch in parallel
-            const batchResults = await Promise.all(
-              batch.map(streamId => getStreamDetails(streamId))
-            );
-
-            // Add valid streams to our result array
-            for (const stream of batchResults) {
-              if (stream !== null) {
-                allStreams.push(stream);
-              }
-            }
-
-            // Add a small delay between batches to avoid rate limiting
-            if (i + batchSize < allStreamIdsArray.length) {
-              await new Promise(resolve => setTimeout(resolve, 500));
-            }
-          }
+          // Fetch details for every stream at once; the read scheduler merges them into one multicall
+          const streamResults = await Promise.all(
+            Array.from(allStreamIds).map(streamId => getStreamDetails(streamId))
+          );
+          const allStreams = streamResults.filter((stream): stream is Stream => stream !== null);
 
           console.log('Fetched streams:', allStreams);
 
@@ -1295,7 +1089,7 @@ export function usePaymentStream() {
           console.error('Error fetching streams from blockchain:', error);
 
           // If we have cached streams, use them as fallback
-          const cachedStreams = Array.from(streamCache.values()).map(item => item.data);
+          const cachedStreams = Array.from(lastKnownStreams.values());
           if (cachedStreams.length > 0) {
             console.log('Using cached streams as fallback');
             setStreams(cachedStreams);
@@ -1314,7 +1108,7 @@ export function usePaymentStream() {
     // Set up interval to update stream data without fetching from blockchain
     useEffect(() => {
       // Initial fetch - only if we don't have cached data
-      const hasCachedStreams = streamCache.size > 0;
+      const hasCachedStreams = lastKnownStreams.size > 0;
       if (!hasCachedStreams) {
         fetchStreams(true);
       } else {
@@ -1331,17 +1125,14 @@ export function usePaymentStream() {
         updateStreamData();
       }, UI_UPDATE_INTERVAL);
 
-      // Set up interval to fetch from blockchain less frequently
-      const fetchIntervalId = setInterval(() => {
-        fetchStreams(false);
-      }, STREAM_FETCH_INTERVAL);
-
       return () => {
         clearInterval(intervalId);
-        clearInterval(fetchIntervalId);
       };
     }, [fetchStreams, updateStreamData]);
 
+    // Refetch from the blockchain when a new block touches the contract
+    useDataRefresh('streams', () => fetchStreams(true));
+
     return {
       streams,
       isLoading,
@@ -1368,7 +1159,5 @@ export function usePaymentStream() {
     getTokenSymbol,
     checkAllowance,
     approveToken,
-    USDC_ADDRESS,
-    IDRX_ADDRESS,
   };
 }
\ No newline at end of file
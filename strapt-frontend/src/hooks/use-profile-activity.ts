@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useXellarWallet } from './use-xellar-wallet';
 import { useSentTransfersData, useReceivedTransfersData } from '@/services/TransfersDataService';
+import { TransferStatus } from './use-protected-transfer-v2';
 import { useStreamsData } from '@/services/StreamsDataService';
 import { useStraptDrop } from './use-strapt-drop';
+import { formatUnits } from 'viem';
+import { findTokenByAddress } from '@/services/TokenRegistryService';
 
 // Define the activity type
 export interface ProfileActivity {
@@ -10,8 +13,10 @@ export interface ProfileActivity {
   type: 'transfer' | 'claim' | 'stream' | 'pool' | 'drop';
   title: string;
   amount: string;
-  status: 'completed' | 'pending' | 'active' | 'failed';
+  status: 'completed' | 'pending' | 'active' | 'failed' | 'cancelled';
   timestamp: string;
+  transferId?: string;
+  canCancel?: boolean;    // Sent transfers that nobody has claimed yet
 }
 
 /**
@@ -25,7 +30,7 @@ export function useProfileActivity() {
   const { address } = useXellarWallet();
 
   // Get transfers data - limit initial load for performance
-  const { transfers: sentTransfers, isLoading: isSentLoading } = useSentTransfersData();
+  const { transfers: sentTransfers, isLoading: isSentLoading, refresh: refreshSent } = useSentTransfersData();
   const { transfers: receivedTransfers, isLoading: isReceivedLoading } = useReceivedTransfersData();
 
   // Get streams data - only load if needed
@@ -82,9 +87,12 @@ export function useProfileActivity() {
             type: 'transfer',
             title: `Transfer sent to ${transfer.recipient ? `${transfer.recipient.slice(0, 6)}...${transfer.recipient.slice(-4)}` : 'recipient'}`,
             amount: `${transfer.amount} ${transfer.tokenSymbol || 'tokens'}`,
-            status: transfer.status === 'Claimed' ? 'completed' :
-                   transfer.status === 'Refunded' ? 'failed' : 'pending',
+            status: transfer.status === TransferStatus.Claimed ? 'completed' :
+                   transfer.status === TransferStatus.Refunded ? 'failed' :
+                   transfer.status === TransferStatus.Cancelled ? 'cancelled' : 'pending',
             timestamp: new Date(Number(transfer.createdAt) * 1000).toISOString(),
+            transferId: transfer.id,
+            canCancel: transfer.status === TransferStatus.Pending,
           });
         });
       }
@@ -97,8 +105,9 @@ export function useProfileActivity() {
             type: 'claim',
             title: `Transfer received from ${transfer.sender ? `${transfer.sender.slice(0, 6)}...${transfer.sender.slice(-4)}` : 'sender'}`,
             amount: `${transfer.amount} ${transfer.tokenSymbol || 'tokens'}`,
-            status: transfer.status === 'Claimed' ? 'completed' :
-                   transfer.status === 'Refunded' ? 'failed' : 'pending',
+            status: transfer.status === TransferStatus.Claimed ? 'completed' :
+                   transfer.status === TransferStatus.Refunded ? 'failed' :
+                   transfer.status === TransferStatus.Cancelled ? 'cancelled' : 'pending',
             timestamp: new Date(Number(transfer.createdAt) * 1000).toISOString(),
           });
         });
@@ -137,7 +146,7 @@ export function useProfileActivity() {
             id: `drop-${drop.id}`,
             type: 'drop',
             title: `STRAPT Drop created`,
-            amount: `${Number(drop.info.totalAmount) / (10 ** (drop.info.tokenAddress === '0xD63029C1a3dA68b51c67c6D1DeC3DEe50D681661' ? 2 : 6))} ${drop.info.tokenAddress === '0xD63029C1a3dA68b51c67c6D1DeC3DEe50D681661' ? 'IDRX' : 'USDC'}`,
+            amount: `${formatUnits(drop.info.totalAmount, findTokenByAddress(drop.info.tokenAddress)?.decimals ?? 18)} ${findTokenByAddress(drop.info.tokenAddress)?.symbol ?? 'Tokens'}`,
             status: drop.info.isActive ? 'active' :
                    drop.info.remainingAmount === BigInt(0) ? 'completed' : 'pending',
             timestamp: new Date(Number(drop.info.expiryTime) * 1000 - 86400000).toISOString(), // 24 hours before expiry
@@ -166,5 +175,5 @@ export function useProfileActivity() {
     isLoadingUserDrops
   ]);
 
-  return { activities, isLoading };
+  return { activities, isLoading, refreshTransfers: refreshSent };
 }
@@ -1,13 +1,20 @@
 import { formatUnits } from 'viem';
-import { keccak256, stringToHex } from 'viem';
-import { waitForTransactionReceipt, simulateContract } from 'wagmi/actions';
+import { keccak256, stringToHex, decodeEventLog, encodeAbiParameters, bytesToHex } from 'viem';
+import { simulateContract, getBlockNumber, getChainId } from 'wagmi/actions';
 import ProtectedTransferV2ABI from '@/contracts/ProtectedTransferV2.json';
-import { TokenType, useTokenUtils } from './useTokenUtils';
+import { TokenType, useTokenUtils, type PermitSignature } from './useTokenUtils';
 import { useTransactionState } from './useTransactionState';
 import { useErrorHandler } from './useErrorHandler';
 import { useClaimCodeUtils } from './useClaimCodeUtils';
 import { useContractUtils } from './useContractUtils';
 import { TokenType as TokenTypeFromTypes } from '@/types/tokens';
+import { getRelayer, signClaim } from '@/services/RelayerService';
+import { findTokenByAddress } from '@/services/TokenRegistryService';
+import { isCurrentContractDeployed } from '@/services/ContractRegistryService';
+import { loadRefundableTransfers, markTransfersRefunded } from '@/services/TransfersDataService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+import { scheduleRead } from '@/services/ReadSchedulerService';
+import { getSupportedChain } from '@/lib/chains';
 
 // Re-export TokenType for use in other components
 export type { TokenType };
@@ -17,7 +24,8 @@ export enum TransferStatus {
   Pending = 0,
   Claimed = 1,
   Refunded = 2,
-  Expired = 3
+  Expired = 3,
+  Cancelled = 4
 }
 
 // Transfer type
@@ -36,6 +44,75 @@ export interface Transfer {
   hasPassword: boolean;
 }
 
+// Transfer as shown in history views, with the transactions that created and settled it
+export interface TransferDetails extends Transfer {
+  transactionHash?: string;
+  claimer?: string;
+  settledTransactionHash?: string;
+}
+
+// One entry of a batch of direct transfers
+export interface BatchTransferEntry {
+  recipient: string;
+  tokenType: TokenType;
+  amount: string;
+  expiryTimestamp: number;  // 0 uses the contract default
+}
+
+// Maximum entries the contract accepts in one createDirectTransferBatch call
+export const MAX_BATCH_SIZE = 50;
+
+// Amount a bulk refund returns in one token
+export interface RefundTotal {
+  tokenSymbol: string;
+  amount: string;
+  count: number;
+}
+
+// Expired transfers of the connected sender, with what refunding them returns per token
+export interface RefundableTransfers {
+  transfers: TransferDetails[];   // At most MAX_BATCH_SIZE, oldest first
+  totals: RefundTotal[];          // For `transfers` only
+  remaining: number;              // Refundable transfers left for a later batch
+}
+
+// Blocks the contract requires between commitClaim and revealClaim
+export const COMMIT_REVEAL_DELAY = 1n;
+
+// Length of the random secret a link transfer without password carries in its link
+const LINK_SECRET_LENGTH = 24;
+
+// Progress of a claim; link transfers go through committing, waiting and revealing,
+// gasless claims through signing and relaying
+export type ClaimStep = 'claiming' | 'committing' | 'waiting' | 'revealing' | 'signing' | 'relaying';
+
+// Commitment saved between the two steps so a reload can reveal instead of committing again
+interface PendingClaimCommit {
+  commitment: `0x${string}`;
+  salt: `0x${string}`;
+}
+
+const getPendingCommitKey = (claimer: string, transferId: string) =>
+  `strapt_claim_commit_${claimer.toLowerCase()}_${transferId.toLowerCase()}`;
+
+/**
+ * Compute the commitment for a link transfer claim, matching getClaimCommitment in the contract
+ * @param transferId The transfer ID
+ * @param claimCode The claim code (empty for transfers without password)
+ * @param claimer The address that will reveal the claim
+ * @param salt Random 32-byte salt
+ * @returns The commitment hash
+ */
+export const computeClaimCommitment = (
+  transferId: `0x${string}`,
+  claimCode: string,
+  claimer: `0x${string}`,
+  salt: `0x${string}`
+): `0x${string}` => keccak256(encodeAbiParameters(
+  [{ type: 'bytes32' }, { type: 'string' }, { type: 'address' }, { type: 'bytes32' }],
+  [transferId, claimCode, claimer, salt]
+));
+
 export function useProtectedTransferV2() {
   // Use our utility hooks
   const {
@@ -43,8 +120,7 @@ export function useProtectedTransferV2() {
     parseTokenAmount,
     formatTokenAmount,
     getTokenABI,
-    USDC_ADDRESS,
-    IDRX_ADDRESS
+    getTokenTypeFromSymbol,
   } = useTokenUtils();
 
   const {
@@ -53,6 +129,7 @@ export function useProtectedTransferV2() {
     isConfirmed,
     isPending,
     isConfirming,
+    pendingTransaction,
     setCurrentId: setCurrentTransferId
   } = useTransactionState();
 
@@ -60,8 +137,8 @@ export function useProtectedTransferV2() {
   const { generateClaimCode, hashClaimCode } = useClaimCodeUtils();
   const { getContractAddress, getExpiryTimestamp } = useContractUtils();
 
-  // Get the contract address
-  const PROTECTED_TRANSFER_V2_ADDRESS = getContractAddress('ProtectedTransferV2');
+  // Resolved on every call so it follows the active network
+  const getProtectedTransferV2Address = () => getContractAddress('ProtectedTransferV2');
 
   // Check token allowance
   const checkAllowance = async (
@@ -84,10 +161,10 @@ export function useProtectedTransferV2() {
         abi: tokenABI,
         address: tokenAddress,
         functionName: 'allowance',
-        args: [ownerAddress as `0x${string}`, PROTECTED_TRANSFER_V2_ADDRESS],
+        args: [ownerAddress as `0x${string}`, getProtectedTransferV2Address()],
       });
 
-      const allowanceBigInt = BigInt(allowance as string || '0');
+      const allowanceBigInt = (allowance as bigint | undefined) ?? 0n;
 
       console.log('Token allowance check:', {
         token: tokenType,
@@ -116,7 +193,7 @@ export function useProtectedTransferV2() {
       try {
         const { request: simulatedRequest } = await simulateContract(config, {
           ...request,
-          chain: config.chains[0] // Add chain to request
+          chain: getSupportedChain(getChainId(config))
         });
         return true;
       } catch (error) {
@@ -150,7 +227,8 @@ export function useProtectedTransferV2() {
     amount: string,
     expiryTimestamp: number,
     withPassword: boolean,
-    customPassword?: string | null
+    customPassword?: string | null,
+    permit?: PermitSignature | null
   ): Promise<{ transferId: string; claimCode?: string } | undefined> => {
     try {
       setIsLoading(true);
@@ -164,19 +242,21 @@ export function useProtectedTransferV2() {
         throw new Error("No wallet connected");
       }
 
-      // Prepare transaction request
+      const args = [
+        recipient as `0x${string}`,
+        getTokenAddress(tokenType),
+        parseTokenAmount(amount, tokenType),
+        BigInt(expiryTimestamp),
+        withPassword,
+        customPassword ? hashClaimCode(customPassword) : '0x0000000000000000000000000000000000000000000000000000000000000000'
+      ];
+
+      // Prepare transaction request; with a permit the contract pulls the tokens without a prior approval
       const request = {
         abi: ProtectedTransferV2ABI.abi,
-        address: PROTECTED_TRANSFER_V2_ADDRESS,
-        functionName: 'createTransfer',
-        args: [
-          recipient as `0x${string}`,
-          getTokenAddress(tokenType),
-          parseTokenAmount(tokenType, amount),
-          BigInt(expiryTimestamp),
-          withPassword,
-          customPassword ? hashClaimCode(customPassword) : '0x0000000000000000000000000000000000000000000000000000000000000000'
-        ],
+        address: getProtectedTransferV2Address(),
+        functionName: permit ? 'createDirectTransferWithPermit' : 'createDirectTransfer',
+        args: permit ? [...args, permit] : args,
         account: account.address,
       };
 
@@ -190,12 +270,10 @@ export function useProtectedTransferV2() {
 
       // Execute transaction
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'create-transfer', description: `Send ${amount} ${tokenType}`, amount, tokenSymbol: tokenType });
       
-      // Wait for confirmation with timeout
-      const receipt = await waitForTransactionReceipt(config, { 
-        hash,
-        timeout: 60_000 // 60 seconds timeout
-      });
+      // Wait for confirmation; a slow transaction stays pending in the outbox rather than failing
+      const receipt = await waitForTransaction(hash);
 
       if (receipt.status !== 'success') {
         throw new Error('Transaction failed on-chain');
@@ -220,6 +298,87 @@ export function useProtectedTransferV2() {
     }
   };
 
+  // Create several direct transfers (without password) in one transaction
+  // The caller is expected to have approved the total amount beforehand
+  // onSubmitted gets the hash once the transaction is broadcast, before it is confirmed
+  const createDirectTransferBatch = async (
+    entries: BatchTransferEntry[],
+    onSubmitted?: (hash: `0x${string}`) => void,
+  ): Promise<string[]> => {
+    try {
+      setIsLoading(true);
+
+      if (entries.length === 0 || entries.length > MAX_BATCH_SIZE) {
+        throw new Error(`A batch must contain between 1 and ${MAX_BATCH_SIZE} transfers`);
+      }
+
+      const { config } = await import('@/providers/XellarProvider');
+      const { getAccount, writeContract: writeContractAction } = await import('wagmi/actions');
+      const account = getAccount(config);
+
+      if (!account || !account.address) {
+        throw new Error("No wallet connected");
+      }
+
+      const batch = entries.map((entry) => ({
+        recipient: entry.recipient as `0x${string}`,
+        tokenAddress: getTokenAddress(entry.tokenType),
+        amount: parseTokenAmount(entry.amount, entry.tokenType),
+        expiry: BigInt(entry.expiryTimestamp),
+      }));
+
+      // Simulate first so an invalid row fails before the wallet prompt
+      const { request } = await simulateContract(config, {
+        abi: ProtectedTransferV2ABI.abi,
+        address: getProtectedTransferV2Address(),
+        functionName: 'createDirectTransferBatch',
+        args: [batch],
+        account: account.address,
+      });
+
+      const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'create-transfer', description: `Send ${entries.length} transfers` });
+      onSubmitted?.(hash);
+
+      return await waitForBatchTransfer(hash);
+    } catch (error) {
+      handleError(error, 'Failed to create batch transfer');
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Wait for a batch transaction and collect the transfer IDs it created
+  // Rejects if it reverted or was replaced by a different transaction, e.g. cancelled
+  const waitForBatchTransfer = async (hash: `0x${string}`): Promise<string[]> => {
+    const receipt = await waitForTransaction(hash);
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction failed on-chain');
+    }
+
+    // Collect the transfer IDs in emission order, which matches the batch order
+    const transferIds: string[] = [];
+    const contractAddress = getProtectedTransferV2Address().toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== contractAddress) continue;
+      try {
+        const event = decodeEventLog({
+          abi: ProtectedTransferV2ABI.abi,
+          data: log.data,
+          topics: log.topics,
+        });
+        if (event.eventName === 'TransferCreated') {
+          transferIds.push((event.args as unknown as { transferId: string }).transferId);
+        }
+      } catch (e) {
+        // Not an event from this ABI
+      }
+    }
+
+    return transferIds;
+  };
+
   // Create a link transfer
   const createLinkTransfer = async (
     tokenType: TokenType,
@@ -227,33 +386,28 @@ export function useProtectedTransferV2() {
     expiryTimestamp: number,
     withPassword: boolean = false,
     customPassword: string | null = null,
+    permit: PermitSignature | null = null,
   ) => {
     try {
       setIsLoading(true);
 
-      // For password-protected transfers, ensure we use the custom password if provided
-      let claimCode = '';
-      let claimCodeHash = '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`;
-      
-      if (withPassword) {
-        // If custom password is provided, use it, otherwise generate a random one
-        claimCode = customPassword ? customPassword.trim() : generateClaimCode();
-        
-        // Log for debugging
-        console.log('Using claim code for protected transfer:', claimCode);
-        console.log('Claim code length:', claimCode.length);
-        
-        // Hash the claim code using the same method as the contract
-        try {
-          // Use stringToHex with exact string for consistent hashing
-          const stringToHash = claimCode;
-          console.log('String being hashed (exact chars):', stringToHash, 'length:', stringToHash.length);
-          claimCodeHash = keccak256(stringToHex(stringToHash));
-          console.log('Generated claim code hash:', claimCodeHash);
-        } catch (hashError) {
-          console.error('Error hashing claim code:', hashError);
-          throw new Error('Failed to hash claim code');
-        }
+      // Every link transfer needs a secret: the password, or without one a random
+      // secret that only travels in the link itself
+      const claimCode = withPassword
+        ? (customPassword ? customPassword.trim() : generateClaimCode())
+        : generateClaimCode(LINK_SECRET_LENGTH);
+      let claimCodeHash: `0x${string}`;
+
+      console.log('Claim code length:', claimCode.length);
+
+      // Hash the claim code using the same method as the contract
+      try {
+        // Use stringToHex with exact string for consistent hashing
+        claimCodeHash = keccak256(stringToHex(claimCode));
+        console.log('Generated claim code hash:', claimCodeHash);
+      } catch (hashError) {
+        console.error('Error hashing claim code:', hashError);
+        throw new Error('Failed to hash claim code');
       }
 
       // Get token address and parse amount
@@ -276,8 +430,8 @@ export function useProtectedTransferV2() {
         throw new Error("No wallet connected");
       }
 
-      // Check if token is approved
-      const isAllowanceSufficient = await checkAllowance(tokenType, amount, account.address);
+      // Check if token is approved, unless a permit will grant the allowance in the same transaction
+      const isAllowanceSufficient = permit !== null || await checkAllowance(tokenType, amount, account.address);
 
       if (!isAllowanceSufficient) {
         console.error("Insufficient token allowance");
@@ -318,32 +472,34 @@ export function useProtectedTransferV2() {
       // Simulate the transaction first
       const { request } = await simulateContract(config, {
         abi: ProtectedTransferV2ABI.abi,
-        address: PROTECTED_TRANSFER_V2_ADDRESS,
-        functionName: 'createLinkTransfer',
-        args: args,
+        address: getProtectedTransferV2Address(),
+        functionName: permit ? 'createLinkTransferWithPermit' : 'createLinkTransfer',
+        args: permit ? [...args, permit] : args,
         account: account.address,
       });
 
       // Send the transaction - this will prompt the user to sign
       console.log('Sending transaction request:', request);
       const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'create-transfer', description: `Send ${amount} ${tokenType} by link`, amount, tokenSymbol: tokenType });
       console.log('Transaction sent with hash:', hash);
 
       // Wait for transaction to be confirmed
       console.log('Waiting for transaction receipt with hash:', hash);
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      const receipt = await waitForTransaction(hash);
       console.log('Transaction receipt received:', receipt);
 
       // Extract transfer ID from event logs
       let transferId = '';
       if (receipt?.logs) {
         console.log('Transaction logs:', receipt.logs);
+        const contractAddress = getProtectedTransferV2Address().toLowerCase();
 
         // Find the TransferCreated event and extract the transfer ID
         for (const log of receipt.logs) {
           try {
             // Check if this log is from our contract
-            if (log.address.toLowerCase() === PROTECTED_TRANSFER_V2_ADDRESS.toLowerCase()) {
+            if (log.address.toLowerCase() === contractAddress) {
               // The TransferCreated event signature
               const transferCreatedSignature = '0x7d84a6263ae0d98d3329bd7b46bb4e8d6f98cd35a7adb45c274c8b7fd5ebd5e0';
 
@@ -364,7 +520,7 @@ export function useProtectedTransferV2() {
           // Try to find any log from our contract
           const contractLogs = receipt.logs.filter(
             (log: { address: string; topics: string[] }) =>
-              log.address.toLowerCase() === PROTECTED_TRANSFER_V2_ADDRESS.toLowerCase()
+              log.address.toLowerCase() === contractAddress
           );
 
           if (contractLogs.length > 0 && contractLogs[0].topics.length > 1) {
@@ -379,9 +535,9 @@ export function useProtectedTransferV2() {
         setCurrentTransferId(transferId);
       }
 
-      // Return claim code and transfer ID
+      // Return claim code and transfer ID; without a password the code belongs in the link
       return {
-        claimCode: withPassword ? claimCode : '',
+        claimCode,
         transferId: transferId || null,
         withPassword
       };
@@ -394,16 +550,19 @@ export function useProtectedTransferV2() {
   };
 
   // Claim a transfer with claim code
+  // Direct transfers are claimed in one transaction; link transfers are committed first and
+  // revealed a block later so the claim code can't be copied from the mempool
   const claimTransfer = async (
     transferId: string,
     claimCode: string,
+    onStep?: (step: ClaimStep) => void,
   ) => {
     try {
       setIsLoading(true);
 
       // Import config for wagmi actions
       const { config } = await import('@/providers/XellarProvider');
-      const { getAccount, writeContract: writeContractAction } = await import('wagmi/actions');
+      const { getAccount, readContract, writeContract: writeContractAction } = await import('wagmi/actions');
       const account = getAccount(config);
 
       if (!account || !account.address) {
@@ -415,51 +574,109 @@ export function useProtectedTransferV2() {
       
       console.log('Claiming transfer with ID:', transferId, 'and claim code length:', trimmedClaimCode.length);
 
-      // Check if this transfer requires a password
-      let requiresPassword = false;
+      // Check if this transfer requires a password and how it has to be claimed
+      let transferDetails: Awaited<ReturnType<typeof getTransferDetails>> = null;
       try {
-        const transferDetails = await getTransferDetails(transferId);
-        requiresPassword = transferDetails?.hasPassword || false;
+        transferDetails = await getTransferDetails(transferId);
       } catch (passwordCheckError) {
         console.error('Error checking if transfer is password protected:', passwordCheckError);
         return false;
       }
+      const requiresPassword = transferDetails?.hasPassword || false;
 
       // Verify we have a claim code for password-protected transfers
       if (requiresPassword && !trimmedClaimCode) {
         throw new Error('This transfer requires a password. Please enter the password to claim the funds.');
       }
+      // Link transfers without password are claimed with the secret from their link
+      if (transferDetails?.isLinkTransfer && !trimmedClaimCode) {
+        throw new Error('This claim link is missing its secret. Please open the full link you were sent.');
+      }
 
-      // Prepare the transaction arguments
-      const args = [
-        transferId as `0x${string}`, 
-        trimmedClaimCode
-      ];
-
-      // Execute transaction directly without simulation for non-password protected transfers
-      // This prevents the double signing issue
-      try {
+      // Send one claim transaction and wait for it to be mined
+      const sendClaimTransaction = async (functionName: string, args: unknown[]) => {
         const hash = await writeContractAction(config, {
           abi: ProtectedTransferV2ABI.abi,
-          address: PROTECTED_TRANSFER_V2_ADDRESS,
-          functionName: 'claimTransfer',
-          args: args,
+          address: getProtectedTransferV2Address(),
+          functionName,
+          args,
           account: account.address,
-          chain: config.chains[0],
+          chain: getSupportedChain(getChainId(config)),
         });
-        
-        console.log('Transaction sent, hash:', hash);
-        
-        // Wait for confirmation with timeout
-        const receipt = await waitForTransactionReceipt(config, { 
+        trackTransaction({
           hash,
-          timeout: 60_000 // 60 seconds timeout
+          type: 'claim-transfer',
+          description: functionName === 'commitClaim' ? 'Start claiming transfer' : 'Claim transfer',
+          targetId: transferId,
         });
         
+        console.log(`${functionName} transaction sent, hash:`, hash);
+        
+        // Wait for confirmation; a slow transaction stays pending in the outbox rather than failing
+        const receipt = await waitForTransaction(hash);
+        
         if (receipt.status !== 'success') {
           throw new Error('Transaction failed on-chain');
         }
-        
+
+        return receipt;
+      };
+
+      // Execute transaction directly without simulation for non-password protected transfers
+      // This prevents the double signing issue
+      try {
+        // Older deployments have no commit-reveal and claim link transfers in one transaction too
+        if (!transferDetails?.isLinkTransfer || !isCurrentContractDeployed('ProtectedTransferV2')) {
+          onStep?.('claiming');
+          await sendClaimTransaction('claimTransfer', [transferId as `0x${string}`, trimmedClaimCode]);
+          return true;
+        }
+
+        const storageKey = getPendingCommitKey(account.address, transferId);
+        let pending: PendingClaimCommit | null = null;
+        try {
+          const stored = localStorage.getItem(storageKey);
+          pending = stored ? JSON.parse(stored) : null;
+        } catch (e) {
+          pending = null;
+        }
+
+        // Reuse a saved commitment only if it was made for this claim code and is still on-chain
+        let committedAtBlock = 0n;
+        if (pending && computeClaimCommitment(transferId as `0x${string}`, trimmedClaimCode, account.address, pending.salt) === pending.commitment) {
+          committedAtBlock = await readContract(config, {
+            abi: ProtectedTransferV2ABI.abi,
+            address: getProtectedTransferV2Address(),
+            functionName: 'claimCommitments',
+            args: [pending.commitment],
+          }) as bigint;
+        }
+
+        if (!pending || committedAtBlock === 0n) {
+          const salt = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+          pending = {
+            commitment: computeClaimCommitment(transferId as `0x${string}`, trimmedClaimCode, account.address, salt),
+            salt,
+          };
+
+          // Saved before sending so a reload while the commit is mining can still reveal
+          localStorage.setItem(storageKey, JSON.stringify(pending));
+
+          onStep?.('committing');
+          const commitReceipt = await sendClaimTransaction('commitClaim', [pending.commitment]);
+          committedAtBlock = commitReceipt.blockNumber;
+        }
+
+        // The reveal must land in a later block than the commitment
+        onStep?.('waiting');
+        while (await getBlockNumber(config) < committedAtBlock + COMMIT_REVEAL_DELAY) {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+
+        onStep?.('revealing');
+        await sendClaimTransaction('revealClaim', [transferId as `0x${string}`, trimmedClaimCode, pending.salt]);
+        localStorage.removeItem(storageKey);
+
         return true;
       } catch (error) {
         console.error('Error in claim transaction:', error);
@@ -482,6 +699,10 @@ export function useProtectedTransferV2() {
         if (errorMessage.includes('TransferExpired')) {
           throw new Error('The claim period for this transfer has expired.');
         }
+
+        if (errorMessage.includes('CommitmentNotFound') || errorMessage.includes('CommitmentTooRecent')) {
+          throw new Error('The claim commitment is not ready yet. Please try again in a few seconds.');
+        }
         
         throw error;
       }
@@ -493,6 +714,69 @@ export function useProtectedTransferV2() {
     }
   };
 
+  // Claim a transfer through the relayer, so the claimer doesn't need gas
+  // The claimer only signs; the relayer sends the claim (or commit + reveal for link transfers)
+  const claimTransferGasless = async (
+    transferId: string,
+    claimCode: string,
+    onStep?: (step: ClaimStep) => void,
+  ) => {
+    try {
+      setIsLoading(true);
+
+      const relayer = getRelayer();
+      if (!relayer) {
+        throw new Error('Gasless claims are not available right now');
+      }
+
+      const { config } = await import('@/providers/XellarProvider');
+      const trimmedClaimCode = claimCode.trim();
+
+      const transferDetails = await getTransferDetails(transferId);
+      if (!transferDetails) {
+        throw new Error('Transfer not found');
+      }
+      if (transferDetails.hasPassword && !trimmedClaimCode) {
+        throw new Error('This transfer requires a password. Please enter the password to claim the funds.');
+      }
+      if (transferDetails.isLinkTransfer && !trimmedClaimCode) {
+        throw new Error('This claim link is missing its secret. Please open the full link you were sent.');
+      }
+
+      onStep?.('signing');
+      const signedClaim = await signClaim('ProtectedTransferV2', getProtectedTransferV2Address(), transferId as `0x${string}`);
+
+      onStep?.('relaying');
+      const hash = await relayer.relayTransferClaim({
+        ...signedClaim,
+        transferId: transferId as `0x${string}`,
+        claimCode: trimmedClaimCode,
+        salt: transferDetails.isLinkTransfer ? bytesToHex(crypto.getRandomValues(new Uint8Array(32))) : undefined,
+      });
+      trackTransaction({ hash, type: 'claim-transfer', description: 'Claim transfer (gasless)', targetId: transferId, relayed: true });
+
+      const receipt = await waitForTransaction(hash);
+      if (receipt.status !== 'success') {
+        throw new Error('Transaction failed on-chain');
+      }
+
+      return true;
+    } catch (error) {
+      const errorMessage = error?.message || '';
+      if (errorMessage.includes('rejected') || errorMessage.includes('denied')) {
+        throw new Error('Signature was cancelled by the user');
+      }
+      if (errorMessage.includes('InvalidClaimCode')) {
+        throw new Error('Invalid password. Please double-check and try again.');
+      }
+
+      handleError(error, 'Failed to claim transfer');
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Refund a transfer
   const refundTransfer = async (
     transferId: string,
@@ -516,7 +800,7 @@ export function useProtectedTransferV2() {
         // Simulate the transaction first
         const { request } = await simulateContract(config, {
           abi: ProtectedTransferV2ABI.abi,
-          address: PROTECTED_TRANSFER_V2_ADDRESS,
+          address: getProtectedTransferV2Address(),
           functionName: 'refundTransfer',
           args: [transferId as `0x${string}`],
           account: account.address,
@@ -525,11 +809,12 @@ export function useProtectedTransferV2() {
         // Send the transaction - this will prompt the user to sign
         console.log('Sending transaction request:', request);
         const hash = await writeContractAction(config, request);
+        trackTransaction({ hash, type: 'refund-transfer', description: 'Refund transfer', targetId: transferId });
         console.log('Transaction sent with hash:', hash);
 
         // Wait for transaction to be confirmed
         console.log('Waiting for transaction receipt with hash:', hash);
-        const receipt = await waitForTransactionReceipt(config, { hash });
+        const receipt = await waitForTransaction(hash);
         console.log('Transaction receipt received:', receipt);
 
         return true;
@@ -545,6 +830,131 @@ export function useProtectedTransferV2() {
     }
   };
 
+  // Cancel a pending transfer before it is claimed; unlike a refund this works before expiry
+  const cancelTransfer = async (
+    transferId: string,
+  ) => {
+    try {
+      setIsLoading(true);
+
+      // Import config for wagmi actions
+      const { config } = await import('@/providers/XellarProvider');
+      const { getAccount, simulateContract, writeContract: writeContractAction } = await import('wagmi/actions');
+      const account = getAccount(config);
+
+      if (!account || !account.address) {
+        console.error("No wallet connected or account is undefined");
+        throw new Error("No wallet connected");
+      }
+
+      console.log('Cancelling transfer with ID:', transferId);
+
+      // Simulate first so a transfer claimed in the meantime fails before the wallet prompt
+      const { request } = await simulateContract(config, {
+        abi: ProtectedTransferV2ABI.abi,
+        address: getProtectedTransferV2Address(),
+        functionName: 'cancelTransfer',
+        args: [transferId as `0x${string}`],
+        account: account.address,
+      });
+
+      const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'cancel-transfer', description: 'Cancel transfer', targetId: transferId });
+      console.log('Cancel transaction sent with hash:', hash);
+
+      const receipt = await waitForTransaction(hash);
+      if (receipt.status !== 'success') {
+        throw new Error('Cancel transaction failed');
+      }
+
+      return true;
+    } catch (error) {
+      handleError(error, 'Failed to cancel transfer');
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Find every transfer of the connected sender that expired unclaimed, one batch at a time
+  const getRefundableTransfers = async (): Promise<RefundableTransfers> => {
+    const { config } = await import('@/providers/XellarProvider');
+    const { getAccount } = await import('wagmi/actions');
+    const account = getAccount(config);
+
+    if (!account || !account.address) {
+      throw new Error("No wallet connected");
+    }
+
+    const refundable = await loadRefundableTransfers(account.address);
+    const transfers = refundable.slice(0, MAX_BATCH_SIZE);
+
+    // Sum in base units so amounts don't pick up floating point errors
+    const sums = new Map<string, { amount: bigint; count: number }>();
+    for (const transfer of transfers) {
+      const tokenType = getTokenTypeFromSymbol(transfer.tokenSymbol);
+      const current = sums.get(tokenType) ?? { amount: 0n, count: 0 };
+      sums.set(tokenType, {
+        amount: current.amount + parseTokenAmount(transfer.amount, tokenType),
+        count: current.count + 1,
+      });
+    }
+
+    const totals = Array.from(sums, ([tokenSymbol, { amount, count }]) => ({
+      tokenSymbol,
+      amount: formatTokenAmount(amount, tokenSymbol as TokenType),
+      count,
+    }));
+
+    return { transfers, totals, remaining: refundable.length - transfers.length };
+  };
+
+  // Refund several expired transfers in one transaction
+  const refundTransfers = async (
+    transferIds: string[],
+  ) => {
+    try {
+      setIsLoading(true);
+
+      if (transferIds.length === 0 || transferIds.length > MAX_BATCH_SIZE) {
+        throw new Error(`A refund must contain between 1 and ${MAX_BATCH_SIZE} transfers`);
+      }
+
+      const { config } = await import('@/providers/XellarProvider');
+      const { getAccount, writeContract: writeContractAction } = await import('wagmi/actions');
+      const account = getAccount(config);
+
+      if (!account || !account.address) {
+        throw new Error("No wallet connected");
+      }
+
+      // Simulate first so a transfer settled in the meantime fails before the wallet prompt
+      const { request } = await simulateContract(config, {
+        abi: ProtectedTransferV2ABI.abi,
+        address: getProtectedTransferV2Address(),
+        functionName: 'refundTransfers',
+        args: [transferIds as `0x${string}`[]],
+        account: account.address,
+      });
+
+      const hash = await writeContractAction(config, request);
+      trackTransaction({ hash, type: 'refund-transfer', description: `Refund ${transferIds.length} transfers` });
+      const receipt = await waitForTransaction(hash);
+
+      if (receipt.status !== 'success') {
+        throw new Error('Refund transaction failed');
+      }
+
+      markTransfersRefunded(transferIds, hash);
+      return true;
+    } catch (error) {
+      handleError(error, 'Failed to refund transfers');
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Check if a transfer is password protected
   const isPasswordProtected = async (transferId: string): Promise<boolean> => {
     try {
@@ -569,20 +979,16 @@ export function useProtectedTransferV2() {
     }
   };
 
-  // Get transfer details
+  // Get transfer details; lookups made together are batched into one multicall
   const getTransferDetails = async (transferId: string): Promise<Transfer | null> => {
     try {
-      // Import config for wagmi actions
-      const { config } = await import('@/providers/XellarProvider');
-      const { readContract } = await import('wagmi/actions');
-
       console.log('Getting transfer details for ID:', transferId);
 
       try {
         // Read transfer data from the contract
-        const data = await readContract(config, {
+        const data = await scheduleRead({
           abi: ProtectedTransferV2ABI.abi,
-          address: PROTECTED_TRANSFER_V2_ADDRESS,
+          address: getProtectedTransferV2Address(),
           functionName: 'getTransfer',
           args: [transferId as `0x${string}`],
         });
@@ -613,16 +1019,9 @@ export function useProtectedTransferV2() {
         const hasPassword = dataArray[9]; // Don't cast this yet
 
         // Determine token symbol based on token address
-        let tokenSymbol = 'Unknown';
-        let tokenType: TokenType | null = null;
-
-        if (tokenAddress.toLowerCase() === USDC_ADDRESS.toLowerCase()) {
-          tokenSymbol = 'USDC';
-          tokenType = 'USDC';
-        } else if (tokenAddress.toLowerCase() === IDRX_ADDRESS.toLowerCase()) {
-          tokenSymbol = 'IDRX';
-          tokenType = 'IDRX';
-        }
+        const registryToken = findTokenByAddress(tokenAddress);
+        const tokenSymbol = registryToken?.symbol ?? 'Unknown';
+        const tokenType: TokenType | null = registryToken?.symbol ?? null;
 
         // Format amount based on token type
         let formattedAmount = '0';
@@ -682,7 +1081,7 @@ export function useProtectedTransferV2() {
 
       const isClaimable = await readContract(config, {
         abi: ProtectedTransferV2ABI.abi,
-        address: PROTECTED_TRANSFER_V2_ADDRESS,
+        address: getProtectedTransferV2Address(),
         functionName: 'isTransferClaimable',
         args: [transferId as `0x${string}`],
       });
@@ -707,7 +1106,7 @@ export function useProtectedTransferV2() {
 
       const transfers = await readContract(config, {
         abi: ProtectedTransferV2ABI.abi,
-        address: PROTECTED_TRANSFER_V2_ADDRESS,
+        address: getProtectedTransferV2Address(),
         functionName: 'getRecipientTransfers',
         args: [recipientAddress as `0x${string}`],
       });
@@ -775,10 +1174,21 @@ export function useProtectedTransferV2() {
   return {
     isLoading: isLoading || isPending || isConfirming,
     isConfirmed,
+    pendingTransaction,
     createDirectTransfer,
+    createDirectTransferBatch,
+    waitForBatchTransfer,
     createLinkTransfer,
     claimTransfer,
+    claimTransferGasless,
+    // Older deployments have no signed claims, batch refunds or cancelling
+    isGaslessClaimAvailable: getRelayer() !== null && isCurrentContractDeployed('ProtectedTransferV2'),
     refundTransfer,
+    refundTransfers,
+    isBatchRefundAvailable: isCurrentContractDeployed('ProtectedTransferV2'),
+    getRefundableTransfers,
+    cancelTransfer,
+    isCancelAvailable: isCurrentContractDeployed('ProtectedTransferV2'),
     isPasswordProtected,
     isTransferClaimable,
     getTransferDetails,
@@ -786,7 +1196,5 @@ export function useProtectedTransferV2() {
     generateClaimCode,
     hashClaimCode,
     checkAllowance,
-    USDC_ADDRESS,
-    IDRX_ADDRESS,
   };
 }
\ No newline at end of file
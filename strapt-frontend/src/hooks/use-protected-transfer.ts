@@ -6,25 +6,21 @@
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseEther, parseUnits, formatUnits, keccak256, toBytes, encodeFunctionData } from 'viem';
+import { parseEther, parseUnits, formatUnits, keccak256, toBytes, encodeFunctionData, erc20Abi } from 'viem';
 import { toast } from 'sonner';
-import { writeContract, waitForTransactionReceipt } from 'wagmi/actions';
+import { writeContract, waitForTransactionReceipt, getChainId } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
 import ProtectedTransferABI from '@/contracts/ProtectedTransfer.json';
-import USDCABI from '@/contracts/USDCMock.json';
-import IDRXABI from '@/contracts/IDRX.json';
+import { getToken, findTokenByAddress } from '@/services/TokenRegistryService';
+import { getContractAddress, findContractAddress } from '@/services/ContractRegistryService';
+import { getSupportedChain, getChainRpcUrl } from '@/lib/chains';
+import type { TokenType } from '@/types/tokens';
 
-// Contract addresses
-const PROTECTED_TRANSFER_ADDRESS = ProtectedTransferABI.address as `0x${string}`;
-const USDC_ADDRESS = USDCABI.address as `0x${string}`;
-const IDRX_ADDRESS = IDRXABI.address as `0x${string}`;
-
-// Token decimals
-const USDC_DECIMALS = 6;
-const IDRX_DECIMALS = 2;
+// Contract address on the active network
+const getProtectedTransferAddress = () => getContractAddress('ProtectedTransfer');
 
 // Token types
-export type TokenType = 'USDC' | 'IDRX';
+export type { TokenType };
 
 // Transfer status enum
 export enum TransferStatus {
@@ -76,12 +72,12 @@ export function useProtectedTransfer() {
 
   // Get token address from token type
   const getTokenAddress = useCallback((tokenType: TokenType): `0x${string}` => {
-    return tokenType === 'USDC' ? USDC_ADDRESS : IDRX_ADDRESS;
+    return getToken(tokenType).address;
   }, []);
 
   // Get token decimals from token type
   const getTokenDecimals = useCallback((tokenType: TokenType): number => {
-    return tokenType === 'USDC' ? USDC_DECIMALS : IDRX_DECIMALS;
+    return getToken(tokenType).decimals;
   }, []);
 
   // Check token allowance
@@ -99,7 +95,7 @@ export function useProtectedTransfer() {
       const parsedAmount = parseUnits(amount, decimals);
 
       // Get token ABI
-      const tokenABI = tokenType === 'USDC' ? USDCABI.abi : IDRXABI.abi;
+      const tokenABI = erc20Abi;
 
       // Import necessary functions
       const { readContract } = await import('wagmi/actions');
@@ -110,7 +106,7 @@ export function useProtectedTransfer() {
         abi: tokenABI,
         address: tokenAddress,
         functionName: 'allowance',
-        args: [ownerAddress, PROTECTED_TRANSFER_ADDRESS],
+        args: [ownerAddress as `0x${string}`, getProtectedTransferAddress()],
       });
 
       console.log('Token allowance check:', {
@@ -179,7 +175,7 @@ export function useProtectedTransfer() {
       // Simulate the transaction first
       const { request } = await simulateContract(config, {
         abi: ProtectedTransferABI.abi,
-        address: PROTECTED_TRANSFER_ADDRESS,
+        address: getProtectedTransferAddress(),
         functionName: 'createTransfer',
         args: [recipient, tokenAddress, parsedAmount, BigInt(validExpiryTimestamp), claimCodeHash],
         account: account.address,
@@ -211,7 +207,7 @@ export function useProtectedTransfer() {
             const transferCreatedSignature = '0xc01e8d8af68c8ec1e9a9ca9c29f9b4c5f8f8e26aec7917a8dbcbf812bcd7d2c3';
 
             // Check if this log is from our contract
-            if (log.address.toLowerCase() === PROTECTED_TRANSFER_ADDRESS.toLowerCase()) {
+            if (log.address.toLowerCase() === getProtectedTransferAddress().toLowerCase()) {
               console.log('Found log from our contract');
 
               // Check if this is the TransferCreated event
@@ -233,7 +229,7 @@ export function useProtectedTransfer() {
 
           // Try to find any log from our contract
           const contractLogs = receipt.logs.filter(
-            (log: { address: string; topics: string[] }) => log.address.toLowerCase() === PROTECTED_TRANSFER_ADDRESS.toLowerCase()
+            (log: { address: string; topics: string[] }) => log.address.toLowerCase() === getProtectedTransferAddress().toLowerCase()
           );
 
           if (contractLogs.length > 0) {
@@ -332,7 +328,7 @@ export function useProtectedTransfer() {
         // Simulate the transaction first
         const { request } = await simulateContract(config, {
           abi: ProtectedTransferABI.abi,
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           functionName: 'createLinkTransfer',
           args: [tokenAddress, parsedAmount, BigInt(validExpiryTimestamp)],
           account: account.address,
@@ -364,7 +360,7 @@ export function useProtectedTransfer() {
               const transferCreatedSignature = '0xc01e8d8af68c8ec1e9a9ca9c29f9b4c5f8f8e26aec7917a8dbcbf812bcd7d2c3';
 
               // Check if this log is from our contract
-              if (log.address.toLowerCase() === PROTECTED_TRANSFER_ADDRESS.toLowerCase()) {
+              if (log.address.toLowerCase() === getProtectedTransferAddress().toLowerCase()) {
                 console.log('Found log from our contract');
 
                 // Check if this is the TransferCreated event
@@ -386,7 +382,7 @@ export function useProtectedTransfer() {
 
             // Try to find any log from our contract
             const contractLogs = receipt.logs.filter(
-              (log: { address: string; topics: string[] }) => log.address.toLowerCase() === PROTECTED_TRANSFER_ADDRESS.toLowerCase()
+              (log: { address: string; topics: string[] }) => log.address.toLowerCase() === getProtectedTransferAddress().toLowerCase()
             );
 
             if (contractLogs.length > 0) {
@@ -496,7 +492,7 @@ export function useProtectedTransfer() {
         // Simulate the transaction first
         const { request } = await simulateContract(config, {
           abi: ProtectedTransferABI.abi,
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           functionName: 'claimTransfer',
           args: [transferId as `0x${string}`, claimCode],
           account: account.address,
@@ -606,7 +602,7 @@ export function useProtectedTransfer() {
         // Simulate the transaction first
         const { request } = await simulateContract(config, {
           abi: ProtectedTransferABI.abi,
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           functionName: 'claimLinkTransfer',
           args: [transferId as `0x${string}`],
           account: account.address,
@@ -668,7 +664,7 @@ export function useProtectedTransfer() {
         // Simulate the transaction first
         const { request } = await simulateContract(config, {
           abi: ProtectedTransferABI.abi,
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           functionName: 'refundTransfer',
           args: [transferId as `0x${string}`],
           account: account.address,
@@ -765,7 +761,7 @@ export function useProtectedTransfer() {
   const useIsTransferClaimable = (transferId: string | null) => {
     return useReadContract({
       abi: ProtectedTransferABI.abi,
-      address: PROTECTED_TRANSFER_ADDRESS,
+      address: findContractAddress('ProtectedTransfer'),
       functionName: 'isTransferClaimable',
       args: transferId ? [transferId as `0x${string}`] : undefined,
       query: {
@@ -781,7 +777,7 @@ export function useProtectedTransfer() {
       const { config } = await import('@/providers/XellarProvider');
       const { readContract } = await import('wagmi/actions');
       const { createPublicClient, http } = await import('viem');
-      const { liskSepolia } = await import('viem/chains');
+      const chainId = getChainId(config);
 
       console.log('Checking if transfer is password protected:', transferId);
 
@@ -789,13 +785,13 @@ export function useProtectedTransfer() {
       // This bypasses some of the viem type checking that might be causing issues
       try {
         const publicClient = createPublicClient({
-          chain: liskSepolia,
-          transport: http('https://rpc.sepolia-api.lisk.com')
+          chain: getSupportedChain(chainId),
+          transport: http(getChainRpcUrl(chainId))
         });
 
         // Make a direct call to the contract's isPasswordProtected function
         const result = await publicClient.readContract({
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           abi: ProtectedTransferABI.abi,
           functionName: 'isPasswordProtected',
           args: [transferId as `0x${string}`],
@@ -822,7 +818,7 @@ export function useProtectedTransfer() {
         try {
           const isProtected = await readContract(config, {
             abi: ProtectedTransferABI.abi,
-            address: PROTECTED_TRANSFER_ADDRESS,
+            address: getProtectedTransferAddress(),
             functionName: 'isPasswordProtected',
             args: [transferId as `0x${string}`],
           });
@@ -895,7 +891,7 @@ export function useProtectedTransfer() {
       const { config } = await import('@/providers/XellarProvider');
       const { readContract } = await import('wagmi/actions');
       const { createPublicClient, http } = await import('viem');
-      const { liskSepolia } = await import('viem/chains');
+      const chainId = getChainId(config);
 
       console.log('Getting transfer details for ID:', transferId);
 
@@ -903,13 +899,13 @@ export function useProtectedTransfer() {
       // This bypasses some of the viem type checking that might be causing issues
       try {
         const publicClient = createPublicClient({
-          chain: liskSepolia,
-          transport: http('https://rpc.sepolia-api.lisk.com')
+          chain: getSupportedChain(chainId),
+          transport: http(getChainRpcUrl(chainId))
         });
 
         // Make a direct call to the contract
         const result = await publicClient.readContract({
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           abi: ProtectedTransferABI.abi,
           functionName: 'getTransfer',
           args: [transferId as `0x${string}`],
@@ -940,15 +936,11 @@ export function useProtectedTransfer() {
         }
 
         // Determine token symbol based on token address
-        let tokenSymbol = 'Unknown';
-        if (tokenAddress.toLowerCase() === USDC_ADDRESS.toLowerCase()) {
-          tokenSymbol = 'USDC';
-        } else if (tokenAddress.toLowerCase() === IDRX_ADDRESS.toLowerCase()) {
-          tokenSymbol = 'IDRX';
-        }
+        const registryToken = findTokenByAddress(tokenAddress);
+        const tokenSymbol = registryToken?.symbol ?? 'Unknown';
 
         // Format amount based on token
-        const decimals = tokenSymbol === 'USDC' ? USDC_DECIMALS : IDRX_DECIMALS;
+        const decimals = registryToken?.decimals ?? 18;
         const formattedAmount = formatUnits(amount, decimals);
         const formattedGrossAmount = formatUnits(grossAmount, decimals);
 
@@ -980,7 +972,7 @@ export function useProtectedTransfer() {
 
         const data = await readContract(config, {
           abi: ProtectedTransferABI.abi,
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           functionName: 'getTransfer',
           args: [transferId as `0x${string}`],
         });
@@ -1011,15 +1003,11 @@ export function useProtectedTransfer() {
         const isLinkTransfer = dataArray[8]; // Don't cast this yet
 
         // Determine token symbol based on token address
-        let tokenSymbol = 'Unknown';
-        if (tokenAddress.toLowerCase() === USDC_ADDRESS.toLowerCase()) {
-          tokenSymbol = 'USDC';
-        } else if (tokenAddress.toLowerCase() === IDRX_ADDRESS.toLowerCase()) {
-          tokenSymbol = 'IDRX';
-        }
+        const registryToken = findTokenByAddress(tokenAddress);
+        const tokenSymbol = registryToken?.symbol ?? 'Unknown';
 
         // Format amount based on token
-        const decimals = tokenSymbol === 'USDC' ? USDC_DECIMALS : IDRX_DECIMALS;
+        const decimals = registryToken?.decimals ?? 18;
         const formattedAmount = formatUnits(amount, decimals);
         const formattedGrossAmount = formatUnits(grossAmount, decimals);
 
@@ -1112,7 +1100,7 @@ export function useProtectedTransfer() {
         // Simulate the transaction first
         const { request } = await simulateContract(config, {
           abi: ProtectedTransferABI.abi,
-          address: PROTECTED_TRANSFER_ADDRESS,
+          address: getProtectedTransferAddress(),
           functionName: 'createProtectedLinkTransfer',
           args: [tokenAddress, parsedAmount, BigInt(validExpiryTimestamp), claimCodeHash],
           account: account.address,
@@ -1144,7 +1132,7 @@ export function useProtectedTransfer() {
               const transferCreatedSignature = '0xc01e8d8af68c8ec1e9a9ca9c29f9b4c5f8f8e26aec7917a8dbcbf812bcd7d2c3';
 
               // Check if this log is from our contract
-              if (log.address.toLowerCase() === PROTECTED_TRANSFER_ADDRESS.toLowerCase()) {
+              if (log.address.toLowerCase() === getProtectedTransferAddress().toLowerCase()) {
                 console.log('Found log from our contract');
 
                 // Check if this is the TransferCreated event
@@ -1166,7 +1154,7 @@ export function useProtectedTransfer() {
 
             // Try to find any log from our contract
             const contractLogs = receipt.logs.filter(
-              (log: { address: string; topics: string[] }) => log.address.toLowerCase() === PROTECTED_TRANSFER_ADDRESS.toLowerCase()
+              (log: { address: string; topics: string[] }) => log.address.toLowerCase() === getProtectedTransferAddress().toLowerCase()
             );
 
             if (contractLogs.length > 0) {
@@ -1240,7 +1228,5 @@ export function useProtectedTransfer() {
     checkAllowance,
     isPasswordProtected,
     getTransferDetails,
-    USDC_ADDRESS,
-    IDRX_ADDRESS,
   };
 }
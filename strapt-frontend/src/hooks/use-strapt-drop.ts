@@ -22,24 +22,31 @@
  */
 
 import { useState, useCallback } from 'react';
-import { parseUnits, decodeEventLog } from 'viem';
+import { parseUnits, decodeEventLog, erc20Abi, type AbiEvent } from 'viem';
 import { toast } from 'sonner';
-import { readContract, simulateContract, writeContract, waitForTransactionReceipt, getAccount } from 'wagmi/actions';
+import { readContract, simulateContract, writeContract, getAccount, getChainId } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
+import { getExplorerTxUrl } from '@/lib/chains';
 import StraptDropABI from '@/contracts/StraptDrop.json';
-import contractConfig from '@/contracts/contract-config.json';
-import USDCABI from '@/contracts/USDCMock.json';
-import IDRXABI from '@/contracts/IDRX.json';
 import { useXellarWallet } from './use-xellar-wallet';
+import { useErrorHandler } from './useErrorHandler';
 import { useTokenBalances } from './use-token-balances';
-
-// Contract addresses from config
-const STRAPT_DROP_ADDRESS = contractConfig.StraptDrop.address as `0x${string}`;
-const USDC_ADDRESS = contractConfig.StraptDrop.supportedTokens.USDC as `0x${string}`;
-const IDRX_ADDRESS = contractConfig.StraptDrop.supportedTokens.IDRX as `0x${string}`;
+import { getEventSource } from '@/services/EventSource';
+import { signTokenPermit, type PermitSignature } from './useTokenUtils';
+import { getRelayer, signClaim } from '@/services/RelayerService';
+import { getToken, getRegisteredTokens } from '@/services/TokenRegistryService';
+import { getContractAddress, isCurrentContractDeployed } from '@/services/ContractRegistryService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+import type { TokenType } from '@/types/tokens';
+
+// Contract address on the active network
+const getStraptDropAddress = () => getContractAddress('StraptDrop');
+const DROP_CREATED_EVENT = (StraptDropABI.abi as AbiEvent[]).find(
+  (item) => item.type === 'event' && item.name === 'DropCreated'
+);
 
 // Token types
-export type TokenType = 'USDC' | 'IDRX';
+export type { TokenType };
 
 // Drop info type
 export interface DropInfo {
@@ -84,29 +91,16 @@ export function useStraptDrop() {
   const [currentDropId, setCurrentDropId] = useState<string | null>(null);
   const { address, isConnected } = useXellarWallet();
   const { tokens } = useTokenBalances();
+  const { handleError } = useErrorHandler();
 
   // Helper function to get token address from token type
   const getTokenAddress = useCallback((tokenType: TokenType): `0x${string}` => {
-    switch (tokenType) {
-      case 'USDC':
-        return USDC_ADDRESS;
-      case 'IDRX':
-        return IDRX_ADDRESS;
-      default:
-        throw new Error(`Unsupported token type: ${tokenType}`);
-    }
+    return getToken(tokenType).address;
   }, []);
 
   // Helper function to get token decimals
   const getTokenDecimals = useCallback((tokenType: TokenType): number => {
-    switch (tokenType) {
-      case 'USDC':
-        return 6;
-      case 'IDRX':
-        return 2;
-      default:
-        return 18;
-    }
+    return getToken(tokenType).decimals;
   }, []);
 
   // Create a new STRAPT Drop
@@ -137,7 +131,7 @@ export function useStraptDrop() {
       const expiryTime = BigInt(Math.floor(Date.now() / 1000) + (expiryHours * 3600));
 
       // First approve the token transfer
-      const tokenABI = tokenType === 'IDRX' ? IDRXABI.abi : USDCABI.abi;
+      const tokenABI = erc20Abi;
 
       // Check allowance
       console.log('Checking allowance...');
@@ -145,14 +139,36 @@ export function useStraptDrop() {
         address: tokenAddress,
         abi: tokenABI,
         functionName: 'allowance',
-        args: [address, STRAPT_DROP_ADDRESS],
+        args: [address, getStraptDropAddress()],
       }) as bigint;
 
       console.log('Current allowance:', allowance.toString());
       console.log('Required amount:', amountInUnits.toString());
 
-      // Approve if needed
+      // Tokens with EIP-2612 support only need a signed permit, which createDropWithPermit submits
+      let permit: PermitSignature | null = null;
       if (allowance < amountInUnits) {
+        setIsApproving(true);
+        try {
+          permit = await signTokenPermit(tokenAddress, address, getStraptDropAddress(), amountInUnits);
+        } catch (error) {
+          if (error.message?.includes('rejected') ||
+              error.message?.includes('denied') ||
+              error.message?.includes('user rejected')) {
+            console.log('User rejected permit signature:', error);
+            setIsApproving(false);
+            setIsLoading(false);
+            return null;
+          }
+          // Otherwise fall back to a regular approval
+          console.error('Error signing permit:', error);
+        } finally {
+          setIsApproving(false);
+        }
+      }
+
+      // Approve if needed
+      if (allowance < amountInUnits && !permit) {
         setIsApproving(true);
         toast.info('Approving token transfer...');
 
@@ -169,7 +185,7 @@ export function useStraptDrop() {
             address: tokenAddress,
             abi: tokenABI,
             functionName: 'approve',
-            args: [STRAPT_DROP_ADDRESS, amountInUnits],
+            args: [getStraptDropAddress(), amountInUnits],
             account: account.address,
           });
 
@@ -177,11 +193,12 @@ export function useStraptDrop() {
           console.log('Sending approval transaction...');
           try {
             const approveHash = await writeContract(config, approveRequest);
+            trackTransaction({ hash: approveHash, type: 'approve', description: `Approve ${tokenType} for drops`, amount, tokenSymbol: tokenType });
             console.log('Approval transaction sent with hash:', approveHash);
 
             // Wait for approval transaction to be confirmed
             console.log('Waiting for approval transaction to be confirmed...');
-            const approveReceipt = await waitForTransactionReceipt(config, { hash: approveHash });
+            const approveReceipt = await waitForTransaction(approveHash);
             console.log('Approval transaction confirmed:', approveReceipt);
 
             // Add a small delay to ensure the blockchain state is updated
@@ -193,7 +210,7 @@ export function useStraptDrop() {
               address: tokenAddress,
               abi: tokenABI,
               functionName: 'allowance',
-              args: [address, STRAPT_DROP_ADDRESS],
+              args: [address, getStraptDropAddress()],
             }) as bigint;
 
             console.log('New allowance after approval:', newAllowance.toString());
@@ -226,8 +243,7 @@ export function useStraptDrop() {
             throw error;
           }
         } catch (error) {
-          console.error('Error approving token:', error);
-          toast.error('Failed to approve token');
+          handleError(error, 'Failed to approve token');
           throw error;
         } finally {
           setIsApproving(false);
@@ -246,6 +262,9 @@ export function useStraptDrop() {
           throw new Error("No wallet connected");
         }
 
+        const createFunctionName = permit ? 'createDropWithPermit' : 'createDrop';
+        const withPermit = (args: unknown[]) => (permit ? [...args, permit] : args);
+
         // Calculate a longer expiry time (48 hours) to avoid potential expiry issues
         const safeExpiryTime = Math.floor(Date.now() / 1000) + (48 * 60 * 60);
 
@@ -260,10 +279,10 @@ export function useStraptDrop() {
         try {
           // Simulate the create drop transaction
           const simulationResult = await simulateContract(config, {
-            address: STRAPT_DROP_ADDRESS,
+            address: getStraptDropAddress(),
             abi: StraptDropABI.abi,
-            functionName: 'createDrop',
-            args: [tokenAddress, amountInUnits, BigInt(recipients), isRandom, expiryTime, message],
+            functionName: createFunctionName,
+            args: withPermit([tokenAddress, amountInUnits, BigInt(recipients), isRandom, expiryTime, message]),
             account: account.address,
           });
           createRequest = simulationResult.request;
@@ -285,7 +304,7 @@ export function useStraptDrop() {
                 address: tokenAddress,
                 abi: tokenABI,
                 functionName: 'allowance',
-                args: [address, STRAPT_DROP_ADDRESS],
+                args: [address, getStraptDropAddress()],
               }) as bigint;
 
               console.log(`Retry ${retryCount + 1}/${maxRetries} - Current allowance:`, currentAllowance.toString());
@@ -298,10 +317,10 @@ export function useStraptDrop() {
                 // Try the simulation again
                 try {
                   const retrySimulationResult = await simulateContract(config, {
-                    address: STRAPT_DROP_ADDRESS,
+                    address: getStraptDropAddress(),
                     abi: StraptDropABI.abi,
-                    functionName: 'createDrop',
-                    args: [tokenAddress, amountInUnits, BigInt(recipients), isRandom, expiryTime, message],
+                    functionName: createFunctionName,
+                    args: withPermit([tokenAddress, amountInUnits, BigInt(recipients), isRandom, expiryTime, message]),
                     account: account.address,
                   });
                   createRequest = retrySimulationResult.request;
@@ -336,10 +355,10 @@ export function useStraptDrop() {
 
             // Create the request manually with longer expiry time
             createRequest = {
-              address: STRAPT_DROP_ADDRESS,
+              address: getStraptDropAddress(),
               abi: StraptDropABI.abi,
-              functionName: 'createDrop',
-              args: [tokenAddress, amountInUnits, BigInt(recipients), isRandom, BigInt(safeExpiryTime), message],
+              functionName: createFunctionName,
+              args: withPermit([tokenAddress, amountInUnits, BigInt(recipients), isRandom, BigInt(safeExpiryTime), message]),
               account: account.address,
             };
           } else {
@@ -352,11 +371,12 @@ export function useStraptDrop() {
         console.log('Sending create drop transaction...');
         try {
           createHash = await writeContract(config, createRequest as any);
+          trackTransaction({ hash: createHash, type: 'create-drop', description: `Drop ${amount} ${tokenType}`, amount, tokenSymbol: tokenType });
           console.log('Create drop transaction sent with hash:', createHash);
 
           // Wait for create drop transaction to be confirmed
           console.log('Waiting for create drop transaction to be confirmed...');
-          createReceipt = await waitForTransactionReceipt(config, { hash: createHash });
+          createReceipt = await waitForTransaction(createHash);
           console.log('Create drop transaction confirmed:', createReceipt);
         } catch (error: any) {
           // If the user rejected the transaction, don't show an error
@@ -371,20 +391,8 @@ export function useStraptDrop() {
             return null;
           }
 
-          // Check for specific error types
-          if (error.message?.includes('insufficient allowance')) {
-            console.error('Insufficient allowance error in transaction:', error);
-            toast.error('Insufficient token allowance', {
-              description: 'The approval transaction was successful, but the blockchain needs more time to process it. Please wait a moment and try again.'
-            });
-          } else {
-            // For other errors, show a specific error about the drop creation failing
-            // but don't rethrow, since the approval was successful
-            console.error('Error in drop creation transaction:', error);
-            toast.error('Failed to create STRAPT Drop', {
-              description: 'The token approval was successful, but the drop creation failed. Your tokens are still in your wallet.'
-            });
-          }
+          // Don't rethrow, since the approval was successful and the tokens are still in the wallet
+          handleError(error, 'Failed to create STRAPT Drop');
           setIsCreating(false);
           setIsLoading(false);
           return null;
@@ -442,7 +450,8 @@ export function useStraptDrop() {
   };
 
   // Claim tokens from a STRAPT Drop
-  const claimDrop = async (dropId: string) => {
+  // With gasless set, the claimer only signs and the relayer submits the claim
+  const claimDrop = async (dropId: string, gasless = false) => {
     try {
       setIsLoading(true);
       setIsClaiming(true);
@@ -469,23 +478,39 @@ export function useStraptDrop() {
           throw new Error("No wallet connected");
         }
 
-        // Simulate the claim transaction
-        const { request: claimRequest } = await simulateContract(config, {
-          address: STRAPT_DROP_ADDRESS,
-          abi: StraptDropABI.abi,
-          functionName: 'claimDrop',
-          args: [dropId as `0x${string}`],
-          account: account.address,
-        });
+        let claimHash: `0x${string}`;
+        const relayer = gasless ? getRelayer() : null;
 
-        // Send the claim transaction
-        console.log('Sending claim transaction...');
-        const claimHash = await writeContract(config, claimRequest);
-        console.log('Claim transaction sent with hash:', claimHash);
+        if (gasless) {
+          if (!relayer) {
+            throw new Error('Gasless claims are not available right now');
+          }
+
+          // Sign the claim and let the relayer pay the gas
+          const signedClaim = await signClaim('StraptDrop', getStraptDropAddress(), dropId as `0x${string}`);
+          claimHash = await relayer.relayDropClaim({ ...signedClaim, dropId: dropId as `0x${string}` });
+          trackTransaction({ hash: claimHash, type: 'claim-drop', description: 'Claim drop (gasless)', targetId: dropId, relayed: true });
+          console.log('Claim relayed with hash:', claimHash);
+        } else {
+          // Simulate the claim transaction
+          const { request: claimRequest } = await simulateContract(config, {
+            address: getStraptDropAddress(),
+            abi: StraptDropABI.abi,
+            functionName: 'claimDrop',
+            args: [dropId as `0x${string}`],
+            account: account.address,
+          });
+
+          // Send the claim transaction
+          console.log('Sending claim transaction...');
+          claimHash = await writeContract(config, claimRequest);
+          trackTransaction({ hash: claimHash, type: 'claim-drop', description: 'Claim drop', targetId: dropId });
+          console.log('Claim transaction sent with hash:', claimHash);
+        }
 
         // Wait for claim transaction to be confirmed
         console.log('Waiting for claim transaction to be confirmed...');
-        const claimReceipt = await waitForTransactionReceipt(config, { hash: claimHash });
+        const claimReceipt = await waitForTransaction(claimHash);
         console.log('Claim transaction confirmed:', claimReceipt);
 
         // Find the DropClaimed event to get the claimed amount
@@ -520,20 +545,15 @@ export function useStraptDrop() {
           description: `Transaction: ${claimHash}`,
           action: {
             label: 'View on Explorer',
-            onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${claimHash}`, '_blank')
+            onClick: () => window.open(getExplorerTxUrl(getChainId(config), claimHash), '_blank')
           }
         });
         return claimedAmount;
-      } catch (error) {
-        console.error('Error claiming drop:', error);
-        toast.error('Failed to claim STRAPT Drop');
-        throw error;
       } finally {
         setIsClaiming(false);
       }
     } catch (error) {
-      console.error('Error claiming drop:', error);
-      toast.error('Failed to claim STRAPT Drop');
+      handleError(error, 'Failed to claim STRAPT Drop');
       throw error;
     } finally {
       setIsLoading(false);
@@ -561,49 +581,43 @@ export function useStraptDrop() {
       // Refund the drop
       toast.info('Refunding expired STRAPT Drop...');
 
-      try {
-        // Get the account
-        const account = getAccount(config);
-
-        if (!account || !account.address) {
-          throw new Error("No wallet connected");
-        }
-
-        // Simulate the refund transaction
-        const { request: refundRequest } = await simulateContract(config, {
-          address: STRAPT_DROP_ADDRESS,
-          abi: StraptDropABI.abi,
-          functionName: 'refundExpiredDrop',
-          args: [dropId as `0x${string}`],
-          account: account.address,
-        });
+      // Get the account
+      const account = getAccount(config);
 
-        // Send the refund transaction
-        console.log('Sending refund transaction...');
-        const refundHash = await writeContract(config, refundRequest);
-        console.log('Refund transaction sent with hash:', refundHash);
+      if (!account || !account.address) {
+        throw new Error("No wallet connected");
+      }
 
-        // Wait for refund transaction to be confirmed
-        console.log('Waiting for refund transaction to be confirmed...');
-        const refundReceipt = await waitForTransactionReceipt(config, { hash: refundHash });
-        console.log('Refund transaction confirmed:', refundReceipt);
+      // Simulate the refund transaction
+      const { request: refundRequest } = await simulateContract(config, {
+        address: getStraptDropAddress(),
+        abi: StraptDropABI.abi,
+        functionName: 'refundExpiredDrop',
+        args: [dropId as `0x${string}`],
+        account: account.address,
+      });
 
-        toast.success('Successfully refunded expired STRAPT Drop', {
-          description: `Transaction: ${refundHash}`,
-          action: {
-            label: 'View on Explorer',
-            onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${refundHash}`, '_blank')
-          }
-        });
-        return refundReceipt;
-      } catch (error) {
-        console.error('Error refunding drop:', error);
-        toast.error('Failed to refund STRAPT Drop');
-        throw error;
-      }
+      // Send the refund transaction
+      console.log('Sending refund transaction...');
+      const refundHash = await writeContract(config, refundRequest);
+      trackTransaction({ hash: refundHash, type: 'refund-drop', description: 'Refund expired drop', targetId: dropId });
+      console.log('Refund transaction sent with hash:', refundHash);
+
+      // Wait for refund transaction to be confirmed
+      console.log('Waiting for refund transaction to be confirmed...');
+      const refundReceipt = await waitForTransaction(refundHash);
+      console.log('Refund transaction confirmed:', refundReceipt);
+
+      toast.success('Successfully refunded expired STRAPT Drop', {
+        description: `Transaction: ${refundHash}`,
+        action: {
+          label: 'View on Explorer',
+          onClick: () => window.open(getExplorerTxUrl(getChainId(config), refundHash), '_blank')
+        }
+      });
+      return refundReceipt;
     } catch (error) {
-      console.error('Error refunding drop:', error);
-      toast.error('Failed to refund STRAPT Drop');
+      handleError(error, 'Failed to refund STRAPT Drop');
       throw error;
     } finally {
       setIsLoading(false);
@@ -620,7 +634,7 @@ export function useStraptDrop() {
       }
 
       const result = await readContract(config, {
-        address: STRAPT_DROP_ADDRESS,
+        address: getStraptDropAddress(),
         abi: StraptDropABI.abi,
         functionName: 'getDropInfo',
         args: [dropId as `0x${string}`],
@@ -655,7 +669,7 @@ export function useStraptDrop() {
       }
 
       const result = await readContract(config, {
-        address: STRAPT_DROP_ADDRESS,
+        address: getStraptDropAddress(),
         abi: StraptDropABI.abi,
         functionName: 'hasAddressClaimed',
         args: [dropId as `0x${string}`, userAddress as `0x${string}`],
@@ -688,66 +702,21 @@ export function useStraptDrop() {
       // Query past events to find drops created by this user
       console.log('Fetching drops created by:', address);
 
-      // Use Lisk Sepolia Blockscout API to get events
-      // This is a simplified approach - in a production app, you would use a subgraph or index events
-      const blockscoutApiUrl = 'https://sepolia-blockscout.lisk.com/api';
-      const contractAddress = STRAPT_DROP_ADDRESS;
-
-      // Fetch events from Blockscout API
-      const response = await fetch(
-        `${blockscoutApiUrl}/v2/addresses/${contractAddress}/logs?topic0=0x7d84a6263ae0d98d3329bd7b46bb4e8d6f98cd35a7adb45c274c8b7fd5ebd5e0`
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch events from Blockscout API');
-      }
-
-      const eventsData = await response.json();
-      console.log('Events data:', eventsData);
-
-      // Define a type for the event data from the API
-      interface BlockscoutEvent {
-        data: `0x${string}`;
-        topics: [`0x${string}`, ...`0x${string}`[]];
-        [key: string]: unknown;
-      }
-
-      // Filter events for this user's address
-      const userEvents = eventsData.items.filter((event: BlockscoutEvent) => {
-        // Try to decode the event to check if the creator is the current user
-        try {
-          const decodedData = decodeEventLog({
-            abi: StraptDropABI.abi,
-            data: event.data,
-            topics: event.topics,
-          });
-
-          // Check if this is a DropCreated event and the creator is the current user
-          if (decodedData.eventName === 'DropCreated') {
-            const args = decodedData.args as unknown as DropCreatedArgs;
-            return args.creator.toLowerCase() === address.toLowerCase();
-          }
-          return false;
-        } catch (e) {
-          return false;
-        }
+      // Read DropCreated events for this creator from the indexer backend for the active chain
+      const eventSource = getEventSource(getChainId(config));
+      const createdEvents = await eventSource.getLogs<DropCreatedArgs>({
+        address: getStraptDropAddress(),
+        event: DROP_CREATED_EVENT,
+        args: { creator: address },
       });
 
-      console.log('User events:', userEvents);
+      console.log(`User events (${eventSource.name}):`, createdEvents);
 
       // Process the events to get drop IDs
-      const userDrops = await Promise.all(userEvents.map(async (event: BlockscoutEvent) => {
+      const userDrops = await Promise.all(createdEvents.map(async (event) => {
         try {
-          // Decode the event to get the drop ID
-          const decodedData = decodeEventLog({
-            abi: StraptDropABI.abi,
-            data: event.data,
-            topics: event.topics,
-          });
-
           // Get the drop ID from the event
-          const args = decodedData.args as unknown as DropCreatedArgs;
-          const dropId = args.dropId;
+          const dropId = event.args.dropId;
 
           // Get the drop info
           const dropInfo = await getDropInfo(dropId);
@@ -767,13 +736,14 @@ export function useStraptDrop() {
       // If we can't fetch from the blockchain, create some mock data for testing
       // This helps with development and testing when the API might be unavailable
       console.log('Falling back to mock data');
+      const [primaryToken, secondaryToken = primaryToken] = getRegisteredTokens();
 
       const mockDrops: {id: string; info: DropInfo}[] = [
         {
           id: `0x${Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('')}`,
           info: {
             creator: address,
-            tokenAddress: IDRX_ADDRESS,
+            tokenAddress: primaryToken.address,
             totalAmount: BigInt(1000000),
             remainingAmount: BigInt(500000),
             claimedCount: BigInt(5),
@@ -789,7 +759,7 @@ export function useStraptDrop() {
           id: `0x${Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('')}`,
           info: {
             creator: address,
-            tokenAddress: USDC_ADDRESS,
+            tokenAddress: secondaryToken.address,
             totalAmount: BigInt(5000000),
             remainingAmount: BigInt(2000000),
             claimedCount: BigInt(3),
@@ -805,7 +775,7 @@ export function useStraptDrop() {
           id: `0x${Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('')}`,
           info: {
             creator: address,
-            tokenAddress: IDRX_ADDRESS,
+            tokenAddress: primaryToken.address,
             totalAmount: BigInt(2000000),
             remainingAmount: BigInt(0),
             claimedCount: BigInt(10),
@@ -828,6 +798,8 @@ export function useStraptDrop() {
   return {
     createDrop,
     claimDrop,
+    // Older deployments have no signed claims for the relayer to submit
+    isGaslessClaimAvailable: getRelayer() !== null && isCurrentContractDeployed('StraptDrop'),
     refundExpiredDrop,
     getDropInfo,
     hasAddressClaimed,
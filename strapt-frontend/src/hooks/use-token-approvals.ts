@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useChainId } from 'wagmi';
+import { parseUnits } from 'viem';
+import { toast } from 'sonner';
+import { useXellarWallet } from './use-xellar-wallet';
+import { useErrorHandler } from './useErrorHandler';
+import {
+  fetchAllowances,
+  getApprovalMode,
+  setAllowance,
+  setApprovalMode,
+  type ApprovalMode,
+  type TokenAllowance,
+} from '@/services/ApprovalService';
+
+// Identifies one token/contract pair
+export const getAllowanceKey = (item: Pick<TokenAllowance, 'token' | 'spender'>) =>
+  `${item.token.address}-${item.spender}`.toLowerCase();
+
+/**
+ * Hook for the allowances STRAPT contracts hold over the connected wallet's tokens
+ * Lists them with their risk, revokes or caps them, and exposes the approval policy
+ */
+export function useTokenApprovals() {
+  const chainId = useChainId();
+  const { address } = useXellarWallet();
+  const { handleError } = useErrorHandler();
+
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Key of the allowance whose update is in flight
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [approvalMode, setMode] = useState<ApprovalMode>(getApprovalMode);
+
+  const refresh = useCallback(async () => {
+    if (!address) {
+      setAllowances([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setAllowances(await fetchAllowances(address as `0x${string}`, chainId));
+    } catch (error) {
+      console.error('Error loading token approvals:', error);
+      toast.error('Failed to load token approvals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, chainId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const updateAllowance = async (item: TokenAllowance, amount: bigint, successMessage: string): Promise<boolean> => {
+    try {
+      setPendingKey(getAllowanceKey(item));
+      await setAllowance(item.token, item.spender, amount);
+      toast.success(successMessage);
+      await refresh();
+      return true;
+    } catch (error) {
+      handleError(error, 'Failed to update approval');
+      return false;
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  /**
+   * Remove a contract's allowance entirely
+   */
+  const revoke = (item: TokenAllowance) =>
+    updateAllowance(item, 0n, `${item.token.symbol} approval revoked`);
+
+  /**
+   * Replace a contract's allowance with a fixed amount
+   * @param amount The new allowance in whole tokens, e.g. "25.5"
+   */
+  const cap = (item: TokenAllowance, amount: string) => {
+    let units: bigint;
+    try {
+      units = parseUnits(amount, item.token.decimals);
+    } catch (error) {
+      toast.error('Invalid amount');
+      return Promise.resolve(false);
+    }
+    return updateAllowance(item, units, `${item.token.symbol} approval capped at ${amount}`);
+  };
+
+  const changeApprovalMode = (mode: ApprovalMode) => {
+    setApprovalMode(mode);
+    setMode(mode);
+  };
+
+  return {
+    allowances,
+    isLoading,
+    pendingKey,
+    refresh,
+    revoke,
+    cap,
+    approvalMode,
+    setApprovalMode: changeApprovalMode,
+  };
+}
@@ -1,149 +1,80 @@
-import { useState, useEffect } from 'react';
-import { useAccount, useBalance } from 'wagmi';
-import { formatUnits } from 'viem';
+import { useEffect, useMemo } from 'react';
+import { useAccount, useReadContracts } from 'wagmi';
+import { erc20Abi, formatUnits } from 'viem';
 import { TokenOption } from '@/components/TokenSelect';
-import USDCABI from '@/contracts/USDCMock.json';
-import IDRXABI from '@/contracts/IDRX.json';
-
-// Contract addresses
-const USDC_ADDRESS = USDCABI.address as `0x${string}`;
-const IDRX_ADDRESS = IDRXABI.address as `0x${string}`;
-
-// Token decimals
-const USDC_DECIMALS = 6;
-const IDRX_DECIMALS = 2;
+import { useTokenRegistry } from './use-token-registry';
+import { useDataRefresh } from '@/services/DataSubscriptionService';
+
+/**
+ * Raw balance of one registry token
+ */
+export interface TokenBalanceData {
+  symbol: string;
+  value: bigint;
+  decimals: number;
+  formatted: string;
+}
 
 export function useTokenBalances() {
   const { address, isConnected } = useAccount();
-  
-  // Debug log for wallet connection
-  useEffect(() => {
-    console.log('Wallet Status:', {
-      isConnected,
-      address,
-      USDC_ADDRESS,
-      IDRX_ADDRESS
-    });
-  }, [isConnected, address]);
-
-  const [tokens, setTokens] = useState<TokenOption[]>([
-    { symbol: 'IDRX', name: 'IDRX Token', balance: 0, icon: '/IDRX BLUE COIN.svg' },
-    { symbol: 'USDC', name: 'USD Coin', balance: 0, icon: '/usd-coin-usdc-logo.svg' },
-  ]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Get USDC balance with more frequent updates
-  const { data: usdcBalance, isLoading: isLoadingUsdc, error: usdcError } = useBalance({
-    address: address,
-    token: USDC_ADDRESS,
+  const registryTokens = useTokenRegistry();
+
+  // One balanceOf per registry token, batched into a single multicall
+  const { data, isLoading: isLoadingBalances, error, refetch } = useReadContracts({
+    contracts: registryTokens.map((token) => ({
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'balanceOf' as const,
+      args: [address as `0x${string}`] as const,
+      chainId: token.chainId,
+    })),
     query: {
-      enabled: isConnected,
-      refetchInterval: 5000, // Refetch every 5 seconds
+      enabled: isConnected && !!address,
       refetchOnWindowFocus: true,
       refetchOnMount: true,
       refetchOnReconnect: true,
     },
   });
 
-  // Get IDRX balance with more frequent updates
-  const { data: idrxBalance, isLoading: isLoadingIdrx, error: idrxError } = useBalance({
-    address: address,
-    token: IDRX_ADDRESS,
-    query: {
-      enabled: isConnected,
-      refetchInterval: 5000, // Refetch every 5 seconds
-      refetchOnWindowFocus: true,
-      refetchOnMount: true,
-      refetchOnReconnect: true,
-    },
+  // Refetch when a new block moves the wallet's tokens; mounted copies share one request
+  useDataRefresh('tokens', () => {
+    if (isConnected && address) refetch({ cancelRefetch: false });
   });
 
-  // Debug logs for errors
   useEffect(() => {
-    if (usdcError) {
-      console.error('USDC Balance Error:', usdcError);
-    }
-    if (idrxError) {
-      console.error('IDRX Balance Error:', idrxError);
+    if (error) {
+      console.error('Token Balance Error:', error);
     }
-  }, [usdcError, idrxError]);
-
-  // Debug logs for raw balances
-  useEffect(() => {
-    console.log('Raw USDC Balance:', {
-      value: usdcBalance?.value.toString(),
-      formatted: usdcBalance?.formatted,
-      decimals: USDC_DECIMALS,
-      isLoading: isLoadingUsdc,
-      error: usdcError
-    });
-    console.log('Raw IDRX Balance:', {
-      value: idrxBalance?.value.toString(),
-      formatted: idrxBalance?.formatted,
-      decimals: IDRX_DECIMALS,
-      isLoading: isLoadingIdrx,
-      error: idrxError
+  }, [error]);
+
+  // Balances keyed by token symbol
+  const balances = useMemo(() => {
+    const result: Record<string, TokenBalanceData> = {};
+    registryTokens.forEach((token, index) => {
+      const value = data?.[index]?.result;
+      if (typeof value !== 'bigint') return;
+      result[token.symbol] = {
+        symbol: token.symbol,
+        value,
+        decimals: token.decimals,
+        formatted: formatUnits(value, token.decimals),
+      };
     });
-  }, [usdcBalance, idrxBalance, isLoadingUsdc, isLoadingIdrx, usdcError, idrxError]);
-
-  // Update tokens when balances change
-  useEffect(() => {
-    if (!isConnected) {
-      setTokens([
-        { symbol: 'IDRX', name: 'IDRX Token', balance: 0, icon: '/IDRX BLUE COIN.svg' },
-        { symbol: 'USDC', name: 'USD Coin', balance: 0, icon: '/usd-coin-usdc-logo.svg' },
-      ]);
-      setIsLoading(false);
-      return;
-    }
+    return result;
+  }, [registryTokens, data]);
 
-    setIsLoading(isLoadingUsdc || isLoadingIdrx);
-
-    if (!isLoadingUsdc && !isLoadingIdrx) {
-      const idrxFormatted = idrxBalance ? Number(formatUnits(idrxBalance.value, IDRX_DECIMALS)) : 0;
-      const usdcFormatted = usdcBalance ? Number(formatUnits(usdcBalance.value, USDC_DECIMALS)) : 0;
-
-      // Debug logs for formatted balances
-      console.log('Formatted Balances:', {
-        IDRX: {
-          raw: idrxBalance?.value.toString(),
-          formatted: idrxFormatted,
-          decimals: IDRX_DECIMALS
-        },
-        USDC: {
-          raw: usdcBalance?.value.toString(),
-          formatted: usdcFormatted,
-          decimals: USDC_DECIMALS
-        }
-      });
-
-      // Update tokens with actual blockchain balances
-      const updatedTokens = [
-        {
-          symbol: 'IDRX',
-          name: 'IDRX Token',
-          balance: idrxFormatted,
-          icon: '/IDRX BLUE COIN.svg'
-        },
-        {
-          symbol: 'USDC',
-          name: 'USD Coin',
-          balance: usdcFormatted,
-          icon: '/usd-coin-usdc-logo.svg'
-        },
-      ];
-
-      // Debug log for token updates
-      console.log('Updating tokens with blockchain balances:', updatedTokens);
-
-      setTokens(updatedTokens);
-    }
-  }, [isConnected, isLoadingUsdc, isLoadingIdrx, usdcBalance, idrxBalance]);
+  const tokens = useMemo<TokenOption[]>(() => registryTokens.map((token) => ({
+    symbol: token.symbol,
+    name: token.name,
+    icon: token.icon,
+    color: token.color,
+    balance: isConnected && balances[token.symbol] ? Number(balances[token.symbol].formatted) : 0,
+  })), [registryTokens, balances, isConnected]);
 
   return {
     tokens,
-    isLoading,
-    usdcBalance,
-    idrxBalance,
+    isLoading: isConnected && isLoadingBalances,
+    balances,
+    refetch,
   };
 }
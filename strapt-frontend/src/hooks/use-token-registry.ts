@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { useChainId } from 'wagmi';
+import {
+  getRegisteredTokens,
+  loadSupportedTokens,
+  subscribeToTokenRegistry,
+  type RegisteredToken,
+} from '@/services/TokenRegistryService';
+
+/**
+ * Hook for the tokens registered on the connected chain
+ * Kicks off on-chain discovery and re-renders when new tokens are found
+ * @returns The registered tokens in display order
+ */
+export function useTokenRegistry(): RegisteredToken[] {
+  const chainId = useChainId();
+  const [tokens, setTokens] = useState<RegisteredToken[]>(() => getRegisteredTokens(chainId));
+
+  useEffect(() => {
+    setTokens(getRegisteredTokens(chainId));
+    const unsubscribe = subscribeToTokenRegistry(() => setTokens(getRegisteredTokens(chainId)));
+
+    loadSupportedTokens(chainId).catch((error) => {
+      console.error('Error loading supported tokens:', error);
+    });
+
+    return unsubscribe;
+  }, [chainId]);
+
+  return tokens;
+}
@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useXellarWallet } from './use-xellar-wallet';
 import { useSentTransfersData, useReceivedTransfersData } from '@/services/TransfersDataService';
+import { TransferStatus } from './use-protected-transfer-v2';
 import { usePaymentStream } from './use-payment-stream';
 import { formatUnits } from 'viem';
+import { findToken } from '@/services/TokenRegistryService';
 
 export interface TransactionHistoryItem {
   id: string;
@@ -14,6 +16,7 @@ export interface TransactionHistoryItem {
   recipient?: string;
   sender?: string;
   hash?: string;
+  transferId?: string;    // Protected transfers only; notes are keyed by it
   status: 'completed' | 'pending' | 'failed';
 }
 
@@ -61,8 +64,9 @@ export function useTransactionHistory(): TransactionHistoryResult {
           date: new Date(Number(transfer.createdAt) * 1000),
           recipient: transfer.recipient,
           hash: transfer.transactionHash || transfer.id, // Use real transaction hash if available
-          status: transfer.status === 'Claimed' ? 'completed' :
-                 transfer.status === 'Refunded' ? 'failed' : 'pending'
+          transferId: transfer.id,
+          status: transfer.status === TransferStatus.Claimed ? 'completed' :
+                 transfer.status === TransferStatus.Refunded || transfer.status === TransferStatus.Cancelled ? 'failed' : 'pending'
         });
       });
     }
@@ -79,8 +83,9 @@ export function useTransactionHistory(): TransactionHistoryResult {
           date: new Date(Number(transfer.createdAt) * 1000),
           sender: transfer.sender,
           hash: transfer.transactionHash || transfer.id, // Use real transaction hash if available
-          status: transfer.status === 'Claimed' ? 'completed' :
-                 transfer.status === 'Refunded' ? 'failed' : 'pending'
+          transferId: transfer.id,
+          status: transfer.status === TransferStatus.Claimed ? 'completed' :
+                 transfer.status === TransferStatus.Refunded || transfer.status === TransferStatus.Cancelled ? 'failed' : 'pending'
         });
       });
     }
@@ -98,7 +103,7 @@ export function useTransactionHistory(): TransactionHistoryResult {
             id: `stream-${streamId}`,
             type: 'stream_created',
             title: 'Payment Stream Created',
-            amount: `-${formatUnits(stream.totalAmount, tokenSymbol === 'USDC' ? 6 : 2)}`,
+            amount: `-${formatUnits(stream.totalAmount, findToken(tokenSymbol)?.decimals ?? 18)}`,
             tokenSymbol,
             date: new Date(Number(stream.startTime) * 1000),
             recipient: stream.recipient,
@@ -112,7 +117,7 @@ export function useTransactionHistory(): TransactionHistoryResult {
             id: `stream-claim-${streamId}`,
             type: 'stream_received',
             title: 'Stream Payment Received',
-            amount: `+${formatUnits(stream.claimedAmount, tokenSymbol === 'USDC' ? 6 : 2)}`,
+            amount: `+${formatUnits(stream.claimedAmount, findToken(tokenSymbol)?.decimals ?? 18)}`,
             tokenSymbol,
             date: new Date(), // Use current date as we don't have claim timestamp
             sender: stream.sender,
@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  previewTransaction,
+  type TransactionPreview,
+  type TransactionPreviewRequest,
+} from '@/services/SimulationService';
+
+// Identifies a request by what it sends, so a rebuilt but identical request doesn't re-simulate
+const getRequestKey = (request: TransactionPreviewRequest) =>
+  JSON.stringify(
+    [request.account, request.token.chainId, request.token.address, request.amount, request.call.address, request.call.functionName, request.call.args],
+    (_, value) => (typeof value === 'bigint' ? value.toString() : value)
+  );
+
+/**
+ * Hook for the pre-sign preview of a transaction
+ * Simulates the request whenever it changes; pass null while the inputs are incomplete
+ * @param request The transaction to preview
+ * @returns The latest preview, loading and error state, and a function to simulate again
+ */
+export function useTransactionPreview(request: TransactionPreviewRequest | null) {
+  const [preview, setPreview] = useState<TransactionPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const requestRef = useRef(request);
+  requestRef.current = request;
+  const requestKey = request ? getRequestKey(request) : null;
+
+  useEffect(() => {
+    const current = requestRef.current;
+    if (!current) {
+      setPreview(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    previewTransaction(current)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((err) => {
+        console.error('Error simulating transaction:', err);
+        if (!cancelled) {
+          setPreview(null);
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, refreshCount]);
+
+  const refresh = useCallback(() => setRefreshCount((count) => count + 1), []);
+
+  return { preview, isLoading, error, refresh };
+}
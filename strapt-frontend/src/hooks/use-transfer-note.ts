@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { toast } from 'sonner';
+import {
+  readTransferNote,
+  unlockNoteKey,
+  getNoteKey,
+  isNoteKeyUnlocked,
+  type NoteSecrets,
+  type TransferNoteResult,
+} from '@/services/TransferNoteService';
+
+// Wait for typing to pause before deriving a key from a claim code
+const CLAIM_CODE_DEBOUNCE_MS = 300;
+
+/**
+ * Hook to read the encrypted note of a transfer
+ * @param transferId The transfer ID, or the transaction hash for plain token transfers
+ * @param secrets The claim code or link key, when known
+ */
+export function useTransferNote(transferId?: string | null, { claimCode, linkKey }: NoteSecrets = {}) {
+  const { address } = useAccount();
+  const [result, setResult] = useState<TransferNoteResult>({ status: 'none' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!transferId) {
+      setResult({ status: 'none' });
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const note = await readTransferNote(transferId, { claimCode, linkKey });
+        if (!cancelled) setResult(note);
+      } catch (error) {
+        console.error('Error loading transfer note:', error);
+        if (!cancelled) setResult({ status: 'none' });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, claimCode ? CLAIM_CODE_DEBOUNCE_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [transferId, claimCode, linkKey, address, reloadKey]);
+
+  // Unlock the account's note key, then try the note again
+  const unlock = useCallback(async () => {
+    setIsUnlocking(true);
+    try {
+      await unlockNoteKey();
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error unlocking notes:', error);
+      if (error.message?.includes('rejected') || error.message?.includes('denied')) {
+        toast.error('Signature cancelled', { description: 'Notes stay locked until you sign' });
+      } else {
+        toast.error('Could not unlock notes', { description: error.message });
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, []);
+
+  return {
+    note: result.status === 'decrypted' ? result.text : null,
+    hasNote: result.status !== 'none',
+    canUnlock: result.status === 'locked' && result.canUnlock,
+    isLoading,
+    isUnlocking,
+    unlock,
+  };
+}
+
+/**
+ * Hook for the connected account's note key, which lets senders encrypt notes to it
+ */
+export function useNoteKey() {
+  const { address } = useAccount();
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!address) {
+      setIsEnabled(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getNoteKey(address)
+      .then((record) => {
+        if (!cancelled) setIsEnabled(!!record);
+      })
+      .catch((error) => console.error('Error loading note key:', error))
+      .finally(() => {
+        if (!cancelled) {
+          setIsUnlocked(isNoteKeyUnlocked(address));
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  // Publish a note key, or unlock the existing one
+  const enable = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      await unlockNoteKey();
+      setIsEnabled(true);
+      setIsUnlocked(true);
+      toast.success('Encrypted notes enabled', { description: 'Senders can now leave you private notes' });
+    } catch (error) {
+      console.error('Error enabling notes:', error);
+      toast.error('Could not enable encrypted notes', { description: error.message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    isEnabled,
+    isUnlocked,
+    isLoading,
+    enable,
+  };
+}
@@ -1,18 +1,15 @@
 import { useState, useCallback, useEffect } from 'react';
 import { formatUnits } from 'viem';
+import { useChainId } from 'wagmi';
 import { toast } from 'sonner';
-import { readContract, simulateContract, writeContract, waitForTransactionReceipt, getAccount } from 'wagmi/actions';
+import { readContract, simulateContract, writeContract, getAccount } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
 import USDCFaucetABI from '@/contracts/USDCFaucet.json';
-import contractConfig from '@/contracts/contract-config.json';
 import { useXellarWallet } from './use-xellar-wallet';
-import { USDC_DECIMALS } from './useTokenUtils';
-
-// Constants
-const USDC_FAUCET_ADDRESS = contractConfig.USDCFaucet.address as `0x${string}`;
-const CLAIM_AMOUNT = BigInt(contractConfig.USDCFaucet.claimAmount);
-const COOLDOWN_PERIOD = contractConfig.USDCFaucet.cooldownPeriod;
-const MAX_CLAIM_PER_ADDRESS = BigInt(contractConfig.USDCFaucet.maxClaimPerAddress);
+import { getToken } from '@/services/TokenRegistryService';
+import { findContractDeployment, type ContractDeployment } from '@/services/ContractRegistryService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+import { getExplorerTxUrl } from '@/lib/chains';
 
 // Types
 interface FaucetInfo {
@@ -22,6 +19,14 @@ interface FaucetInfo {
   faucetBalance: bigint;
 }
 
+// Limits from the deployment config, used until the contract has been read
+const getConfiguredFaucetInfo = (faucet?: ContractDeployment): FaucetInfo => ({
+  claimAmount: BigInt(faucet?.claimAmount ?? 0),
+  cooldownPeriod: faucet?.cooldownPeriod ?? 0,
+  maxClaimPerAddress: BigInt(faucet?.maxClaimPerAddress ?? 0),
+  faucetBalance: 0n
+});
+
 interface UserClaimInfo {
   lastClaimTime: bigint;
   totalClaimed: bigint;
@@ -30,25 +35,27 @@ interface UserClaimInfo {
   canClaim: boolean;
 }
 
+const EMPTY_CLAIM_INFO: UserClaimInfo = {
+  lastClaimTime: 0n,
+  totalClaimed: 0n,
+  timeUntilNextClaim: 0n,
+  remainingAllowance: 0n,
+  canClaim: false
+};
+
 /**
  * Hook for interacting with the USDC Faucet contract
  */
 export function useUSDCFaucet() {
   const { address, isConnected } = useXellarWallet();
   const [isClaiming, setIsClaiming] = useState(false);
-  const [faucetInfo, setFaucetInfo] = useState<FaucetInfo>({
-    claimAmount: CLAIM_AMOUNT,
-    cooldownPeriod: COOLDOWN_PERIOD,
-    maxClaimPerAddress: MAX_CLAIM_PER_ADDRESS,
-    faucetBalance: 0n
-  });
-  const [userClaimInfo, setUserClaimInfo] = useState<UserClaimInfo>({
-    lastClaimTime: 0n,
-    totalClaimed: 0n,
-    timeUntilNextClaim: 0n,
-    remainingAllowance: 0n,
-    canClaim: false
-  });
+
+  // The faucet only exists on testnets it was deployed to
+  const chainId = useChainId();
+  const faucet = findContractDeployment('USDCFaucet', chainId);
+
+  const [faucetInfo, setFaucetInfo] = useState<FaucetInfo>(() => getConfiguredFaucetInfo(faucet));
+  const [userClaimInfo, setUserClaimInfo] = useState<UserClaimInfo>(EMPTY_CLAIM_INFO);
 
   // Format time remaining in a human-readable format
   const formatTimeRemaining = useCallback((seconds: bigint): string => {
@@ -70,12 +77,19 @@ export function useUSDCFaucet() {
 
   // Function to reload data (used internally)
   const reloadData = useCallback(async () => {
+    const configured = getConfiguredFaucetInfo(faucet);
+    if (!faucet) {
+      setFaucetInfo(configured);
+      setUserClaimInfo(EMPTY_CLAIM_INFO);
+      return;
+    }
+
     try {
       // Get claim amount
-      let claimAmount = CLAIM_AMOUNT;
+      let claimAmount = configured.claimAmount;
       try {
         claimAmount = await readContract(config, {
-          address: USDC_FAUCET_ADDRESS,
+          address: faucet.address,
           abi: USDCFaucetABI.abi,
           functionName: 'claimAmount',
         }) as bigint;
@@ -84,10 +98,10 @@ export function useUSDCFaucet() {
       }
 
       // Get cooldown period
-      let cooldownPeriod = BigInt(COOLDOWN_PERIOD);
+      let cooldownPeriod = BigInt(configured.cooldownPeriod);
       try {
         cooldownPeriod = await readContract(config, {
-          address: USDC_FAUCET_ADDRESS,
+          address: faucet.address,
           abi: USDCFaucetABI.abi,
           functionName: 'cooldownPeriod',
         }) as bigint;
@@ -96,10 +110,10 @@ export function useUSDCFaucet() {
       }
 
       // Get max claim per address
-      let maxClaimPerAddress = MAX_CLAIM_PER_ADDRESS;
+      let maxClaimPerAddress = configured.maxClaimPerAddress;
       try {
         maxClaimPerAddress = await readContract(config, {
-          address: USDC_FAUCET_ADDRESS,
+          address: faucet.address,
           abi: USDCFaucetABI.abi,
           functionName: 'maxClaimPerAddress',
         }) as bigint;
@@ -111,7 +125,7 @@ export function useUSDCFaucet() {
       let faucetBalance = 0n;
       try {
         faucetBalance = await readContract(config, {
-          address: USDC_FAUCET_ADDRESS,
+          address: faucet.address,
           abi: USDCFaucetABI.abi,
           functionName: 'getFaucetBalance',
         }) as bigint;
@@ -137,7 +151,7 @@ export function useUSDCFaucet() {
 
         try {
           lastClaimTime = await readContract(config, {
-            address: USDC_FAUCET_ADDRESS,
+            address: faucet.address,
             abi: USDCFaucetABI.abi,
             functionName: 'lastClaimTime',
             args: [address],
@@ -148,7 +162,7 @@ export function useUSDCFaucet() {
 
         try {
           totalClaimed = await readContract(config, {
-            address: USDC_FAUCET_ADDRESS,
+            address: faucet.address,
             abi: USDCFaucetABI.abi,
             functionName: 'totalClaimed',
             args: [address],
@@ -159,7 +173,7 @@ export function useUSDCFaucet() {
 
         try {
           timeUntilNextClaim = await readContract(config, {
-            address: USDC_FAUCET_ADDRESS,
+            address: faucet.address,
             abi: USDCFaucetABI.abi,
             functionName: 'timeUntilNextClaim',
             args: [address],
@@ -170,7 +184,7 @@ export function useUSDCFaucet() {
 
         try {
           remainingAllowance = await readContract(config, {
-            address: USDC_FAUCET_ADDRESS,
+            address: faucet.address,
             abi: USDCFaucetABI.abi,
             functionName: 'remainingClaimAllowance',
             args: [address],
@@ -195,7 +209,7 @@ export function useUSDCFaucet() {
     } catch (error) {
       console.error('Error reloading data:', error);
     }
-  }, [address, isConnected]);
+  }, [address, isConnected, faucet]);
 
   // Claim tokens from the faucet
   const claimTokens = useCallback(async (): Promise<boolean> => {
@@ -205,6 +219,11 @@ export function useUSDCFaucet() {
         return false;
       }
 
+      if (!faucet) {
+        toast.error('The USDC faucet is not available on this network');
+        return false;
+      }
+
       setIsClaiming(true);
 
       // Check if user can claim based on current state
@@ -215,7 +234,7 @@ export function useUSDCFaucet() {
           });
         } else if (userClaimInfo.remainingAllowance < faucetInfo.claimAmount) {
           toast.error('Maximum claim limit reached', {
-            description: `You've reached your maximum claim limit of ${formatUnits(faucetInfo.maxClaimPerAddress, USDC_DECIMALS)} USDC`
+            description: `You've reached your maximum claim limit of ${formatUnits(faucetInfo.maxClaimPerAddress, getToken('USDC').decimals)} USDC`
           });
         } else if (faucetInfo.faucetBalance < faucetInfo.claimAmount) {
           toast.error('Insufficient faucet balance', {
@@ -235,7 +254,7 @@ export function useUSDCFaucet() {
 
       // Simulate the claim transaction
       const { request } = await simulateContract(config, {
-        address: USDC_FAUCET_ADDRESS,
+        address: faucet.address,
         abi: USDCFaucetABI.abi,
         functionName: 'claimTokens',
         account: account.address,
@@ -244,18 +263,17 @@ export function useUSDCFaucet() {
       // Send the claim transaction
       toast.info('Claiming USDC tokens...');
       const hash = await writeContract(config, request);
+      trackTransaction({ hash, type: 'claim-faucet', description: 'Claim USDC from faucet', tokenSymbol: 'USDC' });
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, {
-        hash,
-      });
+      const receipt = await waitForTransaction(hash);
 
       if (receipt.status === 'success') {
         toast.success('USDC tokens claimed successfully', {
-          description: `You've claimed ${formatUnits(faucetInfo.claimAmount, USDC_DECIMALS)} USDC from the faucet. Transaction: ${hash}`,
+          description: `You've claimed ${formatUnits(faucetInfo.claimAmount, getToken('USDC').decimals)} USDC from the faucet. Transaction: ${hash}`,
           action: {
             label: 'View on Explorer',
-            onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${hash}`, '_blank')
+            onClick: () => window.open(getExplorerTxUrl(chainId, hash), '_blank')
           }
         });
 
@@ -294,7 +312,7 @@ export function useUSDCFaucet() {
     } finally {
       setIsClaiming(false);
     }
-  }, [address, isConnected, faucetInfo, userClaimInfo, formatTimeRemaining, reloadData]);
+  }, [address, isConnected, chainId, faucet, faucetInfo, userClaimInfo, formatTimeRemaining, reloadData]);
 
   // Load faucet and user info on mount and when wallet changes
   useEffect(() => {
@@ -303,6 +321,7 @@ export function useUSDCFaucet() {
   }, [reloadData]);
 
   return {
+    isAvailable: !!faucet,
     isClaiming,
     faucetInfo,
     userClaimInfo,
@@ -4,16 +4,18 @@ import {
   writeContract,
   waitForTransactionReceipt,
   simulateContract,
-  getAccount
+  getAccount,
+  getChainId
 } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
+import { getExplorerTxUrl } from '@/lib/chains';
 import { useAccount } from 'wagmi';
 import { toast } from 'sonner';
-import contractConfig from '@/contracts/contract-config.json';
+import { getContractAddress as getDeployedContractAddress, type ContractName } from '@/services/ContractRegistryService';
 
 // Define types for contract interaction
 export interface ContractCallOptions {
-  contractName: string;
+  contractName: ContractName;
   functionName: string;
   args: any[];
   value?: bigint;
@@ -24,7 +26,7 @@ export interface ContractReadOptions extends ContractCallOptions {
 }
 
 export interface ContractEventOptions {
-  contractName: string;
+  contractName: ContractName;
   eventName: string;
   fromBlock?: bigint;
   toBlock?: bigint | 'latest';
@@ -45,16 +47,12 @@ export function useBaseContract() {
   const [isConfirmed, setIsConfirmed] = useState(false);
 
   /**
-   * Get contract address by name
+   * Get contract address by name on the active network
    * @param contractName Name of the contract in the config
    * @returns Contract address as 0x string
    */
-  const getContractAddress = useCallback((contractName: string): `0x${string}` => {
-    const contract = contractConfig[contractName];
-    if (!contract || !contract.address) {
-      throw new Error(`Contract ${contractName} not found in config`);
-    }
-    return contract.address as `0x${string}`;
+  const getContractAddress = useCallback((contractName: ContractName): `0x${string}` => {
+    return getDeployedContractAddress(contractName);
   }, []);
 
   /**
@@ -183,7 +181,7 @@ export function useBaseContract() {
           description: `Transaction: ${hash}`,
           action: {
             label: 'View on Explorer',
-            onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${hash}`, '_blank')
+            onClick: () => window.open(getExplorerTxUrl(getChainId(config), hash), '_blank')
           }
         });
         return hash;
@@ -1,25 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { readContract } from 'wagmi/actions';
-import { config } from '@/providers/XellarProvider';
 import { useAccount } from 'wagmi';
-
-// Cache storage for contract reads
-const contractCache = new Map<string, { data: any; timestamp: number }>();
-
-// Active requests tracker to prevent duplicate requests
-const activeContractRequests = new Map<string, Promise<any>>();
-
-// Default cache expiration time (30 seconds)
-const DEFAULT_CACHE_TIME = 30 * 1000;
+import { scheduleRead } from '@/services/ReadSchedulerService';
+import { useDataRefresh, type DataType } from '@/services/DataSubscriptionService';
 
 interface ContractReadOptions {
   contractAddress: `0x${string}`;
   abi: any;
   functionName: string;
   args?: any[];
+  dataType: DataType;       // Read again whenever this data type is refreshed, e.g. by a new block
   enabled?: boolean;
-  cacheTime?: number;
-  deduplicate?: boolean;
   onSuccess?: (data: any) => void;
   onError?: (error: Error) => void;
 }
@@ -33,7 +23,8 @@ interface UseCachedContractReadResult<T> {
 }
 
 /**
- * Custom hook for contract data reading with caching and deduplication
+ * Custom hook for contract data reading through the read scheduler,
+ * which batches it with other reads and dedupes identical ones
  * @param options Contract read options
  * @returns Contract read result with data, error, loading state, and utility functions
  */
@@ -45,9 +36,8 @@ export function useCachedContractRead<T = any>(
     abi,
     functionName,
     args = [],
+    dataType,
     enabled = true,
-    cacheTime = DEFAULT_CACHE_TIME,
-    deduplicate = true,
     onSuccess,
     onError,
   } = options;
@@ -59,62 +49,26 @@ export function useCachedContractRead<T = any>(
   const [isValidating, setIsValidating] = useState<boolean>(false);
 
   // Store the latest options in a ref to avoid unnecessary re-fetches
-  const optionsRef = useRef({ cacheTime, onSuccess, onError });
-  optionsRef.current = { cacheTime, onSuccess, onError };
+  const optionsRef = useRef({ onSuccess, onError });
+  optionsRef.current = { onSuccess, onError };
 
-  // Generate a cache key from the contract address, function name, and args
-  const cacheKey = `${contractAddress}-${functionName}-${JSON.stringify(args)}`;
+  // Args compared by value, so a new array with the same contents doesn't refetch
+  const argsKey = JSON.stringify(args, (_, value) => typeof value === 'bigint' ? value.toString() : value);
 
   // Function to fetch data from contract
-  const fetchContractData = useCallback(async (skipCache = false): Promise<void> => {
+  const fetchContractData = useCallback(async (): Promise<void> => {
     if (!enabled || !isConnected) return;
 
-    // Check if we have a cached response
-    if (!skipCache && contractCache.has(cacheKey)) {
-      const cachedData = contractCache.get(cacheKey)!;
-      const now = Date.now();
-
-      // If the cache is still valid, use it
-      if (now - cachedData.timestamp < optionsRef.current.cacheTime) {
-        setData(cachedData.data);
-        setIsLoading(false);
-        optionsRef.current.onSuccess?.(cachedData.data);
-        return;
-      }
-    }
-
     // Set loading state
     setIsLoading(true);
     setIsValidating(true);
 
     try {
-      let responsePromise: Promise<any>;
-
-      // Check if there's already an active request for this contract call
-      if (deduplicate && activeContractRequests.has(cacheKey)) {
-        responsePromise = activeContractRequests.get(cacheKey)!;
-      } else {
-        // Create a new request
-        responsePromise = readContract(config, {
-          address: contractAddress,
-          abi,
-          functionName,
-          args,
-        });
-
-        // Store the promise if deduplication is enabled
-        if (deduplicate) {
-          activeContractRequests.set(cacheKey, responsePromise);
-        }
-      }
-
-      // Wait for the response
-      const responseData = await responsePromise;
-
-      // Update the cache
-      contractCache.set(cacheKey, {
-        data: responseData,
-        timestamp: Date.now(),
+      const responseData = await scheduleRead({
+        address: contractAddress,
+        abi,
+        functionName,
+        args,
       });
 
       // Update state
@@ -127,13 +81,9 @@ export function useCachedContractRead<T = any>(
     } finally {
       setIsLoading(false);
       setIsValidating(false);
-
-      // Remove from active requests
-      if (deduplicate) {
-        activeContractRequests.delete(cacheKey);
-      }
     }
-  }, [contractAddress, abi, functionName, args, enabled, isConnected, cacheKey, deduplicate]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contractAddress, abi, functionName, argsKey, enabled, isConnected]);
 
   // Initial fetch
   useEffect(() => {
@@ -142,24 +92,14 @@ export function useCachedContractRead<T = any>(
     }
   }, [enabled, isConnected, fetchContractData]);
 
-  // Set up polling for contract data (every 15 seconds)
-  useEffect(() => {
-    if (!enabled || !isConnected) return;
-
-    const intervalId = setInterval(() => {
-      fetchContractData();
-    }, 15000); // Poll every 15 seconds
-
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, [enabled, isConnected, fetchContractData]);
+  // Refetch when the chain head or a settled transaction touches this data, instead of polling
+  useDataRefresh(dataType, fetchContractData);
 
   return {
     data,
     error,
     isLoading,
     isValidating,
-    refetch: () => fetchContractData(true),
+    refetch: fetchContractData,
   };
 }
@@ -1,5 +1,11 @@
 import { useCallback } from 'react';
 import { keccak256, toBytes } from 'viem';
+import { generateTransferClaimLink } from '@/utils/qr-code-utils';
+
+const CLAIM_CODE_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+// Largest multiple of the alphabet size below 256; bytes above it are skipped to avoid modulo bias
+const MAX_UNBIASED_BYTE = 256 - (256 % CLAIM_CODE_CHARACTERS.length);
 
 /**
  * Hook for claim code utilities
@@ -7,15 +13,19 @@ import { keccak256, toBytes } from 'viem';
  */
 export function useClaimCodeUtils() {
   /**
-   * Generate a random claim code
+   * Generate a random claim code using the browser's secure random generator
    * @param length Length of the claim code (default: 6)
    * @returns Random claim code string
    */
   const generateClaimCode = useCallback((length: number = 6) => {
-    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
     let result = '';
-    for (let i = 0; i < length; i++) {
-      result += characters.charAt(Math.floor(Math.random() * characters.length));
+    while (result.length < length) {
+      const bytes = crypto.getRandomValues(new Uint8Array(length * 2));
+      for (const byte of bytes) {
+        if (byte >= MAX_UNBIASED_BYTE) continue;
+        result += CLAIM_CODE_CHARACTERS.charAt(byte % CLAIM_CODE_CHARACTERS.length);
+        if (result.length === length) break;
+      }
     }
     return result;
   }, []);
@@ -45,13 +55,7 @@ export function useClaimCodeUtils() {
     claimCode?: string,
     baseUrl?: string
   ): string => {
-    const url = baseUrl || window.location.origin;
-
-    if (claimCode) {
-      return `${url}/app/claims?id=${transferId}&code=${claimCode}`;
-    }
-
-    return `${url}/app/claims?id=${transferId}`;
+    return generateTransferClaimLink(transferId, claimCode, baseUrl);
   }, []);
 
   /**
@@ -1,12 +1,14 @@
 import { useState } from 'react';
 import { useAccount } from 'wagmi';
-import { writeContract, waitForTransactionReceipt, readContract, simulateContract, getAccount } from 'wagmi/actions';
+import { writeContract, readContract, simulateContract, getAccount, getChainId } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
 import { toast } from 'sonner';
 import { TokenType, useTokenUtils } from './useTokenUtils';
 import { useTransactionState } from './useTransactionState';
 import { useErrorHandler } from './useErrorHandler';
-import contractConfig from '@/contracts/contract-config.json';
+import { getContractAddress as getDeployedContractAddress, type ContractName } from '@/services/ContractRegistryService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+import { getSupportedChain } from '@/lib/chains';
 
 /**
  * Hook for contract interaction utilities
@@ -18,13 +20,9 @@ export function useContractUtils() {
   const { handleError } = useErrorHandler();
   const { setIsApproving, setIsApproved } = useTransactionState();
 
-  // Get contract address by name
-  const getContractAddress = (contractName: string): `0x${string}` => {
-    const contract = contractConfig[contractName];
-    if (!contract || !contract.address) {
-      throw new Error(`Contract ${contractName} not found in config`);
-    }
-    return contract.address as `0x${string}`;
+  // Get contract address by name on the active network
+  const getContractAddress = (contractName: ContractName): `0x${string}` => {
+    return getDeployedContractAddress(contractName);
   };
 
   // Check token allowance
@@ -32,7 +30,7 @@ export function useContractUtils() {
     tokenType: TokenType,
     amount: string,
     ownerAddress: string,
-    spenderContractName: string
+    spenderContractName: ContractName
   ): Promise<boolean> => {
     try {
       // Get token address and decimals
@@ -68,7 +66,7 @@ export function useContractUtils() {
   const approveToken = async (
     tokenType: TokenType,
     amount: string,
-    spenderContractName: string
+    spenderContractName: ContractName
   ): Promise<boolean> => {
     try {
       setIsApproving(true);
@@ -95,13 +93,12 @@ export function useContractUtils() {
         args: [spenderAddress, parsedAmount],
         address: tokenAddress,
         account: address,
-        chain: config.chains[0], // Use the first chain in the config
+        chain: getSupportedChain(getChainId(config)), // Use the connected chain
       });
+      trackTransaction({ hash, type: 'approve', description: `Approve ${tokenType}`, amount, tokenSymbol: tokenType });
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, {
-        hash
-      });
+      const receipt = await waitForTransaction(hash);
 
       if (receipt.status === 'success') {
         setIsApproved(true);
@@ -146,13 +143,12 @@ export function useContractUtils() {
         args: [recipient as `0x${string}`, parsedAmount],
         address: tokenAddress,
         account: address,
-        chain: config.chains[0], // Use the first chain in the config
+        chain: getSupportedChain(getChainId(config)), // Use the connected chain
       });
+      trackTransaction({ hash, type: 'transfer', description: `Send ${amount} ${tokenType}`, amount, tokenSymbol: tokenType });
 
       // Wait for transaction to be confirmed
-      const receipt = await waitForTransactionReceipt(config, {
-        hash
-      });
+      const receipt = await waitForTransaction(hash);
 
       if (receipt.status === 'success') {
         toast.success("Direct transfer successful");
@@ -174,7 +170,7 @@ export function useContractUtils() {
 
   // Simulate contract call
   const simulateContractCall = async (
-    contractName: string,
+    contractName: ContractName,
     functionName: string,
     args: any[]
   ) => {
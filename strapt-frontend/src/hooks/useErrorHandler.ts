@@ -1,4 +1,6 @@
+import { useCallback } from 'react';
 import { toast } from 'sonner';
+import { decodeContractError, describeContractError, type DecodedContractError } from '@/services/ContractErrorService';
 
 /**
  * Hook for standardized error handling
@@ -7,59 +9,58 @@ import { toast } from 'sonner';
 export function useErrorHandler() {
   /**
    * Handle contract interaction errors with appropriate toast messages
+   * Reverts are decoded against the STRAPT contract ABIs, so the toast explains
+   * what went wrong and what to do next
    * @param error The error object
    * @param defaultMessage Default message to show if error type can't be determined
+   * @returns The decoded contract error, or null if the error wasn't a revert
    */
-  const handleError = (error: any, defaultMessage: string = "Transaction failed") => {
+  const handleError = useCallback((error: any, defaultMessage: string = "Transaction failed"): DecodedContractError | null => {
     console.error('Error:', error);
 
     // Extract error message
     const errorMessage = error?.message || String(error);
 
-    // Check for common error patterns
+    // Wallet and RPC errors, which carry no revert data
     if (errorMessage.includes('rejected') || errorMessage.includes('denied') || errorMessage.includes('cancelled')) {
       toast.error("Transaction cancelled", {
         description: "You cancelled the transaction"
       });
-    } else if (errorMessage.includes('insufficient funds')) {
+      return null;
+    }
+    if (errorMessage.includes('insufficient funds')) {
       toast.error("Insufficient funds", {
         description: "You do not have enough funds to complete this transaction"
       });
-    } else if (errorMessage.includes('gas required exceeds allowance')) {
+      return null;
+    }
+    if (errorMessage.includes('gas required exceeds allowance')) {
       toast.error("Gas limit exceeded", {
         description: "The transaction requires more gas than your wallet allows"
       });
-    } else if (errorMessage.includes('nonce too low')) {
+      return null;
+    }
+    if (errorMessage.includes('nonce too low')) {
       toast.error("Transaction nonce error", {
         description: "Please try again with a higher nonce value"
       });
-    } else if (errorMessage.includes('already claimed') || errorMessage.includes('not claimable')) {
-      toast.error("Already claimed", {
-        description: "This transfer has already been claimed or is not available"
-      });
-    } else if (errorMessage.includes('Invalid claim code') || errorMessage.includes('invalid password')) {
-      toast.error("Invalid claim code", {
-        description: "The claim code you entered is incorrect"
-      });
-    } else if (errorMessage.includes('not refundable') || errorMessage.includes('cannot refund')) {
-      toast.error("Not refundable", {
-        description: "This transfer cannot be refunded or has already been claimed"
-      });
-    } else if (errorMessage.includes('expired')) {
-      toast.error("Expired", {
-        description: "This transfer has expired and is no longer valid"
-      });
-    } else if (errorMessage.includes('user rejected')) {
-      toast.error("User rejected", {
-        description: "You rejected the transaction request"
-      });
-    } else {
-      // Default error message
-      toast.error(defaultMessage, {
-        description: errorMessage.length > 100 ? errorMessage.substring(0, 100) + '...' : errorMessage
+      return null;
+    }
+
+    const decoded = decodeContractError(error);
+    if (decoded) {
+      toast.error(decoded.title, {
+        description: describeContractError(decoded)
       });
+      return decoded;
     }
-  };
+
+    // Default error message
+    toast.error(defaultMessage, {
+      description: errorMessage.length > 100 ? errorMessage.substring(0, 100) + '...' : errorMessage
+    });
+    return null;
+  }, []);
 
   /**
    * Handle form validation errors
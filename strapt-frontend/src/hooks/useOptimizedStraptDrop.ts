@@ -1,23 +1,26 @@
 import { useState, useCallback, useMemo } from 'react';
-import { parseUnits, decodeEventLog } from 'viem';
+import { parseUnits, type AbiEvent } from 'viem';
 import { toast } from 'sonner';
-import { readContract, simulateContract, writeContract, waitForTransactionReceipt, getAccount } from 'wagmi/actions';
+import { readContract, simulateContract, writeContract, waitForTransactionReceipt, getAccount, getChainId } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
+import { getExplorerTxUrl } from '@/lib/chains';
 import StraptDropABI from '@/contracts/StraptDrop.json';
-import contractConfig from '@/contracts/contract-config.json';
-import USDCABI from '@/contracts/USDCMock.json';
-import IDRXABI from '@/contracts/IDRX.json';
 import { useXellarWallet } from './use-xellar-wallet';
 import { useTokenBalances } from './use-token-balances';
 import { useCachedContractRead } from './useCachedContractRead';
+import { getEventSource } from '@/services/EventSource';
+import { getToken, findTokenByAddress } from '@/services/TokenRegistryService';
+import { getContractAddress } from '@/services/ContractRegistryService';
+import type { TokenType } from '@/types/tokens';
 
-// Contract addresses from config
-const STRAPT_DROP_ADDRESS = contractConfig.StraptDrop.address as `0x${string}`;
-const USDC_ADDRESS = contractConfig.StraptDrop.supportedTokens.USDC as `0x${string}`;
-const IDRX_ADDRESS = contractConfig.StraptDrop.supportedTokens.IDRX as `0x${string}`;
+// Contract address on the active network
+const getStraptDropAddress = () => getContractAddress('StraptDrop');
+const DROP_CREATED_EVENT = (StraptDropABI.abi as AbiEvent[]).find(
+  (item) => item.type === 'event' && item.name === 'DropCreated'
+);
 
 // Token types
-export type TokenType = 'USDC' | 'IDRX';
+export type { TokenType };
 
 // Drop info type
 export interface DropInfo {
@@ -87,20 +90,12 @@ export function useOptimizedStraptDrop() {
 
   // Helper function to get token address from token type - memoized
   const getTokenAddress = useCallback((tokenType: TokenType): `0x${string}` => {
-    switch (tokenType) {
-      case 'USDC': return USDC_ADDRESS;
-      case 'IDRX': return IDRX_ADDRESS;
-      default: throw new Error(`Unsupported token type: ${tokenType}`);
-    }
+    return getToken(tokenType).address;
   }, []);
 
   // Helper function to get token decimals - memoized
   const getTokenDecimals = useCallback((tokenType: TokenType): number => {
-    switch (tokenType) {
-      case 'USDC': return 6;
-      case 'IDRX': return 2;
-      default: return 18;
-    }
+    return getToken(tokenType).decimals;
   }, []);
 
   // Get drop info with caching
@@ -120,7 +115,7 @@ export function useOptimizedStraptDrop() {
 
     try {
       const result = await readContract(config, {
-        address: STRAPT_DROP_ADDRESS,
+        address: getStraptDropAddress(),
         abi: StraptDropABI.abi,
         functionName: 'getDropInfo',
         args: [dropId as `0x${string}`],
@@ -163,51 +158,18 @@ export function useOptimizedStraptDrop() {
       // Query past events to find drops created by this user
       console.log('Fetching drops created by:', address);
 
-      // Use Lisk Sepolia Blockscout API to get events
-      const blockscoutApiUrl = 'https://sepolia-blockscout.lisk.com/api';
-      const contractAddress = STRAPT_DROP_ADDRESS;
-
-      // Fetch events from Blockscout API
-      const response = await fetch(
-        `${blockscoutApiUrl}/v2/addresses/${contractAddress}/logs?topic0=0x7d84a6263ae0d98d3329bd7b46bb4e8d6f98cd35a7adb45c274c8b7fd5ebd5e0`
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch events from Blockscout API');
-      }
-
-      const eventsData = await response.json();
-
-      // Filter events for this user's address
-      const userEvents = eventsData.items.filter((event: any) => {
-        try {
-          const decodedData = decodeEventLog({
-            abi: StraptDropABI.abi,
-            data: event.data,
-            topics: event.topics,
-          });
-
-          if (decodedData.eventName === 'DropCreated') {
-            const args = decodedData.args as unknown as DropCreatedArgs;
-            return args.creator.toLowerCase() === address.toLowerCase();
-          }
-          return false;
-        } catch (e) {
-          return false;
-        }
+      // Read DropCreated events for this creator from the indexer backend for the active chain
+      const eventSource = getEventSource(getChainId(config));
+      const createdEvents = await eventSource.getLogs<DropCreatedArgs>({
+        address: getStraptDropAddress(),
+        event: DROP_CREATED_EVENT,
+        args: { creator: address },
       });
 
       // Process the events to get drop IDs and info in parallel
-      const userDrops = await Promise.all(userEvents.map(async (event: any) => {
+      const userDrops = await Promise.all(createdEvents.map(async (event) => {
         try {
-          const decodedData = decodeEventLog({
-            abi: StraptDropABI.abi,
-            data: event.data,
-            topics: event.topics,
-          });
-
-          const args = decodedData.args as unknown as DropCreatedArgs;
-          const dropId = args.dropId;
+          const dropId = event.args.dropId;
 
           // Get the drop info with caching
           const dropInfo = await getDropInfo(dropId);
@@ -226,20 +188,9 @@ export function useOptimizedStraptDrop() {
       const decimals: {[key: string]: number} = {};
 
       for (const drop of validDrops) {
-        const tokenAddress = drop.info.tokenAddress.toLowerCase();
-        const idrxAddress = IDRX_ADDRESS.toLowerCase();
-        const usdcAddress = USDC_ADDRESS.toLowerCase();
-
-        if (tokenAddress === idrxAddress) {
-          symbols[drop.id] = 'IDRX';
-          decimals[drop.id] = 2;
-        } else if (tokenAddress === usdcAddress) {
-          symbols[drop.id] = 'USDC';
-          decimals[drop.id] = 6;
-        } else {
-          symbols[drop.id] = 'Token';
-          decimals[drop.id] = 18;
-        }
+        const token = findTokenByAddress(drop.info.tokenAddress);
+        symbols[drop.id] = token?.symbol ?? 'Token';
+        decimals[drop.id] = token?.decimals ?? 18;
       }
 
       // Update state
@@ -281,7 +232,7 @@ export function useOptimizedStraptDrop() {
 
       // Simulate the refund transaction
       const { request: refundRequest } = await simulateContract(config, {
-        address: STRAPT_DROP_ADDRESS,
+        address: getStraptDropAddress(),
         abi: StraptDropABI.abi,
         functionName: 'refundExpiredDrop',
         args: [dropId as `0x${string}`],
@@ -301,7 +252,7 @@ export function useOptimizedStraptDrop() {
         description: `Transaction: ${refundHash}`,
         action: {
           label: 'View on Explorer',
-          onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${refundHash}`, '_blank')
+          onClick: () => window.open(getExplorerTxUrl(getChainId(config), refundHash), '_blank')
         }
       });
       return refundReceipt;
@@ -1,22 +1,147 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { useAccount, useBalance } from 'wagmi';
-import { formatUnits, parseUnits } from 'viem';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { useAccount, useChainId, useReadContracts } from 'wagmi';
+import { formatUnits, parseUnits, parseAbi, parseSignature, domainSeparator, zeroAddress, erc20Abi, type TypedDataDomain } from 'viem';
 import { toast } from 'sonner';
 import { TokenOption } from '@/components/TokenSelect';
-import USDCABI from '@/contracts/USDCMock.json';
-import IDRXABI from '@/contracts/IDRX.json';
-import contractConfig from '@/contracts/contract-config.json';
-import { readContract, writeContract } from 'wagmi/actions';
+import { readContract, writeContract, signTypedData, getAccount, getChainId } from 'wagmi/actions';
 import { config } from '@/providers/XellarProvider';
+import { getToken } from '@/services/TokenRegistryService';
+import { findDeploymentByAddress, isCurrentDeployment } from '@/services/ContractRegistryService';
+import { trackTransaction, waitForTransaction } from '@/services/TransactionOutboxService';
+import { useDataRefresh } from '@/services/DataSubscriptionService';
+import { useTokenRegistry } from './use-token-registry';
+import type { TokenType } from '@/types/tokens';
+import { getSupportedChain } from '@/lib/chains';
 
-// Export token addresses and decimals as constants
-export const USDC_ADDRESS = USDCABI.address as `0x${string}`;
-export const IDRX_ADDRESS = IDRXABI.address as `0x${string}`;
-export const USDC_DECIMALS = 6;
-export const IDRX_DECIMALS = 2;
+export type { TokenType };
 
-// Token type definition
-export type TokenType = 'USDC' | 'IDRX';
+// How long a signed permit stays valid
+export const PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+/**
+ * EIP-2612 permit signature, matching the contracts' PermitSignature struct
+ */
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: `0x${string}`;
+  s: `0x${string}`;
+}
+
+// Only the permit-related parts of the token ABI; the bundled token ABIs don't include them
+const ERC20_PERMIT_ABI = parseAbi([
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+]);
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// Permit domain per chain and token; null when the token doesn't support permit
+const permitDomainCache = new Map<string, TypedDataDomain | null>();
+
+/**
+ * Detect EIP-2612 support and work out the token's EIP-712 domain
+ * The domain is only trusted if it hashes to the token's DOMAIN_SEPARATOR,
+ * so a token we can't sign for correctly is treated as not supporting permit
+ * @param tokenAddress The token address
+ * @returns Promise with the permit domain, or null if permit isn't supported
+ */
+export const getPermitDomain = async (tokenAddress: `0x${string}`): Promise<TypedDataDomain | null> => {
+  const chainId = getAccount(config).chainId ?? config.chains[0].id;
+  const cacheKey = `${chainId}:${tokenAddress.toLowerCase()}`;
+  if (permitDomainCache.has(cacheKey)) {
+    return permitDomainCache.get(cacheKey) ?? null;
+  }
+
+  const read = (functionName: 'name' | 'version' | 'DOMAIN_SEPARATOR') =>
+    readContract(config, { abi: ERC20_PERMIT_ABI, address: tokenAddress, functionName });
+
+  let domain: TypedDataDomain | null = null;
+  try {
+    const [separator] = await Promise.all([
+      read('DOMAIN_SEPARATOR') as Promise<`0x${string}`>,
+      readContract(config, { abi: ERC20_PERMIT_ABI, address: tokenAddress, functionName: 'nonces', args: [zeroAddress] }),
+    ]);
+
+    // Prefer the ERC-5267 domain, then fall back to name() with version() or "1"
+    let candidate: TypedDataDomain;
+    try {
+      const [, name, version, domainChainId, verifyingContract] = await readContract(config, {
+        abi: ERC20_PERMIT_ABI,
+        address: tokenAddress,
+        functionName: 'eip712Domain',
+      });
+      candidate = { name, version, chainId: Number(domainChainId), verifyingContract };
+    } catch (e) {
+      const name = await read('name') as string;
+      const version = await (read('version') as Promise<string>).catch(() => '1');
+      candidate = { name, version, chainId, verifyingContract: tokenAddress };
+    }
+
+    if (domainSeparator({ domain: candidate }) === separator) {
+      domain = candidate;
+    } else {
+      console.warn('Permit domain mismatch, falling back to approve for', tokenAddress);
+    }
+  } catch (error) {
+    // No nonces/DOMAIN_SEPARATOR: a plain ERC20
+  }
+
+  permitDomainCache.set(cacheKey, domain);
+  return domain;
+};
+
+/**
+ * Ask the wallet to sign an EIP-2612 permit
+ * @param tokenAddress The token address
+ * @param owner The token owner (the connected wallet)
+ * @param spender The contract allowed to spend the tokens
+ * @param value The amount in raw token units
+ * @returns Promise with the permit signature, or null if the token or spender doesn't support permit
+ */
+export const signTokenPermit = async (
+  tokenAddress: `0x${string}`,
+  owner: `0x${string}`,
+  spender: `0x${string}`,
+  value: bigint
+): Promise<PermitSignature | null> => {
+  // Older deployments have no *WithPermit functions, so they get a regular approval
+  const spenderDeployment = findDeploymentByAddress(spender);
+  if (spenderDeployment && !isCurrentDeployment(spenderDeployment)) return null;
+
+  const domain = await getPermitDomain(tokenAddress);
+  if (!domain) return null;
+
+  const nonce = await readContract(config, {
+    abi: ERC20_PERMIT_ABI,
+    address: tokenAddress,
+    functionName: 'nonces',
+    args: [owner],
+  });
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+
+  const signature = await signTypedData(config, {
+    account: owner,
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: { owner, spender, value, nonce, deadline },
+  });
+
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { deadline, v: v !== undefined ? Number(v) : yParity + 27, r, s };
+};
 
 /**
  * Hook for token-related utilities
@@ -24,38 +149,26 @@ export type TokenType = 'USDC' | 'IDRX';
  */
 export function useTokenUtils() {
   const { address } = useAccount();
+  const chainId = useChainId();
+
   // Get token address from token type
   const getTokenAddress = (tokenType: TokenType): `0x${string}` => {
-    switch (tokenType) {
-      case 'USDC':
-        return USDC_ADDRESS;
-      case 'IDRX':
-        return IDRX_ADDRESS;
-      default:
-        throw new Error(`Unsupported token type: ${tokenType}`);
-    }
+    return getToken(tokenType, chainId).address;
   };
 
   // Get token decimals from token type
   const getTokenDecimals = (tokenType: TokenType): number => {
-    switch (tokenType) {
-      case 'USDC':
-        return USDC_DECIMALS;
-      case 'IDRX':
-        return IDRX_DECIMALS;
-      default:
-        throw new Error(`Unsupported token type: ${tokenType}`);
-    }
+    return getToken(tokenType, chainId).decimals;
   };
 
   // Get token symbol from token type
   const getTokenSymbol = (tokenType: TokenType): string => {
-    return tokenType;
+    return getToken(tokenType, chainId).symbol;
   };
 
-  // Get token ABI from token type
-  const getTokenABI = (tokenType: TokenType) => {
-    return tokenType === 'USDC' ? USDCABI.abi : IDRXABI.abi;
+  // Every registry token is a plain ERC20
+  const getTokenABI = (_tokenType?: TokenType) => {
+    return erc20Abi;
   };
 
   // Parse amount with correct decimals
@@ -93,7 +206,7 @@ export function useTokenUtils() {
 
   // Get token type from token symbol
   const getTokenTypeFromSymbol = (symbol: string): TokenType => {
-    return symbol === 'USDC' ? 'USDC' : 'IDRX';
+    return getToken(symbol, chainId).symbol;
   };
 
   /**
@@ -124,7 +237,7 @@ export function useTokenUtils() {
         args: [ownerAddress as `0x${string}`, spenderAddress],
       });
 
-      const allowanceBigInt = BigInt(allowance as string || '0');
+      const allowanceBigInt = (allowance as bigint | undefined) ?? 0n;
 
       console.log('Token allowance check:', {
         token: tokenType,
@@ -171,14 +284,12 @@ export function useTokenUtils() {
         args: [spenderAddress, parsedAmount],
         address: tokenAddress,
         account: address,
-        chain: config.chains[0], // Use the first chain in the config
+        chain: getSupportedChain(getChainId(config)), // Use the connected chain
       });
+      trackTransaction({ hash, type: 'approve', description: `Approve ${tokenType}`, amount, tokenSymbol: tokenType });
 
       // Wait for transaction to be confirmed
-      const { waitForTransactionReceipt } = await import('wagmi/actions');
-      const receipt = await waitForTransactionReceipt(config, {
-        hash
-      });
+      const receipt = await waitForTransaction(hash);
 
       if (receipt.status === 'success') {
         toast.success("Token approval successful");
@@ -194,6 +305,34 @@ export function useTokenUtils() {
     }
   };
 
+  /**
+   * Check whether a token supports EIP-2612 permit
+   * @param tokenType Token type
+   * @returns Promise with true if a permit can be signed instead of an approval
+   */
+  const supportsPermit = async (tokenType: TokenType): Promise<boolean> => {
+    return (await getPermitDomain(getTokenAddress(tokenType))) !== null;
+  };
+
+  /**
+   * Sign a permit for spender instead of sending an approve transaction
+   * @param tokenType Token type
+   * @param amount Amount as string
+   * @param spenderAddress Spender address
+   * @returns Promise with the permit signature, or null if the token doesn't support permit
+   */
+  const signPermit = async (
+    tokenType: TokenType,
+    amount: string,
+    spenderAddress: `0x${string}`
+  ): Promise<PermitSignature | null> => {
+    if (!address) {
+      throw new Error("No wallet connected");
+    }
+
+    return signTokenPermit(getTokenAddress(tokenType), address, spenderAddress, parseTokenAmount(amount, tokenType));
+  };
+
   return {
     getTokenAddress,
     getTokenDecimals,
@@ -205,10 +344,8 @@ export function useTokenUtils() {
     getTokenTypeFromSymbol,
     checkAllowance,
     approveToken,
-    USDC_ADDRESS,
-    IDRX_ADDRESS,
-    USDC_DECIMALS,
-    IDRX_DECIMALS,
+    supportsPermit,
+    signPermit,
   };
 }
 
@@ -218,101 +355,79 @@ export function useTokenUtils() {
  */
 export function useTokenBalances() {
   const { address, isConnected } = useAccount();
-  const [tokens, setTokens] = useState<TokenOption[]>([
-    { symbol: 'IDRX', name: 'IDRX Token', balance: 0, icon: '/IDRX BLUE COIN.svg' },
-    { symbol: 'USDC', name: 'USD Coin', balance: 0, icon: '/usd-coin-usdc-logo.svg' },
-  ]);
+  const registryTokens = useTokenRegistry();
+  const [tokens, setTokens] = useState<TokenOption[]>(() => registryTokens.map((token) => ({
+    symbol: token.symbol,
+    name: token.name,
+    icon: token.icon,
+    color: token.color,
+    balance: 0,
+  })));
   const [isLoading, setIsLoading] = useState(true);
 
   // Cache the last known balances to prevent UI flicker during refreshes
-  const lastKnownBalances = useRef<{
-    idrx: number | null;
-    usdc: number | null;
-  }>({
-    idrx: null,
-    usdc: null
-  });
-
-  // Get USDC balance with optimized polling interval
-  const { data: usdcBalance, isLoading: isLoadingUsdc } = useBalance({
-    address: address,
-    token: USDC_ADDRESS,
+  const lastKnownBalances = useRef<Record<string, bigint>>({});
+
+  // Get every registry token balance, refetched when a new block moves the wallet's tokens
+  const { data, isLoading: isLoadingBalances, refetch } = useReadContracts({
+    contracts: registryTokens.map((token) => ({
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'balanceOf' as const,
+      args: [address as `0x${string}`] as const,
+      chainId: token.chainId,
+    })),
     query: {
-      enabled: isConnected,
+      enabled: isConnected && !!address,
       staleTime: 30000, // Consider data fresh for 30 seconds
-      refetchInterval: 60000, // Refetch every 60 seconds
       refetchOnWindowFocus: true, // Refetch when window regains focus
     },
   });
 
-  // Get IDRX balance with optimized polling interval
-  const { data: idrxBalance, isLoading: isLoadingIdrx } = useBalance({
-    address: address,
-    token: IDRX_ADDRESS,
-    query: {
-      enabled: isConnected,
-      staleTime: 30000, // Consider data fresh for 30 seconds
-      refetchInterval: 60000, // Refetch every 60 seconds
-      refetchOnWindowFocus: true, // Refetch when window regains focus
-    },
+  useDataRefresh('tokens', () => {
+    if (isConnected && address) refetch({ cancelRefetch: false });
   });
 
-  // Memoize the token data to prevent unnecessary re-renders
-  const memoizedTokens = useMemo(() => {
-    if (!isConnected) {
-      return [
-        { symbol: 'IDRX', name: 'IDRX Token', balance: 0, icon: '/IDRX BLUE COIN.svg' },
-        { symbol: 'USDC', name: 'USD Coin', balance: 0, icon: '/usd-coin-usdc-logo.svg' },
-      ];
-    }
-
-    // Parse balances
-    const idrxValue = idrxBalance?.value
-      ? Number.parseFloat(formatUnits(idrxBalance.value, IDRX_DECIMALS))
-      : lastKnownBalances.current.idrx || 0;
-
-    const usdcValue = usdcBalance?.value
-      ? Number.parseFloat(formatUnits(usdcBalance.value, USDC_DECIMALS))
-      : lastKnownBalances.current.usdc || 0;
-
-    // Update last known balances
-    if (idrxBalance?.value) {
-      lastKnownBalances.current.idrx = idrxValue;
-    }
-
-    if (usdcBalance?.value) {
-      lastKnownBalances.current.usdc = usdcValue;
-    }
+  // Raw balances keyed by symbol, falling back to the last known value
+  const balances = useMemo(() => {
+    const result: Record<string, { symbol: string; value: bigint; decimals: number }> = {};
+    registryTokens.forEach((token, index) => {
+      const fetched = data?.[index]?.result;
+      if (typeof fetched === 'bigint') {
+        lastKnownBalances.current[token.symbol] = fetched;
+      }
+      const value = lastKnownBalances.current[token.symbol];
+      if (value !== undefined) {
+        result[token.symbol] = { symbol: token.symbol, value, decimals: token.decimals };
+      }
+    });
+    return result;
+  }, [registryTokens, data]);
 
-    return [
-      {
-        symbol: 'IDRX',
-        name: 'IDRX Token',
-        balance: idrxValue,
-        icon: '/IDRX BLUE COIN.svg'
-      },
-      {
-        symbol: 'USDC',
-        name: 'USD Coin',
-        balance: usdcValue,
-        icon: '/usd-coin-usdc-logo.svg'
-      },
-    ];
-  }, [isConnected, idrxBalance?.value, usdcBalance?.value]);
+  // Memoize the token data to prevent unnecessary re-renders
+  const memoizedTokens = useMemo(() => registryTokens.map((token) => ({
+    symbol: token.symbol,
+    name: token.name,
+    icon: token.icon,
+    color: token.color,
+    balance: isConnected && balances[token.symbol]
+      ? Number.parseFloat(formatUnits(balances[token.symbol].value, token.decimals))
+      : 0,
+  })), [registryTokens, balances, isConnected]);
 
   // Update tokens when balances change
   useEffect(() => {
-    setIsLoading(isLoadingUsdc || isLoadingIdrx);
+    const loading = isConnected && isLoadingBalances;
+    setIsLoading(loading);
 
-    if (!isLoadingUsdc && !isLoadingIdrx) {
+    if (!loading) {
       setTokens(memoizedTokens);
     }
-  }, [isLoadingUsdc, isLoadingIdrx, memoizedTokens]);
+  }, [isConnected, isLoadingBalances, memoizedTokens]);
 
   return {
     tokens,
     isLoading,
-    usdcBalance,
-    idrxBalance,
+    balances,
   };
 }
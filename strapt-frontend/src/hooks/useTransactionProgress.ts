@@ -1,5 +1,8 @@
 import { useState, useCallback } from 'react';
 import { useWaitForTransactionReceipt } from 'wagmi';
+import { getChainId } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import { getExplorerTxUrl } from '@/lib/chains';
 import { toast } from 'sonner';
 
 export type TransactionStatus = 'idle' | 'preparing' | 'simulating' | 'confirming' | 'confirmed' | 'failed';
@@ -64,7 +67,7 @@ export function useTransactionProgress() {
       description: hash ? `Transaction: ${hash}` : undefined,
       action: hash ? {
         label: 'View on Explorer',
-        onClick: () => window.open(`https://sepolia-blockscout.lisk.com/tx/${hash}`, '_blank')
+        onClick: () => window.open(getExplorerTxUrl(getChainId(config), hash), '_blank')
       } : undefined
     });
   }, []);
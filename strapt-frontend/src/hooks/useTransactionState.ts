@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
-import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useTransactionOutbox } from '@/services/TransactionOutboxService';
 
 /**
  * Hook for managing transaction states
@@ -7,13 +8,18 @@ import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
  */
 export function useTransactionState() {
   // Common transaction states
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, setLoading] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [isApproved, setIsApproved] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [isClaiming, setIsClaiming] = useState(false);
   const [isRefunding, setIsRefunding] = useState(false);
   const [currentId, setCurrentId] = useState<string | null>(null);
+
+  // When the current action started, to pick its transactions out of the outbox
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const { address } = useAccount();
+  const { pending } = useTransactionOutbox(address);
   
   // Transaction queue management
   const transactionQueue = useRef<Array<() => Promise<void>>>([]);
@@ -26,6 +32,17 @@ export function useTransactionState() {
   const { isLoading: isConfirming, isSuccess: isConfirmed } =
     useWaitForTransactionReceipt({ hash });
 
+  const setIsLoading = useCallback((value: boolean) => {
+    setLoading(value);
+    if (value) setStartedAt(Date.now());
+  }, []);
+
+  // The newest transaction the latest action sent that is still waiting to be mined
+  // Taken from the outbox, so it stays available for as long as the transaction is pending
+  const pendingTransaction = startedAt !== null
+    ? pending.find((transaction) => transaction.submittedAt >= startedAt) ?? null
+    : null;
+
   // Process next transaction in queue
   const processNextTransaction = useCallback(async () => {
     if (isProcessing.current || transactionQueue.current.length === 0) {
@@ -55,7 +72,8 @@ export function useTransactionState() {
 
   // Reset all states
   const resetStates = useCallback(() => {
-    setIsLoading(false);
+    setLoading(false);
+    setStartedAt(null);
     setIsApproving(false);
     setIsApproved(false);
     setIsCreating(false);
@@ -92,8 +110,11 @@ export function useTransactionState() {
     writeContract,
     isPending,
     hash,
-    isConfirming,
+    isConfirming: isConfirming || pendingTransaction !== null,
     isConfirmed,
+
+    // Outbox entry of the transaction the current action is waiting on
+    pendingTransaction,
     
     // Utility functions
     resetStates,
@@ -101,6 +122,6 @@ export function useTransactionState() {
     queueTransaction,
     
     // Computed states
-    isProcessing: isLoading || isPending || isConfirming || isApproving || isCreating || isClaiming || isRefunding || isProcessing.current,
+    isProcessing: isLoading || isPending || isConfirming || pendingTransaction !== null || isApproving || isCreating || isClaiming || isRefunding || isProcessing.current,
   };
 }
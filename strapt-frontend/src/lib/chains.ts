@@ -1,29 +1,47 @@
-import { defineChain } from 'viem';
+import type { Chain } from 'viem';
+import { liskSepolia, baseSepolia, hardhat } from 'viem/chains';
 
-// Define the SEI Testnet chain
-export const seiTestnet = defineChain({
-  id: 1328,  // SEI Testnet chain ID
-  name: 'SEI Testnet',
-  network: 'sei-testnet',
-  nativeCurrency: {
-    decimals: 6,
-    name: 'SEI',
-    symbol: 'SEI',
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://evm-rpc-testnet.sei-apis.com/'],
-    },
-    public: {
-      http: ['https://evm-rpc-testnet.sei-apis.com/'],
-    },
-  },
-  blockExplorers: {
-    default: { 
-      name: 'SEI Explorer', 
-      url: 'https://www.seiscan.app/pacific-1' 
-    },
-  },
-});
+// Local Hardhat node (`npx hardhat node`), offered in development builds only;
+// `npx hardhat deploy-local --network localhost` fills in its contracts and tokens
+export const LOCAL_CHAIN: Chain = { ...hardhat, name: 'Localhost' };
 
-export const defaultSeiChain = seiTestnet;
\ No newline at end of file
+// Networks the app can connect to, in selector order
+export const SUPPORTED_CHAINS: [Chain, ...Chain[]] = import.meta.env.DEV
+  ? [liskSepolia, baseSepolia, LOCAL_CHAIN]
+  : [liskSepolia, baseSepolia];
+
+// Network used before a wallet picks one
+export const DEFAULT_CHAIN = liskSepolia;
+
+/**
+ * Look up a supported network
+ * @param chainId The chain ID
+ * @returns The chain, or undefined if the app doesn't support it
+ */
+export const getSupportedChain = (chainId: number): Chain | undefined => {
+  return SUPPORTED_CHAINS.find((chain) => chain.id === chainId);
+};
+
+/**
+ * Get the JSON-RPC endpoint for a supported network
+ * @param chainId The chain ID
+ * @returns The chain's default RPC URL
+ */
+export const getChainRpcUrl = (chainId: number): string => {
+  const chain = getSupportedChain(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported network: ${chainId}`);
+  }
+  return chain.rpcUrls.default.http[0];
+};
+
+/**
+ * Link to a transaction on a network's block explorer
+ * @param chainId The chain ID
+ * @param hash The transaction hash
+ * @returns The explorer URL, on the default network's explorer if the chain has none
+ */
+export const getExplorerTxUrl = (chainId: number, hash: string): string => {
+  const explorer = getSupportedChain(chainId)?.blockExplorers?.default ?? DEFAULT_CHAIN.blockExplorers.default;
+  return `${explorer.url}/tx/${hash}`;
+};
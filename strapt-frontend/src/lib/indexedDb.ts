@@ -0,0 +1,111 @@
+/**
+ * Minimal promise wrapper around IndexedDB
+ * Used by services that need to persist more data than fits comfortably in localStorage
+ */
+
+export interface StoreDefinition {
+  name: string;
+  keyPath: string;
+  indexes?: Array<{ name: string; keyPath: string }>;
+}
+
+// Open database connections, keyed by database name
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Wrap an IDBRequest in a promise
+ * @param request The IndexedDB request
+ * @returns Promise resolving with the request result
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Open (or create) a database with the given object stores
+ * @param dbName The database name
+ * @param version The schema version, bump it when stores change
+ * @param stores The object stores to create on upgrade
+ * @returns Promise with the database connection
+ */
+export const openDatabase = (
+  dbName: string,
+  version: number,
+  stores: StoreDefinition[]
+): Promise<IDBDatabase> => {
+  const existing = connections.get(dbName);
+  if (existing) return existing;
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(dbName, version);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of stores) {
+        if (db.objectStoreNames.contains(store.name)) continue;
+        const objectStore = db.createObjectStore(store.name, { keyPath: store.keyPath });
+        for (const index of store.indexes || []) {
+          objectStore.createIndex(index.name, index.keyPath);
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Drop the cached connection if opening failed so a later call can retry
+  connection.catch(() => connections.delete(dbName));
+  connections.set(dbName, connection);
+
+  return connection;
+};
+
+/**
+ * Read a single record by key
+ */
+export const getRecord = async <T>(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return promisifyRequest(store.get(key) as IDBRequest<T | undefined>);
+};
+
+/**
+ * Read all records from a store, optionally filtered by an index value
+ */
+export const getAllRecords = async <T>(
+  db: IDBDatabase,
+  storeName: string,
+  indexName?: string,
+  query?: IDBValidKey
+): Promise<T[]> => {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const source = indexName ? store.index(indexName) : store;
+  return promisifyRequest(source.getAll(query) as IDBRequest<T[]>);
+};
+
+/**
+ * Write several records in a single transaction
+ */
+export const putRecords = async <T>(db: IDBDatabase, storeName: string, records: T[]): Promise<void> => {
+  if (records.length === 0) return;
+
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  for (const record of records) {
+    store.put(record);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { ArrowLeft, RefreshCw, ShieldCheck, ShieldAlert, Ban, Gauge } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { formatUnits } from 'viem';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useTokenApprovals, getAllowanceKey } from '@/hooks/use-token-approvals';
+import type { AllowanceRisk, TokenAllowance } from '@/services/ApprovalService';
+import type { ContractName } from '@/services/ContractRegistryService';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const CONTRACT_LABELS: Partial<Record<ContractName, string>> = {
+  ProtectedTransferV2: 'Protected Transfers',
+  ProtectedTransfer: 'Protected Transfers (legacy)',
+  ProtectedEscrow: 'Escrow',
+  PaymentStream: 'Payment Streams',
+  StraptDrop: 'STRAPT Drop',
+};
+
+const RISK_LABELS: Record<Exclude<AllowanceRisk, 'none'>, { label: string; description: string; className: string }> = {
+  unlimited: {
+    label: 'Unlimited',
+    description: 'Can spend all of this token, including future deposits',
+    className: 'bg-red-500/10 text-red-600',
+  },
+  balance: {
+    label: 'Full balance',
+    description: 'Can spend your entire current balance',
+    className: 'bg-yellow-500/10 text-yellow-600',
+  },
+  limited: {
+    label: 'Limited',
+    description: 'Can spend part of your balance',
+    className: 'bg-green-500/10 text-green-600',
+  },
+};
+
+const Approvals = () => {
+  const navigate = useNavigate();
+  const {
+    allowances,
+    isLoading,
+    pendingKey,
+    refresh,
+    revoke,
+    cap,
+    approvalMode,
+    setApprovalMode,
+  } = useTokenApprovals();
+
+  const [capTarget, setCapTarget] = useState<TokenAllowance | null>(null);
+  const [capAmount, setCapAmount] = useState('');
+
+  const activeAllowances = allowances.filter((item) => item.risk !== 'none');
+
+  const openCapDialog = (item: TokenAllowance) => {
+    setCapTarget(item);
+    setCapAmount('');
+  };
+
+  const handleCap = async () => {
+    if (!capTarget) return;
+    if (await cap(capTarget, capAmount)) {
+      setCapTarget(null);
+    }
+  };
+
+  const formatAllowance = (item: TokenAllowance) =>
+    item.risk === 'unlimited'
+      ? 'Unlimited'
+      : `${Number(formatUnits(item.allowance, item.token.decimals)).toLocaleString()} ${item.token.symbol}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate(-1)}
+          className="mr-4 p-0 h-auto"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-xl font-semibold">Token Approvals</h1>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="exact-approvals">Exact-amount approvals</Label>
+              <p className="text-xs text-muted-foreground">
+                {approvalMode === 'exact'
+                  ? 'Transfers and streams approve only what they send, so nothing is left behind'
+                  : 'Transfers and streams approve unlimited amounts so later payments skip the approval step'}
+              </p>
+            </div>
+            <Switch
+              id="exact-approvals"
+              checked={approvalMode === 'exact'}
+              onCheckedChange={(checked) => setApprovalMode(checked ? 'exact' : 'unlimited')}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-primary" />
+            Active Approvals
+          </CardTitle>
+          <CardDescription>STRAPT contracts allowed to move your tokens on this network</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && allowances.length === 0 ? (
+            <div className="space-y-4">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <div key={`skeleton-approval-${index}`} className="bg-secondary/30 rounded-lg p-4 animate-pulse">
+                  <Skeleton className="h-4 w-32 mb-2" />
+                  <Skeleton className="h-3 w-48 mb-2" />
+                  <Skeleton className="h-8 w-40 mt-2" />
+                </div>
+              ))}
+            </div>
+          ) : activeAllowances.length === 0 ? (
+            <div className="text-center py-8">
+              <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No active approvals</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                No STRAPT contract can move your tokens right now
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {activeAllowances.map((item) => {
+                const risk = RISK_LABELS[item.risk as Exclude<AllowanceRisk, 'none'>];
+                const isPending = pendingKey === getAllowanceKey(item);
+                return (
+                  <div key={getAllowanceKey(item)} className="bg-secondary/30 rounded-lg p-4 space-y-3">
+                    <div className="flex justify-between items-start gap-2">
+                      <div className="min-w-0">
+                        <h3 className="font-medium">{item.token.symbol} · {CONTRACT_LABELS[item.contract] ?? item.contract}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          Spender {shortenAddress(item.spender)} · allowance {formatAllowance(item)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{risk.description}</p>
+                      </div>
+                      <Badge variant="outline" className={cn('shrink-0', risk.className)}>
+                        {item.risk !== 'limited' && <ShieldAlert className="h-3 w-3 mr-1" />}
+                        {risk.label}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="destructive" disabled={!!pendingKey} onClick={() => revoke(item)}>
+                        <Ban className="h-4 w-4 mr-1" /> {isPending ? 'Updating...' : 'Revoke'}
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={!!pendingKey} onClick={() => openCapDialog(item)}>
+                        <Gauge className="h-4 w-4 mr-1" /> Cap
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Cap Dialog */}
+      <Dialog open={!!capTarget} onOpenChange={(open) => !open && setCapTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cap Approval</DialogTitle>
+            {capTarget && (
+              <DialogDescription>
+                Limit how much {capTarget.token.symbol} {CONTRACT_LABELS[capTarget.contract] ?? capTarget.contract} can move.
+                Currently {formatAllowance(capTarget)}.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cap-amount">New allowance</Label>
+            <Input
+              id="cap-amount"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="0.00"
+              value={capAmount}
+              onChange={(e) => setCapAmount(e.target.value)}
+            />
+            {capTarget && (
+              <p className="text-xs text-muted-foreground">
+                Balance: {Number(formatUnits(capTarget.balance, capTarget.token.decimals)).toLocaleString()} {capTarget.token.symbol}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCapTarget(null)}>Cancel</Button>
+            <Button onClick={handleCap} disabled={!!pendingKey || !capAmount || Number(capAmount) < 0}>
+              {pendingKey ? 'Updating...' : 'Set Allowance'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Approvals;
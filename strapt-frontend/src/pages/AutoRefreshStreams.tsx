@@ -11,7 +11,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { usePaymentStream, StreamStatus } from '@/hooks/use-payment-stream';
+import { usePaymentStream, StreamStatus, type TokenType } from '@/hooks/use-payment-stream';
 import { useXellarWallet } from '@/hooks/use-xellar-wallet';
 import InfoTooltip from '@/components/InfoTooltip';
 import EnhancedStreamCard from '@/components/streams/EnhancedStreamCard';
@@ -150,7 +150,7 @@ const AutoRefreshStreams = () => {
   // Handle stream creation
   const handleCreateStream = async (data: {
     recipient: string;
-    tokenType: 'USDC' | 'IDRX';
+    tokenType: TokenType;
     amount: string;
     durationInSeconds: number;
     milestonePercentages: number[];
@@ -0,0 +1,193 @@
+import { useState, type ChangeEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Upload, Send, RotateCcw, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loading } from '@/components/ui/loading';
+import InfoTooltip from '@/components/InfoTooltip';
+import { useBatchTransfer, BATCH_CHUNK_SIZE, type BatchRowStatus } from '@/hooks/use-batch-transfer';
+import { useTokenUtils, type TokenType } from '@/hooks/useTokenUtils';
+
+const CSV_EXAMPLE = `recipient,amount,token,expiry
+0x1234567890abcdef1234567890abcdef12345678,25,USDC,
+0xabcdefabcdefabcdefabcdefabcdefabcdefabcd,150000,IDRX,2025-07-01`;
+
+const STATUS_BADGES: Record<BatchRowStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning' }> = {
+  invalid: { label: 'Invalid', variant: 'destructive' },
+  ready: { label: 'Ready', variant: 'outline' },
+  sending: { label: 'Sending', variant: 'warning' },
+  pending: { label: 'Confirming', variant: 'warning' },
+  sent: { label: 'Sent', variant: 'success' },
+  failed: { label: 'Failed', variant: 'destructive' },
+};
+
+const BatchTransfer = () => {
+  const navigate = useNavigate();
+  const [csvText, setCsvText] = useState('');
+  const { formatTokenAmount } = useTokenUtils();
+  const {
+    rows,
+    totals,
+    balanceErrors,
+    pendingCount,
+    sentCount,
+    unconfirmedCount,
+    invalidCount,
+    hasFailures,
+    isApproving,
+    isProcessing,
+    loadCsv,
+    sendBatch,
+    reset,
+  } = useBatchTransfer();
+
+  // Read an uploaded CSV file into the text area and parse it
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setCsvText(text);
+    loadCsv(text);
+    e.target.value = '';
+  };
+
+  const handleReset = () => {
+    setCsvText('');
+    reset();
+  };
+
+  const shortAddress = (value: string) => (value.length > 12 ? `${value.slice(0, 6)}...${value.slice(-4)}` : value);
+
+  return (
+    <div className="space-y-6 max-w-3xl mx-auto">
+      <div className="flex items-center mb-4">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/app/transfer')} className="mr-4 p-0 h-auto">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-xl font-semibold">Batch Transfer</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Upload recipients
+            <InfoTooltip content={`Columns: recipient, amount, token (USDC or IDRX), expiry (optional date or unix timestamp, defaults to 24 hours). Transfers are sent ${BATCH_CHUNK_SIZE} per transaction.`} />
+          </CardTitle>
+          <CardDescription>Upload a CSV file or paste its contents below</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Button variant="outline" asChild disabled={isProcessing}>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Choose CSV
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+              </label>
+            </Button>
+            <Button variant="outline" onClick={() => loadCsv(csvText)} disabled={!csvText.trim() || isProcessing}>
+              Validate
+            </Button>
+            {rows.length > 0 && (
+              <Button variant="ghost" onClick={handleReset} disabled={isProcessing}>
+                Clear
+              </Button>
+            )}
+          </div>
+          <Textarea
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder={CSV_EXAMPLE}
+            rows={6}
+            className="font-mono text-xs"
+            disabled={isProcessing}
+          />
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Review</CardTitle>
+            <CardDescription>
+              {rows.length} rows · {sentCount} sent · {unconfirmedCount > 0 && `${unconfirmedCount} confirming · `}{pendingCount} pending · {invalidCount} invalid
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {Object.keys(totals).length > 0 && (
+              <div className="flex flex-wrap gap-4 text-sm">
+                {(Object.keys(totals) as TokenType[]).map(tokenType => (
+                  <div key={tokenType}>
+                    <span className="text-muted-foreground">Total {tokenType}: </span>
+                    <span className="font-medium">{formatTokenAmount(totals[tokenType], tokenType)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {balanceErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Insufficient balance</AlertTitle>
+                <AlertDescription>
+                  {balanceErrors.map(message => <div key={message}>{message}</div>)}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.line}>
+                    <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                    <TableCell className="font-mono text-xs" title={row.recipient}>{shortAddress(row.recipient)}</TableCell>
+                    <TableCell className="text-right">{row.amount} {row.token}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge>
+                      {row.error && <p className="text-xs text-destructive mt-1">{row.error}</p>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full"
+              onClick={sendBatch}
+              disabled={isProcessing || pendingCount === 0 || balanceErrors.length > 0}
+            >
+              {isProcessing ? (
+                <Loading size="sm" text={isApproving ? 'Approving...' : 'Sending...'} />
+              ) : hasFailures ? (
+                <>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Resume ({pendingCount} remaining)
+                </>
+              ) : (
+                <>
+                  <Send className="h-4 w-4 mr-2" />
+                  Approve & Send {pendingCount} transfers
+                </>
+              )}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BatchTransfer;
@@ -2,20 +2,23 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { ArrowLeft, Clock, ShieldCheck, Copy, QrCode, LockKeyhole, Loader2, Plus, PartyPopper, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import QRCode from '@/components/QRCode';
 import QRCodeScanner from '@/components/QRCodeScanner';
+import TransferNote from '@/components/transfer/TransferNote';
 import { useAccount } from 'wagmi';
-import { useProtectedTransferV2 } from '@/hooks/use-protected-transfer-v2';
+import { useProtectedTransferV2, type ClaimStep } from '@/hooks/use-protected-transfer-v2';
 import { useConfetti } from '@/hooks/use-confetti';
 import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
 import dayjs from 'dayjs';
+import { generateTransferClaimLink, parseTransferClaimLink } from '@/utils/qr-code-utils';
 
 interface TransferDetails {
   id: string;
@@ -31,6 +34,16 @@ interface TransferDetails {
   passwordProtected?: boolean; // For backward compatibility
 }
 
+// Progress messages for each step of a claim; link transfers are committed, then revealed
+const CLAIM_STEP_LABELS: Record<ClaimStep, string> = {
+  claiming: 'Claiming transfer...',
+  committing: 'Step 1 of 2: Committing claim...',
+  waiting: 'Step 1 of 2: Waiting for next block...',
+  revealing: 'Step 2 of 2: Revealing claim...',
+  signing: 'Sign the claim in your wallet...',
+  relaying: 'Relayer is submitting your claim...',
+};
+
 // Utility function to standardize claim code format
 const standardizeClaimCode = (code: string): string => {
   // Trim any whitespace and ensure we have a valid string
@@ -61,11 +74,15 @@ const Claims = () => {
   const [manualTransferId, setManualTransferId] = useState('');
   const [manualClaimCode, setManualClaimCode] = useState('');
   const [manualClaimError, setManualClaimError] = useState('');
-  const [searchParams] = useSearchParams();
   const [isProcessingUrl, setIsProcessingUrl] = useState(false);
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
   const [claimedAmount, setClaimedAmount] = useState('');
   const [claimedTokenSymbol, setClaimedTokenSymbol] = useState('');
+  const [claimStep, setClaimStep] = useState<ClaimStep | null>(null);
+  const [claimWithoutGas, setClaimWithoutGas] = useState(false);
+  // Note key from the claim link, and the transfer just claimed, for showing the sender's note
+  const [linkNoteKey, setLinkNoteKey] = useState<string | undefined>(undefined);
+  const [claimedNote, setClaimedNote] = useState<{ transferId: string; claimCode?: string } | null>(null);
 
   // Use ref to track processing state to prevent infinite loops
   const isProcessingRef = useRef(false);
@@ -73,11 +90,16 @@ const Claims = () => {
 
   // Get claim functions from useProtectedTransferV2
   const {
-    claimTransfer,
+    claimTransfer: claimTransferWithGas,
+    claimTransferGasless,
+    isGaslessClaimAvailable,
     isPasswordProtected,
     getTransferDetails,
   } = useProtectedTransferV2();
 
+  // Route claims through the relayer when the user chose to claim without gas
+  const claimTransfer = claimWithoutGas && isGaslessClaimAvailable ? claimTransferGasless : claimTransferWithGas;
+
   // Get confetti functions
   const { triggerClaimConfetti } = useConfetti();
 
@@ -120,8 +142,8 @@ const Claims = () => {
     return id.length > 16 ? `${id.slice(0, 8)}...${id.slice(-8)}` : id;
   };
 
-  // Handle claiming a link transfer (no password)
-  const handleClaimLinkTransfer = useCallback(async (transferId: string) => {
+  // Handle claiming a link transfer (no password); the claim code is the secret from the link
+  const handleClaimLinkTransfer = useCallback(async (transferId: string, claimCode: string = '') => {
     if (!address) {
       toast.error('Please connect your wallet to claim this transfer');
       return false;
@@ -167,11 +189,13 @@ const Claims = () => {
         return false;
       }
 
-      // If no password required, proceed with claim using empty password
+      // If no password required, proceed with claim using the link's secret
       toast.info('Claiming transfer without password...');
-      const success = await claimTransfer(transferId, '');
+      const success = await claimTransfer(transferId, claimCode, setClaimStep);
 
       if (success) {
+        setClaimedNote({ transferId });
+
         // Get transfer details to show in success animation
         try {
           const details = await getTransferDetails(transferId);
@@ -233,6 +257,7 @@ const Claims = () => {
       return false;
     } finally {
       setIsLoading(false);
+      setClaimStep(null);
     }
   }, [address, isLoading, isPasswordProtected, getTransferDetails, claimTransfer, triggerConfetti]);
 
@@ -321,7 +346,7 @@ const Claims = () => {
       } else {
         // For non-password-protected transfers, try to claim directly
         toast.info('Attempting to claim transfer without password...');
-        await handleClaimLinkTransfer(cleanTransferId);
+        await handleClaimLinkTransfer(cleanTransferId, cleanClaimCode);
       }
     } catch (error) {
       console.error('Error processing transfer ID:', error);
@@ -331,21 +356,26 @@ const Claims = () => {
     }
   }, [isPasswordProtected, getTransferDetails, handleClaimLinkTransfer]);
 
-  // Process URL parameters on component mount and when they change
+  // Process claim links (fragment or legacy query string) on mount and when they change
   useEffect(() => {
-    const id = searchParams.get('id');
-    const code = searchParams.get('code');
+    const claimLink = parseTransferClaimLink(`${location.pathname}${location.search}${location.hash}`);
+    const id = claimLink?.transferId;
+    const code = claimLink?.claimCode;
     const currentUrl = `${id}-${code}`;
 
     // Only process if we have an ID, user is connected, and we haven't processed this URL yet
     if (id && address && !isProcessingRef.current && processedUrlRef.current !== currentUrl) {
-      console.log(`Processing transfer ID from URL: ${id}, code present: ${!!code}`);
+      console.log(`Processing transfer ID from URL (link v${claimLink.version}): ${id}, code present: ${!!code}`);
       isProcessingRef.current = true;
       processedUrlRef.current = currentUrl;
       setIsProcessingUrl(true);
 
+      // Drop the ID and code from the address bar so they don't stay in browser history
+      navigate(location.pathname, { replace: true });
+
       // Standardize the claim code if present
       const standardizedCode = code ? standardizeClaimCode(code) : '';
+      setLinkNoteKey(claimLink.noteKey);
 
       // Process with a small delay to prevent race conditions
       setTimeout(() => {
@@ -355,7 +385,7 @@ const Claims = () => {
         });
       }, 100);
     }
-  }, [searchParams, address, processTransferId]);
+  }, [location.pathname, location.search, location.hash, address, navigate, processTransferId]);
 
   const formatTimeRemaining = (timestamp: number) => {
     const now = Math.floor(Date.now() / 1000);
@@ -404,8 +434,10 @@ const Claims = () => {
         console.log('Attempting to claim with password:', cleanPassword, 'length:', cleanPassword.length);
 
         try {
-          const success = await claimTransfer(transferId, cleanPassword);
+          const success = await claimTransfer(transferId, cleanPassword, setClaimStep);
           if (success) {
+            setClaimedNote({ transferId, claimCode: cleanPassword });
+
             // Get transfer details to show in success animation
             try {
               const details = await getTransferDetails(transferId);
@@ -463,10 +495,12 @@ const Claims = () => {
         }
       }
 
-      // If it doesn't require a password, use claimTransfer with empty password
+      // If it doesn't require a password, the code (if any) is the link's secret
       toast.info('This transfer does not require a password. Claiming directly...');
-      const success = await claimTransfer(transferId, '');
+      const success = await claimTransfer(transferId, standardizeClaimCode(password), setClaimStep);
       if (success) {
+        setClaimedNote({ transferId });
+
         // Get transfer details to show in success animation
         try {
           const details = await getTransferDetails(transferId);
@@ -504,6 +538,7 @@ const Claims = () => {
       return false;
     } finally {
       setIsValidating(false);
+      setClaimStep(null);
     }
   };
 
@@ -513,7 +548,7 @@ const Claims = () => {
   };
 
   const handleCopyLink = (transferId: string) => {
-    navigator.clipboard.writeText(`https://truststream.app/claim/${transferId}`);
+    navigator.clipboard.writeText(generateTransferClaimLink(transferId));
     toast.success("Link Copied", {
       description: "Transfer link copied to clipboard"
     });
@@ -540,8 +575,8 @@ const Claims = () => {
       // If no password required, use claimLinkTransfer instead
       setIsValidating(true);
       try {
-        // For transfers without password protection, we can claim directly with empty password
-        const success = await claimTransfer(manualTransferId, '');
+        // For transfers without password protection, the code (if any) is the link's secret
+        const success = await claimTransfer(manualTransferId, standardizeClaimCode(manualClaimCode), setClaimStep);
         if (success) {
           // Get transfer details to show in success animation
           try {
@@ -586,6 +621,7 @@ const Claims = () => {
         }
       } finally {
         setIsValidating(false);
+        setClaimStep(null);
       }
     }
   };
@@ -594,29 +630,13 @@ const Claims = () => {
     console.log("Scanned QR code in Claims page:", decodedText);
 
     try {
-      // Check if it's a URL
+      // Check if it's a claim link (versioned fragment or legacy query string)
       if (decodedText.startsWith('http')) {
-        const url = new URL(decodedText);
-
-        // Check if it's a claim URL with /claim/ path
-        if (url.pathname.includes('/claim/')) {
-          const claimId = url.pathname.split('/claim/')[1];
-          const params = new URLSearchParams(url.search);
-          const code = params.get('code');
+        const claimLink = parseTransferClaimLink(decodedText);
 
-          if (claimId) {
-            await processTransferId(claimId, code);
-            return;
-          }
-        }
-
-        // Check if URL contains transfer ID in query params
-        const params = new URLSearchParams(url.search);
-        const transferId = params.get('id') || params.get('transferId');
-        const claimCode = params.get('code') || params.get('claimCode');
-
-        if (transferId?.startsWith('0x')) {
-          await processTransferId(transferId, claimCode);
+        if (claimLink) {
+          setLinkNoteKey(claimLink.noteKey);
+          await processTransferId(claimLink.transferId, claimLink.claimCode);
           return;
         }
       }
@@ -695,6 +715,32 @@ const Claims = () => {
         </div>
       </div>
 
+      {isGaslessClaimAvailable && (
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <label htmlFor="claim-without-gas" className="text-sm font-medium">
+              Claim without gas
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Sign the claim and let the STRAPT relayer pay the network fee
+            </p>
+          </div>
+          <Switch
+            id="claim-without-gas"
+            checked={claimWithoutGas}
+            onCheckedChange={setClaimWithoutGas}
+            disabled={isLoading || isValidating}
+          />
+        </div>
+      )}
+
+      {claimStep && (
+        <p className="text-sm text-muted-foreground flex items-center">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          {CLAIM_STEP_LABELS[claimStep]}
+        </p>
+      )}
+
       {pendingClaims.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {pendingClaims.map((claim) => (
@@ -727,6 +773,7 @@ const Claims = () => {
                 <p className="text-xs text-muted-foreground">
                   Created: {dayjs.unix(claim.createdAt).format('MMM D, YYYY h:mm A')}
                 </p>
+                <TransferNote transferId={claim.id} className="mt-3" />
               </CardContent>
               <CardFooter className="flex flex-col space-y-2">
                 <Button
@@ -745,7 +792,7 @@ const Claims = () => {
                   {isLoading || isValidating ? (
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   ) : null}
-                  Claim Now
+                  {claimStep ? CLAIM_STEP_LABELS[claimStep] : 'Claim Now'}
                 </Button>
                 <div className="flex w-full gap-2">
                   <Button
@@ -809,7 +856,7 @@ const Claims = () => {
           {activeTransfer && (
             <div className="flex flex-col items-center space-y-2">
               <QRCode
-                value={`https://truststream.app/claim/${activeTransfer.id}${activeTransfer.passwordProtected ? `?code=${encodeURIComponent(claimCode || 'YOUR_CLAIM_CODE')}` : ''}`}
+                value={generateTransferClaimLink(activeTransfer.id, activeTransfer.passwordProtected ? claimCode || 'YOUR_CLAIM_CODE' : undefined)}
                 size={256}
               />
               <p className="text-sm text-muted-foreground">
@@ -840,6 +887,12 @@ const Claims = () => {
                 <p className="text-xs text-muted-foreground">
                   Expires in: {formatTimeRemaining(activeTransfer.expiry)}
                 </p>
+                <TransferNote
+                  transferId={activeTransfer.id}
+                  claimCode={activeTransfer.passwordProtected ? manualClaimCode : undefined}
+                  linkKey={linkNoteKey}
+                  lockedHint="Enter the claim code to read the sender's note"
+                />
                 {activeTransfer.passwordProtected && (
                   <div className="space-y-2">
                     <Label htmlFor="claim-code">Claim Code</Label>
@@ -869,7 +922,9 @@ const Claims = () => {
               {isValidating ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               ) : null}
-              {activeTransfer?.passwordProtected ? 'Claim with Code' : 'Confirm & Claim'}
+              {claimStep
+                ? CLAIM_STEP_LABELS[claimStep]
+                : activeTransfer?.passwordProtected ? 'Claim with Code' : 'Confirm & Claim'}
             </Button>
           </div>
         </DialogContent>
@@ -940,7 +995,7 @@ const Claims = () => {
                     // No direct claim here, let the password dialog handle it
                   } else {
                     // Not protected, claim directly
-                    const success = await handleClaimLinkTransfer(manualTransferId);
+                    const success = await handleClaimLinkTransfer(manualTransferId, manualClaimCode);
                     if (success) {
                       setShowManualClaimDialog(false);
                       setManualTransferId('');
@@ -997,25 +1052,13 @@ const Claims = () => {
                     if (text) {
                       // Try to parse as URL or ID
                       if (text.startsWith('http')) {
-                        try {
-                          const url = new URL(text);
-                          if (url.pathname.includes('/claim/')) {
-                            const claimId = url.pathname.split('/claim/')[1];
-                            const params = new URLSearchParams(url.search);
-                            const code = params.get('code');
-                            setManualTransferId(claimId);
-                            if (code) setManualClaimCode(code);
-                            toast.success("Pasted from clipboard!");
-                            return;
-                          }
-                          const params = new URLSearchParams(url.search);
-                          const transferId = params.get('id') || params.get('transferId');
-                          const claimCode = params.get('code') || params.get('claimCode');
-                          if (transferId) setManualTransferId(transferId);
-                          if (claimCode) setManualClaimCode(claimCode);
+                        const claimLink = parseTransferClaimLink(text);
+                        if (claimLink) {
+                          setManualTransferId(claimLink.transferId);
+                          if (claimLink.claimCode) setManualClaimCode(claimLink.claimCode);
                           toast.success("Pasted from clipboard!");
                           return;
-                        } catch (e) { /* ignore parsing error, treat as plain text */ }
+                        }
                       }
                       // Try to extract ID and code if it's a combined string
                       // Example: 0x123...abc?code=XYZ
@@ -1091,6 +1134,14 @@ const Claims = () => {
               >
                 You have successfully claimed {claimedAmount ? `${claimedAmount} ${claimedTokenSymbol}` : 'the transfer'}.
               </motion.p>
+              {claimedNote && (
+                <TransferNote
+                  transferId={claimedNote.transferId}
+                  claimCode={claimedNote.claimCode}
+                  linkKey={linkNoteKey}
+                  className="mb-6"
+                />
+              )}
               <motion.div
                 initial={{ y: 20, opacity: 0 }}
                 animate={{ y: 0, opacity: 1 }}
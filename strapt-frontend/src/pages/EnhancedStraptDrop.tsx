@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -19,6 +19,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import TokenSelect from '@/components/TokenSelect';
+import TransactionPreview from '@/components/TransactionPreview';
+import { useTransactionPreview } from '@/hooks/use-transaction-preview';
+import { getDropPreviewRequest } from '@/services/SimulationService';
 
 const EnhancedStraptDrop = () => {
   const navigate = useNavigate();
@@ -27,7 +30,7 @@ const EnhancedStraptDrop = () => {
   const { tokens } = useTokenBalances();
 
   // Form state
-  const [tokenType, setTokenType] = useState<TokenType>('IDRX');
+  const [tokenType, setTokenType] = useState<TokenType>(() => tokens[0]?.symbol ?? '');
   const [amount, setAmount] = useState('');
   const [recipients, setRecipients] = useState('10');
   const [isRandomDistribution, setIsRandomDistribution] = useState(false);
@@ -41,6 +44,23 @@ const EnhancedStraptDrop = () => {
   const [showSuccess, setShowSuccess] = useState(false);
   const [showQR, setShowQR] = useState(false);
   const [dropLink, setDropLink] = useState('');
+  const [showReview, setShowReview] = useState(false);
+
+  // Simulate the drop while it is under review, before the wallet prompt
+  const previewRequest = useMemo(
+    () => showReview && address
+      ? getDropPreviewRequest({
+          account: address as `0x${string}`,
+          tokenSymbol: tokenType,
+          amount,
+          recipients: Number(recipients),
+          isRandom: isRandomDistribution,
+          expiryHours,
+        })
+      : null,
+    [showReview, address, tokenType, amount, recipients, isRandomDistribution]
+  );
+  const { preview, isLoading: isPreviewLoading, error: previewError, refresh: refreshPreview } = useTransactionPreview(previewRequest);
 
   // Validation
   const [errors, setErrors] = useState<{
@@ -93,10 +113,14 @@ const EnhancedStraptDrop = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleCreateDrop = async () => {
-    if (!validateForm()) {
-      return;
+  const handleReviewDrop = () => {
+    if (validateForm()) {
+      setShowReview(true);
     }
+  };
+
+  const handleCreateDrop = async () => {
+    setShowReview(false);
 
     try {
       await createDrop(
@@ -173,24 +197,12 @@ const EnhancedStraptDrop = () => {
                 </div>
                 <TokenSelect
                   tokens={tokens.map(token => ({
-                    symbol: token.symbol,
+                    ...token,
                     name: token.name || token.symbol,
-                    balance: token.balance,
-                    icon: token.symbol === 'USDC'
-                      ? '/usd-coin-usdc-logo.svg'
-                      : token.symbol === 'IDRX'
-                        ? '/IDRX BLUE COIN.svg'
-                        : undefined
                   }))}
                   selectedToken={{
-                    symbol: selectedToken.symbol,
+                    ...selectedToken,
                     name: selectedToken.name || selectedToken.symbol,
-                    balance: selectedToken.balance,
-                    icon: selectedToken.symbol === 'USDC'
-                      ? '/usd-coin-usdc-logo.svg'
-                      : selectedToken.symbol === 'IDRX'
-                        ? '/IDRX BLUE COIN.svg'
-                        : undefined
                   }}
                   onTokenChange={(token) => setTokenType(token.symbol as TokenType)}
                   className="w-full"
@@ -297,7 +309,7 @@ const EnhancedStraptDrop = () => {
 
             <CardFooter className="flex justify-end pt-2 pb-6 px-6 border-t border-border">
               <Button
-                onClick={handleCreateDrop}
+                onClick={handleReviewDrop}
                 disabled={isLoading || isApproving || isCreating}
                 className="min-w-32"
               >
@@ -323,6 +335,38 @@ const EnhancedStraptDrop = () => {
         </motion.div>
       </AnimatePresence>
 
+      {/* Review Dialog */}
+      <Dialog open={showReview} onOpenChange={setShowReview}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Gift className="h-5 w-5 text-primary" />
+              Review STRAPT Drop
+            </DialogTitle>
+            <DialogDescription>
+              {amount} {tokenType} for {recipients} recipients, {isRandomDistribution ? 'random' : 'equal'} amounts
+            </DialogDescription>
+          </DialogHeader>
+
+          <TransactionPreview
+            preview={preview}
+            isLoading={isPreviewLoading}
+            error={previewError}
+            onRetry={refreshPreview}
+          />
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setShowReview(false)}>
+              Back
+            </Button>
+            <Button onClick={handleCreateDrop} disabled={isPreviewLoading}>
+              <Gift className="h-4 w-4 mr-2" />
+              Confirm & Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Success Dialog */}
       <Dialog open={showSuccess} onOpenChange={setShowSuccess}>
         <DialogContent className="sm:max-w-md p-0 overflow-hidden">
@@ -390,7 +434,7 @@ const EnhancedStraptDrop = () => {
               <Button
                 onClick={() => {
                   setShowSuccess(false);
-                  setTokenType('IDRX');
+                  setTokenType(tokens[0]?.symbol ?? '');
                   setAmount('');
                   setRecipients('10');
                   setIsRandomDistribution(false);
@@ -9,12 +9,13 @@ import type { DropInfo } from '@/hooks/use-strapt-drop';
 import { Loading } from '@/components/ui/loading';
 import { Gift, Clock, Users, AlertTriangle, Check, Shuffle, Coins, PartyPopper, QrCode, ChevronLeft, Droplets } from 'lucide-react';
 import { formatUnits } from 'viem';
-import contractConfig from '@/contracts/contract-config.json';
+import { findTokenByAddress } from '@/services/TokenRegistryService';
 import QRCodeScanner from '@/components/QRCodeScanner';
 import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
 import { cn } from '@/lib/utils';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import FaucetClaim from '@/components/FaucetClaim';
@@ -24,7 +25,8 @@ const EnhancedStraptDropClaim = () => {
   const location = useLocation();
   const { toast } = useToast();
   const { isConnected, address } = useXellarWallet();
-  const { getDropInfo, claimDrop, hasAddressClaimed, isLoading, isClaiming } = useStraptDrop();
+  const { getDropInfo, claimDrop, hasAddressClaimed, isLoading, isClaiming, isGaslessClaimAvailable } = useStraptDrop();
+  const [claimWithoutGas, setClaimWithoutGas] = useState(false);
 
   // Extract drop ID from URL - handle both path params and query params
   const getDropIdFromUrl = () => {
@@ -136,25 +138,14 @@ const EnhancedStraptDropClaim = () => {
 
   // Format token amount
   const formatTokenAmount = (amount: bigint, tokenAddress: string) => {
-    const tokenDecimals =
-      tokenAddress.toLowerCase() === contractConfig.StraptDrop.supportedTokens.USDC.toLowerCase()
-        ? 6
-        : tokenAddress.toLowerCase() === contractConfig.StraptDrop.supportedTokens.IDRX.toLowerCase()
-          ? 2
-          : 18;
+    const tokenDecimals = findTokenByAddress(tokenAddress)?.decimals ?? 18;
 
     return formatUnits(amount, tokenDecimals);
   };
 
   // Get token symbol
   const getTokenSymbol = (tokenAddress: string) => {
-    if (tokenAddress.toLowerCase() === contractConfig.StraptDrop.supportedTokens.USDC.toLowerCase()) {
-      return 'USDC';
-    }
-    if (tokenAddress.toLowerCase() === contractConfig.StraptDrop.supportedTokens.IDRX.toLowerCase()) {
-      return 'IDRX';
-    }
-    return 'Tokens';
+    return findTokenByAddress(tokenAddress)?.symbol ?? 'Tokens';
   };
 
   // Handle claim
@@ -173,7 +164,7 @@ const EnhancedStraptDropClaim = () => {
     }
 
     try {
-      const amount = await claimDrop(dropId);
+      const amount = await claimDrop(dropId, claimWithoutGas && isGaslessClaimAvailable);
       setClaimAmount(amount);
       setHasClaimed(true);
 
@@ -366,10 +357,12 @@ const EnhancedStraptDropClaim = () => {
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <div className="w-10 h-10 rounded-full flex items-center justify-center overflow-hidden">
-                    {getTokenSymbol(dropInfo.tokenAddress) === 'USDC' ? (
-                      <img src="/usd-coin-usdc-logo.svg" alt="USDC" className="w-full h-full object-cover" />
-                    ) : getTokenSymbol(dropInfo.tokenAddress) === 'IDRX' ? (
-                      <img src="/IDRX BLUE COIN.svg" alt="IDRX" className="w-full h-full object-cover" />
+                    {findTokenByAddress(dropInfo.tokenAddress)?.icon ? (
+                      <img
+                        src={findTokenByAddress(dropInfo.tokenAddress)?.icon}
+                        alt={getTokenSymbol(dropInfo.tokenAddress)}
+                        className="w-full h-full object-cover"
+                      />
                     ) : (
                       <Coins className="h-5 w-5 text-primary" />
                     )}
@@ -470,6 +463,26 @@ const EnhancedStraptDropClaim = () => {
                   </motion.div>
                 )}
               </AnimatePresence>
+
+              {/* Gasless claim option */}
+              {isGaslessClaimAvailable && !hasClaimed && (
+                <div className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border">
+                  <div>
+                    <label htmlFor="claim-drop-without-gas" className="text-sm font-medium">
+                      Claim without gas
+                    </label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Sign the claim and let the STRAPT relayer pay the network fee
+                    </p>
+                  </div>
+                  <Switch
+                    id="claim-drop-without-gas"
+                    checked={claimWithoutGas}
+                    onCheckedChange={setClaimWithoutGas}
+                    disabled={isLoading || isClaiming}
+                  />
+                </div>
+              )}
             </CardContent>
 
             <CardFooter className="pt-2 pb-6 px-6 border-t border-border">
@@ -0,0 +1,360 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowLeft, AlertTriangle, CheckCircle2, Gavel, History, RefreshCw, RotateCcw, Scale, Wallet } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import EscrowTimeline from '@/components/escrow/EscrowTimeline';
+import { useXellarWallet } from '@/hooks/use-xellar-wallet';
+import { useEscrow, EscrowStatus, MAX_DISPUTE_REASON_LENGTH, type Escrow } from '@/hooks/use-escrow';
+import { useDataRefresh } from '@/services/DataSubscriptionService';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const STATUS_LABELS: Record<EscrowStatus, { label: string; className: string }> = {
+  [EscrowStatus.Funded]: { label: 'Awaiting approval', className: 'bg-yellow-500/10 text-yellow-600' },
+  [EscrowStatus.Approved]: { label: 'Ready to claim', className: 'bg-blue-500/10 text-blue-600' },
+  [EscrowStatus.Disputed]: { label: 'Disputed', className: 'bg-red-500/10 text-red-600' },
+  [EscrowStatus.Released]: { label: 'Released', className: 'bg-green-500/10 text-green-600' },
+  [EscrowStatus.Resolved]: { label: 'Resolved', className: 'bg-purple-500/10 text-purple-600' },
+  [EscrowStatus.Refunded]: { label: 'Refunded', className: 'bg-gray-500/10 text-gray-600' },
+};
+
+type EscrowRole = 'sender' | 'recipient' | 'arbiter';
+
+const Escrows = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { address } = useXellarWallet();
+  const {
+    isAvailable,
+    isLoading: isSubmitting,
+    getUserEscrows,
+    approveRelease,
+    claimEscrow,
+    raiseDispute,
+    resolveDispute,
+    refundEscrow,
+  } = useEscrow();
+
+  const [escrows, setEscrows] = useState<Escrow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Escrow whose history is open, e.g. from a shared link
+  const [selectedEscrow, setSelectedEscrow] = useState<Escrow | null>(null);
+  const [disputeEscrow, setDisputeEscrow] = useState<Escrow | null>(null);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [resolveEscrow, setResolveEscrow] = useState<Escrow | null>(null);
+  const [recipientShare, setRecipientShare] = useState(50);
+
+  const loadEscrows = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setIsLoading(true);
+      const userEscrows = await getUserEscrows(address);
+      setEscrows(userEscrows);
+
+      // Keep an open history dialog in sync
+      setSelectedEscrow((current) => current ? userEscrows.find((escrow) => escrow.id === current.id) ?? null : null);
+    } catch (error) {
+      console.error('Error loading escrows:', error);
+      toast.error('Failed to load escrows');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, getUserEscrows]);
+
+  useEffect(() => {
+    loadEscrows();
+  }, [loadEscrows]);
+
+  // Reload when a new block touches the escrow contract or one of our escrow transactions settles
+  useDataRefresh('escrows', loadEscrows);
+
+  // Open the history of the escrow a shared link points to, once
+  const linkedEscrowId = searchParams.get('id');
+  const hasOpenedLinkedEscrow = useRef(false);
+  useEffect(() => {
+    if (hasOpenedLinkedEscrow.current || !linkedEscrowId || escrows.length === 0) return;
+    hasOpenedLinkedEscrow.current = true;
+    const linked = escrows.find((escrow) => escrow.id.toLowerCase() === linkedEscrowId.toLowerCase());
+    if (linked) setSelectedEscrow(linked);
+  }, [escrows, linkedEscrowId]);
+
+  const getRole = (escrow: Escrow): EscrowRole => {
+    const normalized = address?.toLowerCase();
+    if (escrow.sender.toLowerCase() === normalized) return 'sender';
+    if (escrow.recipient.toLowerCase() === normalized) return 'recipient';
+    return 'arbiter';
+  };
+
+  // Run an escrow action, then reload; errors are already shown by the hook
+  const runAction = async (action: () => Promise<boolean>, successMessage: string) => {
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadEscrows();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  };
+
+  const handleRaiseDispute = async () => {
+    if (!disputeEscrow) return;
+    const done = await runAction(
+      () => raiseDispute(disputeEscrow.id, disputeReason.trim()),
+      'Dispute raised. The arbiter will settle it.'
+    );
+    if (done) {
+      setDisputeEscrow(null);
+      setDisputeReason('');
+    }
+  };
+
+  const handleResolveDispute = async () => {
+    if (!resolveEscrow) return;
+    const done = await runAction(
+      () => resolveDispute(resolveEscrow.id, recipientShare),
+      'Dispute resolved'
+    );
+    if (done) setResolveEscrow(null);
+  };
+
+  const renderActions = (escrow: Escrow) => {
+    const role = getRole(escrow);
+    const isOpen = escrow.status === EscrowStatus.Funded || escrow.status === EscrowStatus.Approved;
+    const now = Date.now() / 1000;
+    const isExpired = escrow.expiry < now;
+    // The arbiter didn't rule in time, so the sender may take the funds back
+    const isDisputeOverdue = escrow.status === EscrowStatus.Disputed && !!escrow.disputeDeadline && escrow.disputeDeadline < now;
+
+    return (
+      <div className="flex flex-wrap gap-2">
+        {role === 'sender' && escrow.status === EscrowStatus.Funded && (
+          <Button size="sm" disabled={isSubmitting} onClick={() => runAction(() => approveRelease(escrow.id), 'Release approved')}>
+            <CheckCircle2 className="h-4 w-4 mr-1" /> Approve Release
+          </Button>
+        )}
+        {role === 'recipient' && escrow.status === EscrowStatus.Approved && (
+          <Button size="sm" disabled={isSubmitting} onClick={() => runAction(() => claimEscrow(escrow.id), 'Escrow claimed')}>
+            <Wallet className="h-4 w-4 mr-1" /> Claim
+          </Button>
+        )}
+        {role === 'arbiter' && escrow.status === EscrowStatus.Disputed && (
+          <Button size="sm" disabled={isSubmitting} onClick={() => { setRecipientShare(50); setResolveEscrow(escrow); }}>
+            <Gavel className="h-4 w-4 mr-1" /> Resolve
+          </Button>
+        )}
+        {role !== 'arbiter' && isOpen && (
+          <Button size="sm" variant="outline" disabled={isSubmitting} onClick={() => setDisputeEscrow(escrow)}>
+            <AlertTriangle className="h-4 w-4 mr-1" /> Dispute
+          </Button>
+        )}
+        {((role === 'recipient' && isOpen) ||
+          (role === 'sender' && ((escrow.status === EscrowStatus.Funded && isExpired) || isDisputeOverdue))) && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isSubmitting}
+            onClick={() => runAction(() => refundEscrow(escrow.id), 'Escrow refunded to the sender')}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" /> Refund
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={() => setSelectedEscrow(escrow)}>
+          <History className="h-4 w-4 mr-1" /> History
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate(-1)}
+          className="mr-4 p-0 h-auto"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-xl font-semibold">Escrows</h1>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={loadEscrows} disabled={isLoading || !isAvailable}>
+          <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Scale className="h-5 w-5 mr-2 text-primary" />
+            Your Escrows
+          </CardTitle>
+          <CardDescription>Escrows you funded, are paid by, or arbitrate</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!isAvailable ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Escrow isn't available on this network yet
+            </p>
+          ) : isLoading && escrows.length === 0 ? (
+            <div className="space-y-4">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <div key={`skeleton-escrow-${index}`} className="bg-secondary/30 rounded-lg p-4 animate-pulse">
+                  <Skeleton className="h-4 w-32 mb-2" />
+                  <Skeleton className="h-3 w-48 mb-2" />
+                  <Skeleton className="h-8 w-40 mt-2" />
+                </div>
+              ))}
+            </div>
+          ) : escrows.length === 0 ? (
+            <div className="text-center py-8">
+              <Scale className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No escrows yet</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Fund one from Transfer &gt; Link/QR Transfer &gt; Escrow with Arbiter
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {escrows.map((escrow) => {
+                const role = getRole(escrow);
+                const status = STATUS_LABELS[escrow.status];
+                return (
+                  <div key={escrow.id} className="bg-secondary/30 rounded-lg p-4 space-y-3">
+                    <div className="flex justify-between items-start gap-2">
+                      <div className="min-w-0">
+                        <h3 className="font-medium">{escrow.amount} {escrow.tokenSymbol}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {shortenAddress(escrow.sender)} → {shortenAddress(escrow.recipient)}, arbiter {shortenAddress(escrow.arbiter)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Funded {dayjs.unix(escrow.createdAt).format('MMM D, YYYY')} · expires {dayjs.unix(escrow.expiry).format('MMM D, YYYY')}
+                        </p>
+                        {escrow.status === EscrowStatus.Disputed && escrow.disputeDeadline && (
+                          <p className="text-xs text-muted-foreground">
+                            Refundable to the sender if unresolved by {dayjs.unix(escrow.disputeDeadline).format('MMM D, YYYY')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                        <span className="text-xs capitalize text-muted-foreground">You: {role}</span>
+                      </div>
+                    </div>
+                    {renderActions(escrow)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* History Dialog */}
+      <Dialog open={!!selectedEscrow} onOpenChange={(open) => !open && setSelectedEscrow(null)}>
+        <DialogContent className="sm:max-w-[95%] w-[95%] max-h-[90vh] overflow-y-auto mx-auto rounded-xl md:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Escrow History</DialogTitle>
+            {selectedEscrow && (
+              <DialogDescription>
+                {selectedEscrow.amount} {selectedEscrow.tokenSymbol} · {STATUS_LABELS[selectedEscrow.status].label}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {selectedEscrow && <EscrowTimeline escrow={selectedEscrow} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Dispute Dialog */}
+      <Dialog open={!!disputeEscrow} onOpenChange={(open) => !open && setDisputeEscrow(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Raise a Dispute</DialogTitle>
+            <DialogDescription>
+              The escrow is frozen until the arbiter splits the funds. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="dispute-reason">What went wrong?</Label>
+            <Textarea
+              id="dispute-reason"
+              placeholder="Explain the problem for the arbiter"
+              value={disputeReason}
+              maxLength={MAX_DISPUTE_REASON_LENGTH}
+              onChange={(e) => setDisputeReason(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {new TextEncoder().encode(disputeReason).length}/{MAX_DISPUTE_REASON_LENGTH}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisputeEscrow(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={handleRaiseDispute}
+              disabled={
+                isSubmitting ||
+                !disputeReason.trim() ||
+                new TextEncoder().encode(disputeReason.trim()).length > MAX_DISPUTE_REASON_LENGTH
+              }
+            >
+              Raise Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Resolve Dialog */}
+      <Dialog open={!!resolveEscrow} onOpenChange={(open) => !open && setResolveEscrow(null)}>
+        <DialogContent className="sm:max-w-[95%] w-[95%] max-h-[90vh] overflow-y-auto mx-auto rounded-xl md:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Resolve Dispute</DialogTitle>
+            <DialogDescription>Split the escrowed funds between the recipient and the sender</DialogDescription>
+          </DialogHeader>
+          {resolveEscrow && (
+            <div className="space-y-4">
+              <EscrowTimeline escrow={resolveEscrow} />
+              <div className="space-y-3">
+                <Slider
+                  value={[recipientShare]}
+                  min={0}
+                  max={100}
+                  step={1}
+                  onValueChange={([value]) => setRecipientShare(value)}
+                />
+                <div className="flex justify-between text-sm">
+                  <span>
+                    Recipient: {recipientShare}% ({(Number(resolveEscrow.amount) * recipientShare / 100).toFixed(2)} {resolveEscrow.tokenSymbol})
+                  </span>
+                  <span>
+                    Sender: {100 - recipientShare}% ({(Number(resolveEscrow.amount) * (100 - recipientShare) / 100).toFixed(2)} {resolveEscrow.tokenSymbol})
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolveEscrow(null)}>Cancel</Button>
+            <Button onClick={handleResolveDispute} disabled={isSubmitting}>
+              <Gavel className="h-4 w-4 mr-1" /> Settle
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Escrows;
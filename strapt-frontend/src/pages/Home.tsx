@@ -9,6 +9,7 @@ import {
   Droplets,
   CreditCard,
   DollarSign,
+  Save,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import QuickAction from "@/components/QuickAction";
@@ -33,8 +34,10 @@ import QRCodeScanner from "@/components/QRCodeScanner";
 import { useXellarWallet } from "@/hooks/use-xellar-wallet";
 import { useTokenBalances } from "@/hooks/use-token-balances";
 import { useChainId, useConfig } from "wagmi";
-import { formatUnits } from "viem";
-import { liskSepolia, baseSepolia } from "viem/chains";
+import { formatUnits, parseUnits } from "viem";
+import { findToken } from "@/services/TokenRegistryService";
+import { buildPaymentRequestUri } from "@/utils/payment-uri-utils";
+import { usePaymentRequests } from "@/hooks/use-payment-requests";
 import BalanceSkeleton from "@/components/skeletons/BalanceSkeleton";
 import ReceivedStatsSkeleton from "@/components/skeletons/ReceivedStatsSkeleton";
 import ActivitySkeleton from "@/components/skeletons/ActivitySkeleton";
@@ -55,7 +58,8 @@ const Home = () => {
   const config = useConfig();
 
   // Get token balances
-  const { tokens, isLoading, usdcBalance, idrxBalance } = useTokenBalances();
+  const { tokens, isLoading, balances } = useTokenBalances();
+  const idrxBalance = balances.IDRX;
 
   // Get the current chain information
   const currentChain = config.chains.find(c => c.id === chainId);
@@ -94,8 +98,11 @@ const Home = () => {
 
   // Request funds state
   const [requestAmount, setRequestAmount] = useState('');
-  const [requestToken, setRequestToken] = useState('IDRX');
+  const [requestToken, setRequestToken] = useState(() => tokens[0]?.symbol ?? '');
   const [requestMessage, setRequestMessage] = useState('');
+  const [requestPayer, setRequestPayer] = useState('');
+  const [requestDueDate, setRequestDueDate] = useState('');
+  const { addPaymentRequest } = usePaymentRequests();
 
   // USDC Faucet functionality
   const { claimTokens, isClaiming, userClaimInfo } = useUSDCFaucet();
@@ -138,16 +145,44 @@ const Home = () => {
     });
   };
 
-  const generateRequestQR = () => {
-    const requestData = {
-      type: 'request',
-      address,
+  // Keep the request so it can be marked paid when the money arrives
+  const handleSaveRequest = () => {
+    if (!(Number(requestAmount) > 0)) {
+      toast.error("Invalid amount", { description: "Please enter an amount greater than 0" });
+      return;
+    }
+    if (requestPayer && !/^0x[a-fA-F0-9]{40}$/.test(requestPayer)) {
+      toast.error("Invalid address", { description: "The payer must be a wallet address" });
+      return;
+    }
+
+    addPaymentRequest({
       amount: requestAmount,
       token: requestToken,
-      message: requestMessage,
-      timestamp: new Date().toISOString(),
-    };
-    return JSON.stringify(requestData);
+      memo: requestMessage || undefined,
+      payer: requestPayer || undefined,
+      // End of the chosen day, local time
+      dueDate: requestDueDate ? new Date(`${requestDueDate}T23:59:59`).toISOString() : undefined,
+    });
+
+    setRequestAmount('');
+    setRequestMessage('');
+    setRequestPayer('');
+    setRequestDueDate('');
+    toast.success("Request saved", { description: "It will be marked paid in your profile once the payment arrives" });
+  };
+
+  // EIP-681 request, so any wallet can pay it, not just STRAPT
+  const generateRequestQR = () => {
+    const token = findToken(requestToken, chainId);
+    if (!token) return '';
+    let amount: bigint | undefined;
+    try {
+      amount = parseUnits(requestAmount, token.decimals);
+    } catch (error) {
+      // Leave the amount for the payer to fill in
+    }
+    return buildPaymentRequestUri(token.address, address ?? '', amount, chainId);
   };
 
   return (
@@ -288,7 +323,7 @@ const Home = () => {
               </div>
             ) : (
               <div className="space-y-3">
-                {tokens.filter(token => token.symbol === 'IDRX' || token.symbol === 'USDC').map((token) => (
+                {tokens.map((token) => (
                   <div key={token.symbol} className="flex items-center justify-between">
                     <div className="flex items-center space-x-3">
                       <img
@@ -306,7 +341,7 @@ const Home = () => {
                     </div>
                     <div className="text-right">
                       <p className="font-semibold">
-                        {formatBalanceWithoutDecimals(BigInt(Math.floor(token.balance * (token.symbol === 'IDRX' ? 100 : 1000000))), token.symbol)}
+                        {formatBalanceWithoutDecimals(balances[token.symbol]?.value ?? 0n, token.symbol)}
                       </p>
                     </div>
                   </div>
@@ -350,6 +385,7 @@ const Home = () => {
                       date={transaction.date.toLocaleDateString()}
                       recipient={transaction.recipient}
                       hash={transaction.hash}
+                      transferId={transaction.transferId}
                     />
                   ))}
                   {hasMore && (
@@ -437,8 +473,9 @@ const Home = () => {
                       <SelectValue placeholder="Select token" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="IDRX">IDRX</SelectItem>
-                      <SelectItem value="USDC">USDC</SelectItem>
+                      {tokens.map((token) => (
+                        <SelectItem key={token.symbol} value={token.symbol}>{token.symbol}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -453,6 +490,27 @@ const Home = () => {
                   />
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="request-payer">From (Optional)</Label>
+                    <Input
+                      id="request-payer"
+                      placeholder="0x..."
+                      value={requestPayer}
+                      onChange={(e) => setRequestPayer(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="request-due-date">Due (Optional)</Label>
+                    <Input
+                      id="request-due-date"
+                      type="date"
+                      value={requestDueDate}
+                      onChange={(e) => setRequestDueDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+
                 {requestAmount && (
                   <div className="flex flex-col items-center justify-center space-y-4 pt-4">
                     <QRCode value={generateRequestQR()} size={200} />
@@ -470,6 +528,9 @@ const Home = () => {
                     >
                       <Copy className="h-4 w-4 mr-1" /> Copy Request Link
                     </Button>
+                    <Button onClick={handleSaveRequest} className="w-full">
+                      <Save className="h-4 w-4 mr-1" /> Save & Track Request
+                    </Button>
                   </div>
                 )}
               </div>
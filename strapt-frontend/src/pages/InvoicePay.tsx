@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, ArrowLeft, BarChart2, Printer, Shield } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { parseUnits } from 'viem';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import InvoiceDocument from '@/components/invoices/InvoiceDocument';
+import StreamForm from '@/components/streams/StreamForm';
+import type { Milestone } from '@/components/MilestoneInput';
+import { useXellarWallet } from '@/hooks/use-xellar-wallet';
+import { useTokenBalances } from '@/hooks/use-token-balances';
+import { usePaymentStream } from '@/hooks/use-payment-stream';
+import { getToken } from '@/services/TokenRegistryService';
+import { useDataContext } from '@/providers/DataProvider';
+import { buildPaymentRequestUri } from '@/utils/payment-uri-utils';
+import { computeInvoiceTotals, getInvoiceMilestones, parseInvoicePayLink } from '@/utils/invoice-utils';
+import type { TokenType } from '@/types/tokens';
+
+const InvoicePay = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { address } = useXellarWallet();
+  const { tokens, isLoading: isLoadingTokens } = useTokenBalances();
+  const { createStream } = usePaymentStream();
+  const { refreshAllData } = useDataContext();
+  const [showStreamForm, setShowStreamForm] = useState(false);
+  const [isCreatingStream, setIsCreatingStream] = useState(false);
+
+  // The invoice travels in the URL fragment
+  const invoice = useMemo(() => parseInvoicePayLink(location.hash), [location.hash]);
+  const total = invoice ? computeInvoiceTotals(invoice).total : '0';
+  const isOwnInvoice = !!invoice && address?.toLowerCase() === invoice.issuer.toLowerCase();
+
+  // One milestone per line item, released by the payer as the work is delivered
+  const milestones = useMemo<Milestone[]>(() => {
+    if (!invoice) return [];
+    return getInvoiceMilestones(invoice).map((milestone, index) => ({
+      id: `milestone-${index}`,
+      percentage: milestone.percentage,
+      description: milestone.description,
+    }));
+  }, [invoice]);
+
+  const handlePayWithTransfer = () => {
+    if (!invoice) return;
+
+    const token = getToken(invoice.token);
+    const uri = buildPaymentRequestUri(
+      token.address,
+      invoice.issuer,
+      parseUnits(total, token.decimals)
+    );
+    // A protected transfer to the issuer, which their invoice picks up from their received transfers
+    const params = new URLSearchParams({ request: uri, note: `Invoice ${invoice.number}`, mode: 'protected' });
+    navigate(`/app/transfer?${params.toString()}`);
+  };
+
+  const handleCreateStream = async (data: {
+    recipient: string;
+    tokenType: TokenType;
+    amount: string;
+    durationInSeconds: number;
+    milestonePercentages: number[];
+    milestoneDescriptions: string[];
+  }) => {
+    try {
+      setIsCreatingStream(true);
+      await createStream(
+        data.recipient,
+        data.tokenType,
+        data.amount,
+        data.durationInSeconds,
+        data.milestonePercentages,
+        data.milestoneDescriptions
+      );
+
+      toast.success('Stream created', {
+        description: `Paying ${invoice?.number} as a stream of ${data.amount} ${data.tokenType}`,
+      });
+      setShowStreamForm(false);
+      refreshAllData();
+      navigate('/app/streams');
+    } catch (error) {
+      console.error('Error creating stream:', error);
+      toast.error('Error creating stream', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsCreatingStream(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate(-1)}
+          className="mr-4 p-0 h-auto"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-xl font-semibold">Pay Invoice</h1>
+        {invoice && (
+          <Button variant="outline" size="sm" className="ml-auto" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" /> Print
+          </Button>
+        )}
+      </div>
+
+      {!invoice ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            This invoice link is invalid or incomplete. Ask the sender for a new link.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <InvoiceDocument invoice={invoice} />
+
+          {isOwnInvoice && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                This is your own invoice. Share the link with your client so they can pay it.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Pay {total} {invoice.token}</CardTitle>
+              <CardDescription>Choose how to pay this invoice</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <Button className="h-auto py-3 flex-col" disabled={isOwnInvoice} onClick={handlePayWithTransfer}>
+                <span className="flex items-center font-medium">
+                  <Shield className="h-4 w-4 mr-2" /> Protected Transfer
+                </span>
+                <span className="text-xs font-normal opacity-80">Pay the full amount at once</span>
+              </Button>
+              <Button
+                variant="outline"
+                className="h-auto py-3 flex-col"
+                disabled={isOwnInvoice}
+                onClick={() => setShowStreamForm(true)}
+              >
+                <span className="flex items-center font-medium">
+                  <BarChart2 className="h-4 w-4 mr-2" /> Milestone Stream
+                </span>
+                <span className="text-xs font-normal opacity-80">
+                  {milestones.length > 0 ? 'Release a milestone per line item' : 'Stream the amount over time'}
+                </span>
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Dialog open={showStreamForm} onOpenChange={setShowStreamForm}>
+            <DialogContent className="sm:max-w-[95%] w-[95%] p-3 mx-auto rounded-xl md:max-w-lg md:p-4">
+              <StreamForm
+                onCancel={() => setShowStreamForm(false)}
+                onSubmit={handleCreateStream}
+                isCreatingStream={isCreatingStream}
+                tokens={tokens}
+                isLoadingTokens={isLoadingTokens}
+                initialValues={{
+                  recipient: invoice.issuer,
+                  amount: total,
+                  tokenSymbol: invoice.token,
+                  milestones,
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InvoicePay;
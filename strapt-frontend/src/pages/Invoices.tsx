@@ -0,0 +1,453 @@
+import { useState } from 'react';
+import { ArrowLeft, CalendarIcon, Copy, Eye, FileText, Plus, Printer, Trash, XCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { isAddress } from 'viem';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import InvoiceDocument from '@/components/invoices/InvoiceDocument';
+import { useInvoices } from '@/hooks/use-invoices';
+import { useTokenRegistry } from '@/hooks/use-token-registry';
+import { isPaymentRequestOverdue, PAYMENT_TYPE_LABELS } from '@/hooks/use-payment-requests';
+import { computeInvoiceTotals, generateInvoicePayLink } from '@/utils/invoice-utils';
+import type { TokenType } from '@/types/tokens';
+import type { Invoice, InvoiceLineItem } from '@/types/invoices';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const getStatusLabel = (invoice: Invoice) =>
+  isPaymentRequestOverdue(invoice) ? 'overdue' : invoice.status;
+
+const createLineItem = (): InvoiceLineItem => ({
+  id: `item_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+  description: '',
+  quantity: 1,
+  unitPrice: '',
+});
+
+const Invoices = () => {
+  const navigate = useNavigate();
+  const { invoices, isLoading, createInvoice, cancelInvoice, removeInvoice } = useInvoices();
+  const registryTokens = useTokenRegistry();
+
+  // Create dialog state
+  const [showCreate, setShowCreate] = useState(false);
+  const [issuerName, setIssuerName] = useState('');
+  const [clientName, setClientName] = useState('');
+  const [clientAddress, setClientAddress] = useState('');
+  const [token, setToken] = useState<TokenType>(() => registryTokens[0]?.symbol ?? '');
+  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([createLineItem()]);
+  const [taxRate, setTaxRate] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  // Invoice being previewed for printing
+  const [previewInvoice, setPreviewInvoice] = useState<Invoice | null>(null);
+
+  // Newest first
+  const sortedInvoices = [...invoices].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const draftTotals = computeInvoiceTotals({ token, lineItems, taxRate: Number(taxRate) || 0 });
+
+  const resetForm = () => {
+    setClientName('');
+    setClientAddress('');
+    setLineItems([createLineItem()]);
+    setTaxRate('');
+    setDueDate('');
+    setNotes('');
+  };
+
+  const updateLineItem = (id: string, changes: Partial<InvoiceLineItem>) => {
+    setLineItems(items => items.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const removeLineItem = (id: string) => {
+    setLineItems(items => items.filter(item => item.id !== id));
+  };
+
+  const handleCreateInvoice = () => {
+    const items = lineItems.filter(item => item.description.trim() && Number(item.unitPrice) > 0 && item.quantity > 0);
+    const rate = Number(taxRate) || 0;
+
+    if (!clientName.trim()) {
+      toast.error('Enter the client name');
+      return;
+    }
+    if (items.length === 0) {
+      toast.error('Add at least one line item with a description and price');
+      return;
+    }
+    if (rate < 0 || rate > 100) {
+      toast.error('Tax rate must be between 0 and 100%');
+      return;
+    }
+    if (!dueDate) {
+      toast.error('Choose a due date');
+      return;
+    }
+    if (clientAddress && !isAddress(clientAddress)) {
+      toast.error('Invalid client wallet address');
+      return;
+    }
+
+    const invoice = createInvoice({
+      issuerName: issuerName.trim() || undefined,
+      clientName: clientName.trim(),
+      clientAddress: clientAddress || undefined,
+      token,
+      lineItems: items.map(item => ({ ...item, description: item.description.trim() })),
+      taxRate: rate,
+      notes: notes.trim() || undefined,
+      dueDate: new Date(`${dueDate}T23:59:59`).toISOString(),
+    });
+    if (!invoice) return;
+
+    toast.success(`Invoice ${invoice.number} created`);
+    setShowCreate(false);
+    resetForm();
+  };
+
+  const handleCopyLink = (invoice: Invoice) => {
+    navigator.clipboard.writeText(generateInvoicePayLink(invoice));
+    toast.success('Pay link copied to clipboard');
+  };
+
+  const handleCancelInvoice = (invoice: Invoice) => {
+    cancelInvoice(invoice.id);
+    toast.success(`Invoice ${invoice.number} cancelled`, {
+      description: 'Payments will no longer be matched to this invoice',
+    });
+  };
+
+  const handleDeleteInvoice = (invoice: Invoice) => {
+    removeInvoice(invoice.id);
+    toast.success(`Invoice ${invoice.number} removed`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate(-1)}
+          className="mr-4 p-0 h-auto"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-xl font-semibold">Invoices</h1>
+        <Button size="sm" className="ml-auto" onClick={() => setShowCreate(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Invoice
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Your Invoices</CardTitle>
+          <CardDescription>Share a pay link; invoices are marked paid when the payment arrives</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <div key={`skeleton-invoice-${index}`} className="bg-secondary/30 rounded-lg p-4 animate-pulse">
+                  <Skeleton className="h-4 w-32 mb-2" />
+                  <Skeleton className="h-3 w-20 mb-2" />
+                  <Skeleton className="h-5 w-16 mt-2" />
+                </div>
+              ))}
+            </div>
+          ) : sortedInvoices.length === 0 ? (
+            <div className="text-center py-8">
+              <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No invoices yet</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Create one to bill a client in any supported token
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {sortedInvoices.map((invoice) => {
+                const status = getStatusLabel(invoice);
+                return (
+                  <div
+                    key={invoice.id}
+                    className={cn(
+                      "bg-secondary/30 rounded-lg p-4",
+                      invoice.status === 'cancelled' && "opacity-60"
+                    )}
+                  >
+                    <div className="flex justify-between items-start gap-2">
+                      <div className="min-w-0">
+                        <h3 className="font-medium">
+                          {invoice.number} · {invoice.amount} {invoice.token}
+                        </h3>
+                        <p className="text-sm text-muted-foreground truncate">{invoice.clientName}</p>
+                        <div className="flex items-center gap-1 mt-1">
+                          <CalendarIcon className="h-3.5 w-3.5 text-muted-foreground" />
+                          <span className="text-xs">Due {format(new Date(invoice.dueDate), 'PPP')}</span>
+                        </div>
+                        {invoice.payment && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Paid by {shortenAddress(invoice.payment.from)} via {PAYMENT_TYPE_LABELS[invoice.payment.type]} on{' '}
+                            {format(new Date(invoice.payment.paidAt), 'PPP')}
+                          </p>
+                        )}
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            "mt-2",
+                            status === 'open' && "bg-yellow-500/10 text-yellow-600",
+                            status === 'overdue' && "bg-red-500/10 text-red-600",
+                            status === 'paid' && "bg-green-500/10 text-green-600",
+                            status === 'cancelled' && "bg-gray-500/10 text-gray-600"
+                          )}
+                        >
+                          {status}
+                        </Badge>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="View and print"
+                          onClick={() => setPreviewInvoice(invoice)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {invoice.status === 'open' && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Copy pay link"
+                              onClick={() => handleCopyLink(invoice)}
+                            >
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-yellow-600 hover:text-yellow-700 hover:bg-yellow-100"
+                              title="Cancel invoice"
+                              onClick={() => handleCancelInvoice(invoice)}
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-100"
+                          title="Delete invoice"
+                          onClick={() => handleDeleteInvoice(invoice)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Invoice Dialog */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="sm:max-w-[95%] w-[95%] max-h-[90vh] overflow-y-auto mx-auto rounded-xl md:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Invoice</DialogTitle>
+            <DialogDescription>The client pays with a protected transfer or a milestone stream</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="invoice-issuer-name">Your Name (Optional)</Label>
+                <Input
+                  id="invoice-issuer-name"
+                  placeholder="Your business name"
+                  value={issuerName}
+                  onChange={(e) => setIssuerName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="invoice-client-name">Client Name</Label>
+                <Input
+                  id="invoice-client-name"
+                  placeholder="Who you're billing"
+                  value={clientName}
+                  onChange={(e) => setClientName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5 sm:col-span-2">
+                <Label htmlFor="invoice-client-address">Client Wallet (Optional)</Label>
+                <Input
+                  id="invoice-client-address"
+                  placeholder="0x... only payments from this wallet count"
+                  value={clientAddress}
+                  onChange={(e) => setClientAddress(e.target.value.trim())}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Line Items</Label>
+              {lineItems.map((item) => (
+                <div key={item.id} className="grid grid-cols-[1fr_4rem_6rem_auto] gap-2 items-center">
+                  <Input
+                    placeholder="Description"
+                    aria-label="Description"
+                    value={item.description}
+                    onChange={(e) => updateLineItem(item.id, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    aria-label="Quantity"
+                    value={item.quantity}
+                    onChange={(e) => updateLineItem(item.id, { quantity: Math.max(0, Math.floor(Number(e.target.value))) })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Price"
+                    aria-label="Unit price"
+                    value={item.unitPrice}
+                    onChange={(e) => updateLineItem(item.id, { unitPrice: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Remove line item"
+                    disabled={lineItems.length === 1}
+                    onClick={() => removeLineItem(item.id)}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLineItems(items => [...items, createLineItem()])}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add Line Item
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label>Currency</Label>
+                <Select value={token} onValueChange={(value) => setToken(value as TokenType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {registryTokens.map((option) => (
+                      <SelectItem key={option.symbol} value={option.symbol}>{option.symbol}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="invoice-tax-rate">Tax (%)</Label>
+                <Input
+                  id="invoice-tax-rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  placeholder="0"
+                  value={taxRate}
+                  onChange={(e) => setTaxRate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="invoice-due-date">Due</Label>
+                <Input
+                  id="invoice-due-date"
+                  type="date"
+                  min={new Date().toISOString().split('T')[0]}
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="invoice-notes">Notes (Optional)</Label>
+              <Textarea
+                id="invoice-notes"
+                placeholder="Payment terms, references..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <div className="p-3 bg-secondary/50 rounded-lg text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{draftTotals.subtotal} {token}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tax</span>
+                <span>{draftTotals.tax} {token}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{draftTotals.total} {token}</span>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>Cancel</Button>
+            <Button onClick={handleCreateInvoice}>Create Invoice</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Invoice Preview Dialog */}
+      <Dialog open={!!previewInvoice} onOpenChange={(open) => !open && setPreviewInvoice(null)}>
+        <DialogContent className="sm:max-w-[95%] w-[95%] max-h-[90vh] overflow-y-auto mx-auto rounded-xl md:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{previewInvoice?.number}</DialogTitle>
+          </DialogHeader>
+          {previewInvoice && <InvoiceDocument invoice={previewInvoice} />}
+          <DialogFooter>
+            {previewInvoice?.status === 'open' && (
+              <Button variant="outline" onClick={() => handleCopyLink(previewInvoice)}>
+                <Copy className="h-4 w-4 mr-2" /> Copy Pay Link
+              </Button>
+            )}
+            <Button onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" /> Print
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Invoices;
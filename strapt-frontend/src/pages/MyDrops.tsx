@@ -8,7 +8,7 @@ import { useStraptDrop, type DropInfo } from '@/hooks/use-strapt-drop';
 import { Loading } from '@/components/ui/loading';
 import { Gift, Clock, Users, RefreshCcw, AlertTriangle, Check, Shuffle, Coins, Share2, QrCode, ChevronLeft } from 'lucide-react';
 import InfoTooltip from '@/components/InfoTooltip';
-import contractConfig from '@/contracts/contract-config.json';
+import { findTokenByAddress } from '@/services/TokenRegistryService';
 import { formatUnits } from 'viem';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
@@ -59,20 +59,9 @@ const MyDrops = () => {
       const decimals: {[key: string]: number} = {};
 
       for (const drop of userDrops) {
-        const tokenAddress = drop.info.tokenAddress.toLowerCase();
-        const idrxAddress = contractConfig.StraptDrop.supportedTokens.IDRX.toLowerCase();
-        const usdcAddress = contractConfig.StraptDrop.supportedTokens.USDC.toLowerCase();
-
-        if (tokenAddress === idrxAddress) {
-          symbols[drop.id] = 'IDRX';
-          decimals[drop.id] = 2;
-        } else if (tokenAddress === usdcAddress) {
-          symbols[drop.id] = 'USDC';
-          decimals[drop.id] = 6;
-        } else {
-          symbols[drop.id] = 'Token';
-          decimals[drop.id] = 18;
-        }
+        const token = findTokenByAddress(drop.info.tokenAddress);
+        symbols[drop.id] = token?.symbol ?? 'Token';
+        decimals[drop.id] = token?.decimals ?? 18;
       }
 
       setTokenSymbols(symbols);
@@ -1,5 +1,5 @@
 import { useState, lazy, Suspense, useCallback, memo, useEffect } from 'react';
-import { Copy, Moon, Sun, ChevronRight, LogOut, Shield, BarChart2, Users, Info, FileText, QrCode, UserPlus, Clock, CalendarClock } from 'lucide-react';
+import { Copy, Moon, Sun, ChevronRight, LogOut, Shield, BarChart2, Users, Info, FileText, QrCode, UserPlus, Clock, CalendarClock, LockKeyhole, ReceiptText, ShieldCheck } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
@@ -19,12 +19,14 @@ import QRCodeScanner from '@/components/QRCodeScanner';
 import { Loading } from '@/components/ui/loading';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatBalanceWithoutDecimals } from '@/utils/format-utils';
+import { useNoteKey } from '@/hooks/use-transfer-note';
 
 // Lazy load the tab content components
 const ProfileActivityTimeline = lazy(() => import('@/components/profile/ProfileActivityTimeline'));
 const QuickContacts = lazy(() => import('@/components/profile/QuickContacts'));
 const DecentralizedIdentity = lazy(() => import('@/components/profile/DecentralizedIdentity'));
 const ScheduledTransfers = lazy(() => import('@/components/profile/ScheduledTransfers'));
+const PaymentRequests = lazy(() => import('@/components/profile/PaymentRequests'));
 
 // Loading component for tab content
 const TabLoading = memo(() => (
@@ -90,9 +92,11 @@ const OptimizedProfile = () => {
   const { disconnect } = useDisconnect();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const { isEnabled: notesEnabled, isUnlocked: notesUnlocked, isLoading: isLoadingNoteKey, enable: enableNotes } = useNoteKey();
 
   // Get token balances
-  const { isLoading: isLoadingTokens, idrxBalance } = useTokenBalances();
+  const { isLoading: isLoadingTokens, balances } = useTokenBalances();
+  const idrxBalance = balances.IDRX;
 
   // Get user streams
   const { useUserStreams } = usePaymentStream();
@@ -252,6 +256,13 @@ const OptimizedProfile = () => {
             <CalendarClock className="h-5 w-5 mb-1" />
             <span className="text-xs">Schedule</span>
           </TabsTrigger>
+          <TabsTrigger
+            value="requests"
+            className="flex-1 flex flex-col items-center justify-center py-2 h-auto rounded-none data-[state=active]:bg-transparent data-[state=active]:text-purple-500 data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-purple-500"
+          >
+            <ReceiptText className="h-5 w-5 mb-1" />
+            <span className="text-xs">Requests</span>
+          </TabsTrigger>
           <TabsTrigger
             value="identity"
             className="flex-1 flex flex-col items-center justify-center py-2 h-auto rounded-none data-[state=active]:bg-transparent data-[state=active]:text-purple-500 data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-purple-500"
@@ -279,6 +290,12 @@ const OptimizedProfile = () => {
           </Suspense>
         </TabsContent>
 
+        <TabsContent value="requests" className="space-y-4 mt-2">
+          <Suspense fallback={<TabLoading />}>
+            {activeTab === 'requests' && <PaymentRequests />}
+          </Suspense>
+        </TabsContent>
+
         <TabsContent value="identity" className="space-y-4 mt-2">
           <Suspense fallback={<TabLoading />}>
             {activeTab === 'identity' && <DecentralizedIdentity />}
@@ -303,6 +320,35 @@ const OptimizedProfile = () => {
             </div>
             <Switch checked={isDarkMode} onCheckedChange={toggleTheme} />
           </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <LockKeyhole className="h-5 w-5" />
+              <div>
+                <span>Encrypted Notes</span>
+                <p className="text-xs text-muted-foreground">Let senders leave notes only you can read</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={enableNotes}
+              disabled={isLoadingNoteKey || notesUnlocked}
+            >
+              {notesUnlocked ? 'Unlocked' : notesEnabled ? 'Unlock' : 'Enable'}
+            </Button>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              <div>
+                <span>Token Approvals</span>
+                <p className="text-xs text-muted-foreground">Review, cap or revoke what STRAPT can spend</p>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate('/app/approvals')}>
+              Manage
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
@@ -12,7 +12,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { usePaymentStream } from '@/hooks/use-payment-stream';
-import { StreamStatus } from '@/hooks/use-payment-stream';
+import { StreamStatus, type TokenType } from '@/hooks/use-payment-stream';
 import { useXellarWallet } from '@/hooks/use-xellar-wallet';
 import { Loading } from '@/components/ui/loading';
 import InfoTooltip from '@/components/InfoTooltip';
@@ -149,7 +149,7 @@ const OptimizedStreams = () => {
 
   const handleCreateStream = async (data: {
     recipient: string;
-    tokenType: 'USDC' | 'IDRX';
+    tokenType: TokenType;
     amount: string;
     durationInSeconds: number;
     milestonePercentages: number[];
@@ -20,7 +20,7 @@ import ScheduledTransfers from '@/components/profile/ScheduledTransfers';
 import StreamForm from '@/components/streams/StreamForm';
 import ReceivedStats from '@/components/ReceivedStats';
 import { useTokenBalances } from '@/hooks/use-token-balances';
-import { usePaymentStream } from '@/hooks/use-payment-stream';
+import { usePaymentStream, type TokenType } from '@/hooks/use-payment-stream';
 import { useTransactionHistory } from '@/hooks/use-transaction-history';
 import { useDataContext } from '@/providers/DataProvider';
 
@@ -66,7 +66,7 @@ const Profile = () => {
 
   const handleCreateStream = async (data: {
     recipient: string;
-    tokenType: 'USDC' | 'IDRX';
+    tokenType: TokenType;
     amount: string;
     durationInSeconds: number;
     milestonePercentages: number[];
@@ -27,7 +27,7 @@ const StraptDrop = () => {
   const { tokens } = useTokenBalances();
 
   // Form state
-  const [tokenType, setTokenType] = useState<TokenType>('IDRX');
+  const [tokenType, setTokenType] = useState<TokenType>(() => tokens[0]?.symbol ?? '');
   const [amount, setAmount] = useState('');
   const [recipients, setRecipients] = useState('10');
   const [isRandomDistribution, setIsRandomDistribution] = useState(false);
@@ -445,7 +445,7 @@ const StraptDrop = () => {
             <Button
               onClick={() => {
                 setShowSuccess(false);
-                setTokenType('IDRX');
+                setTokenType(tokens[0]?.symbol ?? '');
                 setAmount('');
                 setRecipients('10');
                 setIsRandomDistribution(false);
@@ -9,7 +9,7 @@ import type { DropInfo } from '@/hooks/use-strapt-drop';
 import { Loading } from '@/components/ui/loading';
 import { Gift, Clock, Users, AlertTriangle, Check, Shuffle, Coins, PartyPopper, QrCode, ChevronLeft } from 'lucide-react';
 import { formatUnits } from 'viem';
-import contractConfig from '@/contracts/contract-config.json';
+import { findTokenByAddress } from '@/services/TokenRegistryService';
 import QRCodeScanner from '@/components/QRCodeScanner';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useConfetti } from '@/hooks/use-confetti';
@@ -60,16 +60,10 @@ const StraptDropClaim = () => {
       setDropInfo(info);
 
       // Determine token symbol and decimals
-      const tokenAddress = info.tokenAddress.toLowerCase();
-      const idrxAddress = contractConfig.StraptDrop.supportedTokens.IDRX.toLowerCase();
-      const usdcAddress = contractConfig.StraptDrop.supportedTokens.USDC.toLowerCase();
-
-      if (tokenAddress === idrxAddress) {
-        setTokenSymbol('IDRX');
-        setTokenDecimals(2);
-      } else if (tokenAddress === usdcAddress) {
-        setTokenSymbol('USDC');
-        setTokenDecimals(6);
+      const token = findTokenByAddress(info.tokenAddress);
+      if (token) {
+        setTokenSymbol(token.symbol);
+        setTokenDecimals(token.decimals);
       }
 
       // Check if user has already claimed
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Send, QrCode } from 'lucide-react';
+import { ArrowLeft, Send, QrCode, Users, Scale } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { TransferProvider, useTransferContext } from '@/contexts/TransferContext';
@@ -15,6 +16,8 @@ const TransferContent = () => {
   const [step, setStep] = useState(1);
   const [showQR, setShowQR] = useState(false);
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
   const {
     transferType,
     setTransferType,
@@ -24,9 +27,12 @@ const TransferContent = () => {
     withPassword
   } = useTransferContext();
 
-  // Set the initial transfer type to 'direct' when the component mounts
+  // Set the initial transfer type when the component mounts: 'direct', unless the link asks
+  // for a protected transfer (e.g. paying an invoice); this runs after the form has read the link
   useEffect(() => {
-    setTransferType('direct');
+    const isProtected = new URLSearchParams(location.search).get('mode') === 'protected';
+    setTransferType(isProtected ? 'claim' : 'direct');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [setTransferType]);
 
   const nextStep = () => {
@@ -115,6 +121,18 @@ const TransferContent = () => {
           {step === 3 && "Confirm Transfer"}
           {step === 4 && "Transfer Created"}
         </h1>
+        {step === 1 && (
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => navigate('/app/escrows')}>
+              <Scale className="h-4 w-4 mr-2" />
+              Escrows
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/app/transfer/batch')}>
+              <Users className="h-4 w-4 mr-2" />
+              Batch (CSV)
+            </Button>
+          </div>
+        )}
       </div>
 
       {step === 1 ? (
@@ -1,6 +1,10 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { initDataServices, refreshAllData } from '@/services/DataService';
+import { startExpiryWatcher, stopExpiryWatcher } from '@/services/ExpiryWatcherService';
+import { startTransactionOutbox } from '@/services/TransactionOutboxService';
+import { startChainHead, stopChainHead } from '@/services/ChainHeadService';
 import { useXellarWallet } from '@/hooks/use-xellar-wallet';
+import { useChainId } from 'wagmi';
 import { useLocation } from 'react-router-dom';
 
 // Create context
@@ -18,6 +22,7 @@ const DataContext = createContext<DataContextType | undefined>(undefined);
 export const DataProvider = ({ children }: { children: ReactNode }) => {
   const [isInitialized, setIsInitialized] = useState(false);
   const { isConnected, address } = useXellarWallet();
+  const chainId = useChainId();
   const location = useLocation();
 
   // Initialize data services when wallet is connected
@@ -33,6 +38,29 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [isConnected, address, isInitialized]);
 
+  // Reconcile transactions sent before the last reload
+  useEffect(() => {
+    startTransactionOutbox();
+  }, []);
+
+  // Watch the wallet's transfers for upcoming and past expiries
+  useEffect(() => {
+    if (isConnected && address && isInitialized) {
+      startExpiryWatcher(address);
+    } else {
+      stopExpiryWatcher();
+    }
+  }, [address, isConnected, isInitialized]);
+
+  // Refresh data as new blocks touch it
+  useEffect(() => {
+    if (isConnected && address && isInitialized) {
+      startChainHead(address, chainId);
+    } else {
+      stopChainHead();
+    }
+  }, [address, chainId, isConnected, isInitialized]);
+
   // Refresh all data when wallet changes or route changes
   useEffect(() => {
     if (isConnected && address && isInitialized) {
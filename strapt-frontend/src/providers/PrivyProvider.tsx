@@ -3,16 +3,11 @@ import { PrivyProvider as PrivyProviderCore } from '@privy-io/react-auth';
 import { WagmiProvider, createConfig } from 'wagmi';
 import { http } from 'viem';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { seiTestnet } from '@/lib/chains';
-import { sepolia, baseSepolia } from 'viem/chains';
+import { SUPPORTED_CHAINS, DEFAULT_CHAIN } from '@/lib/chains';
 
 const config = createConfig({
-  chains: [sepolia, seiTestnet, baseSepolia],
-  transports: {
-    [sepolia.id]: http(),
-    [seiTestnet.id]: http(),
-    [baseSepolia.id]: http(),
-  },
+  chains: SUPPORTED_CHAINS,
+  transports: Object.fromEntries(SUPPORTED_CHAINS.map((chain) => [chain.id, http()])),
 });
 
 const queryClient = new QueryClient();
@@ -37,8 +32,8 @@ export function PrivyProvider({ children }: { children: React.ReactNode }) {
               createOnLogin: 'users-without-wallets',
               showWalletUIs: true,
             },
-            defaultChain: seiTestnet,
-            supportedChains: [sepolia, seiTestnet, baseSepolia],
+            defaultChain: DEFAULT_CHAIN,
+            supportedChains: [...SUPPORTED_CHAINS],
             walletConnectCloudProjectId: import.meta.env.VITE_WALLETCONNECT_PROJECT_ID,
           }}
         >
@@ -2,7 +2,7 @@ import React from "react";
 import { Config, WagmiProvider } from "wagmi";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { XellarKitProvider, defaultConfig, darkTheme } from "@xellar/kit";
-import { liskSepolia, baseSepolia } from "viem/chains";
+import { SUPPORTED_CHAINS } from "@/lib/chains";
 
 const walletConnectProjectId = "0a6602a98f8e6ca23405a5c8cd8805e8";
 const xellarAppId = "9ea103ba-8504-47c6-bb66-980f139368e6";
@@ -12,7 +12,7 @@ export const config = defaultConfig({
   walletConnectProjectId,
   xellarAppId,
   xellarEnv: "production",
-  chains: [liskSepolia, baseSepolia],
+  chains: SUPPORTED_CHAINS,
   enableWalletConnect: true,
   enableXellarWallet: true,
 }) as Config;
@@ -0,0 +1,158 @@
+import { erc20Abi, maxUint256 } from 'viem';
+import { getAccount, getChainId, getPublicClient, simulateContract, writeContract } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import { getRegisteredTokens, type RegisteredToken } from './TokenRegistryService';
+import { findContractAddress, type ContractName } from './ContractRegistryService';
+import { trackTransaction, waitForTransaction } from './TransactionOutboxService';
+
+/**
+ * Token approvals
+ *
+ * The allowances each STRAPT contract holds over the user's tokens, and the
+ * approval policy every create flow follows: unlimited approvals save a
+ * transaction next time, exact approvals leave nothing behind to drain.
+ */
+
+export type ApprovalMode = 'unlimited' | 'exact';
+
+// How much of the user's funds an allowance exposes
+export type AllowanceRisk = 'none' | 'limited' | 'balance' | 'unlimited';
+
+export interface TokenAllowance {
+  token: RegisteredToken;
+  contract: ContractName;
+  spender: `0x${string}`;
+  allowance: bigint;
+  balance: bigint;
+  risk: AllowanceRisk;
+}
+
+// Contracts that pull tokens from the user with transferFrom
+export const SPENDER_CONTRACTS: ContractName[] = [
+  'ProtectedTransferV2',
+  'ProtectedTransfer',
+  'ProtectedEscrow',
+  'PaymentStream',
+  'StraptDrop',
+];
+
+const APPROVAL_MODE_KEY = 'strapt-approval-mode';
+
+// Some tokens spend down even a max allowance, so anything this large still counts as unlimited
+const UNLIMITED_THRESHOLD = maxUint256 / 2n;
+
+/**
+ * Get the approval policy for create flows
+ * @returns 'unlimited' (the default) or 'exact'
+ */
+export const getApprovalMode = (): ApprovalMode => {
+  return localStorage.getItem(APPROVAL_MODE_KEY) === 'exact' ? 'exact' : 'unlimited';
+};
+
+/**
+ * Set the approval policy for create flows
+ * @param mode The new policy
+ */
+export const setApprovalMode = (mode: ApprovalMode) => {
+  localStorage.setItem(APPROVAL_MODE_KEY, mode);
+};
+
+/**
+ * Get the allowance a create flow should approve for a payment
+ * @param amount The amount the contract is about to pull, in token units
+ * @returns The amount itself in exact mode, otherwise the maximum allowance
+ */
+export const getApprovalAmount = (amount: bigint): bigint => {
+  return getApprovalMode() === 'exact' ? amount : maxUint256;
+};
+
+/**
+ * Rate an allowance against the owner's balance
+ * @param allowance The allowance, in token units
+ * @param balance The owner's balance, in token units
+ */
+export const getAllowanceRisk = (allowance: bigint, balance: bigint): AllowanceRisk => {
+  if (allowance === 0n) return 'none';
+  if (allowance >= UNLIMITED_THRESHOLD) return 'unlimited';
+  if (allowance >= balance) return 'balance';
+  return 'limited';
+};
+
+/**
+ * Check whether an allowance is effectively unlimited
+ * @param allowance The allowance, in token units
+ */
+export const isUnlimitedAllowance = (allowance: bigint): boolean => allowance >= UNLIMITED_THRESHOLD;
+
+/**
+ * Read the allowance of every registered token for every STRAPT contract on a chain
+ * @param owner The token owner
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns One entry per token and deployed contract, in registry order
+ */
+export const fetchAllowances = async (owner: `0x${string}`, chainId?: number): Promise<TokenAllowance[]> => {
+  const id = chainId ?? getChainId(config);
+  const client = getPublicClient(config, { chainId: id });
+  if (!client) return [];
+
+  const spenders = SPENDER_CONTRACTS.flatMap((contract) => {
+    const spender = findContractAddress(contract, id);
+    return spender ? [{ contract, spender }] : [];
+  });
+
+  return Promise.all(getRegisteredTokens(id).map(async (token) => {
+    const balance = await client.readContract({
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [owner],
+    });
+
+    return Promise.all(spenders.map(async ({ contract, spender }): Promise<TokenAllowance> => {
+      const allowance = await client.readContract({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [owner, spender],
+      });
+      return { token, contract, spender, allowance, balance, risk: getAllowanceRisk(allowance, balance) };
+    }));
+  })).then((rows) => rows.flat());
+};
+
+/**
+ * Set a contract's allowance over a token, replacing the current one
+ * @param token The token
+ * @param spender The contract address
+ * @param amount The new allowance in token units; 0 revokes it
+ * @returns The transaction hash
+ */
+export const setAllowance = async (token: RegisteredToken, spender: `0x${string}`, amount: bigint): Promise<`0x${string}`> => {
+  const account = getAccount(config);
+  if (!account || !account.address) {
+    throw new Error("No wallet connected");
+  }
+
+  const { request } = await simulateContract(config, {
+    address: token.address,
+    abi: erc20Abi,
+    functionName: 'approve',
+    args: [spender, amount],
+    account: account.address,
+    chainId: token.chainId,
+  });
+
+  const hash = await writeContract(config, request);
+  trackTransaction({
+    hash,
+    type: 'approve',
+    description: amount === 0n ? `Revoke ${token.symbol} approval` : `Set ${token.symbol} approval`,
+    chainId: token.chainId,
+    tokenSymbol: token.symbol,
+  });
+  const receipt = await waitForTransaction(hash);
+  if (receipt.status !== 'success') {
+    throw new Error('Approval transaction failed on-chain');
+  }
+  return hash;
+};
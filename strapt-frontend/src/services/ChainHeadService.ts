@@ -0,0 +1,140 @@
+import { getPublicClient, watchBlockNumber } from 'wagmi/actions';
+import { pad, toEventSelector } from 'viem';
+import { config } from '@/providers/XellarProvider';
+import { findContractAddress, type ContractName } from './ContractRegistryService';
+import { getRegisteredTokens } from './TokenRegistryService';
+import { refreshData, DATA_TYPES, type DataType } from './DataSubscriptionService';
+
+/**
+ * Chain head
+ *
+ * One subscription to new blocks in place of per-service polling timers. The
+ * logs of each new block are fetched in a single call for our contracts and
+ * the registry tokens, and only the data they touch is refreshed: whatever a
+ * contract backs when it emits anything, and token balances when a Transfer
+ * involves the wallet.
+ */
+
+// Data each contract's events change; token movements show up as Transfer logs
+const CONTRACT_DATA: Partial<Record<ContractName, DataType[]>> = {
+  ProtectedTransferV2: ['transfers', 'claims'],
+  ProtectedTransfer: ['transfers', 'claims'],
+  PaymentStream: ['streams'],
+  StraptDrop: ['drops'],
+  ProtectedEscrow: ['escrows'],
+};
+
+const TRANSFER_TOPIC = toEventSelector('Transfer(address,address,uint256)');
+
+// Past this many unscanned blocks (e.g. after the tab slept) everything is refreshed instead
+const MAX_BLOCK_GAP = 1000n;
+
+// Watcher state
+let watchedAddress: string | null = null;
+let watchedChainId: number | null = null;
+let unwatch: (() => void) | null = null;
+let lastScannedBlock: bigint | null = null;
+let scanQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Refresh the data touched by the blocks since the last scan
+ * @param toBlock The new chain head
+ */
+const scanBlocks = async (toBlock: bigint) => {
+  const address = watchedAddress;
+  const chainId = watchedChainId;
+  if (!address || chainId === null) return;
+
+  // The first block only marks where scanning starts; data was loaded when the wallet connected
+  const fromBlock = lastScannedBlock === null ? toBlock + 1n : lastScannedBlock + 1n;
+  lastScannedBlock = toBlock;
+  if (fromBlock > toBlock) return;
+
+  if (toBlock - fromBlock >= MAX_BLOCK_GAP) {
+    for (const dataType of DATA_TYPES) {
+      refreshData(dataType);
+    }
+    return;
+  }
+
+  const contracts = new Map<string, DataType[]>();
+  for (const [name, dataTypes] of Object.entries(CONTRACT_DATA)) {
+    const contractAddress = findContractAddress(name as ContractName, chainId);
+    if (contractAddress) contracts.set(contractAddress.toLowerCase(), dataTypes);
+  }
+  const tokenAddresses = getRegisteredTokens(chainId).map((token) => token.address.toLowerCase());
+
+  try {
+    const client = getPublicClient(config, { chainId });
+    const logs = await client.getLogs({
+      address: [...contracts.keys(), ...tokenAddresses] as `0x${string}`[],
+      fromBlock,
+      toBlock,
+    });
+
+    // The wallet changed while the logs were loading
+    if (address !== watchedAddress || chainId !== watchedChainId) return;
+
+    const walletTopic = pad(address as `0x${string}`).toLowerCase();
+    const touched = new Set<DataType>();
+    for (const log of logs) {
+      const contractData = contracts.get(log.address.toLowerCase());
+      if (contractData) {
+        contractData.forEach((dataType) => touched.add(dataType));
+        continue;
+      }
+
+      // Undecoded, since no event was given; viem's type for these leaves out the topics
+      const topics = (log as { topics?: (`0x${string}` | null)[] }).topics ?? [];
+      if (
+        topics[0] === TRANSFER_TOPIC &&
+        (topics[1]?.toLowerCase() === walletTopic || topics[2]?.toLowerCase() === walletTopic)
+      ) {
+        touched.add('tokens');
+      }
+    }
+
+    for (const dataType of touched) {
+      refreshData(dataType);
+    }
+  } catch (error) {
+    console.error('Error scanning new blocks:', error);
+    // Scan these blocks again with the next one
+    if (address === watchedAddress && chainId === watchedChainId) {
+      lastScannedBlock = fromBlock - 1n;
+    }
+  }
+};
+
+/**
+ * Start refreshing a wallet's data as new blocks touch it
+ * @param address The connected wallet address
+ * @param chainId The connected chain ID
+ */
+export const startChainHead = (address: string, chainId: number) => {
+  if (watchedAddress?.toLowerCase() === address.toLowerCase() && watchedChainId === chainId) return;
+  stopChainHead();
+
+  watchedAddress = address;
+  watchedChainId = chainId;
+  unwatch = watchBlockNumber(config, {
+    chainId,
+    onBlockNumber: (blockNumber) => {
+      scanQueue = scanQueue.then(() => scanBlocks(blockNumber));
+    },
+    onError: (error) => {
+      console.error('Error watching new blocks:', error);
+    },
+  });
+};
+
+/**
+ * Stop watching new blocks
+ */
+export const stopChainHead = () => {
+  unwatch?.();
+  unwatch = null;
+  watchedAddress = null;
+  watchedChainId = null;
+  lastScannedBlock = null;
+};
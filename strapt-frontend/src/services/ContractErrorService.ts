@@ -0,0 +1,558 @@
+import { decodeErrorResult, isHex, type Abi, type Hex } from 'viem';
+import ProtectedTransferV2ABI from '@/contracts/ProtectedTransferV2.json';
+import ProtectedTransferABI from '@/contracts/ProtectedTransfer.json';
+import ProtectedEscrowABI from '@/contracts/ProtectedEscrow.json';
+import PaymentStreamABI from '@/contracts/PaymentStream.json';
+import StraptDropABI from '@/contracts/StraptDrop.json';
+import USDCFaucetABI from '@/contracts/USDCFaucet.json';
+import USDCMockABI from '@/contracts/USDCMock.json';
+
+/**
+ * Contract error decoding
+ *
+ * Turns a failed call's revert data into a typed error code with a
+ * plain-language explanation and what to do next. Custom errors are decoded
+ * against every STRAPT contract's ABI plus the tokens' ERC-20 errors, so a
+ * token revert surfacing through a transfer call is recognised too.
+ */
+
+export interface ContractErrorExplanation {
+  title: string;
+  description: string;
+  action?: string;       // Suggested next step for the user
+}
+
+type ExplanationFactory = (args: readonly unknown[]) => ContractErrorExplanation;
+
+const formatDuration = (seconds: unknown) => {
+  const total = Number(seconds);
+  if (!Number.isFinite(total) || total <= 0) return 'a moment';
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.ceil((total % 3600) / 60);
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+};
+
+const CONTRACT_ERRORS = {
+  // Shared input checks
+  InvalidAmount: {
+    title: 'Invalid amount',
+    description: 'The amount must be greater than zero',
+    action: 'Enter a larger amount and try again',
+  },
+  InvalidTokenAddress: {
+    title: 'Invalid token',
+    description: 'The selected token address is not valid',
+    action: 'Pick a different token',
+  },
+  TokenNotSupported: {
+    title: 'Token not supported',
+    description: "This contract doesn't accept the selected token on this network",
+    action: 'Pick one of the supported tokens',
+  },
+  InvalidExpiryTime: {
+    title: 'Invalid expiry',
+    description: 'The expiry time must be in the future',
+    action: 'Choose a later expiry and try again',
+  },
+  InvalidRecipient: {
+    title: 'Invalid recipient',
+    description: "The recipient address can't be empty or your own address",
+    action: 'Check the recipient address',
+  },
+  InvalidAddress: {
+    title: 'Invalid address',
+    description: 'One of the addresses in this transaction is empty',
+    action: 'Check the addresses and try again',
+  },
+  ZeroFeeCollector: {
+    title: 'Contract misconfigured',
+    description: 'The contract has no fee collector set',
+    action: 'Contact the STRAPT team',
+  },
+  ClaimSignatureExpired: {
+    title: 'Claim signature expired',
+    description: 'The signed claim was submitted after its deadline',
+    action: 'Claim again to sign a fresh request',
+  },
+  InvalidClaimSignature: {
+    title: 'Invalid claim signature',
+    description: "The signed claim doesn't match this wallet or request",
+    action: 'Claim again from the wallet that should receive the tokens',
+  },
+
+  // Protected transfers
+  TransferAlreadyExists: {
+    title: 'Duplicate transfer',
+    description: 'A transfer with the same details already exists',
+    action: 'Wait a few seconds and try again',
+  },
+  TransferDoesNotExist: {
+    title: 'Transfer not found',
+    description: "No transfer exists with this ID on the current network",
+    action: 'Check the link or switch to the network the transfer was sent on',
+  },
+  TransferExpired: {
+    title: 'Transfer expired',
+    description: 'This transfer passed its expiry and can no longer be claimed',
+    action: 'Ask the sender to refund it and send a new one',
+  },
+  TransferNotClaimable: {
+    title: 'Already claimed',
+    description: 'This transfer has already been claimed, refunded or cancelled',
+    action: 'Refresh to see its current status',
+  },
+  TransferNotRefundable: {
+    title: 'Not refundable',
+    description: 'Only unclaimed transfers can be refunded, and only after they expire',
+    action: 'Wait for the expiry, or check whether it was already claimed',
+  },
+  TransferNotExpired: {
+    title: 'Not expired yet',
+    description: "This transfer hasn't reached its expiry time",
+    action: 'Try again after it expires',
+  },
+  TransferNotCancellable: {
+    title: "Can't cancel",
+    description: 'This transfer has already been claimed, refunded or cancelled',
+    action: 'Refresh to see its current status',
+  },
+  NotTransferSender: {
+    title: 'Not allowed',
+    description: 'Only the sender of this transfer can do that',
+    action: 'Switch to the wallet that sent it',
+  },
+  NotSender: {
+    title: 'Not allowed',
+    description: 'Only the sender of this transfer can do that',
+    action: 'Switch to the wallet that sent it',
+  },
+  NotIntendedRecipient: {
+    title: 'Wrong recipient',
+    description: 'This transfer was sent to a different address',
+    action: 'Switch to the wallet it was sent to',
+  },
+  NotLinkTransfer: {
+    title: 'Not a link transfer',
+    description: 'This transfer was sent to a specific address and must be claimed by it',
+    action: 'Claim it from the recipient wallet',
+  },
+  InvalidClaimCode: {
+    title: 'Invalid claim code',
+    description: 'The claim code you entered is incorrect',
+    action: 'Check the code with the sender and try again',
+  },
+  PasswordProtected: {
+    title: 'Claim code required',
+    description: 'This transfer is protected by a claim code',
+    action: 'Enter the claim code the sender shared with you',
+  },
+  PasswordRequired: {
+    title: 'Claim code required',
+    description: 'This transfer needs a claim code',
+    action: 'Enter a claim code and try again',
+  },
+  CommitmentRequired: {
+    title: 'Claim step missing',
+    description: 'Link transfers are claimed in two steps to protect the claim code',
+    action: 'Claim again from the transfer link',
+  },
+  CommitmentAlreadyExists: {
+    title: 'Claim already started',
+    description: 'A claim for this transfer is already in progress',
+    action: 'Wait a few blocks and finish the claim',
+  },
+  CommitmentNotFound: {
+    title: 'Claim step missing',
+    description: "The first claim step wasn't found on-chain",
+    action: 'Start the claim again',
+  },
+  CommitmentTooRecent: {
+    title: 'Claim too soon',
+    description: 'The claim must wait a few blocks after its first step',
+    action: 'Wait a few seconds and try again',
+  },
+  InvalidBatchSize: {
+    title: 'Invalid batch',
+    description: 'A batch must contain at least one and no more than the maximum number of transfers',
+    action: 'Split the batch into smaller ones',
+  },
+  FeeExceedsMaximum: {
+    title: 'Fee too high',
+    description: 'The configured fee is above the allowed maximum',
+  },
+  InvalidFeeCollector: {
+    title: 'Contract misconfigured',
+    description: 'The contract has no valid fee collector set',
+    action: 'Contact the STRAPT team',
+  },
+  NotOwner: {
+    title: 'Not allowed',
+    description: 'Only the contract owner can do that',
+  },
+
+  // Escrow
+  EscrowAlreadyExists: {
+    title: 'Duplicate escrow',
+    description: 'An escrow with the same details already exists',
+    action: 'Wait a few seconds and try again',
+  },
+  EscrowDoesNotExist: {
+    title: 'Escrow not found',
+    description: 'No escrow exists with this ID on the current network',
+    action: 'Check the network the escrow was created on',
+  },
+  EscrowNotExpired: {
+    title: 'Escrow not expired',
+    description: 'An unapproved escrow can only be refunded once it expires',
+    action: 'Try again after it expires',
+  },
+  EscrowNotApprovable: {
+    title: 'Escrow already settled',
+    description: "This escrow's status changed and it can no longer be approved",
+    action: 'Refresh to see where it stands',
+  },
+  EscrowNotClaimable: {
+    title: 'Escrow not claimable',
+    description: "This escrow hasn't been approved yet or was already claimed",
+    action: 'Refresh to see where it stands',
+  },
+  EscrowNotDisputable: {
+    title: 'Escrow already settled',
+    description: 'This escrow can no longer be disputed',
+    action: 'Refresh to see where it stands',
+  },
+  EscrowNotDisputed: {
+    title: 'No open dispute',
+    description: 'Only a disputed escrow can be resolved',
+    action: 'Refresh to see where it stands',
+  },
+  EscrowNotRefundable: {
+    title: 'Not refundable',
+    description: 'This escrow was already approved, claimed or refunded',
+    action: 'Refresh to see where it stands',
+  },
+  InvalidParticipants: {
+    title: 'Invalid participants',
+    description: 'The sender, recipient and arbiter must be three different addresses',
+    action: 'Check the recipient and arbiter addresses',
+  },
+  InvalidShare: {
+    title: 'Invalid split',
+    description: "The recipient's share can't be more than 100%",
+    action: 'Enter a share between 0% and 100%',
+  },
+  ReasonTooLong: {
+    title: 'Reason too long',
+    description: 'The dispute reason is longer than the contract allows',
+    action: 'Shorten the reason and try again',
+  },
+  NotEscrowSender: {
+    title: 'Not allowed',
+    description: 'Only the sender of this escrow can do that',
+    action: 'Switch to the wallet that created it',
+  },
+  NotEscrowRecipient: {
+    title: 'Not allowed',
+    description: 'Only the recipient of this escrow can do that',
+    action: 'Switch to the recipient wallet',
+  },
+  NotEscrowParty: {
+    title: 'Not allowed',
+    description: "Your wallet isn't the sender or recipient of this escrow",
+    action: 'Switch to a wallet that is part of the escrow',
+  },
+  NotEscrowArbiter: {
+    title: 'Not allowed',
+    description: 'Only the arbiter of this escrow can do that',
+    action: 'Switch to the arbiter wallet',
+  },
+
+  // Payment streams
+  InvalidDuration: {
+    title: 'Invalid duration',
+    description: 'The stream duration must be greater than zero',
+    action: 'Choose a longer duration',
+  },
+  InvalidFee: {
+    title: 'Fee too high',
+    description: 'The configured stream fee is above the allowed maximum',
+  },
+  InvalidMilestonePercentage: {
+    title: 'Invalid milestones',
+    description: 'Each milestone needs a description and a percentage between 1 and 100',
+    action: 'Check the milestones and try again',
+  },
+  MilestoneAlreadyReleased: {
+    title: 'Milestone already released',
+    description: 'This milestone has already been paid out',
+    action: 'Refresh to see the stream progress',
+  },
+  MilestoneIndexOutOfBounds: {
+    title: 'Milestone not found',
+    description: "This stream doesn't have that milestone",
+    action: 'Refresh to see the stream milestones',
+  },
+  NotStreamRecipient: {
+    title: 'Not allowed',
+    description: 'Only the recipient of this stream can do that',
+    action: 'Switch to the recipient wallet',
+  },
+  NotStreamSender: {
+    title: 'Not allowed',
+    description: 'Only the creator of this stream can do that',
+    action: 'Switch to the wallet that created it',
+  },
+  StreamNotFound: {
+    title: 'Stream not found',
+    description: 'No stream exists with this ID on the current network',
+    action: 'Check the network the stream was created on',
+  },
+  StreamNotActive: {
+    title: 'Stream not active',
+    description: 'This stream is paused, completed or canceled',
+    action: 'Refresh to see its current status',
+  },
+  StreamAlreadyActive: {
+    title: 'Stream already active',
+    description: 'This stream is already running',
+    action: 'Refresh to see its current status',
+  },
+  StreamAlreadyPaused: {
+    title: 'Stream already paused',
+    description: 'This stream is already paused',
+    action: 'Refresh to see its current status',
+  },
+  StreamAlreadyCanceled: {
+    title: 'Stream already canceled',
+    description: 'This stream has already been canceled',
+    action: 'Refresh to see its current status',
+  },
+  StreamAlreadyCompleted: {
+    title: 'Stream already completed',
+    description: 'This stream has already streamed its full amount',
+    action: 'Withdraw any remaining balance instead',
+  },
+
+  // STRAPT Drop
+  DropNotFound: {
+    title: 'Drop not found',
+    description: 'No drop exists with this ID on the current network',
+    action: 'Check the link or switch to the network the drop was created on',
+  },
+  DropNotActive: {
+    title: 'Drop not active',
+    description: 'This drop has ended or been refunded',
+  },
+  DropExpired: {
+    title: 'Drop expired',
+    description: 'This drop passed its expiry and can no longer be claimed',
+  },
+  AllClaimsTaken: {
+    title: 'Drop fully claimed',
+    description: 'Every share of this drop has already been claimed',
+  },
+  AlreadyClaimed: {
+    title: 'Already claimed',
+    description: "You've already claimed from this drop",
+  },
+  NotCreator: {
+    title: 'Not allowed',
+    description: 'Only the creator of this drop can do that',
+    action: 'Switch to the wallet that created it',
+  },
+  NotExpiredYet: {
+    title: 'Not expired yet',
+    description: "This drop hasn't reached its expiry time",
+    action: 'Try again after it expires',
+  },
+  InvalidRecipients: {
+    title: 'Invalid recipients',
+    description: 'A drop needs at least one recipient',
+    action: 'Increase the number of recipients',
+  },
+  InvalidFeePercentage: {
+    title: 'Fee too high',
+    description: 'The configured drop fee is above the allowed maximum',
+  },
+  TransferFailed: {
+    title: 'Token transfer failed',
+    description: "The token contract didn't complete the transfer",
+    action: 'Check your balance and approval, then try again',
+  },
+
+  // USDC faucet
+  CooldownNotExpired: ([timeRemaining]) => ({
+    title: 'Cooldown period not expired',
+    description: 'You claimed from the faucet recently',
+    action: `Try again in ${formatDuration(timeRemaining)}`,
+  }),
+  MaxClaimLimitReached: () => ({
+    title: 'Maximum claim limit reached',
+    description: "You've claimed the most this faucet allows per address",
+  }),
+  InsufficientFaucetBalance: () => ({
+    title: 'Insufficient faucet balance',
+    description: "The faucet doesn't have enough USDC left for a claim",
+    action: 'Try again once it has been refilled',
+  }),
+  ZeroAddressNotAllowed: {
+    title: 'Invalid address',
+    description: "The address can't be empty",
+  },
+  ZeroAmountNotAllowed: {
+    title: 'Invalid amount',
+    description: 'The amount must be greater than zero',
+  },
+
+  // Token and access control errors
+  ERC20InsufficientAllowance: {
+    title: 'Insufficient allowance',
+    description: "The contract isn't approved to move this much of your token",
+    action: 'Approve the token and try again',
+  },
+  ERC20InsufficientBalance: {
+    title: 'Insufficient balance',
+    description: "You don't have enough of this token",
+    action: 'Top up your balance or send a smaller amount',
+  },
+  ERC20InvalidReceiver: {
+    title: 'Invalid recipient',
+    description: "Tokens can't be sent to the zero address",
+    action: 'Check the recipient address',
+  },
+  SafeERC20FailedOperation: {
+    title: 'Token transfer failed',
+    description: "The token contract didn't complete the transfer",
+    action: 'Check your balance and approval, then try again',
+  },
+  OwnableUnauthorizedAccount: {
+    title: 'Not allowed',
+    description: 'Only the contract owner can do that',
+  },
+  ReentrancyGuardReentrantCall: {
+    title: 'Transaction rejected',
+    description: 'The contract blocked a nested call',
+  },
+} satisfies Record<string, ContractErrorExplanation | ExplanationFactory>;
+
+/**
+ * Typed error codes: a known custom error's name, a `require` message
+ * (`RequireFailed`), a Solidity panic (`Panic`), or a revert the app
+ * doesn't recognise (`UnknownRevert`)
+ */
+export type ContractErrorCode = keyof typeof CONTRACT_ERRORS | 'RequireFailed' | 'Panic' | 'UnknownRevert';
+
+export interface DecodedContractError extends ContractErrorExplanation {
+  code: ContractErrorCode;
+  errorName: string;            // Name as it appears in the ABI, e.g. "TransferExpired"
+  args: readonly unknown[];
+}
+
+type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+// Every error the STRAPT contracts and tokens can revert with, deduplicated by signature
+const ERROR_ABI: Abi = (() => {
+  const seen = new Set<string>();
+  const abis = [
+    ProtectedTransferV2ABI.abi,
+    ProtectedTransferABI.abi,
+    ProtectedEscrowABI.abi,
+    PaymentStreamABI.abi,
+    StraptDropABI.abi,
+    USDCFaucetABI.abi,
+    USDCMockABI.abi,
+  ] as Abi[];
+  return abis
+    .flat()
+    .filter((item): item is AbiError => {
+      if (item.type !== 'error') return false;
+      const signature = `${item.name}(${item.inputs.map((input) => input.type).join(',')})`;
+      if (seen.has(signature)) return false;
+      seen.add(signature);
+      return true;
+    });
+})();
+
+const isKnownError = (name: string): name is keyof typeof CONTRACT_ERRORS =>
+  Object.prototype.hasOwnProperty.call(CONTRACT_ERRORS, name);
+
+const explain = (errorName: string, args: readonly unknown[]): DecodedContractError => {
+  if (isKnownError(errorName)) {
+    const entry: ContractErrorExplanation | ExplanationFactory = CONTRACT_ERRORS[errorName];
+    return { code: errorName, errorName, args, ...(typeof entry === 'function' ? entry(args) : entry) };
+  }
+  if (errorName === 'Error') {
+    return {
+      code: 'RequireFailed',
+      errorName,
+      args,
+      title: 'Transaction reverted',
+      description: String(args[0] ?? 'The contract rejected this transaction'),
+    };
+  }
+  if (errorName === 'Panic') {
+    return {
+      code: 'Panic',
+      errorName,
+      args,
+      title: 'Contract error',
+      description: `The contract hit an internal error (code 0x${Number(args[0] ?? 0).toString(16)})`,
+      action: 'Contact the STRAPT team if this keeps happening',
+    };
+  }
+  return {
+    code: 'UnknownRevert',
+    errorName,
+    args,
+    title: 'Transaction reverted',
+    description: `The contract rejected this transaction (${errorName})`,
+  };
+};
+
+// Walks an error and its causes for raw revert data; viem keeps it on `raw`, RPC errors on `data`
+const findRevertData = (error: unknown): Hex | undefined => {
+  let current = error;
+  for (let depth = 0; current && typeof current === 'object' && depth < 10; depth++) {
+    const { raw, data, cause } = current as { raw?: unknown; data?: unknown; cause?: unknown };
+    const nested = data && typeof data === 'object' ? (data as { data?: unknown }).data : undefined;
+    for (const candidate of [raw, data, nested]) {
+      if (typeof candidate === 'string' && isHex(candidate) && candidate.length >= 10) {
+        return candidate;
+      }
+    }
+    current = cause;
+  }
+  return undefined;
+};
+
+/**
+ * Decode why a contract call reverted
+ * @param error The error thrown by a simulate, write or read
+ * @returns The decoded error, or null if the error isn't a contract revert
+ */
+export const decodeContractError = (error: unknown): DecodedContractError | null => {
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: ERROR_ABI, data });
+      return explain(errorName, args ?? []);
+    } catch {
+      return explain(data.slice(0, 10), []);
+    }
+  }
+
+  // Some wallets only pass the message along, which still names the custom error
+  const { shortMessage, message } = (error ?? {}) as { shortMessage?: string; message?: string };
+  const text = `${shortMessage ?? ''} ${message ?? ''}`;
+  const errorName = text.match(/\b[A-Z][A-Za-z0-9]+\b/g)?.find(isKnownError);
+  return errorName ? explain(errorName, []) : null;
+};
+
+/**
+ * Describe a decoded error in one line, with its next step
+ * @param decoded The decoded error
+ * @returns The explanation followed by the suggested action
+ */
+export const describeContractError = (decoded: ContractErrorExplanation): string =>
+  decoded.action ? `${decoded.description}. ${decoded.action}.` : `${decoded.description}.`;
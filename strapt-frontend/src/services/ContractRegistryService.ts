@@ -0,0 +1,137 @@
+import { getChainId } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import { SUPPORTED_CHAINS, getSupportedChain } from '@/lib/chains';
+import contractConfig from '@/contracts/contract-config.json';
+
+/**
+ * Contract registry
+ *
+ * Where each STRAPT contract is deployed, per chain. Deployments come from
+ * `contracts/contract-config.json`, which the contracts' deploy scripts keep
+ * up to date, so a new network only needs a deploy and a supported chain.
+ */
+
+export type ContractName =
+  | 'ProtectedTransferV2'
+  | 'ProtectedTransfer'
+  | 'PaymentStream'
+  | 'StraptDrop'
+  | 'USDCFaucet'
+  | 'ProtectedEscrow';
+
+export interface ContractDeployment {
+  address: `0x${string}`;
+  deploymentBlock?: number;     // Block the contract was created in, where event scans start
+  supportedTokens?: Record<string, string>;
+  feeInBasisPoints?: number;
+  tokenAddress?: string;
+  claimAmount?: string;
+  cooldownPeriod?: number;
+  maxClaimPerAddress?: string;
+}
+
+// Deployments per chain, keyed by contract name
+const deployments = new Map<number, Partial<Record<ContractName, ContractDeployment>>>(
+  Object.entries(contractConfig as Record<string, Partial<Record<ContractName, ContractDeployment>>>).map(
+    ([chainId, contracts]) => [Number(chainId), contracts]
+  )
+);
+
+/**
+ * Get a contract's deployment on a chain
+ * @param name The contract name
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The deployment, or undefined if the contract isn't deployed there
+ */
+export const findContractDeployment = (name: ContractName, chainId?: number): ContractDeployment | undefined => {
+  const deployment = deployments.get(chainId ?? getChainId(config))?.[name];
+  return deployment?.address ? deployment : undefined;
+};
+
+/**
+ * Get the deployment of whichever registry contract lives at an address
+ * @param address The contract address
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The deployment, or undefined if the address isn't one of ours
+ */
+export const findDeploymentByAddress = (address: string, chainId?: number): ContractDeployment | undefined => {
+  const contracts = deployments.get(chainId ?? getChainId(config)) ?? {};
+  return Object.values(contracts).find((deployment) => deployment?.address?.toLowerCase() === address.toLowerCase());
+};
+
+/**
+ * Get a contract's address on a chain
+ * @param name The contract name
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The address, or undefined if the contract isn't deployed there
+ */
+export const findContractAddress = (name: ContractName, chainId?: number): `0x${string}` | undefined => {
+  return findContractDeployment(name, chainId)?.address;
+};
+
+/**
+ * Get a contract's deployment on a chain, failing if it isn't deployed there
+ * @param name The contract name
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The deployment
+ */
+export const getContractDeployment = (name: ContractName, chainId?: number): ContractDeployment => {
+  const id = chainId ?? getChainId(config);
+  const deployment = findContractDeployment(name, id);
+  if (!deployment) {
+    const network = getSupportedChain(id)?.name ?? `chain ${id}`;
+    throw new Error(`${name} is not deployed on ${network}`);
+  }
+  return deployment;
+};
+
+/**
+ * Get a contract's address on a chain, failing if it isn't deployed there
+ * @param name The contract name
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The address
+ */
+export const getContractAddress = (name: ContractName, chainId?: number): `0x${string}` => {
+  return getContractDeployment(name, chainId).address;
+};
+
+/**
+ * Check whether a contract is deployed on a chain
+ * @param name The contract name
+ * @param chainId The chain ID (defaults to the connected chain)
+ */
+export const isContractDeployed = (name: ContractName, chainId?: number): boolean => {
+  return !!findContractDeployment(name, chainId);
+};
+
+/**
+ * Check whether a deployment is of the current contracts
+ * The deploy scripts record the deployment block since commit-reveal claims, cancelling,
+ * batch refunds, batch transfers, permits and relayed claims were added; entries without
+ * one are older deployments where those calls revert
+ * @param deployment The deployment
+ */
+export const isCurrentDeployment = (deployment: ContractDeployment): boolean => {
+  return deployment.deploymentBlock !== undefined;
+};
+
+/**
+ * Check whether the current version of a contract is deployed on a chain
+ * @param name The contract name
+ * @param chainId The chain ID (defaults to the connected chain)
+ */
+export const isCurrentContractDeployed = (name: ContractName, chainId?: number): boolean => {
+  const deployment = findContractDeployment(name, chainId);
+  return !!deployment && isCurrentDeployment(deployment);
+};
+
+/**
+ * Get the supported chains a contract is deployed on
+ * @param name The contract name
+ * @param currentOnly Leave out chains that only have an older deployment
+ * @returns The chain IDs, in selector order
+ */
+export const getDeployedChainIds = (name: ContractName, currentOnly = false): number[] => {
+  const isDeployed = currentOnly ? isCurrentContractDeployed : isContractDeployed;
+  return SUPPORTED_CHAINS.map((chain) => chain.id).filter((chainId) => isDeployed(name, chainId));
+};
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 // Define types for data subscriptions
 export type DataType =
@@ -6,10 +6,14 @@ export type DataType =
   | 'transfers'
   | 'streams'
   | 'drops'
+  | 'escrows'
   | 'claims'
   | 'profile'
   | 'balances';
 
+// Every data type, for refreshing them all at once
+export const DATA_TYPES: DataType[] = ['tokens', 'transfers', 'streams', 'drops', 'escrows', 'claims', 'profile', 'balances'];
+
 // Generic type for data
 export type DataRecord<T = unknown> = {
   data: T;
@@ -20,7 +24,6 @@ export type DataSubscription<T = unknown> = {
   id: string;
   dataType: DataType;
   callback: (data: T) => void;
-  refreshInterval?: number;
   lastUpdated?: number;
 };
 
@@ -34,27 +37,8 @@ export type DataUpdate<T = unknown> = {
 const subscriptions = new Map<string, DataSubscription<unknown>>();
 const dataCache = new Map<DataType, DataRecord<unknown>>();
 
-// Default refresh intervals in milliseconds
-const DEFAULT_REFRESH_INTERVALS: Record<DataType, number> = {
-  tokens: 30000,      // 30 seconds
-  transfers: 60000,   // 1 minute
-  streams: 120000,    // 2 minutes
-  drops: 120000,      // 2 minutes
-  claims: 60000,      // 1 minute
-  profile: 300000,    // 5 minutes
-  balances: 30000,    // 30 seconds
-};
-
-// UI update intervals (for local updates without fetching)
-const UI_UPDATE_INTERVALS: Record<DataType, number> = {
-  tokens: 0,          // No local updates
-  transfers: 0,       // No local updates
-  streams: 5000,      // 5 seconds
-  drops: 0,           // No local updates
-  claims: 0,          // No local updates
-  profile: 0,         // No local updates
-  balances: 0,        // No local updates
-};
+// Listeners that reload their own data when a type is refreshed, e.g. hooks holding a query
+const refreshListeners = new Map<DataType, Set<() => void>>();
 
 // Flag to track if the service is initialized
 let isInitialized = false;
@@ -68,16 +52,16 @@ export const initDataSubscriptionService = () => {
   // Set up window focus event listener for refreshing data
   window.addEventListener('focus', () => {
     // Refresh all data types when window regains focus
-    for (const dataType of Object.keys(DEFAULT_REFRESH_INTERVALS)) {
-      refreshData(dataType as DataType);
+    for (const dataType of DATA_TYPES) {
+      refreshData(dataType);
     }
   });
 
   // Set up online event listener for refreshing data when reconnecting
   window.addEventListener('online', () => {
     // Refresh all data types when coming back online
-    for (const dataType of Object.keys(DEFAULT_REFRESH_INTERVALS)) {
-      refreshData(dataType as DataType);
+    for (const dataType of DATA_TYPES) {
+      refreshData(dataType);
     }
   });
 
@@ -88,13 +72,11 @@ export const initDataSubscriptionService = () => {
  * Subscribe to data updates
  * @param dataType The type of data to subscribe to
  * @param callback Function to call when data is updated
- * @param refreshInterval Optional custom refresh interval
  * @returns Subscription ID
  */
 export const subscribeToData = <T = unknown>(
   dataType: DataType,
-  callback: (data: T) => void,
-  refreshInterval?: number
+  callback: (data: T) => void
 ): string => {
   const subscriptionId = `${dataType}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
@@ -102,7 +84,6 @@ export const subscribeToData = <T = unknown>(
     id: subscriptionId,
     dataType,
     callback: callback as (data: unknown) => void, // Type cast for storage
-    refreshInterval: refreshInterval || DEFAULT_REFRESH_INTERVALS[dataType],
     lastUpdated: Date.now(),
   });
 
@@ -174,19 +155,48 @@ export const refreshData = (dataType: DataType): void => {
     // Default implementation (just logs)
     console.log(`Refreshing data for ${dataType} (no custom handler set)`);
   }
+
+  for (const listener of refreshListeners.get(dataType) ?? []) {
+    listener();
+  }
+};
+
+/**
+ * Listen for refreshes of a data type
+ * @param dataType The type of data to listen for
+ * @param listener Function to call whenever the type is refreshed
+ * @returns Function to stop listening
+ */
+export const onDataRefresh = (dataType: DataType, listener: () => void): (() => void) => {
+  const typeListeners = refreshListeners.get(dataType) ?? new Set<() => void>();
+  typeListeners.add(listener);
+  refreshListeners.set(dataType, typeListeners);
+  return () => {
+    typeListeners.delete(listener);
+  };
+};
+
+/**
+ * Hook to reload data whenever its type is refreshed
+ * @param dataType The type of data to listen for
+ * @param reload Function that reloads the data; the latest one is called
+ */
+export const useDataRefresh = (dataType: DataType, reload: () => void) => {
+  const reloadRef = useRef(reload);
+  reloadRef.current = reload;
+
+  useEffect(() => onDataRefresh(dataType, () => reloadRef.current()), [dataType]);
 };
 
 /**
  * Hook to subscribe to data updates
  * @param dataType The type of data to subscribe to
  * @param initialData Optional initial data
- * @param refreshInterval Optional custom refresh interval
  * @returns [data, isLoading, error, refresh]
  */
 export const useDataSubscription = <T>(
   dataType: DataType,
-  initialData?: T,
-  refreshInterval?: number
+  initialData?: T
 ): [T | null, boolean, Error | null, () => void] => {
   const [data, setData] = useState<T | null>(initialData || null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -200,8 +210,7 @@ export const useDataSubscription = <T>(
         setData(newData);
         setIsLoading(false);
         setError(null);
-      },
-      refreshInterval
+      }
     );
 
     // Trigger initial data load
@@ -216,7 +225,7 @@ export const useDataSubscription = <T>(
     return () => {
       unsubscribeFromData(subscriptionId);
     };
-  }, [dataType, refreshInterval]);
+  }, [dataType]);
 
   // Function to manually refresh data
   const refresh = () => {
@@ -0,0 +1,255 @@
+import { decodeEventLog, toEventSelector, type AbiEvent } from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+import { liskSepolia, baseSepolia } from 'viem/chains';
+import { config } from '@/providers/XellarProvider';
+import { openDatabase, getRecord, putRecords } from '@/lib/indexedDb';
+import { findDeploymentByAddress } from './ContractRegistryService';
+
+/**
+ * Query for the logs of a single contract event
+ * `args` filters on indexed parameters, e.g. { creator: address }
+ */
+export interface EventQuery {
+  address: `0x${string}`;
+  event: AbiEvent;
+  args?: Record<string, string>;
+  fromBlock?: bigint;
+}
+
+/**
+ * A decoded contract log, independent of where it was fetched from
+ */
+export interface ContractEventLog<TArgs = Record<string, unknown>> {
+  eventName: string;
+  args: TArgs;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+/**
+ * Backend used to read historical contract events
+ */
+export interface EventSource {
+  name: string;
+  getLogs: <TArgs = Record<string, unknown>>(query: EventQuery) => Promise<ContractEventLog<TArgs>[]>;
+}
+
+// Blockscout API per chain; chains missing here (e.g. a local Hardhat node) use plain RPC
+const BLOCKSCOUT_API_URLS: Record<number, string> = {
+  [liskSepolia.id]: 'https://sepolia-blockscout.lisk.com/api',
+  [baseSepolia.id]: 'https://base-sepolia.blockscout.com/api',
+};
+
+// Smallest block range we split down to when an RPC rejects a getLogs range
+const MIN_BLOCK_RANGE = 1000n;
+
+// Safety limit on Blockscout pagination; longer histories go to the fallback source
+const MAX_BLOCKSCOUT_PAGES = 50;
+
+// Blocks to stay behind the chain head before logs are saved, so short reorgs never reach them
+const CONFIRMATION_BLOCKS = 2n;
+
+// Logs the RPC source has already scanned, per query, so each call only reads the blocks since
+const DB_NAME = 'strapt-event-source';
+const DB_VERSION = 1;
+const QUERIES_STORE = 'queries';
+
+interface IndexedQuery {
+  key: string;               // `${chainId}:${address}:${topic0}:${args}`
+  lastIndexedBlock: number;
+  logs: ContractEventLog[];  // Stored by structured clone, so bigint args survive
+}
+
+const getDatabase = () => openDatabase(DB_NAME, DB_VERSION, [
+  { name: QUERIES_STORE, keyPath: 'key' },
+]);
+
+type PublicClient = NonNullable<ReturnType<typeof getPublicClient>>;
+
+/**
+ * Find the block a contract was deployed in
+ * The contract registry records it for our own deployments; anything else is found with a
+ * binary search over getCode, or scanned from genesis when the node has no history for that
+ * @param client The chain's public client
+ * @param address The contract address
+ * @param headBlock The current chain head
+ */
+export const findContractStartBlock = async (
+  client: PublicClient,
+  address: `0x${string}`,
+  headBlock: bigint
+): Promise<bigint> => {
+  const deploymentBlock = findDeploymentByAddress(address, client.chain.id)?.deploymentBlock;
+  if (deploymentBlock !== undefined) return BigInt(deploymentBlock);
+
+  let low = 0n;
+  let high = headBlock;
+  try {
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      const code = await client.getCode({ address, blockNumber: mid });
+      if (code && code !== '0x') {
+        high = mid;
+      } else {
+        low = mid + 1n;
+      }
+    }
+  } catch (error) {
+    console.warn('Could not find the deployment block, scanning from genesis:', address, error);
+    return 0n;
+  }
+
+  return low;
+};
+
+/**
+ * Check decoded args against the indexed parameter filter
+ */
+const matchesArgs = (args: Record<string, unknown>, filter?: Record<string, string>): boolean => {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, value]) =>
+    String(args[key] ?? '').toLowerCase() === value.toLowerCase()
+  );
+};
+
+/**
+ * Event source backed by the Blockscout v2 logs API
+ * Blockscout only filters by topic0, so indexed args are matched after decoding. Logs come
+ * newest first, so paging stops at the first log older than fromBlock; a history longer
+ * than the page limit is read from the fallback source instead of being cut short
+ * @param apiUrl Base Blockscout API URL, e.g. https://sepolia-blockscout.lisk.com/api
+ * @param fallback Source for queries with more pages than the limit (throws without one)
+ */
+export const createBlockscoutEventSource = (apiUrl: string, fallback?: EventSource): EventSource => ({
+  name: 'blockscout',
+  getLogs: async <TArgs,>(query: EventQuery) => {
+    const { address, event, args, fromBlock } = query;
+    const topic0 = toEventSelector(event);
+    const logs: ContractEventLog<TArgs>[] = [];
+    let nextPageParams: Record<string, string> | null = null;
+    let reachedFromBlock = false;
+
+    for (let page = 0; page < MAX_BLOCKSCOUT_PAGES; page++) {
+      const params = new URLSearchParams({ topic0, ...(nextPageParams || {}) });
+      const response = await fetch(`${apiUrl}/v2/addresses/${address}/logs?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch events from Blockscout API (${response.status})`);
+      }
+
+      const body = await response.json();
+
+      for (const item of body.items || []) {
+        const blockNumber = BigInt(item.block_number ?? 0);
+        if (fromBlock !== undefined && blockNumber < fromBlock) {
+          reachedFromBlock = true;
+          break;
+        }
+
+        try {
+          const decoded = decodeEventLog({
+            abi: [event],
+            data: item.data,
+            topics: (item.topics as (`0x${string}` | null)[]).filter(Boolean) as [`0x${string}`, ...`0x${string}`[]],
+          }) as { eventName: string; args: unknown };
+
+          const decodedArgs = decoded.args as unknown as Record<string, unknown>;
+          if (!matchesArgs(decodedArgs, args)) continue;
+
+          logs.push({
+            eventName: decoded.eventName,
+            args: decodedArgs as TArgs,
+            blockNumber,
+            transactionHash: item.transaction_hash ?? item.tx_hash,
+          });
+        } catch (e) {
+          // Another event sharing the same topic0 layout; not ours
+        }
+      }
+
+      nextPageParams = body.next_page_params || null;
+      if (!nextPageParams || reachedFromBlock) break;
+    }
+
+    if (nextPageParams && !reachedFromBlock) {
+      if (!fallback) {
+        throw new Error(`More than ${MAX_BLOCKSCOUT_PAGES} pages of ${event.name} logs on Blockscout for ${address}`);
+      }
+      console.warn(`Blockscout has more than ${MAX_BLOCKSCOUT_PAGES} pages of ${event.name} logs, reading them from ${fallback.name}:`, address);
+      return fallback.getLogs<TArgs>(query);
+    }
+
+    return logs;
+  },
+});
+
+/**
+ * Event source backed by eth_getLogs on the wallet's RPC
+ * Indexed args are filtered by the node, and rejected ranges are split in half. A query
+ * is first scanned from the contract's deployment block; the logs and the last scanned
+ * block are then kept in IndexedDB, so later calls only read the new blocks
+ * @param chainId The chain ID (defaults to the connected chain)
+ */
+export const createRpcEventSource = (chainId?: number): EventSource => ({
+  name: 'rpc',
+  getLogs: async <TArgs,>({ address, event, args, fromBlock }: EventQuery) => {
+    const client = getPublicClient(config, chainId === undefined ? undefined : { chainId });
+    if (!client) throw new Error('No public client available for the current chain');
+
+    type RpcLog = { eventName?: string; args?: unknown; blockNumber: bigint; transactionHash: `0x${string}` };
+
+    const fetchRange = async (from: bigint, to: bigint): Promise<RpcLog[]> => {
+      try {
+        return await client.getLogs({ address, event, args, fromBlock: from, toBlock: to });
+      } catch (error) {
+        const span = to - from + 1n;
+        if (span <= MIN_BLOCK_RANGE) throw error;
+
+        const middle = from + span / 2n;
+        const first = await fetchRange(from, middle - 1n);
+        const second = await fetchRange(middle, to);
+        return [...first, ...second];
+      }
+    };
+
+    const key = `${client.chain.id}:${address.toLowerCase()}:${toEventSelector(event)}:${JSON.stringify(args ?? {})}`;
+    const latestBlock = await client.getBlockNumber();
+    const safeHead = latestBlock - CONFIRMATION_BLOCKS;
+
+    // Without IndexedDB every call scans from the deployment block
+    const db = await getDatabase().catch(() => null);
+    const stored = db ? await getRecord<IndexedQuery>(db, QUERIES_STORE, key).catch(() => undefined) : undefined;
+
+    const scanFrom = stored
+      ? BigInt(stored.lastIndexedBlock) + 1n
+      : await findContractStartBlock(client, address, latestBlock);
+    const scanned: ContractEventLog[] = scanFrom > latestBlock ? [] : (await fetchRange(scanFrom, latestBlock)).map((log) => ({
+      eventName: log.eventName ?? event.name,
+      args: log.args as Record<string, unknown>,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    }));
+
+    // Save up to the confirmed head; newer logs are read again next time
+    const knownLogs = [...(stored?.logs ?? []), ...scanned.filter((log) => log.blockNumber <= safeHead)];
+    if (db && safeHead >= scanFrom) {
+      await putRecords<IndexedQuery>(db, QUERIES_STORE, [{ key, lastIndexedBlock: Number(safeHead), logs: knownLogs }])
+        .catch((error) => console.warn('Could not save scanned logs:', error));
+    }
+
+    return [...(stored?.logs ?? []), ...scanned]
+      .filter((log) => fromBlock === undefined || log.blockNumber >= fromBlock) as ContractEventLog<TArgs>[];
+  },
+});
+
+/**
+ * Pick the event source for a chain: Blockscout where we know an instance, RPC otherwise
+ * Blockscout falls back to RPC for histories longer than its page limit
+ * @param chainId The chain ID
+ * @returns The event source for the chain
+ */
+export const getEventSource = (chainId: number): EventSource => {
+  const blockscoutApiUrl = BLOCKSCOUT_API_URLS[chainId];
+  const rpcSource = createRpcEventSource(chainId);
+  return blockscoutApiUrl ? createBlockscoutEventSource(blockscoutApiUrl, rpcSource) : rpcSource;
+};
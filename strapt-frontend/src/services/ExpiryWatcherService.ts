@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { subscribeToData, unsubscribeFromData, refreshData } from './DataSubscriptionService';
+import { setTransfersDataAddress, fetchTransfersData } from './TransfersDataService';
+import { TransferDetails, TransferStatus } from '@/hooks/use-protected-transfer-v2';
+
+/**
+ * Something about to happen to a transfer that the user can act on
+ * - claim-expiring: a transfer to the user is about to lapse unclaimed
+ * - refund-available: a transfer the user sent lapsed and its tokens can be refunded
+ */
+export type ExpiryNotificationKind = 'claim-expiring' | 'refund-available';
+
+export interface ExpiryNotification {
+  id: string;               // `${kind}:${transferId}`, stable across re-evaluations
+  kind: ExpiryNotificationKind;
+  transferId: string;
+  amount: string;
+  tokenSymbol: string;
+  expiry: number;           // Unix seconds
+  counterparty: string;     // Sender for claims, recipient for refunds
+  read: boolean;
+}
+
+type NotificationListener = (notifications: ExpiryNotification[]) => void;
+
+interface TransfersData {
+  sent: TransferDetails[];
+  received: TransferDetails[];
+}
+
+interface NotificationState {
+  read: string[];
+  dismissed: string[];
+}
+
+const WARNING_WINDOW_KEY = 'strapt_expiry_warning_hours';
+const NOTIFICATION_STATE_KEY_PREFIX = 'strapt_expiry_notifications_';
+
+// How far ahead of expiry recipients are warned
+export const DEFAULT_EXPIRY_WARNING_HOURS = 6;
+export const EXPIRY_WARNING_OPTIONS = [1, 6, 24, 72];
+
+// Expiry is checked against the clock more often than transfers are refetched
+const EVALUATE_INTERVAL = 60000; // 1 minute
+
+// Watcher state
+let watchedAddress: string | null = null;
+let subscriptionId: string | null = null;
+let evaluateIntervalId: ReturnType<typeof setInterval> | null = null;
+let latestTransfers: TransfersData = { sent: [], received: [] };
+let notifications: ExpiryNotification[] = [];
+const listeners = new Set<NotificationListener>();
+
+/**
+ * Get the warning window for transfers about to expire
+ * @returns The window in hours
+ */
+export const getExpiryWarningWindow = (): number => {
+  const stored = Number(localStorage.getItem(WARNING_WINDOW_KEY));
+  return stored > 0 ? stored : DEFAULT_EXPIRY_WARNING_HOURS;
+};
+
+/**
+ * Set the warning window for transfers about to expire
+ * @param hours The window in hours
+ */
+export const setExpiryWarningWindow = (hours: number) => {
+  localStorage.setItem(WARNING_WINDOW_KEY, String(hours));
+  evaluate();
+};
+
+const loadState = (address: string): NotificationState => {
+  try {
+    const stored = localStorage.getItem(`${NOTIFICATION_STATE_KEY_PREFIX}${address.toLowerCase()}`);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error loading notification state:', error);
+  }
+  return { read: [], dismissed: [] };
+};
+
+const saveState = (address: string, state: NotificationState) => {
+  localStorage.setItem(`${NOTIFICATION_STATE_KEY_PREFIX}${address.toLowerCase()}`, JSON.stringify(state));
+};
+
+const emit = () => {
+  for (const listener of listeners) {
+    listener(notifications);
+  }
+};
+
+/**
+ * Work out the notifications for the latest transfers
+ * Claims only warn inside the window; refunds stay until the transfer is refunded or dismissed
+ */
+const evaluate = () => {
+  if (!watchedAddress) return;
+
+  const now = Math.floor(Date.now() / 1000);
+  const windowSeconds = getExpiryWarningWindow() * 3600;
+  const state = loadState(watchedAddress);
+  const next: ExpiryNotification[] = [];
+  const isWatched = (account: string) => account.toLowerCase() === watchedAddress?.toLowerCase();
+
+  // The cached transfers may still belong to the previous wallet right after switching
+  for (const transfer of latestTransfers.received) {
+    if (!isWatched(transfer.recipient)) continue;
+    if (transfer.status !== TransferStatus.Pending) continue;
+    // Claimable through the expiry second itself, as the contract allows
+    if (transfer.expiry < now || transfer.expiry - now > windowSeconds) continue;
+
+    next.push({
+      id: `claim-expiring:${transfer.id}`,
+      kind: 'claim-expiring',
+      transferId: transfer.id,
+      amount: transfer.amount,
+      tokenSymbol: transfer.tokenSymbol,
+      expiry: transfer.expiry,
+      counterparty: transfer.sender,
+      read: false,
+    });
+  }
+
+  for (const transfer of latestTransfers.sent) {
+    if (!isWatched(transfer.sender)) continue;
+    // The contract only refunds once the expiry has passed, not at the expiry second
+    if (transfer.status !== TransferStatus.Pending || now <= transfer.expiry) continue;
+
+    next.push({
+      id: `refund-available:${transfer.id}`,
+      kind: 'refund-available',
+      transferId: transfer.id,
+      amount: transfer.amount,
+      tokenSymbol: transfer.tokenSymbol,
+      expiry: transfer.expiry,
+      counterparty: transfer.recipient,
+      read: false,
+    });
+  }
+
+  notifications = next
+    .filter((notification) => !state.dismissed.includes(notification.id))
+    .map((notification) => ({ ...notification, read: state.read.includes(notification.id) }))
+    .sort((a, b) => a.expiry - b.expiry);
+
+  // Forget settled transfers so the stored state doesn't grow forever,
+  // but not before the first transfers arrive
+  if (latestTransfers.sent.length > 0 || latestTransfers.received.length > 0) {
+    const activeIds = new Set(next.map((notification) => notification.id));
+    saveState(watchedAddress, {
+      read: state.read.filter((id) => activeIds.has(id)),
+      dismissed: state.dismissed.filter((id) => activeIds.has(id)),
+    });
+  }
+
+  emit();
+};
+
+/**
+ * Start watching the transfers of an address for upcoming and past expiries
+ * @param address The connected wallet address
+ */
+export const startExpiryWatcher = (address: string) => {
+  if (watchedAddress?.toLowerCase() === address.toLowerCase()) return;
+  stopExpiryWatcher();
+
+  watchedAddress = address;
+  setTransfersDataAddress(address);
+
+  subscriptionId = subscribeToData<TransfersData>('transfers', (data) => {
+    latestTransfers = data;
+    evaluate();
+  });
+  evaluateIntervalId = setInterval(evaluate, EVALUATE_INTERVAL);
+
+  refreshData('transfers');
+};
+
+/**
+ * Stop watching and clear the notifications
+ */
+export const stopExpiryWatcher = () => {
+  if (subscriptionId) unsubscribeFromData(subscriptionId);
+  if (evaluateIntervalId) clearInterval(evaluateIntervalId);
+
+  subscriptionId = null;
+  evaluateIntervalId = null;
+  watchedAddress = null;
+  latestTransfers = { sent: [], received: [] };
+  notifications = [];
+  setTransfersDataAddress(null);
+  emit();
+};
+
+/**
+ * Refetch the watched transfers now, e.g. after claiming or refunding one
+ */
+export const refreshExpiryWatcher = async () => {
+  if (watchedAddress) await fetchTransfersData(true);
+};
+
+/**
+ * Subscribe to notification changes
+ * @param listener Called with the current notifications right away and on every change
+ * @returns Function to unsubscribe
+ */
+export const subscribeToNotifications = (listener: NotificationListener) => {
+  listeners.add(listener);
+  listener(notifications);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Mark all current notifications as read
+ */
+export const markAllNotificationsRead = () => {
+  if (!watchedAddress) return;
+  const state = loadState(watchedAddress);
+  saveState(watchedAddress, {
+    ...state,
+    read: Array.from(new Set([...state.read, ...notifications.map((notification) => notification.id)])),
+  });
+  evaluate();
+};
+
+/**
+ * Hide a notification for as long as it applies
+ * @param id The notification ID
+ */
+export const dismissNotification = (id: string) => {
+  if (!watchedAddress) return;
+  const state = loadState(watchedAddress);
+  saveState(watchedAddress, { ...state, dismissed: [...state.dismissed, id] });
+  evaluate();
+};
+
+/**
+ * Hook to use the expiry notifications of the connected wallet
+ */
+export const useExpiryNotifications = () => {
+  const [items, setItems] = useState<ExpiryNotification[]>(notifications);
+
+  useEffect(() => subscribeToNotifications(setItems), []);
+
+  return {
+    notifications: items,
+    unreadCount: items.filter((notification) => !notification.read).length,
+  };
+};
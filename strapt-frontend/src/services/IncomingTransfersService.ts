@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { formatUnits, parseAbiItem } from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import { findDeploymentByAddress } from './ContractRegistryService';
+import { getRegisteredTokens, findTokenByAddress } from './TokenRegistryService';
+import { useDataRefresh } from './DataSubscriptionService';
+
+/**
+ * Incoming token transfers
+ *
+ * Plain ERC-20 transfers of registry tokens into the wallet, which is how a
+ * payment request's EIP-681 QR and STRAPT's own direct send pay. Tokens coming
+ * out of our contracts (claims, stream withdrawals, drops) are left out, since
+ * those payments are matched through the contracts themselves. The scan resumes
+ * from the last block it reached, kept in localStorage per wallet and chain,
+ * and runs again whenever the chain head sees the wallet's tokens move.
+ */
+
+export interface IncomingTokenTransfer {
+  id: string;               // `${transactionHash}:${logIndex}`
+  tokenAddress: string;
+  tokenSymbol: string;
+  from: string;
+  amount: string;           // Formatted with the token's decimals
+  blockNumber: number;
+  timestamp: number;        // Unix seconds
+}
+
+interface IncomingTransfersState {
+  lastScannedBlock: number;
+  transfers: IncomingTokenTransfer[];
+}
+
+type IncomingTransfersListener = (transfers: IncomingTokenTransfer[]) => void;
+
+const STORAGE_KEY = 'strapt_incoming_token_transfers';
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+// A wallet seen for the first time is scanned back this far, to catch requests paid before the app looked
+const INITIAL_LOOKBACK_BLOCKS = 50000n;
+
+// Smallest block range we split down to when the RPC rejects a getLogs range
+const MIN_BLOCK_RANGE = 1000n;
+
+// Service state, for the wallet and chain being watched
+let watchedKey: string | null = null;
+let transfers: IncomingTokenTransfer[] = [];
+const inFlightSyncs = new Map<string, Promise<void>>();
+const listeners = new Set<IncomingTransfersListener>();
+
+// Shared empty list, so a disconnected wallet doesn't hand out a new array every render
+const NO_TRANSFERS: IncomingTokenTransfer[] = [];
+
+const getStorageKey = (address: string, chainId: number) => `${STORAGE_KEY}_${chainId}_${address.toLowerCase()}`;
+
+const load = (storageKey: string): IncomingTransfersState | null => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error loading incoming token transfers:', error);
+  }
+  return null;
+};
+
+const emit = () => {
+  for (const listener of listeners) {
+    listener(transfers);
+  }
+};
+
+/**
+ * Scan the blocks since the last scan for registry tokens sent to a wallet
+ */
+const runSync = async (address: `0x${string}`, chainId: number) => {
+  const client = getPublicClient(config, { chainId });
+  const tokens = getRegisteredTokens(chainId);
+  if (!client || tokens.length === 0) return;
+
+  const storageKey = getStorageKey(address, chainId);
+  const state = load(storageKey);
+  const headBlock = await client.getBlockNumber();
+  const fromBlock = state
+    ? BigInt(state.lastScannedBlock) + 1n
+    : headBlock > INITIAL_LOOKBACK_BLOCKS ? headBlock - INITIAL_LOOKBACK_BLOCKS : 0n;
+  if (fromBlock > headBlock) return;
+
+  type TransferLog = {
+    address: `0x${string}`;
+    args: { from?: `0x${string}`; value?: bigint };
+    blockNumber: bigint;
+    logIndex: number;
+    transactionHash: `0x${string}`;
+  };
+
+  const fetchRange = async (from: bigint, to: bigint): Promise<TransferLog[]> => {
+    try {
+      return await client.getLogs({
+        address: tokens.map((token) => token.address),
+        event: TRANSFER_EVENT,
+        args: { to: address },
+        fromBlock: from,
+        toBlock: to,
+      });
+    } catch (error) {
+      const span = to - from + 1n;
+      if (span <= MIN_BLOCK_RANGE) throw error;
+
+      const middle = from + span / 2n;
+      return [...await fetchRange(from, middle - 1n), ...await fetchRange(middle, to)];
+    }
+  };
+
+  const logs = await fetchRange(fromBlock, headBlock);
+
+  const blockTimestamps = new Map<bigint, number>();
+  const scanned: IncomingTokenTransfer[] = [];
+  for (const log of logs) {
+    const { from, value } = log.args;
+    const token = findTokenByAddress(log.address, chainId);
+    // Payouts from our own contracts are matched through the contracts
+    if (!from || value === undefined || !token || findDeploymentByAddress(from, chainId)) continue;
+
+    let timestamp = blockTimestamps.get(log.blockNumber);
+    if (timestamp === undefined) {
+      timestamp = Number((await client.getBlock({ blockNumber: log.blockNumber })).timestamp);
+      blockTimestamps.set(log.blockNumber, timestamp);
+    }
+
+    scanned.push({
+      id: `${log.transactionHash}:${log.logIndex}`,
+      tokenAddress: log.address,
+      tokenSymbol: token.symbol,
+      from,
+      amount: formatUnits(value, token.decimals),
+      blockNumber: Number(log.blockNumber),
+      timestamp,
+    });
+  }
+
+  const known = state?.transfers ?? [];
+  const next: IncomingTransfersState = {
+    lastScannedBlock: Number(headBlock),
+    transfers: [...known, ...scanned.filter((transfer) => !known.some((existing) => existing.id === transfer.id))],
+  };
+  localStorage.setItem(storageKey, JSON.stringify(next));
+
+  // The wallet or chain changed while scanning
+  if (watchedKey !== storageKey) return;
+  transfers = next.transfers;
+  emit();
+};
+
+/**
+ * Scan for new incoming token transfers to a wallet
+ * Concurrent callers share the scan in progress
+ * @param address The wallet address
+ * @param chainId The chain ID
+ */
+export const syncIncomingTokenTransfers = (address: string, chainId: number): Promise<void> => {
+  const storageKey = getStorageKey(address, chainId);
+  if (watchedKey !== storageKey) {
+    watchedKey = storageKey;
+    transfers = load(storageKey)?.transfers ?? [];
+    emit();
+  }
+
+  const pending = inFlightSyncs.get(storageKey);
+  if (pending) return pending;
+
+  const sync = runSync(address as `0x${string}`, chainId)
+    .catch((error) => console.error('Error scanning incoming token transfers:', error))
+    .finally(() => {
+      inFlightSyncs.delete(storageKey);
+    });
+  inFlightSyncs.set(storageKey, sync);
+  return sync;
+};
+
+/**
+ * Subscribe to the watched wallet's incoming token transfers
+ * @param listener Called with the current transfers right away and on every change
+ * @returns Function to unsubscribe
+ */
+export const subscribeToIncomingTokenTransfers = (listener: IncomingTransfersListener) => {
+  listeners.add(listener);
+  listener(transfers);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Hook to get the registry tokens sent to a wallet, kept up to date by the chain head
+ * @param address The wallet address
+ * @param chainId The connected chain ID
+ */
+export const useIncomingTokenTransfers = (address?: string | null, chainId?: number) => {
+  const [items, setItems] = useState<IncomingTokenTransfer[]>(transfers);
+
+  useEffect(() => subscribeToIncomingTokenTransfers(setItems), []);
+
+  useEffect(() => {
+    if (address && chainId) syncIncomingTokenTransfers(address, chainId);
+  }, [address, chainId]);
+
+  useDataRefresh('tokens', () => {
+    if (address && chainId) syncIncomingTokenTransfers(address, chainId);
+  });
+
+  return address ? items : NO_TRANSFERS;
+};
@@ -0,0 +1,116 @@
+import { encodeFunctionData, type Abi, type ContractFunctionParameters } from 'viem';
+import { getChainId, multicall, readContract } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import { getSupportedChain } from '@/lib/chains';
+
+/**
+ * Read scheduler
+ *
+ * Contract reads made in the same tick are merged into one Multicall3 call
+ * per chain, and a read identical to one already queued or in flight shares
+ * its result, so loading N streams or transfers is one request rather than N.
+ * Chains without Multicall3 (e.g. a local Hardhat node) get the reads sent
+ * side by side instead.
+ */
+
+export interface ContractRead {
+  address: `0x${string}`;
+  abi: Abi | readonly unknown[];
+  functionName: string;
+  args?: readonly unknown[];
+  chainId?: number;         // Defaults to the connected chain
+}
+
+interface QueuedRead {
+  read: ContractRead;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+// Reads waiting for the end of the tick, per chain
+const queues = new Map<number, QueuedRead[]>();
+
+// Reads queued or in flight, keyed by chain, contract and call data
+const inFlight = new Map<string, Promise<unknown>>();
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Send one chain's queued reads, as a multicall when there is more than one
+ */
+const flushChain = async (chainId: number, reads: QueuedRead[]) => {
+  const contracts: ContractFunctionParameters[] = reads.map(({ read }) => ({
+    address: read.address,
+    abi: read.abi as Abi,
+    functionName: read.functionName,
+    args: read.args,
+  }));
+
+  try {
+    if (reads.length > 1 && getSupportedChain(chainId)?.contracts?.multicall3) {
+      const results = await multicall(config, { chainId, contracts, allowFailure: true });
+      results.forEach((result, index) => {
+        if (result.status === 'success') {
+          reads[index].resolve(result.result);
+        } else {
+          reads[index].reject(result.error);
+        }
+      });
+    } else {
+      await Promise.all(contracts.map((contract, index) =>
+        readContract(config, { ...contract, chainId } as Parameters<typeof readContract>[1])
+          .then(reads[index].resolve, reads[index].reject)
+      ));
+    }
+  } catch (error) {
+    reads.forEach(({ reject }) => reject(error));
+  }
+};
+
+const flush = () => {
+  flushTimer = null;
+  const batches = Array.from(queues.entries());
+  queues.clear();
+
+  for (const [chainId, reads] of batches) {
+    flushChain(chainId, reads);
+  }
+};
+
+/**
+ * Read a contract, batched with the other reads made in the same tick
+ * @param read The contract, function and arguments to read
+ * @returns The decoded result
+ */
+export const scheduleRead = <T = unknown>(read: ContractRead): Promise<T> => {
+  const chainId = read.chainId ?? getChainId(config);
+
+  let key: string;
+  try {
+    const data = encodeFunctionData({ abi: read.abi as Abi, functionName: read.functionName, args: read.args });
+    key = `${chainId}:${read.address.toLowerCase()}:${data}`;
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const existing = inFlight.get(key);
+  if (existing) return existing as Promise<T>;
+
+  const promise = new Promise<unknown>((resolve, reject) => {
+    const queue = queues.get(chainId) ?? [];
+    queue.push({ read, resolve, reject });
+    queues.set(chainId, queue);
+  });
+  inFlight.set(key, promise);
+
+  const release = () => {
+    inFlight.delete(key);
+  };
+  promise.then(release, release);
+
+  if (!flushTimer) {
+    flushTimer = setTimeout(flush, 0);
+  }
+
+  return promise as Promise<T>;
+};
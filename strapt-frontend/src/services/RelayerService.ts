@@ -0,0 +1,114 @@
+import { signTypedData, getAccount, getChainId } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+
+/**
+ * Contracts that accept EIP-712 signed claims; the key doubles as the EIP-712 domain name
+ */
+export type SignedClaimContract = 'ProtectedTransferV2' | 'StraptDrop';
+
+/**
+ * A claim signed by the claimer, ready to hand to a relayer
+ * Numbers are sent as decimal strings so the payload survives JSON
+ */
+export interface SignedClaim {
+  claimer: `0x${string}`;
+  deadline: string;
+  signature: `0x${string}`;
+}
+
+export interface TransferClaimRelayRequest extends SignedClaim {
+  transferId: `0x${string}`;
+  claimCode: string;
+  salt?: `0x${string}`;     // Only for link transfers, which the relayer commits and reveals
+}
+
+export interface DropClaimRelayRequest extends SignedClaim {
+  dropId: `0x${string}`;
+}
+
+/**
+ * Backend that submits signed claims and pays their gas
+ */
+export interface Relayer {
+  name: string;
+  relayTransferClaim: (request: TransferClaimRelayRequest) => Promise<`0x${string}`>;
+  relayDropClaim: (request: DropClaimRelayRequest) => Promise<`0x${string}`>;
+}
+
+// How long a claim signature stays valid; covers the relayer's commit-reveal wait with room to spare
+const CLAIM_SIGNATURE_TTL_SECONDS = 60 * 60;
+
+// In development, fall back to the local relayer (`bun run relayer:local` in strapt-contracts)
+// The relayer also stores encrypted transfer notes, see TransferNoteService
+export const RELAYER_URL: string =
+  import.meta.env.VITE_RELAYER_URL || (import.meta.env.DEV ? 'http://localhost:8787' : '');
+
+const CLAIM_TYPES = {
+  Claim: [
+    { name: 'id', type: 'bytes32' },
+    { name: 'claimer', type: 'address' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * Ask the connected wallet to sign a claim that a relayer can submit
+ * Signing is free; the signature only lets the tokens go to the signer
+ * @param contract The contract the claim is for
+ * @param verifyingContract The contract address
+ * @param id The transfer or drop ID
+ * @returns Promise with the signed claim
+ */
+export const signClaim = async (
+  contract: SignedClaimContract,
+  verifyingContract: `0x${string}`,
+  id: `0x${string}`
+): Promise<SignedClaim> => {
+  const { address } = getAccount(config);
+  if (!address) throw new Error('No wallet connected');
+
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + CLAIM_SIGNATURE_TTL_SECONDS);
+  const signature = await signTypedData(config, {
+    account: address,
+    domain: { name: contract, version: '1', chainId: getChainId(config), verifyingContract },
+    types: CLAIM_TYPES,
+    primaryType: 'Claim',
+    message: { id, claimer: address, deadline },
+  });
+
+  return { claimer: address, deadline: deadline.toString(), signature };
+};
+
+/**
+ * Relayer backed by the STRAPT relayer HTTP service
+ * @param baseUrl Base URL of the relayer, e.g. http://localhost:8787
+ */
+export const createHttpRelayer = (baseUrl: string): Relayer => {
+  const post = async (path: string, body: unknown): Promise<`0x${string}`> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(result.error || `Relayer request failed (${response.status})`);
+    }
+    return result.hash;
+  };
+
+  return {
+    name: 'http',
+    relayTransferClaim: (request) => post('/claims/transfer', request),
+    relayDropClaim: (request) => post('/claims/drop', request),
+  };
+};
+
+/**
+ * Get the configured relayer
+ * @returns The relayer, or null when gasless claims aren't available
+ */
+export const getRelayer = (): Relayer | null => {
+  return RELAYER_URL ? createHttpRelayer(RELAYER_URL) : null;
+};
@@ -0,0 +1,403 @@
+import {
+  encodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  isAddress,
+  keccak256,
+  parseAbi,
+  parseEventLogs,
+  parseUnits,
+  stringToHex,
+  type Abi,
+} from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import { getSupportedChain } from '@/lib/chains';
+import PaymentStreamABI from '@/contracts/PaymentStream.json';
+import ProtectedEscrowABI from '@/contracts/ProtectedEscrow.json';
+import ProtectedTransferV2ABI from '@/contracts/ProtectedTransferV2.json';
+import StraptDropABI from '@/contracts/StraptDrop.json';
+import { getContractAddress, type ContractName } from './ContractRegistryService';
+import { getApprovalAmount } from './ApprovalService';
+import { findToken, type RegisteredToken } from './TokenRegistryService';
+import { decodeContractError, describeContractError } from './ContractErrorService';
+
+/**
+ * Transaction simulation
+ *
+ * Previews a create call before the wallet prompt: the token balance changes it
+ * causes, the fee the contract takes and the gas it costs. The approval the call
+ * still needs is simulated in the same batch, so the preview is available before
+ * the user has approved anything.
+ */
+
+export interface ContractCall {
+  address: `0x${string}`;
+  abi: Abi | readonly unknown[];
+  functionName: string;
+  args: readonly unknown[];
+}
+
+export interface BalanceChange {
+  address: `0x${string}`;
+  label: string;
+  delta: bigint; // Token units, negative when tokens leave the address
+}
+
+export interface TransactionPreview {
+  // 'simulated' when the calls ran against the latest block, 'estimated' when the
+  // node can't simulate a batch and the changes follow the contract's fee formula
+  source: 'simulated' | 'estimated';
+  token: RegisteredToken;
+  balanceChanges: BalanceChange[];
+  fee: bigint;
+  feeBasisPoints: number;
+  needsApproval: boolean;
+  gasUnits: bigint | null;
+  isGasPartial: boolean;     // Gas covers the approval only; the create call can't be estimated before it
+  gasCost: bigint | null;    // In the native currency's smallest unit
+  gasCostUsd: number | null; // Null when no price is available
+  nativeSymbol: string;
+  nativeDecimals: number;
+  revertReason?: string;     // Set when the call would fail
+}
+
+export interface TransactionPreviewRequest {
+  account: `0x${string}`;
+  token: RegisteredToken;
+  amount: bigint;             // Gross amount leaving the account
+  call: ContractCall;
+  contract?: ContractName;    // STRAPT contract pulling the tokens; omitted for plain token transfers
+  recipient?: `0x${string}`;  // Receiver of a plain token transfer
+}
+
+const FEE_ABI = parseAbi([
+  'function feeInBasisPoints() view returns (uint16)',
+  'function feePercentage() view returns (uint256)',
+  'function feeCollector() view returns (address)',
+]);
+
+// Every STRAPT contract takes amount * rate / 10000 at creation; StraptDrop names its rate differently
+const FEE_RATE_FUNCTIONS: Partial<Record<ContractName, 'feeInBasisPoints' | 'feePercentage'>> = {
+  ProtectedTransferV2: 'feeInBasisPoints',
+  ProtectedTransfer: 'feeInBasisPoints',
+  ProtectedEscrow: 'feeInBasisPoints',
+  PaymentStream: 'feeInBasisPoints',
+  StraptDrop: 'feePercentage',
+};
+
+const CONTRACT_LABELS: Partial<Record<ContractName, string>> = {
+  ProtectedTransferV2: 'Transfer contract',
+  ProtectedTransfer: 'Transfer contract',
+  ProtectedEscrow: 'Escrow contract',
+  PaymentStream: 'Stream contract',
+  StraptDrop: 'Drop contract',
+};
+
+// CoinGecko IDs of the native currencies of supported chains
+const NATIVE_PRICE_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+};
+
+const PRICE_API_URL = 'https://api.coingecko.com/api/v3/simple/price';
+const PRICE_CACHE_TIME = 5 * 60 * 1000; // 5 minutes
+
+const priceCache = new Map<string, { price: number; timestamp: number }>();
+
+/**
+ * Get the USD price of a native currency, cached for a few minutes
+ * @returns The price, or null if it isn't listed or can't be fetched
+ */
+const getNativeUsdPrice = async (symbol: string): Promise<number | null> => {
+  const id = NATIVE_PRICE_IDS[symbol];
+  if (!id) return null;
+
+  const cached = priceCache.get(id);
+  if (cached && Date.now() - cached.timestamp < PRICE_CACHE_TIME) {
+    return cached.price;
+  }
+
+  try {
+    const response = await fetch(`${PRICE_API_URL}?ids=${id}&vs_currencies=usd`);
+    if (!response.ok) return cached?.price ?? null;
+    const price = (await response.json())?.[id]?.usd;
+    if (typeof price !== 'number') return cached?.price ?? null;
+    priceCache.set(id, { price, timestamp: Date.now() });
+    return price;
+  } catch (error) {
+    console.error('Error fetching native currency price:', error);
+    return cached?.price ?? null;
+  }
+};
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const getErrorReason = (error: unknown): string => {
+  const decoded = decodeContractError(error);
+  if (decoded) return describeContractError(decoded);
+  const { shortMessage, message } = (error ?? {}) as { shortMessage?: string; message?: string };
+  return shortMessage || message || String(error);
+};
+
+/**
+ * Preview a token-moving transaction without sending it
+ * @param request The call to preview and the tokens it moves
+ * @returns The preview; check `revertReason` before sending
+ */
+export const previewTransaction = async (request: TransactionPreviewRequest): Promise<TransactionPreview> => {
+  const { account, token, amount, call, contract, recipient } = request;
+  const chain = getSupportedChain(token.chainId);
+  const client = getPublicClient(config, { chainId: token.chainId });
+  if (!chain || !client) {
+    throw new Error(`Unsupported network: ${token.chainId}`);
+  }
+
+  const spender = contract ? getContractAddress(contract, token.chainId) : undefined;
+  const feeRateFunction = contract ? FEE_RATE_FUNCTIONS[contract] : undefined;
+
+  const [allowance, feeRate, feeCollector, gasPrice, nativeUsdPrice] = await Promise.all([
+    spender
+      ? client.readContract({ address: token.address, abi: erc20Abi, functionName: 'allowance', args: [account, spender] })
+      : Promise.resolve(amount),
+    spender && feeRateFunction
+      ? client.readContract({ address: spender, abi: FEE_ABI, functionName: feeRateFunction })
+      : Promise.resolve(0),
+    spender && feeRateFunction
+      ? client.readContract({ address: spender, abi: FEE_ABI, functionName: 'feeCollector' })
+      : Promise.resolve(undefined),
+    client.getGasPrice().catch(() => null),
+    getNativeUsdPrice(chain.nativeCurrency.symbol),
+  ]);
+
+  const feeBasisPoints = Number(feeRate);
+  const fee = (amount * BigInt(feeBasisPoints)) / 10000n;
+  const needsApproval = !!spender && allowance < amount;
+
+  const labels = new Map<string, string>([[account.toLowerCase(), 'You']]);
+  if (spender && contract) labels.set(spender.toLowerCase(), CONTRACT_LABELS[contract] ?? contract);
+  if (feeCollector) labels.set(feeCollector.toLowerCase(), 'Fee collector');
+  if (recipient) labels.set(recipient.toLowerCase(), 'Recipient');
+  const getLabel = (address: `0x${string}`) => labels.get(address.toLowerCase()) ?? shortenAddress(address);
+
+  // The approval the create flow would send first, at the amount the approval setting asks for
+  const approveCall = spender && needsApproval
+    ? { to: token.address, data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, getApprovalAmount(amount)] }) }
+    : null;
+  const mainCall = {
+    to: call.address,
+    data: encodeFunctionData({ abi: call.abi as Abi, functionName: call.functionName, args: call.args }),
+  };
+
+  let source: TransactionPreview['source'] = 'simulated';
+  let balanceChanges: BalanceChange[] = [];
+  let gasUnits: bigint | null = null;
+  let isGasPartial = false;
+  let revertReason: string | undefined;
+
+  try {
+    const { results } = await client.simulateCalls({
+      account,
+      calls: approveCall ? [approveCall, mainCall] : [mainCall],
+    });
+
+    const failed = results.find((result) => result.status === 'failure');
+    if (failed) {
+      revertReason = getErrorReason(failed.error);
+    }
+    gasUnits = results.reduce((total, result) => total + result.gasUsed, 0n);
+
+    // Net every transfer of the token per address
+    const deltas = new Map<`0x${string}`, bigint>();
+    const transfers = parseEventLogs({
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      logs: results.flatMap((result) => result.logs ?? []),
+    }).filter((log) => log.address.toLowerCase() === token.address.toLowerCase());
+    for (const { args } of transfers) {
+      deltas.set(args.from, (deltas.get(args.from) ?? 0n) - args.value);
+      deltas.set(args.to, (deltas.get(args.to) ?? 0n) + args.value);
+    }
+    balanceChanges = [...deltas]
+      .filter(([, delta]) => delta !== 0n)
+      .map(([address, delta]) => ({ address, label: getLabel(address), delta }));
+  } catch (error) {
+    // Nodes without eth_simulateV1 can only estimate single calls
+    console.warn('Batch simulation unavailable, estimating instead:', error);
+    source = 'estimated';
+
+    const holder = spender ?? recipient;
+    balanceChanges = [
+      { address: account, label: getLabel(account), delta: -amount },
+      ...(holder ? [{ address: holder, label: getLabel(holder), delta: amount - fee }] : []),
+      ...(feeCollector && fee > 0n ? [{ address: feeCollector, label: getLabel(feeCollector), delta: fee }] : []),
+    ];
+
+    try {
+      // Before approval the create call can't run yet, so only the approval is estimated
+      isGasPartial = !!approveCall;
+      gasUnits = await client.estimateGas({ account, ...(approveCall ?? mainCall) });
+    } catch (estimateError) {
+      revertReason = getErrorReason(estimateError);
+    }
+  }
+
+  const gasCost = gasUnits !== null && gasPrice !== null ? gasUnits * gasPrice : null;
+  const gasCostUsd = gasCost !== null && nativeUsdPrice !== null
+    ? Number(formatUnits(gasCost, chain.nativeCurrency.decimals)) * nativeUsdPrice
+    : null;
+
+  return {
+    source,
+    token,
+    balanceChanges,
+    fee,
+    feeBasisPoints,
+    needsApproval,
+    gasUnits,
+    isGasPartial,
+    gasCost,
+    gasCostUsd,
+    nativeSymbol: chain.nativeCurrency.symbol,
+    nativeDecimals: chain.nativeCurrency.decimals,
+    revertReason,
+  };
+};
+
+// Preview requests for the STRAPT create calls, with the same arguments the create hooks send.
+// Values that don't change what moves, like expiry times, are filled in with valid stand-ins.
+
+const getTokenAndUnits = (tokenSymbol: string, amount: string) => {
+  const token = findToken(tokenSymbol);
+  if (!token) return null;
+  try {
+    const units = parseUnits(amount, token.decimals);
+    return units > 0n ? { token, units } : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const hoursFromNow = (hours: number) => BigInt(Math.floor(Date.now() / 1000) + hours * 3600);
+
+/**
+ * Build the preview request for a transfer from the transfer form
+ * @returns The request, or null while the inputs are incomplete
+ */
+export const getTransferPreviewRequest = (params: {
+  account: `0x${string}`;
+  tokenSymbol: string;
+  amount: string;
+  transferType: 'direct' | 'claim';
+  recipient?: string;
+  withPassword?: boolean;
+  arbiter?: string;       // Set for escrows
+}): TransactionPreviewRequest | null => {
+  const { account, tokenSymbol, amount, transferType, recipient, withPassword, arbiter } = params;
+  const parsed = getTokenAndUnits(tokenSymbol, amount);
+  if (!parsed) return null;
+  const { token, units } = parsed;
+
+  if (transferType === 'direct') {
+    if (!recipient || !isAddress(recipient)) return null;
+    return {
+      account,
+      token,
+      amount: units,
+      recipient,
+      call: { address: token.address, abi: erc20Abi, functionName: 'transfer', args: [recipient, units] },
+    };
+  }
+
+  if (arbiter) {
+    if (!recipient || !isAddress(recipient) || !isAddress(arbiter)) return null;
+    return {
+      account,
+      token,
+      amount: units,
+      contract: 'ProtectedEscrow',
+      call: {
+        address: getContractAddress('ProtectedEscrow', token.chainId),
+        abi: ProtectedEscrowABI.abi,
+        functionName: 'createEscrow',
+        args: [recipient, arbiter, token.address, units, 0n],
+      },
+    };
+  }
+
+  return {
+    account,
+    token,
+    amount: units,
+    contract: 'ProtectedTransferV2',
+    call: {
+      address: getContractAddress('ProtectedTransferV2', token.chainId),
+      abi: ProtectedTransferV2ABI.abi,
+      functionName: 'createLinkTransfer',
+      // Link transfers always carry a secret hash, password or not
+      args: [token.address, units, hoursFromNow(24), !!withPassword, keccak256(stringToHex('preview'))],
+    },
+  };
+};
+
+/**
+ * Build the preview request for a new payment stream
+ * @returns The request, or null while the inputs are incomplete
+ */
+export const getStreamPreviewRequest = (params: {
+  account: `0x${string}`;
+  tokenSymbol: string;
+  amount: string;
+  recipient: string;
+  durationInSeconds: number;
+  milestonePercentages: number[];
+  milestoneDescriptions: string[];
+}): TransactionPreviewRequest | null => {
+  const { account, tokenSymbol, amount, recipient, durationInSeconds, milestonePercentages, milestoneDescriptions } = params;
+  const parsed = getTokenAndUnits(tokenSymbol, amount);
+  if (!parsed || !isAddress(recipient)) return null;
+  const { token, units } = parsed;
+
+  return {
+    account,
+    token,
+    amount: units,
+    contract: 'PaymentStream',
+    call: {
+      address: getContractAddress('PaymentStream', token.chainId),
+      abi: PaymentStreamABI.abi,
+      functionName: 'createStream',
+      args: [recipient, token.address, units, BigInt(durationInSeconds), milestonePercentages.map((p) => BigInt(p)), milestoneDescriptions],
+    },
+  };
+};
+
+/**
+ * Build the preview request for a new STRAPT Drop
+ * @returns The request, or null while the inputs are incomplete
+ */
+export const getDropPreviewRequest = (params: {
+  account: `0x${string}`;
+  tokenSymbol: string;
+  amount: string;
+  recipients: number;
+  isRandom: boolean;
+  expiryHours: number;
+}): TransactionPreviewRequest | null => {
+  const { account, tokenSymbol, amount, recipients, isRandom, expiryHours } = params;
+  const parsed = getTokenAndUnits(tokenSymbol, amount);
+  if (!parsed || !Number.isInteger(recipients) || recipients <= 0) return null;
+  const { token, units } = parsed;
+
+  return {
+    account,
+    token,
+    amount: units,
+    contract: 'StraptDrop',
+    call: {
+      address: getContractAddress('StraptDrop', token.chainId),
+      abi: StraptDropABI.abi,
+      functionName: 'createDrop',
+      args: [token.address, units, BigInt(recipients), isRandom, hoursFromNow(expiryHours), ''],
+    },
+  };
+};
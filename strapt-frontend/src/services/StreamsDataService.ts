@@ -5,8 +5,6 @@ import { useXellarWallet } from '@/hooks/use-xellar-wallet';
 
 // Cache for streams data
 let streamsCache: Stream[] = [];
-let lastFetchTime = 0;
-const FETCH_INTERVAL = 120000; // 2 minutes
 const UI_UPDATE_INTERVAL = 5000; // 5 seconds
 
 /**
@@ -23,13 +21,9 @@ export const initStreamsDataService = () => {
 
 /**
  * Start background refresh for streams data
+ * Streams are refetched by the chain head when a block touches the contract
  */
 const startBackgroundRefresh = () => {
-  // Set up interval to fetch streams data from blockchain
-  setInterval(() => {
-    fetchStreamsData();
-  }, FETCH_INTERVAL);
-  
   // Set up interval to update UI with calculated stream values
   setInterval(() => {
     updateStreamedAmounts();
@@ -41,19 +35,11 @@ const startBackgroundRefresh = () => {
  */
 export const fetchStreamsData = async () => {
   try {
-    // Skip if we've fetched recently
-    const now = Date.now();
-    if (now - lastFetchTime < FETCH_INTERVAL) {
-      return;
-    }
-    
     // We need to get the user's address and the payment stream hook
     // This is a bit tricky since we're outside of a component
     // In a real implementation, you might use a global state or singleton pattern
     
-    // For now, we'll just update the timestamp and rely on the hook implementation
-    lastFetchTime = now;
-    
+    // For now, we'll rely on the hook implementation
     // The actual fetching will happen in the hook
     // We'll just notify subscribers that they should refresh
     updateData('streams', streamsCache);
@@ -124,7 +110,6 @@ export const useStreamsData = () => {
   useEffect(() => {
     if (!isLoadingStreams && streams) {
       streamsCache = streams;
-      lastFetchTime = Date.now();
       updateData('streams', streams);
       setIsLoading(false);
     }
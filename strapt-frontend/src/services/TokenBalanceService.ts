@@ -6,27 +6,13 @@ import { TokenOption } from '@/components/TokenSelect';
 
 // Cache for token balances
 let tokensCache: TokenOption[] = [];
-let lastFetchTime = 0;
-const FETCH_INTERVAL = 30000; // 30 seconds
 
 /**
  * Initialize the token balance service
+ * Balances are refreshed by the chain head when a block moves the wallet's tokens
  */
 export const initTokenBalanceService = () => {
   console.log('Initializing token balance service');
-  
-  // Start the background refresh process
-  startBackgroundRefresh();
-};
-
-/**
- * Start background refresh for token balances
- */
-const startBackgroundRefresh = () => {
-  // Set up interval to fetch token balances
-  setInterval(() => {
-    fetchTokenBalances();
-  }, FETCH_INTERVAL);
 };
 
 /**
@@ -34,15 +20,6 @@ const startBackgroundRefresh = () => {
  */
 export const fetchTokenBalances = async () => {
   try {
-    // Skip if we've fetched recently
-    const now = Date.now();
-    if (now - lastFetchTime < FETCH_INTERVAL) {
-      return;
-    }
-    
-    // Update timestamp
-    lastFetchTime = now;
-    
     // The actual fetching will happen in the hook
     // We'll just notify subscribers that they should refresh
     updateData('tokens', tokensCache);
@@ -67,7 +44,6 @@ export const useTokenBalancesData = () => {
   useEffect(() => {
     if (!isLoadingTokens && tokens) {
       tokensCache = tokens;
-      lastFetchTime = Date.now();
       updateData('tokens', tokens);
       setIsLoading(false);
     }
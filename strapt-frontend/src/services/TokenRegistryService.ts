@@ -0,0 +1,184 @@
+import { erc20Abi, type AbiEvent } from 'viem';
+import { readContract, getChainId } from 'wagmi/actions';
+import { config } from '@/providers/XellarProvider';
+import tokenConfig from '@/contracts/tokens.json';
+import ProtectedTransferV2ABI from '@/contracts/ProtectedTransferV2.json';
+import { getEventSource } from './EventSource';
+import { findContractAddress } from './ContractRegistryService';
+
+/**
+ * Token registry
+ *
+ * Every token the app can send, stream or drop, per chain. Tokens come from
+ * `contracts/tokens.json` and from the tokens the ProtectedTransferV2 contract
+ * has been told to support on-chain, so listing a new token needs no code change.
+ */
+
+export type TokenColor = 'blue' | 'purple' | 'green' | 'orange' | 'gray';
+
+export interface RegisteredToken {
+  chainId: number;
+  symbol: string;
+  name: string;
+  address: `0x${string}`;
+  decimals: number;
+  icon?: string;
+  color?: TokenColor;
+}
+
+type TokenConfigEntry = Omit<RegisteredToken, 'chainId'>;
+
+const TOKEN_SUPPORT_EVENT = (ProtectedTransferV2ABI.abi as AbiEvent[]).find(
+  (item) => item.type === 'event' && item.name === 'TokenSupportUpdated'
+) as AbiEvent;
+
+// Tokens per chain, in display order
+const registry = new Map<number, RegisteredToken[]>(
+  Object.entries(tokenConfig as Record<string, TokenConfigEntry[]>).map(([chainId, tokens]) => [
+    Number(chainId),
+    tokens.map((token) => ({ ...token, chainId: Number(chainId) })),
+  ])
+);
+
+const listeners = new Set<() => void>();
+
+// Shared promise per chain so concurrent callers wait for the same on-chain lookup
+const inFlightLoads = new Map<number, Promise<RegisteredToken[]>>();
+
+const notifyListeners = () => {
+  for (const listener of listeners) listener();
+};
+
+/**
+ * Get every registered token on a chain
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The tokens in display order, empty if the chain has none
+ */
+export const getRegisteredTokens = (chainId?: number): RegisteredToken[] => {
+  return registry.get(chainId ?? getChainId(config)) ?? [];
+};
+
+/**
+ * Look up a token by symbol
+ * @param symbol The token symbol, e.g. USDC
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The token, or undefined if it isn't registered
+ */
+export const findToken = (symbol: string, chainId?: number): RegisteredToken | undefined => {
+  const normalized = symbol.toUpperCase();
+  return getRegisteredTokens(chainId).find((token) => token.symbol.toUpperCase() === normalized);
+};
+
+/**
+ * Look up a token by symbol, failing if it isn't registered
+ * @param symbol The token symbol, e.g. USDC
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The token
+ */
+export const getToken = (symbol: string, chainId?: number): RegisteredToken => {
+  const token = findToken(symbol, chainId);
+  if (!token) {
+    throw new Error(`Unsupported token type: ${symbol}`);
+  }
+  return token;
+};
+
+/**
+ * Look up a token by contract address
+ * @param address The token address
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The token, or undefined if it isn't registered
+ */
+export const findTokenByAddress = (address: string, chainId?: number): RegisteredToken | undefined => {
+  const normalized = address.toLowerCase();
+  return getRegisteredTokens(chainId).find((token) => token.address.toLowerCase() === normalized);
+};
+
+/**
+ * Subscribe to registry changes, e.g. tokens discovered on-chain
+ * @param listener Called whenever a chain's token list changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToTokenRegistry = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Read a token's symbol, name and decimals from the chain
+ */
+const readTokenMetadata = async (address: `0x${string}`, chainId: number): Promise<RegisteredToken> => {
+  const read = <T,>(functionName: 'symbol' | 'name' | 'decimals') =>
+    readContract(config, { abi: erc20Abi, address, functionName, chainId }) as Promise<T>;
+
+  const [symbol, name, decimals] = await Promise.all([
+    read<string>('symbol'),
+    read<string>('name'),
+    read<number>('decimals'),
+  ]);
+
+  return { chainId, symbol, name, address, decimals: Number(decimals), color: 'gray' };
+};
+
+/**
+ * Add the tokens ProtectedTransferV2 supports on-chain to the registry
+ * Support changes are replayed from TokenSupportUpdated events, and tokens missing
+ * from the config get their metadata from the token contract itself
+ * @param chainId The chain ID (defaults to the connected chain)
+ * @returns The chain's tokens after discovery
+ */
+export const loadSupportedTokens = async (chainId?: number): Promise<RegisteredToken[]> => {
+  const id = chainId ?? getChainId(config);
+  const protectedTransferAddress = findContractAddress('ProtectedTransferV2', id);
+  if (!protectedTransferAddress) return getRegisteredTokens(id);
+
+  const pending = inFlightLoads.get(id);
+  if (pending) return pending;
+
+  const load = (async () => {
+    const logs = await getEventSource(id).getLogs<{ tokenAddress: string; isSupported: boolean }>({
+      address: protectedTransferAddress,
+      event: TOKEN_SUPPORT_EVENT,
+    });
+
+    // Latest support state per token
+    const supported = new Map<string, boolean>();
+    for (const log of [...logs].sort((a, b) => Number(a.blockNumber - b.blockNumber))) {
+      supported.set(log.args.tokenAddress.toLowerCase(), log.args.isSupported);
+    }
+
+    const missing = [...supported.entries()]
+      .filter(([address, isSupported]) => isSupported && !findTokenByAddress(address, id))
+      .map(([address]) => address as `0x${string}`);
+
+    const discovered = await Promise.all(missing.map((address) =>
+      readTokenMetadata(address, id).catch((error) => {
+        console.error('Error reading token metadata:', address, error);
+        return null;
+      })
+    ));
+
+    // Never let a discovered token shadow a configured symbol
+    const added = discovered.filter((token): token is RegisteredToken =>
+      token !== null && !findToken(token.symbol, id)
+    );
+
+    if (added.length > 0) {
+      registry.set(id, [...getRegisteredTokens(id), ...added]);
+      notifyListeners();
+    }
+
+    return getRegisteredTokens(id);
+  })();
+
+  inFlightLoads.set(id, load);
+  try {
+    return await load;
+  } catch (error) {
+    // Allow a retry on the next call
+    inFlightLoads.delete(id);
+    throw error;
+  }
+};
@@ -0,0 +1,490 @@
+import { useEffect, useState } from 'react';
+import { getAccount, getChainId, getPublicClient, sendTransaction, waitForTransactionReceipt } from 'wagmi/actions';
+import { TransactionNotFoundError } from 'viem';
+import { config } from '@/providers/XellarProvider';
+import { refreshData, type DataType } from './DataSubscriptionService';
+
+/**
+ * Transaction outbox
+ *
+ * Every transaction the app submits, with what it was meant to do, kept in
+ * localStorage until its receipt is in. Pending entries are reconciled against
+ * the chain on load, so an approve or create sent before a reload or a
+ * navigation still resolves, and the data it touches is refreshed when it does.
+ */
+
+export type OutboxTransactionType =
+  | 'approve'
+  | 'transfer'
+  | 'create-transfer'
+  | 'claim-transfer'
+  | 'refund-transfer'
+  | 'cancel-transfer'
+  | 'create-stream'
+  | 'update-stream'
+  | 'withdraw-stream'
+  | 'create-drop'
+  | 'claim-drop'
+  | 'refund-drop'
+  | 'create-escrow'
+  | 'update-escrow'
+  | 'claim-faucet';
+
+// cancelled: its nonce went to a cancel or another transaction, so the call never ran
+// dropped: the node stopped knowing it and its nonce was never used, so it will likely never be mined
+export type OutboxTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled' | 'dropped';
+
+export interface OutboxTransaction {
+  hash: `0x${string}`;
+  chainId: number;
+  account: string;
+  type: OutboxTransactionType;
+  description: string;      // What the user did, e.g. "Send 10 USDC"
+  amount?: string;
+  tokenSymbol?: string;
+  targetId?: string;        // Transfer, stream, drop or escrow the transaction acts on
+  status: OutboxTransactionStatus;
+  submittedAt: number;
+  settledAt?: number;
+  recovered?: boolean;      // Still pending when the app loaded, so no hook is waiting on it
+  relayed?: boolean;        // Sent by the claim relayer, so only the relayer can replace it
+  nonce?: number;
+  replacement?: 'speed-up' | 'cancel';        // Set once the user sped up or cancelled it
+  previousHashes?: `0x${string}`[];           // Earlier hashes for the same nonce
+}
+
+export type NewOutboxTransaction = Pick<OutboxTransaction, 'hash' | 'type' | 'description'> &
+  Partial<Pick<OutboxTransaction, 'chainId' | 'amount' | 'tokenSymbol' | 'targetId' | 'relayed'>>;
+
+type OutboxListener = (transactions: OutboxTransaction[]) => void;
+
+const OUTBOX_KEY = 'strapt_transaction_outbox';
+
+// Settled entries stay listed for a day, up to a limit; pending ones are kept however many there are
+const SETTLED_RETENTION = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 50;
+
+// A receipt wait gives up after viem's timeout; dropped or slow transactions are checked again after this
+const RECHECK_DELAY = 30000; // 30 seconds
+
+// A transaction the node no longer knows, with an unused or unknown nonce, is given up on after this
+const DROP_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
+// Data each kind of transaction changes
+const AFFECTED_DATA: Record<OutboxTransactionType, DataType[]> = {
+  'approve': [],
+  'transfer': ['tokens'],
+  'create-transfer': ['transfers', 'tokens'],
+  'claim-transfer': ['transfers', 'tokens'],
+  'refund-transfer': ['transfers', 'tokens'],
+  'cancel-transfer': ['transfers', 'tokens'],
+  'create-stream': ['streams', 'tokens'],
+  'update-stream': ['streams'],
+  'withdraw-stream': ['streams', 'tokens'],
+  'create-drop': ['drops', 'tokens'],
+  'claim-drop': ['drops', 'tokens'],
+  'refund-drop': ['drops', 'tokens'],
+  'create-escrow': ['escrows', 'tokens'],
+  'update-escrow': ['escrows', 'tokens'],
+  'claim-faucet': ['tokens'],
+};
+
+// Outbox state
+let transactions: OutboxTransaction[] = [];
+let isStarted = false;
+const watching = new Set<string>();
+const listeners = new Set<OutboxListener>();
+
+const load = (): OutboxTransaction[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error loading transaction outbox:', error);
+  }
+  return [];
+};
+
+const save = () => {
+  const now = Date.now();
+  const pendingCount = transactions.filter((transaction) => transaction.status === 'pending').length;
+  let settledRoom = Math.max(MAX_ENTRIES - pendingCount, 0);
+
+  // Only settled entries are aged out or trimmed, newest kept; a pending one is never lost track of
+  transactions = transactions.filter((transaction) => {
+    if (transaction.status === 'pending') return true;
+    if (settledRoom === 0 || now - (transaction.settledAt ?? now) >= SETTLED_RETENTION) return false;
+    settledRoom -= 1;
+    return true;
+  });
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(transactions));
+};
+
+const emit = () => {
+  for (const listener of listeners) {
+    listener(transactions);
+  }
+};
+
+// Entries keep the hashes they were sent under before a speed-up or cancel
+const findEntry = (hash: `0x${string}`) =>
+  transactions.find((transaction) => transaction.hash === hash || transaction.previousHashes?.includes(hash));
+
+const update = (hash: `0x${string}`, changes: Partial<OutboxTransaction>) => {
+  const entry = findEntry(hash);
+  transactions = transactions.map((transaction) =>
+    transaction === entry ? { ...transaction, ...changes } : transaction
+  );
+  save();
+  emit();
+};
+
+/**
+ * Record how a transaction ended, from the receipt of whichever transaction took its nonce
+ * @param hash Any hash the entry was sent under
+ * @param receipt The mined transaction's hash and status
+ * @param wasRepriced Whether a transaction the app didn't send replaced it with the same call
+ */
+const settle = (
+  hash: `0x${string}`,
+  receipt: { transactionHash: `0x${string}`; status: 'success' | 'reverted' },
+  wasRepriced = false
+) => {
+  const entry = findEntry(hash);
+  if (!entry || entry.status !== 'pending') return;
+
+  // The call ran if any version of it was mined, unless what was mined is our own cancel
+  const minedHash = receipt.transactionHash;
+  const ranCall = entry.previousHashes?.includes(minedHash)
+    || (minedHash === entry.hash ? entry.replacement !== 'cancel' : wasRepriced);
+
+  update(hash, {
+    status: !ranCall ? 'cancelled' : receipt.status === 'success' ? 'confirmed' : 'failed',
+    settledAt: Date.now(),
+    // Point at the mined transaction when the wallet replaced it
+    ...(ranCall && minedHash !== entry.hash && !entry.previousHashes?.includes(minedHash)
+      ? { hash: minedHash, previousHashes: [...(entry.previousHashes ?? []), entry.hash] }
+      : {}),
+  });
+
+  if (ranCall && receipt.status === 'success') {
+    for (const dataType of AFFECTED_DATA[entry.type]) {
+      refreshData(dataType);
+    }
+  }
+};
+
+/**
+ * Settle an entry whose nonce has been used up without a receipt turning up for the watched hash
+ * @returns Whether the entry could be settled
+ */
+const settleByNonce = async (entry: OutboxTransaction): Promise<boolean> => {
+  const client = getPublicClient(config, { chainId: entry.chainId });
+  if (!client || entry.nonce === undefined || !entry.account) return false;
+
+  const nextNonce = await client.getTransactionCount({ address: entry.account as `0x${string}`, blockTag: 'latest' });
+  if (nextNonce <= entry.nonce) return false;
+
+  for (const hash of [entry.hash, ...(entry.previousHashes ?? [])]) {
+    try {
+      settle(entry.hash, await client.getTransactionReceipt({ hash }));
+      return true;
+    } catch {
+      // Not this one
+    }
+  }
+
+  // Something sent outside the app took the nonce
+  update(entry.hash, { status: 'cancelled', settledAt: Date.now() });
+  return true;
+};
+
+/**
+ * Whether the node still has any version of an entry, mined or in its mempool
+ * @throws When the node can't be asked, so a network error never drops an entry
+ */
+const isKnownToNode = async (entry: OutboxTransaction): Promise<boolean> => {
+  const client = getPublicClient(config, { chainId: entry.chainId });
+  if (!client) throw new Error('This network is not supported');
+
+  for (const hash of [entry.hash, ...(entry.previousHashes ?? [])]) {
+    try {
+      await client.getTransaction({ hash });
+      return true;
+    } catch (error) {
+      if (!(error instanceof TransactionNotFoundError)) throw error;
+    }
+  }
+  return false;
+};
+
+/**
+ * Wait for a pending transaction's receipt and record how it ended
+ * A replacement resolves the wait with the replacing transaction's receipt
+ */
+const watch = async (transaction: OutboxTransaction) => {
+  const { hash } = transaction;
+  if (watching.has(hash)) return;
+  const client = getPublicClient(config, { chainId: transaction.chainId });
+  if (!client) return;
+
+  watching.add(hash);
+  let wasRepriced = false;
+
+  // The nonce settles the entry later if the node forgets the transaction; a relayed
+  // transaction's nonce is the relayer's, so it can't be checked against this account
+  if (transaction.nonce === undefined && !transaction.relayed) {
+    client.getTransaction({ hash })
+      .then(({ nonce }) => update(hash, { nonce }))
+      .catch(() => undefined);
+  }
+
+  try {
+    const receipt = await client.waitForTransactionReceipt({
+      hash,
+      onReplaced: (replacement) => {
+        wasRepriced = replacement.reason === 'repriced';
+      },
+    });
+    settle(hash, receipt, wasRepriced);
+  } catch (error) {
+    // Not mined yet, or not known to the node; keep it pending and look again later
+    console.warn('Transaction still pending:', hash, error);
+    setTimeout(async () => {
+      const current = findEntry(hash);
+      if (current?.status !== 'pending') return;
+      const isSettled = await settleByNonce(current).catch(() => false);
+      // A replacement is watched under its own hash
+      if (isSettled || current.hash !== hash) return;
+
+      // Stop polling for something the node has forgotten, once it has had time to turn up
+      if (Date.now() - current.submittedAt > DROP_TIMEOUT && !(await isKnownToNode(current).catch(() => true))) {
+        update(hash, { status: 'dropped', settledAt: Date.now() });
+        return;
+      }
+      watch(current);
+    }, RECHECK_DELAY);
+  } finally {
+    watching.delete(hash);
+  }
+};
+
+// Fee increase for a replacement; nodes reject replacements under 10% more
+const FEE_BUMP_PERCENT = 125n;
+
+/**
+ * Whether a transaction can still be sped up or cancelled from this wallet
+ */
+export const isReplaceable = (transaction: OutboxTransaction) =>
+  transaction.status === 'pending' && !transaction.relayed;
+
+/**
+ * Replace a pending transaction with one using the same nonce and higher fees
+ * @param hash The pending transaction
+ * @param replacement 'speed-up' resends the same call; 'cancel' sends 0 to the sender instead
+ * @returns The replacement's hash
+ */
+const replaceTransaction = async (hash: `0x${string}`, replacement: 'speed-up' | 'cancel'): Promise<`0x${string}`> => {
+  const entry = findEntry(hash);
+  if (!entry || entry.status !== 'pending') {
+    throw new Error('This transaction is no longer pending');
+  }
+  if (entry.relayed) {
+    throw new Error('This transaction was sent by the relayer and can only be replaced by it');
+  }
+
+  const account = getAccount(config);
+  if (!account.address || account.address.toLowerCase() !== entry.account.toLowerCase()) {
+    throw new Error('Connect the wallet that sent this transaction');
+  }
+  if (getChainId(config) !== entry.chainId) {
+    throw new Error('Switch to the network this transaction was sent on');
+  }
+
+  const client = getPublicClient(config, { chainId: entry.chainId });
+  if (!client) {
+    throw new Error('This network is not supported');
+  }
+
+  const pending = await client.getTransaction({ hash: entry.hash });
+  if (pending.blockNumber !== null) {
+    throw new Error('This transaction has already been mined');
+  }
+  // The nonce belongs to whoever sent it; replacing from another account would spend one of its own
+  if (pending.from.toLowerCase() !== account.address.toLowerCase()) {
+    throw new Error('This transaction was sent from another account');
+  }
+
+  const bump = (value: bigint) => (value * FEE_BUMP_PERCENT) / 100n;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+  const call = replacement === 'speed-up'
+    ? { to: pending.to ?? undefined, data: pending.input, value: pending.value, gas: pending.gas }
+    : { to: pending.from, value: 0n };
+
+  let replacementHash: `0x${string}`;
+  if (pending.maxFeePerGas !== undefined && pending.maxPriorityFeePerGas !== undefined) {
+    const fees = await client.estimateFeesPerGas();
+    replacementHash = await sendTransaction(config, {
+      ...call,
+      nonce: pending.nonce,
+      maxFeePerGas: max(bump(pending.maxFeePerGas), fees.maxFeePerGas),
+      maxPriorityFeePerGas: max(bump(pending.maxPriorityFeePerGas), fees.maxPriorityFeePerGas),
+    });
+  } else {
+    const gasPrice = await client.getGasPrice();
+    replacementHash = await sendTransaction(config, {
+      ...call,
+      nonce: pending.nonce,
+      gasPrice: max(bump(pending.gasPrice ?? 0n), gasPrice),
+    });
+  }
+
+  update(entry.hash, {
+    hash: replacementHash,
+    previousHashes: [...(entry.previousHashes ?? []), entry.hash],
+    nonce: pending.nonce,
+    replacement,
+  });
+  const updated = findEntry(replacementHash);
+  if (updated) watch(updated);
+
+  return replacementHash;
+};
+
+/**
+ * Resend a pending transaction with higher fees so it is mined sooner
+ * @param hash The pending transaction
+ * @returns The new transaction's hash
+ */
+export const speedUpTransaction = (hash: `0x${string}`) => replaceTransaction(hash, 'speed-up');
+
+/**
+ * Cancel a pending transaction by taking its nonce with a 0-value transfer to the sender
+ * @param hash The pending transaction
+ * @returns The cancelling transaction's hash
+ */
+export const cancelTransaction = (hash: `0x${string}`) => replaceTransaction(hash, 'cancel');
+
+/**
+ * Wait for a submitted transaction to be mined, however long that takes
+ * Hooks use this instead of a receipt wait with a timeout: a slow transaction stays
+ * pending in the outbox, where it can be sped up or cancelled, rather than failing
+ * @param hash The transaction, as submitted
+ * @returns The receipt of the transaction, or of its sped-up version
+ * @throws If it was cancelled, its nonce went to a different call, or the outbox gave up on it
+ */
+export const waitForTransaction = async (hash: `0x${string}`) => {
+  let replacedReason: string | null = null;
+  let unsubscribe = () => {};
+
+  // The receipt wait itself never gives up, so stop when the outbox drops the transaction
+  const dropped = new Promise<never>((_, reject) => {
+    const listener: OutboxListener = () => {
+      if (findEntry(hash)?.status === 'dropped') reject(new Error('Transaction was dropped by the network'));
+    };
+    listeners.add(listener);
+    unsubscribe = () => listeners.delete(listener);
+  });
+
+  try {
+    const receipt = await Promise.race([
+      waitForTransactionReceipt(config, {
+        hash,
+        timeout: 0,
+        onReplaced: (replacement) => {
+          // A repriced transaction (sped up) still makes the same call
+          if (replacement.reason !== 'repriced') replacedReason = replacement.reason;
+        },
+      }),
+      dropped,
+    ]);
+
+    if (replacedReason) {
+      throw new Error(`Transaction was ${replacedReason}`);
+    }
+    return receipt;
+  } finally {
+    unsubscribe();
+  }
+};
+
+/**
+ * Load the outbox and reconcile the transactions still pending from earlier sessions
+ */
+export const startTransactionOutbox = () => {
+  if (isStarted) return;
+  isStarted = true;
+
+  transactions = load().map((transaction) =>
+    transaction.status === 'pending' ? { ...transaction, recovered: true } : transaction
+  );
+  save();
+  emit();
+
+  for (const transaction of transactions) {
+    if (transaction.status === 'pending') watch(transaction);
+  }
+};
+
+/**
+ * Record a submitted transaction and follow it until it settles
+ * Call this as soon as the hash is known, before waiting for the receipt
+ * @param transaction The hash and what the transaction does
+ */
+export const trackTransaction = (transaction: NewOutboxTransaction) => {
+  startTransactionOutbox();
+
+  const entry: OutboxTransaction = {
+    ...transaction,
+    chainId: transaction.chainId ?? getChainId(config),
+    account: getAccount(config).address ?? '',
+    status: 'pending',
+    submittedAt: Date.now(),
+  };
+
+  transactions = [entry, ...transactions.filter((item) => item.hash !== entry.hash)];
+  save();
+  emit();
+  watch(entry);
+};
+
+/**
+ * Remove settled transactions from the outbox
+ */
+export const clearSettledTransactions = () => {
+  transactions = transactions.filter((transaction) => transaction.status === 'pending');
+  save();
+  emit();
+};
+
+/**
+ * Subscribe to outbox changes
+ * @param listener Called with the current transactions right away and on every change
+ * @returns Function to unsubscribe
+ */
+export const subscribeToOutbox = (listener: OutboxListener) => {
+  listeners.add(listener);
+  listener(transactions);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Hook to use the outbox of a wallet
+ * @param account The wallet address; transactions of other wallets are left out
+ */
+export const useTransactionOutbox = (account?: string | null) => {
+  const [items, setItems] = useState<OutboxTransaction[]>(transactions);
+
+  useEffect(() => subscribeToOutbox(setItems), []);
+
+  const own = account
+    ? items.filter((transaction) => transaction.account.toLowerCase() === account.toLowerCase())
+    : [];
+
+  return {
+    transactions: own,
+    pending: own.filter((transaction) => transaction.status === 'pending'),
+  };
+};
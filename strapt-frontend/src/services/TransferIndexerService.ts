@@ -0,0 +1,309 @@
+import { getPublicClient } from 'wagmi/actions';
+import type { AbiEvent } from 'viem';
+import { config } from '@/providers/XellarProvider';
+import ProtectedTransferV2ABI from '@/contracts/ProtectedTransferV2.json';
+import { TransferStatus } from '@/hooks/use-protected-transfer-v2';
+import { openDatabase, getRecord, getAllRecords, putRecords } from '@/lib/indexedDb';
+import { findContractAddress } from './ContractRegistryService';
+import { findContractStartBlock } from './EventSource';
+
+/**
+ * A ProtectedTransferV2 transfer rebuilt from contract logs
+ * Amounts are kept in raw token units so the record is independent of token formatting
+ */
+export interface IndexedTransfer {
+  key: string;              // `${chainId}:${transferId}`
+  chainId: number;
+  contractAddress: string;
+  id: string;
+  sender: string;
+  recipient: string;        // Zero address for link transfers
+  tokenAddress: string;
+  amount: string;           // Net amount after fee (raw units)
+  grossAmount: string;      // Original amount before fee (raw units)
+  expiry: number;
+  createdAt: number;
+  status: TransferStatus;
+  claimer?: string;
+  transactionHash: string;
+  blockNumber: number;
+  settledTransactionHash?: string;
+  settledBlockNumber?: number;
+}
+
+interface IndexerCheckpoint {
+  key: string;              // `${chainId}:${contractAddress}`
+  startBlock: number;
+  lastIndexedBlock: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'strapt-indexer';
+const DB_VERSION = 1;
+const TRANSFERS_STORE = 'transfers';
+const CHECKPOINTS_STORE = 'checkpoints';
+
+// Largest block range requested per getLogs call, halved when the RPC rejects it
+const MAX_BLOCK_RANGE = 10000;
+const MIN_BLOCK_RANGE = 250;
+
+// Blocks to stay behind the chain head so short reorgs never reach the index
+const CONFIRMATION_BLOCKS = 2;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const INDEXED_EVENTS = (ProtectedTransferV2ABI.abi as AbiEvent[]).filter(
+  (item) => item.type === 'event' &&
+    ['TransferCreated', 'TransferClaimed', 'TransferRefunded', 'TransferCancelled'].includes(item.name)
+);
+
+// Final status of a transfer for each settlement event
+const SETTLED_STATUS: Record<string, TransferStatus> = {
+  TransferClaimed: TransferStatus.Claimed,
+  TransferRefunded: TransferStatus.Refunded,
+  TransferCancelled: TransferStatus.Cancelled,
+};
+
+// Shared promise so concurrent callers wait for the same sync instead of starting another
+let inFlightSync: Promise<number> | null = null;
+
+const getDatabase = () => openDatabase(DB_NAME, DB_VERSION, [
+  {
+    name: TRANSFERS_STORE,
+    keyPath: 'key',
+    indexes: [{ name: 'chainId', keyPath: 'chainId' }],
+  },
+  {
+    name: CHECKPOINTS_STORE,
+    keyPath: 'key',
+  },
+]);
+
+/**
+ * Fetch logs for a block range, splitting the range when the RPC refuses it
+ */
+const fetchLogsInRange = async (
+  client: ReturnType<typeof getPublicClient>,
+  address: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint
+) => {
+  try {
+    return await client.getLogs({
+      address,
+      events: INDEXED_EVENTS,
+      fromBlock,
+      toBlock,
+    });
+  } catch (error) {
+    const span = toBlock - fromBlock + 1n;
+    if (span <= BigInt(MIN_BLOCK_RANGE)) throw error;
+
+    const middle = fromBlock + span / 2n;
+    const first = await fetchLogsInRange(client, address, fromBlock, middle - 1n);
+    const second = await fetchLogsInRange(client, address, middle, toBlock);
+    return [...first, ...second];
+  }
+};
+
+/**
+ * Apply decoded logs to the in-memory transfer map
+ * Created events never overwrite a settled status, so replaying a range is safe
+ */
+const applyLogs = async (
+  client: ReturnType<typeof getPublicClient>,
+  chainId: number,
+  contractAddress: string,
+  logs: Awaited<ReturnType<typeof fetchLogsInRange>>,
+  transfers: Map<string, IndexedTransfer>
+): Promise<IndexedTransfer[]> => {
+  const changed = new Map<string, IndexedTransfer>();
+  const blockTimestamps = new Map<bigint, number>();
+
+  const getBlockTimestamp = async (blockNumber: bigint) => {
+    const cached = blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+    const block = await client.getBlock({ blockNumber });
+    const timestamp = Number(block.timestamp);
+    blockTimestamps.set(blockNumber, timestamp);
+    return timestamp;
+  };
+
+  const sortedLogs = [...logs].sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : a.blockNumber < b.blockNumber ? -1 : 1
+  );
+
+  for (const log of sortedLogs) {
+    // The events come from the JSON ABI, so viem can't type their args; check what we read
+    const args: Record<string, unknown> = log.args ?? {};
+    if (typeof args.transferId !== 'string') {
+      console.warn('Indexer: skipping log without a transfer ID', log.transactionHash);
+      continue;
+    }
+    const transferId = args.transferId.toLowerCase();
+    const key = `${chainId}:${transferId}`;
+    const existing = transfers.get(key);
+
+    if (log.eventName === 'TransferCreated') {
+      const { sender, recipient, tokenAddress, amount, grossAmount, expiry } = args;
+      if (
+        typeof sender !== 'string' ||
+        typeof tokenAddress !== 'string' ||
+        typeof amount !== 'bigint' ||
+        typeof grossAmount !== 'bigint' ||
+        typeof expiry !== 'bigint'
+      ) {
+        console.warn('Indexer: skipping malformed TransferCreated log', transferId);
+        continue;
+      }
+
+      const record: IndexedTransfer = {
+        key,
+        chainId,
+        contractAddress,
+        id: transferId,
+        sender,
+        recipient: typeof recipient === 'string' && recipient ? recipient : ZERO_ADDRESS,
+        tokenAddress,
+        amount: amount.toString(),
+        grossAmount: grossAmount.toString(),
+        expiry: Number(expiry),
+        createdAt: await getBlockTimestamp(log.blockNumber),
+        status: existing?.status ?? TransferStatus.Pending,
+        claimer: existing?.claimer,
+        transactionHash: log.transactionHash,
+        blockNumber: Number(log.blockNumber),
+        settledTransactionHash: existing?.settledTransactionHash,
+        settledBlockNumber: existing?.settledBlockNumber,
+      };
+      transfers.set(key, record);
+      changed.set(key, record);
+      continue;
+    }
+
+    if (!existing) {
+      // A settlement for a transfer we never saw created; nothing to attach it to
+      console.warn('Indexer: settlement event for unknown transfer', transferId);
+      continue;
+    }
+
+    const updated: IndexedTransfer = {
+      ...existing,
+      status: SETTLED_STATUS[log.eventName] ?? existing.status,
+      claimer: log.eventName === 'TransferClaimed' && typeof args.claimer === 'string' ? args.claimer : existing.claimer,
+      settledTransactionHash: log.transactionHash,
+      settledBlockNumber: Number(log.blockNumber),
+    };
+    transfers.set(key, updated);
+    changed.set(key, updated);
+  }
+
+  return [...changed.values()];
+};
+
+const runSync = async (): Promise<number> => {
+  const client = getPublicClient(config);
+  if (!client) throw new Error('No public client available for the current chain');
+
+  const chainId = client.chain.id;
+  const contractAddress = findContractAddress('ProtectedTransferV2', chainId);
+  // Nothing to index on a chain without the contract
+  if (!contractAddress) return 0;
+
+  const checkpointKey = `${chainId}:${contractAddress.toLowerCase()}`;
+
+  const db = await getDatabase();
+  const headBlock = await client.getBlockNumber();
+  const safeHead = headBlock - BigInt(CONFIRMATION_BLOCKS);
+
+  let checkpoint = await getRecord<IndexerCheckpoint>(db, CHECKPOINTS_STORE, checkpointKey);
+  if (!checkpoint) {
+    // Only looked up once per chain; the result is saved in the checkpoint
+    const startBlock = Number(await findContractStartBlock(client, contractAddress, headBlock));
+    checkpoint = {
+      key: checkpointKey,
+      startBlock,
+      lastIndexedBlock: startBlock - 1,
+      updatedAt: Date.now(),
+    };
+  }
+
+  if (BigInt(checkpoint.lastIndexedBlock) >= safeHead) {
+    return checkpoint.lastIndexedBlock;
+  }
+
+  // Load what we already know so settlement events can update earlier records
+  const known = await getAllRecords<IndexedTransfer>(db, TRANSFERS_STORE, 'chainId', chainId);
+  const transfers = new Map(known.map((record) => [record.key, record]));
+
+  let fromBlock = BigInt(checkpoint.lastIndexedBlock + 1);
+  while (fromBlock <= safeHead) {
+    const toBlock = fromBlock + BigInt(MAX_BLOCK_RANGE - 1) < safeHead
+      ? fromBlock + BigInt(MAX_BLOCK_RANGE - 1)
+      : safeHead;
+
+    const logs = await fetchLogsInRange(client, contractAddress, fromBlock, toBlock);
+    const changed = await applyLogs(client, chainId, contractAddress.toLowerCase(), logs, transfers);
+
+    await putRecords(db, TRANSFERS_STORE, changed);
+
+    checkpoint = { ...checkpoint, lastIndexedBlock: Number(toBlock), updatedAt: Date.now() };
+    await putRecords(db, CHECKPOINTS_STORE, [checkpoint]);
+
+    fromBlock = toBlock + 1n;
+  }
+
+  return checkpoint.lastIndexedBlock;
+};
+
+/**
+ * Index new ProtectedTransferV2 logs since the last checkpoint
+ * @returns Promise with the last block included in the index
+ */
+export const syncTransferIndex = (): Promise<number> => {
+  if (!inFlightSync) {
+    inFlightSync = runSync().finally(() => {
+      inFlightSync = null;
+    });
+  }
+  return inFlightSync;
+};
+
+/**
+ * Read indexed transfers sent or received by an address on the current chain
+ * Link transfers count as received once the address has claimed them
+ * @param address The wallet address
+ * @returns Promise with sent and received transfers, newest first
+ */
+export const getIndexedTransfersForAddress = async (
+  address: string
+): Promise<{ sent: IndexedTransfer[]; received: IndexedTransfer[] }> => {
+  const client = getPublicClient(config);
+  if (!client) return { sent: [], received: [] };
+
+  const contractAddress = findContractAddress('ProtectedTransferV2', client.chain.id)?.toLowerCase();
+  if (!contractAddress) return { sent: [], received: [] };
+
+  const db = await getDatabase();
+  const records = await getAllRecords<IndexedTransfer>(db, TRANSFERS_STORE, 'chainId', client.chain.id);
+  const user = address.toLowerCase();
+
+  const sent: IndexedTransfer[] = [];
+  const received: IndexedTransfer[] = [];
+
+  for (const record of records) {
+    if (record.contractAddress !== contractAddress) continue;
+
+    if (record.sender.toLowerCase() === user) {
+      sent.push(record);
+    }
+    if (record.recipient.toLowerCase() === user || record.claimer?.toLowerCase() === user) {
+      received.push(record);
+    }
+  }
+
+  const newestFirst = (a: IndexedTransfer, b: IndexedTransfer) => b.blockNumber - a.blockNumber;
+  return { sent: sent.sort(newestFirst), received: received.sort(newestFirst) };
+};
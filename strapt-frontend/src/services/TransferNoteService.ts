@@ -0,0 +1,401 @@
+import { signMessage, verifyMessage, getAccount } from 'wagmi/actions';
+import { hexToBytes, isAddress, keccak256, stringToHex } from 'viem';
+import { config } from '@/providers/XellarProvider';
+import { RELAYER_URL } from './RelayerService';
+
+/**
+ * Encrypted transfer notes
+ *
+ * A note is encrypted with a fresh AES-GCM content key, and that key is shared with:
+ * - addresses (recipient and sender) through ECDH against their published note key
+ * - whoever knows the claim code, through a PBKDF2 key derived from the code
+ * - whoever has the claim link, by putting the content key in the link fragment
+ * Only ciphertext ever leaves the browser.
+ */
+
+export const MAX_NOTE_LENGTH = 280;
+
+const NOTE_VERSION = 1;
+
+// Signed together with the public key so senders can tell the key belongs to the address
+export const NOTE_KEY_BINDING_PREFIX = 'STRAPT encrypted notes key\n';
+
+// Signed with the note's hash so the relayer only takes a transfer's note from its sender
+export const NOTE_SIGNATURE_PREFIX = 'STRAPT transfer note\n';
+
+// Signed to derive the key that protects the private note key; the signature stays on the device
+const NOTE_KEY_UNLOCK_MESSAGE = 'Unlock my STRAPT encrypted notes.\n\nThis signature never leaves your device.';
+
+const CLAIM_CODE_KDF_ITERATIONS = 210_000;
+
+// Local stand-in storage when no relayer is configured
+const LOCAL_NOTES_STORAGE_KEY = 'strapt_transfer_notes';
+const LOCAL_NOTE_KEYS_STORAGE_KEY = 'strapt_note_keys';
+
+/**
+ * A copy of the content key, wrapped for one way of reading the note
+ */
+export type NoteKeyShare =
+  | { kind: 'address'; address: string; ephemeralPublicKey: string; wrappedKey: string; iv: string }
+  | { kind: 'claim-code'; wrappedKey: string; iv: string };
+
+export interface EncryptedTransferNote {
+  version: number;
+  transferId: string;
+  ciphertext: string;
+  iv: string;
+  shares: NoteKeyShare[];
+  createdAt: number;
+}
+
+/**
+ * A published note key
+ * The private key is encrypted with a key derived from the owner's signature, so it
+ * can be unlocked on any device the wallet is used on
+ */
+export interface NoteKeyRecord {
+  address: string;
+  publicKey: string;
+  encryptedPrivateKey: string;
+  iv: string;
+  signature: `0x${string}`;
+}
+
+/**
+ * Backend that stores encrypted notes and note keys
+ */
+export interface NoteStore {
+  name: string;
+  getNote: (transferId: string) => Promise<EncryptedTransferNote | null>;
+  putNote: (note: EncryptedTransferNote) => Promise<void>;
+  getNoteKey: (address: string) => Promise<NoteKeyRecord | null>;
+  putNoteKey: (record: NoteKeyRecord) => Promise<void>;
+}
+
+/**
+ * Secrets that may open a note besides the user's own note key
+ */
+export interface NoteSecrets {
+  claimCode?: string;
+  linkKey?: string;
+}
+
+export type TransferNoteResult =
+  | { status: 'none' }
+  | { status: 'locked'; canUnlock: boolean }
+  | { status: 'decrypted'; text: string };
+
+/**
+ * The message a sender signs to store a note with the relayer
+ * Must match getNoteSignatureMessage in strapt-contracts/relayer/notes.ts
+ */
+const getNoteSignatureMessage = (note: EncryptedTransferNote): string =>
+  `${NOTE_SIGNATURE_PREFIX}${note.transferId.toLowerCase()}\n${keccak256(stringToHex(JSON.stringify(note)))}`;
+
+/**
+ * Note store backed by the STRAPT relayer service
+ * Notes are signed by the sender, who must be the sender of the transfer on-chain
+ * @param baseUrl Base URL of the relayer, e.g. http://localhost:8787
+ */
+export const createHttpNoteStore = (baseUrl: string): NoteStore => {
+  const get = async <T>(path: string): Promise<T | null> => {
+    const response = await fetch(`${baseUrl}${path}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Note request failed (${response.status})`);
+    return response.json();
+  };
+
+  const put = async (path: string, body: unknown): Promise<void> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Note request failed (${response.status})`);
+    }
+  };
+
+  return {
+    name: 'http',
+    getNote: (transferId) => get(`/notes/${transferId.toLowerCase()}`),
+    putNote: async (note) => {
+      const { address } = getAccount(config);
+      if (!address) throw new Error('No wallet connected');
+      const signature = await signMessage(config, { account: address, message: getNoteSignatureMessage(note) });
+      await put(`/notes/${note.transferId.toLowerCase()}`, { ...note, signature });
+    },
+    getNoteKey: (address) => get(`/note-keys/${address.toLowerCase()}`),
+    putNoteKey: (record) => put(`/note-keys/${record.address.toLowerCase()}`, record),
+  };
+};
+
+/**
+ * Note store in localStorage
+ * Only notes created in this browser are found, so it stands in for the relayer during development
+ */
+export const createLocalNoteStore = (): NoteStore => {
+  const read = <T>(storageKey: string): Record<string, T> => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) || '{}');
+    } catch (e) {
+      return {};
+    }
+  };
+
+  const write = <T>(storageKey: string, key: string, value: T) => {
+    localStorage.setItem(storageKey, JSON.stringify({ ...read<T>(storageKey), [key]: value }));
+  };
+
+  return {
+    name: 'local',
+    getNote: async (transferId) => read<EncryptedTransferNote>(LOCAL_NOTES_STORAGE_KEY)[transferId.toLowerCase()] || null,
+    putNote: async (note) => write(LOCAL_NOTES_STORAGE_KEY, note.transferId.toLowerCase(), note),
+    getNoteKey: async (address) => read<NoteKeyRecord>(LOCAL_NOTE_KEYS_STORAGE_KEY)[address.toLowerCase()] || null,
+    putNoteKey: async (record) => write(LOCAL_NOTE_KEYS_STORAGE_KEY, record.address.toLowerCase(), record),
+  };
+};
+
+/**
+ * Get the configured note store
+ */
+export const getNoteStore = (): NoteStore => {
+  return RELAYER_URL ? createHttpNoteStore(RELAYER_URL) : createLocalNoteStore();
+};
+
+const toBase64 = (data: ArrayBuffer | Uint8Array): string => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const encodeText = (value: string) => new TextEncoder().encode(value);
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const aesEncrypt = async (key: CryptoKey, data: ArrayBuffer | Uint8Array<ArrayBuffer>) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  return { ciphertext: toBase64(ciphertext), iv: toBase64(iv) };
+};
+
+const aesDecrypt = async (key: CryptoKey, ciphertext: string, iv: string): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+};
+
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const AES_PARAMS = { name: 'AES-GCM', length: 256 } as const;
+
+const deriveClaimCodeKey = async (claimCode: string, transferId: string): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encodeText(claimCode.trim()), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: Uint8Array.from(hexToBytes(transferId as `0x${string}`)), iterations: CLAIM_CODE_KDF_ITERATIONS, hash: 'SHA-256' },
+    material,
+    AES_PARAMS,
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const deriveSharedKey = async (privateKey: CryptoKey, publicKey: string): Promise<CryptoKey> => {
+  const peer = await crypto.subtle.importKey('raw', fromBase64(publicKey), ECDH_PARAMS, false, []);
+  return crypto.subtle.deriveKey({ name: 'ECDH', public: peer }, privateKey, AES_PARAMS, false, ['encrypt', 'decrypt']);
+};
+
+// Private note keys unlocked in this session, by lowercase address
+const unlockedNoteKeys = new Map<string, CryptoKey>();
+
+const getUnlockKey = async (address: `0x${string}`): Promise<CryptoKey> => {
+  const signature = await signMessage(config, { account: address, message: NOTE_KEY_UNLOCK_MESSAGE });
+  const material = await crypto.subtle.importKey('raw', Uint8Array.from(hexToBytes(signature)), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encodeText(address.toLowerCase()), info: encodeText('strapt-note-key') },
+    material,
+    AES_PARAMS,
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Get the note key published for an address
+ * @param address The address to look up
+ * @returns The note key, or null if none is published or its signature doesn't check out
+ */
+export const getNoteKey = async (address: string): Promise<NoteKeyRecord | null> => {
+  if (!isAddress(address)) return null;
+
+  const record = await getNoteStore().getNoteKey(address);
+  if (!record) return null;
+
+  const isValid = await verifyMessage(config, {
+    address,
+    message: `${NOTE_KEY_BINDING_PREFIX}${record.publicKey}`,
+    signature: record.signature,
+  }).catch(() => false);
+
+  return isValid ? record : null;
+};
+
+/**
+ * Check whether the connected account's note key is unlocked in this session
+ */
+export const isNoteKeyUnlocked = (address?: string): boolean => {
+  return !!address && unlockedNoteKeys.has(address.toLowerCase());
+};
+
+/**
+ * Unlock the connected account's note key, publishing a new one the first time
+ * Asks for one signature to unlock, plus one more to publish a new key
+ */
+export const unlockNoteKey = async (): Promise<void> => {
+  const { address } = getAccount(config);
+  if (!address) throw new Error('No wallet connected');
+  if (isNoteKeyUnlocked(address)) return;
+
+  const store = getNoteStore();
+  const record = await store.getNoteKey(address);
+  const unlockKey = await getUnlockKey(address);
+
+  if (record) {
+    let pkcs8: ArrayBuffer;
+    try {
+      pkcs8 = await aesDecrypt(unlockKey, record.encryptedPrivateKey, record.iv);
+    } catch (e) {
+      throw new Error('Could not unlock your notes with this wallet');
+    }
+    unlockedNoteKeys.set(address.toLowerCase(), await crypto.subtle.importKey('pkcs8', pkcs8, ECDH_PARAMS, false, ['deriveKey']));
+    return;
+  }
+
+  const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey']);
+  const publicKey = toBase64(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  const encrypted = await aesEncrypt(unlockKey, await crypto.subtle.exportKey('pkcs8', keyPair.privateKey));
+  const signature = await signMessage(config, { account: address, message: `${NOTE_KEY_BINDING_PREFIX}${publicKey}` });
+
+  await store.putNoteKey({
+    address,
+    publicKey,
+    encryptedPrivateKey: encrypted.ciphertext,
+    iv: encrypted.iv,
+    signature,
+  });
+  unlockedNoteKeys.set(address.toLowerCase(), keyPair.privateKey);
+};
+
+/**
+ * Encrypt and store the note for a transfer
+ * @param transferId The transfer ID, or the transaction hash for plain token transfers
+ * @param text The note
+ * @param options recipient and claimCode decide who can read it; withLinkKey returns a key to put in the claim link
+ * @returns The link key when withLinkKey is set, otherwise null
+ */
+export const saveTransferNote = async (
+  transferId: string,
+  text: string,
+  { recipient, claimCode, withLinkKey = false }: { recipient?: string; claimCode?: string; withLinkKey?: boolean }
+): Promise<string | null> => {
+  const { address } = getAccount(config);
+  if (!address) throw new Error('No wallet connected');
+  if (text.length > MAX_NOTE_LENGTH) throw new Error(`Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+
+  const contentKey = await crypto.subtle.generateKey(AES_PARAMS, true, ['encrypt', 'decrypt']);
+  const rawContentKey = await crypto.subtle.exportKey('raw', contentKey);
+  const encrypted = await aesEncrypt(contentKey, encodeText(text));
+  const shares: NoteKeyShare[] = [];
+
+  // The sender gets a copy too, but only if they already have a note key
+  const addresses = [...new Set([recipient, address].filter((value) => value && isAddress(value)).map((value) => value.toLowerCase()))];
+  for (const shareAddress of addresses) {
+    const noteKey = await getNoteKey(shareAddress);
+    if (!noteKey) continue;
+
+    const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey']);
+    const wrapped = await aesEncrypt(await deriveSharedKey(ephemeral.privateKey, noteKey.publicKey), rawContentKey);
+    shares.push({
+      kind: 'address',
+      address: shareAddress,
+      ephemeralPublicKey: toBase64(await crypto.subtle.exportKey('raw', ephemeral.publicKey)),
+      wrappedKey: wrapped.ciphertext,
+      iv: wrapped.iv,
+    });
+  }
+
+  if (claimCode) {
+    const wrapped = await aesEncrypt(await deriveClaimCodeKey(claimCode, transferId), rawContentKey);
+    shares.push({ kind: 'claim-code', wrappedKey: wrapped.ciphertext, iv: wrapped.iv });
+  }
+
+  const recipientCanRead = withLinkKey || !!claimCode || shares.some((share) => share.kind === 'address' && share.address === recipient?.toLowerCase());
+  if (!recipientCanRead) {
+    throw new Error("The recipient hasn't enabled encrypted notes yet");
+  }
+
+  await getNoteStore().putNote({
+    version: NOTE_VERSION,
+    transferId: transferId.toLowerCase(),
+    ciphertext: encrypted.ciphertext,
+    iv: encrypted.iv,
+    shares,
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+
+  return withLinkKey ? toBase64(rawContentKey) : null;
+};
+
+/**
+ * Recover the content key of a note from whatever secret opens it
+ */
+const openContentKey = async (note: EncryptedTransferNote, { claimCode, linkKey }: NoteSecrets): Promise<ArrayBuffer | null> => {
+  if (linkKey) {
+    return fromBase64(linkKey).buffer;
+  }
+
+  const codeShare = note.shares.find((share) => share.kind === 'claim-code');
+  if (claimCode && codeShare) {
+    try {
+      return await aesDecrypt(await deriveClaimCodeKey(claimCode, note.transferId), codeShare.wrappedKey, codeShare.iv);
+    } catch (e) {
+      // Wrong claim code
+    }
+  }
+
+  const { address } = getAccount(config);
+  const privateKey = address ? unlockedNoteKeys.get(address.toLowerCase()) : undefined;
+  const addressShare = note.shares.find((share) => share.kind === 'address' && share.address === address?.toLowerCase());
+  if (privateKey && addressShare?.kind === 'address') {
+    return aesDecrypt(await deriveSharedKey(privateKey, addressShare.ephemeralPublicKey), addressShare.wrappedKey, addressShare.iv);
+  }
+
+  return null;
+};
+
+/**
+ * Fetch and decrypt the note for a transfer
+ * @param transferId The transfer ID, or the transaction hash for plain token transfers
+ * @param secrets The claim code or link key, when known
+ * @returns The note, whether there is a locked note, or that there is none
+ */
+export const readTransferNote = async (transferId: string, secrets: NoteSecrets = {}): Promise<TransferNoteResult> => {
+  const note = await getNoteStore().getNote(transferId);
+  if (!note) return { status: 'none' };
+
+  const { address } = getAccount(config);
+  const canUnlock = !!address && note.shares.some((share) => share.kind === 'address' && share.address === address.toLowerCase());
+
+  try {
+    const rawContentKey = await openContentKey(note, secrets);
+    if (rawContentKey) {
+      const contentKey = await crypto.subtle.importKey('raw', rawContentKey, 'AES-GCM', false, ['decrypt']);
+      const plaintext = await aesDecrypt(contentKey, note.ciphertext, note.iv);
+      return { status: 'decrypted', text: new TextDecoder().decode(plaintext) };
+    }
+  } catch (e) {
+    console.error('Error decrypting transfer note:', e);
+  }
+
+  return { status: 'locked', canUnlock };
+};
@@ -1,5 +1,8 @@
-import { updateData } from './DataSubscriptionService';
-import { useProtectedTransferV2, TransferDetails } from '@/hooks/use-protected-transfer-v2';
+import { formatUnits } from 'viem';
+import { updateData, useDataRefresh } from './DataSubscriptionService';
+import { syncTransferIndex, getIndexedTransfersForAddress, IndexedTransfer } from './TransferIndexerService';
+import { TransferDetails, TransferStatus } from '@/hooks/use-protected-transfer-v2';
+import { findTokenByAddress } from './TokenRegistryService';
 import { useEffect, useState, useCallback } from 'react';
 import { useXellarWallet } from '@/hooks/use-xellar-wallet';
 
@@ -7,44 +10,57 @@ import { useXellarWallet } from '@/hooks/use-xellar-wallet';
 let sentTransfersCache: TransferDetails[] = [];
 let receivedTransfersCache: TransferDetails[] = [];
 let lastFetchTime = 0;
-const FETCH_INTERVAL = 60000; // 1 minute
+
+// Refreshes closer together than this (a block, a focus and a route change at once) share one fetch
+const MIN_FETCH_GAP = 2000; // 2 seconds
+
+// Connected wallet, so background refreshes can load transfers without a mounted hook
+let currentAddress: string | null = null;
 
 /**
- * Initialize the transfers data service
+ * Set the wallet whose transfers background refreshes load
+ * @param address The connected wallet address, or null when disconnected
  */
-export const initTransfersDataService = () => {
-  console.log('Initializing transfers data service');
-  
-  // Start the background refresh process
-  startBackgroundRefresh();
+export const setTransfersDataAddress = (address: string | null) => {
+  if (address?.toLowerCase() !== currentAddress?.toLowerCase()) {
+    currentAddress = address;
+    sentTransfersCache = [];
+    receivedTransfersCache = [];
+    lastFetchTime = 0;
+  }
 };
 
 /**
- * Start background refresh for transfers data
+ * Initialize the transfers data service
+ * Transfers are refetched by the chain head when a block touches the transfer contracts
  */
-const startBackgroundRefresh = () => {
-  // Set up interval to fetch transfers data
-  setInterval(() => {
-    fetchTransfersData();
-  }, FETCH_INTERVAL);
+export const initTransfersDataService = () => {
+  console.log('Initializing transfers data service');
 };
 
 /**
  * Fetch transfers data
+ * @param force Fetch even if we've fetched recently, e.g. right after a transfer settled
  */
-export const fetchTransfersData = async () => {
+export const fetchTransfersData = async (force = false) => {
   try {
     // Skip if we've fetched recently
     const now = Date.now();
-    if (now - lastFetchTime < FETCH_INTERVAL) {
+    if (!force && now - lastFetchTime < MIN_FETCH_GAP) {
       return;
     }
     
     // Update timestamp
     lastFetchTime = now;
-    
-    // The actual fetching will happen in the hook
-    // We'll just notify subscribers that they should refresh
+
+    // Load from the index when we know the wallet; otherwise the hooks do the fetching
+    // and we just notify subscribers with what they cached
+    if (currentAddress) {
+      const { sent, received } = await loadTransfersFromIndex(currentAddress);
+      sentTransfersCache = sent;
+      receivedTransfersCache = received;
+    }
+
     updateData('transfers', {
       sent: sentTransfersCache,
       received: receivedTransfersCache
@@ -56,6 +72,77 @@ export const fetchTransfersData = async () => {
   }
 };
 
+/**
+ * Convert an indexed transfer into the shape used by the UI
+ */
+const toTransferDetails = (record: IndexedTransfer): TransferDetails => {
+  const token = findTokenByAddress(record.tokenAddress, record.chainId);
+  const tokenSymbol = token?.symbol ?? 'Unknown';
+  const decimals = token?.decimals ?? 18;
+
+  return {
+    id: record.id,
+    sender: record.sender,
+    recipient: record.recipient,
+    tokenAddress: record.tokenAddress,
+    tokenSymbol,
+    amount: formatUnits(BigInt(record.amount), decimals),
+    grossAmount: formatUnits(BigInt(record.grossAmount), decimals),
+    expiry: record.expiry,
+    status: record.status,
+    createdAt: record.createdAt,
+    isLinkTransfer: /^0x0{40}$/.test(record.recipient),
+    // Not part of the TransferCreated event; use getTransferDetails when it matters
+    hasPassword: false,
+    transactionHash: record.transactionHash,
+    claimer: record.claimer,
+    settledTransactionHash: record.settledTransactionHash,
+  };
+};
+
+/**
+ * Bring the local index up to date and read the transfers for an address
+ */
+const loadTransfersFromIndex = async (address: string) => {
+  await syncTransferIndex();
+  const { sent, received } = await getIndexedTransfersForAddress(address);
+  return {
+    sent: sent.map(toTransferDetails),
+    received: received.map(toTransferDetails),
+  };
+};
+
+/**
+ * Load the transfers an address sent that expired unclaimed and can be refunded
+ * @param address The sender address
+ * @returns The refundable transfers, oldest expiry first
+ */
+export const loadRefundableTransfers = async (address: string): Promise<TransferDetails[]> => {
+  const { sent } = await loadTransfersFromIndex(address);
+  const now = Math.floor(Date.now() / 1000);
+  return sent
+    .filter((transfer) => transfer.status === TransferStatus.Pending && transfer.expiry < now)
+    .sort((a, b) => a.expiry - b.expiry);
+};
+
+/**
+ * Record refunded transfers in the cache right away, without waiting for the index to catch up
+ * @param transferIds The refunded transfer IDs
+ * @param transactionHash The refund transaction
+ */
+export const markTransfersRefunded = (transferIds: string[], transactionHash: string) => {
+  const refunded = new Set(transferIds.map((id) => id.toLowerCase()));
+  sentTransfersCache = sentTransfersCache.map((transfer) =>
+    refunded.has(transfer.id.toLowerCase())
+      ? { ...transfer, status: TransferStatus.Refunded, settledTransactionHash: transactionHash }
+      : transfer
+  );
+  updateData('transfers', {
+    sent: sentTransfersCache,
+    received: receivedTransfersCache
+  });
+};
+
 /**
  * Hook to use sent transfers with automatic updates
  */
@@ -63,7 +150,6 @@ export const useSentTransfersData = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const { address } = useXellarWallet();
-  const { getSentTransfers } = useProtectedTransferV2();
   const [transfers, setTransfers] = useState<TransferDetails[]>([]);
   
   // Fetch sent transfers
@@ -72,7 +158,7 @@ export const useSentTransfersData = () => {
     
     try {
       setIsLoading(true);
-      const result = await getSentTransfers();
+      const { sent: result } = await loadTransfersFromIndex(address);
       setTransfers(result);
       sentTransfersCache = result;
       updateData('transfers', {
@@ -84,19 +170,15 @@ export const useSentTransfersData = () => {
       setError(err instanceof Error ? err : new Error(String(err)));
       setIsLoading(false);
     }
-  }, [address, getSentTransfers]);
+  }, [address]);
   
   // Fetch on mount and when address changes
   useEffect(() => {
     fetchSentTransfers();
-    
-    // Set up interval to refresh
-    const intervalId = setInterval(() => {
-      fetchSentTransfers();
-    }, FETCH_INTERVAL);
-    
-    return () => clearInterval(intervalId);
   }, [fetchSentTransfers]);
+
+  // Refetch when a new block touches the transfer contracts
+  useDataRefresh('transfers', fetchSentTransfers);
   
   return { transfers, isLoading, error, refresh: fetchSentTransfers };
 };
@@ -108,7 +190,6 @@ export const useReceivedTransfersData = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const { address } = useXellarWallet();
-  const { getReceivedTransfers } = useProtectedTransferV2();
   const [transfers, setTransfers] = useState<TransferDetails[]>([]);
   
   // Fetch received transfers
@@ -117,7 +198,7 @@ export const useReceivedTransfersData = () => {
     
     try {
       setIsLoading(true);
-      const result = await getReceivedTransfers();
+      const { received: result } = await loadTransfersFromIndex(address);
       setTransfers(result);
       receivedTransfersCache = result;
       updateData('transfers', {
@@ -129,19 +210,15 @@ export const useReceivedTransfersData = () => {
       setError(err instanceof Error ? err : new Error(String(err)));
       setIsLoading(false);
     }
-  }, [address, getReceivedTransfers]);
+  }, [address]);
   
   // Fetch on mount and when address changes
   useEffect(() => {
     fetchReceivedTransfers();
-    
-    // Set up interval to refresh
-    const intervalId = setInterval(() => {
-      fetchReceivedTransfers();
-    }, FETCH_INTERVAL);
-    
-    return () => clearInterval(intervalId);
   }, [fetchReceivedTransfers]);
+
+  // Refetch when a new block touches the transfer contracts
+  useDataRefresh('transfers', fetchReceivedTransfers);
   
   return { transfers, isLoading, error, refresh: fetchReceivedTransfers };
 };
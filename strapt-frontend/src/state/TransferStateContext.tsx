@@ -2,6 +2,7 @@ import React, { createContext, useContext, useReducer, ReactNode, useEffect } fr
 import { TokenOption } from '@/components/TokenSelect';
 import { useProtectedTransferV2, TokenType } from '@/hooks/use-protected-transfer-v2';
 import { useTokenBalances } from '@/hooks/use-token-balances';
+import { useTokenUtils } from '@/hooks/useTokenUtils';
 import { useAccount } from 'wagmi';
 
 export type TransferType = 'direct' | 'claim';
@@ -162,9 +163,8 @@ export const TransferStateProvider = ({ children }: { children: ReactNode }) =>
     refundTransfer,
     generateClaimCode,
     checkAllowance,
-    USDC_ADDRESS,
-    IDRX_ADDRESS,
   } = useProtectedTransferV2();
+  const { getTokenAddress: getRegistryTokenAddress } = useTokenUtils();
   
   // Set initial selected token when tokens are loaded
   useEffect(() => {
@@ -186,12 +186,12 @@ export const TransferStateProvider = ({ children }: { children: ReactNode }) =>
   
   // Helper function to get token type from selected token
   const getTokenType = (): TokenType => {
-    return (state.selectedToken?.symbol as TokenType) || 'IDRX';
+    return state.selectedToken?.symbol || tokens[0]?.symbol;
   };
   
   // Helper function to get token address from selected token
   const getTokenAddress = (): `0x${string}` => {
-    return state.selectedToken?.symbol === 'USDC' ? USDC_ADDRESS : IDRX_ADDRESS;
+    return getRegistryTokenAddress(getTokenType());
   };
   
   // Helper function to get expiry timestamp (24 hours from now)
@@ -0,0 +1,37 @@
+import type { TokenType } from './tokens';
+import type { PayableRecord } from '@/hooks/use-payment-requests';
+
+export interface InvoiceLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: string;       // In token units, e.g. "12.50"
+}
+
+/**
+ * The part of an invoice shared with the client through the pay link
+ */
+export interface InvoiceDetails {
+  number: string;          // e.g. INV-0001
+  issuer: `0x${string}`;   // Wallet that gets paid
+  issuerName?: string;
+  clientName: string;
+  token: TokenType;
+  lineItems: InvoiceLineItem[];
+  taxRate: number;         // Percent, up to two decimals
+  notes?: string;
+  issueDate: string;       // ISO date string
+  dueDate: string;         // ISO date string
+}
+
+/**
+ * An invoice as stored by its issuer
+ * `amount` is the total including tax, which a payment has to cover
+ */
+export interface Invoice extends InvoiceDetails, PayableRecord {}
+
+export interface InvoiceTotals {
+  subtotal: string;
+  tax: string;
+  total: string;
+}
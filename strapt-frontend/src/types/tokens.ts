@@ -1,4 +1,5 @@
-export type TokenType = 'USDC' | 'IDRX';
+// Symbol of a token in the token registry, e.g. 'USDC'
+export type TokenType = string;
 
 export interface TokenOption {
   symbol: TokenType;
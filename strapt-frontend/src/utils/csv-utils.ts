@@ -0,0 +1,106 @@
+/**
+ * Utility functions for parsing CSV files uploaded by users
+ */
+
+/**
+ * One row of a batch payout CSV, before validation
+ */
+export interface BatchTransferCsvRow {
+  line: number;         // 1-based line number in the source file
+  recipient: string;
+  amount: string;
+  token: string;
+  expiry: string;       // Raw expiry cell: empty, unix seconds or an ISO date
+}
+
+const BATCH_HEADERS = ['recipient', 'amount', 'token', 'expiry'];
+
+/**
+ * Split a single CSV line into cells, honouring double-quoted cells
+ * @param line The CSV line
+ * @returns Array of trimmed cell values
+ */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parse a batch payout CSV with columns recipient, amount, token, expiry
+ * The header row is optional; when present, columns may appear in any order
+ *
+ * @param text The CSV file contents
+ * @returns Parsed rows with their source line numbers
+ */
+export function parseBatchTransferCsv(text: string): BatchTransferCsvRow[] {
+  const lines = text.split(/\r?\n/);
+  let columnOrder = BATCH_HEADERS;
+  const rows: BatchTransferCsvRow[] = [];
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const cells = splitCsvLine(line);
+
+    // Treat the first non-empty line as a header if it names our columns
+    const lowerCells = cells.map(cell => cell.toLowerCase());
+    if (rows.length === 0 && lowerCells.includes('recipient') && lowerCells.includes('amount')) {
+      columnOrder = lowerCells;
+      return;
+    }
+
+    const cell = (name: string) => {
+      const columnIndex = columnOrder.indexOf(name);
+      return columnIndex >= 0 ? cells[columnIndex] || '' : '';
+    };
+
+    rows.push({
+      line: index + 1,
+      recipient: cell('recipient'),
+      amount: cell('amount'),
+      token: cell('token').toUpperCase(),
+      expiry: cell('expiry'),
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Convert a CSV expiry cell into a unix timestamp in seconds
+ * @param value Empty for the contract default, unix seconds, or any date string Date can parse
+ * @returns The timestamp, 0 for the default, or null if the value is not a date
+ */
+export function parseCsvExpiry(value: string): number | null {
+  if (!value) return 0;
+
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : Math.floor(parsed / 1000);
+}
@@ -2,6 +2,8 @@
  * Utility functions for formatting values in the application
  */
 
+import { findToken } from '@/services/TokenRegistryService';
+
 /**
  * Format a token balance by properly handling different token decimals
  * This is used to display whole numbers for token balances
@@ -39,14 +41,9 @@ export function formatBalanceWithoutDecimals(
       case 'LSKETH':
         decimals = 18;
         break;
-      case 'USDC':
-        decimals = 6;
-        break;
-      case 'IDRX':
-        decimals = 2;
-        break;
       default:
-        decimals = 18; // Default to 18 for unknown tokens
+        // Registry tokens carry their own decimals; 18 for anything unknown
+        decimals = findToken(symbol)?.decimals ?? 18;
     }
   }
 
@@ -132,14 +129,9 @@ export function formatTokenBalance(
       case 'LSKETH':
         decimals = 18;
         break;
-      case 'USDC':
-        decimals = 6;
-        break;
-      case 'IDRX':
-        decimals = 2;
-        break;
       default:
-        decimals = 18; // Default to 18 for unknown tokens
+        // Registry tokens carry their own decimals; 18 for anything unknown
+        decimals = findToken(symbol)?.decimals ?? 18;
     }
   } else if (decimals === undefined) {
     decimals = 18; // Default to 18 if no symbol and no explicit decimals
@@ -198,3 +190,13 @@ export function formatTokenBalance(
 
   return formattedValue;
 }
+
+/**
+ * Decimal places to show for an amount of a token: its own precision, capped at 6
+ *
+ * @param symbol The token symbol
+ * @returns The number of decimal places
+ */
+export function getDisplayDecimals(symbol: string): number {
+  return Math.min(findToken(symbol)?.decimals ?? 6, 6);
+}
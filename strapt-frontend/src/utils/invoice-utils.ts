@@ -0,0 +1,139 @@
+/**
+ * Utility functions for invoice totals and pay links
+ */
+import { formatUnits, parseUnits } from 'viem';
+import { getToken, findToken } from '@/services/TokenRegistryService';
+import type { InvoiceDetails, InvoiceTotals } from '@/types/invoices';
+
+/**
+ * Current invoice pay link format
+ * v1: /app/invoices/pay#v=1&invoice=<base64url JSON of InvoiceDetails>
+ * The invoice travels in the fragment, so it never reaches a server
+ */
+export const INVOICE_LINK_VERSION = 1;
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): string => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+/**
+ * Calculate the subtotal, tax and total of an invoice
+ * Amounts are summed in base units and tax is rounded down to the token's precision
+ * @param invoice The invoice
+ * @returns The totals as token amounts, e.g. "12.5"
+ */
+export const computeInvoiceTotals = (invoice: Pick<InvoiceDetails, 'token' | 'lineItems' | 'taxRate'>): InvoiceTotals => {
+  const { decimals } = getToken(invoice.token);
+
+  let subtotal = 0n;
+  for (const item of invoice.lineItems) {
+    try {
+      // Quantities are whole units
+      subtotal += parseUnits(item.unitPrice || '0', decimals) * BigInt(Math.max(0, Math.floor(item.quantity)));
+    } catch (error) {
+      // Skip line items that aren't filled in yet
+    }
+  }
+
+  // Tax rate in hundredths of a percent, so 7.25% is 725
+  const tax = subtotal * BigInt(Math.round((invoice.taxRate || 0) * 100)) / 10000n;
+
+  return {
+    subtotal: formatUnits(subtotal, decimals),
+    tax: formatUnits(tax, decimals),
+    total: formatUnits(subtotal + tax, decimals),
+  };
+};
+
+/**
+ * Split an invoice into stream milestones, one per line item
+ * Each milestone releases the line item's share of the total; the contract caps a milestone at 99%
+ * @param invoice The invoice
+ * @returns The milestones, or none for single line invoices
+ */
+export const getInvoiceMilestones = (
+  invoice: Pick<InvoiceDetails, 'token' | 'lineItems' | 'taxRate'>
+): { description: string; percentage: number }[] => {
+  if (invoice.lineItems.length < 2) return [];
+
+  const total = Number(computeInvoiceTotals(invoice).total);
+  if (total <= 0) return [];
+
+  return invoice.lineItems.map((item) => {
+    const itemTotal = Number(computeInvoiceTotals({ ...invoice, lineItems: [item] }).total);
+    return {
+      description: item.description,
+      percentage: Math.min(99, Math.max(1, Math.floor((itemTotal / total) * 100))),
+    };
+  });
+};
+
+/**
+ * Build the in-app path for paying an invoice
+ * @param invoice The invoice details to share with the client
+ * @returns The pay path, e.g. /app/invoices/pay#v=1&invoice=...
+ */
+export const getInvoicePayPath = (invoice: InvoiceDetails): string => {
+  const details: InvoiceDetails = {
+    number: invoice.number,
+    issuer: invoice.issuer,
+    issuerName: invoice.issuerName,
+    clientName: invoice.clientName,
+    token: invoice.token,
+    lineItems: invoice.lineItems,
+    taxRate: invoice.taxRate,
+    notes: invoice.notes,
+    issueDate: invoice.issueDate,
+    dueDate: invoice.dueDate,
+  };
+  const fragment = new URLSearchParams({
+    v: String(INVOICE_LINK_VERSION),
+    invoice: toBase64Url(JSON.stringify(details)),
+  });
+  return `/app/invoices/pay#${fragment.toString()}`;
+};
+
+/**
+ * Generate a shareable invoice pay link
+ * @param invoice The invoice details to share with the client
+ * @param baseUrl Base URL (defaults to current origin)
+ * @returns The pay link
+ */
+export const generateInvoicePayLink = (invoice: InvoiceDetails, baseUrl?: string): string => {
+  return `${baseUrl || window.location.origin}${getInvoicePayPath(invoice)}`;
+};
+
+/**
+ * Parse the invoice from a pay link or its fragment
+ * @param link The pay link, or just its fragment
+ * @returns The invoice details, or null if the link isn't a valid invoice
+ */
+export const parseInvoicePayLink = (link: string): InvoiceDetails | null => {
+  const hashIndex = link.indexOf('#');
+  const params = new URLSearchParams(hashIndex >= 0 ? link.slice(hashIndex + 1) : link);
+  const encoded = params.get('invoice');
+  if (!encoded || Number(params.get('v')) !== INVOICE_LINK_VERSION) return null;
+
+  try {
+    const invoice = JSON.parse(fromBase64Url(encoded)) as InvoiceDetails;
+    if (
+      !/^0x[a-fA-F0-9]{40}$/.test(invoice.issuer) ||
+      typeof invoice.token !== 'string' ||
+      !findToken(invoice.token) ||
+      !Array.isArray(invoice.lineItems) ||
+      invoice.lineItems.length === 0
+    ) {
+      return null;
+    }
+    return invoice;
+  } catch (error) {
+    console.error('Error parsing invoice link:', error);
+    return null;
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Utility functions for EIP-681 payment request URIs
+ * ethereum:<token>@<chainId>/transfer?address=<recipient>&uint256=<amount>
+ */
+import { isAddress } from 'viem';
+
+const SCHEME = 'ethereum:';
+
+/**
+ * A payment request parsed from an EIP-681 URI
+ * ERC-20 requests target the token contract; native requests target the recipient
+ */
+export interface PaymentRequestUri {
+  recipient: `0x${string}`;
+  tokenAddress: `0x${string}` | null;   // null for native currency
+  amount: bigint | null;                // In the token's base units, null when the payer chooses
+  chainId: number | null;               // null when the URI doesn't name a chain
+}
+
+/**
+ * Parse an EIP-681 number, which may use scientific notation (e.g. 2.5e6)
+ * @returns The integer value, or null if it isn't a whole number
+ */
+const parseUriNumber = (value: string): bigint | null => {
+  const match = /^(\d+)(?:\.(\d+))?(?:[eE](\d+))?$/.exec(value);
+  if (!match) return null;
+
+  const [, whole, fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent) - fraction.length;
+  if (shift < 0) {
+    // Only valid if the digits past the decimal point are zeros
+    const digits = `${whole}${fraction}`;
+    const kept = digits.slice(0, digits.length + shift);
+    if (!/^0*$/.test(digits.slice(digits.length + shift))) return null;
+    return BigInt(kept || '0');
+  }
+  return BigInt(`${whole}${fraction}${'0'.repeat(shift)}`);
+};
+
+/**
+ * Build an EIP-681 URI requesting an ERC-20 transfer
+ * @param tokenAddress The token contract
+ * @param recipient The address to pay
+ * @param amount Optional amount in the token's base units
+ * @param chainId Optional chain the token lives on
+ * @returns The payment request URI
+ */
+export const buildPaymentRequestUri = (
+  tokenAddress: string,
+  recipient: string,
+  amount?: bigint,
+  chainId?: number
+): string => {
+  const params = new URLSearchParams({ address: recipient });
+  if (amount !== undefined) {
+    params.set('uint256', amount.toString());
+  }
+  return `${SCHEME}${tokenAddress}${chainId ? `@${chainId}` : ''}/transfer?${params.toString()}`;
+};
+
+/**
+ * Check whether text looks like an EIP-681 URI
+ */
+export const isPaymentRequestUri = (text: string): boolean => text.trim().toLowerCase().startsWith(SCHEME);
+
+/**
+ * Parse an EIP-681 URI
+ * Supports ERC-20 `transfer` requests and plain native currency requests
+ * @param uri The URI, e.g. scanned from a QR code
+ * @returns The payment request, or null if the URI isn't one we can pay
+ */
+export const parsePaymentRequestUri = (uri: string): PaymentRequestUri | null => {
+  const trimmed = uri.trim();
+  if (!isPaymentRequestUri(trimmed)) return null;
+
+  const match = /^(?:pay-)?(0x[0-9a-fA-F]{40})(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/.exec(trimmed.slice(SCHEME.length));
+  if (!match) return null;
+
+  const [, target, chainIdText, functionName, query = ''] = match;
+  const params = new URLSearchParams(query);
+  const chainId = chainIdText ? Number(chainIdText) : null;
+
+  if (functionName === 'transfer') {
+    const recipient = params.get('address');
+    if (!recipient || !isAddress(recipient)) return null;
+
+    const amountText = params.get('uint256');
+    const amount = amountText ? parseUriNumber(amountText) : null;
+    if (amountText && amount === null) return null;
+
+    return { recipient, tokenAddress: target as `0x${string}`, amount, chainId };
+  }
+
+  // Any other function isn't a payment we know how to make
+  if (functionName) return null;
+
+  const valueText = params.get('value');
+  const amount = valueText ? parseUriNumber(valueText) : null;
+  if (valueText && amount === null) return null;
+
+  return { recipient: target as `0x${string}`, tokenAddress: null, amount, chainId };
+};
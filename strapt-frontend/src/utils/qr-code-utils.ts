@@ -1,6 +1,7 @@
 /**
  * Utility functions for QR code generation and processing
  */
+import { isPaymentRequestUri, parsePaymentRequestUri } from './payment-uri-utils';
 
 /**
  * Generate a consistent STRAPT Drop claim link
@@ -12,22 +13,98 @@ export const generateDropClaimLink = (dropId: string): string => {
   return `${baseUrl}/app/strapt-drop/claim?id=${dropId}`;
 };
 
+/**
+ * Current transfer claim link format
+ * v1: /app/claims?id=<transferId>&code=<claimCode> (query string, sent to the server)
+ * v2: /app/claims#v=2&id=<transferId>&code=<claimCode> (fragment, never leaves the browser)
+ * v2 links may also carry key=<noteKey>, which decrypts the transfer's note
+ */
+export const CLAIM_LINK_VERSION = 2;
+
+/**
+ * A transfer claim parsed from a link, QR code or pasted text
+ */
+export interface TransferClaimLink {
+  transferId: string;
+  claimCode: string;
+  noteKey?: string;
+  version: number;
+}
+
+const TRANSFER_ID_REGEX = /^0x[a-fA-F0-9]{64}$/;
+
+/**
+ * Build the in-app path for claiming a transfer
+ * The transfer ID and claim code go in the fragment, so they are kept out of
+ * server logs, analytics and synced browser history
+ * @param transferId The transfer ID
+ * @param claimCode Optional claim code
+ * @param noteKey Optional key of the transfer's encrypted note
+ * @returns The claim path, e.g. /app/claims#v=2&id=0x...
+ */
+export const getTransferClaimPath = (transferId: string, claimCode?: string, noteKey?: string): string => {
+  const fragment = new URLSearchParams({ v: String(CLAIM_LINK_VERSION), id: transferId });
+  if (claimCode) {
+    fragment.set('code', claimCode);
+  }
+  if (noteKey) {
+    fragment.set('key', noteKey);
+  }
+  return `/app/claims#${fragment.toString()}`;
+};
+
 /**
  * Generate a consistent transfer claim link
  * @param transferId The transfer ID
  * @param claimCode Optional claim code
+ * @param baseUrl Base URL (defaults to current origin)
+ * @param noteKey Optional key of the transfer's encrypted note
  * @returns A properly formatted URL for claiming the transfer
  */
-export const generateTransferClaimLink = (transferId: string, claimCode?: string): string => {
-  const baseUrl = window.location.origin;
-  const url = `${baseUrl}/app/claims?id=${transferId}`;
+export const generateTransferClaimLink = (transferId: string, claimCode?: string, baseUrl?: string, noteKey?: string): string => {
+  return `${baseUrl || window.location.origin}${getTransferClaimPath(transferId, claimCode, noteKey)}`;
+};
 
-  // Add claim code if provided
-  if (claimCode) {
-    return `${url}&code=${claimCode}`;
+/**
+ * Parse a transfer claim link in any supported format
+ * Accepts versioned fragment links, legacy ?id=&code= links and /claim/<id> paths
+ * @param link A full URL, a path, or a bare fragment
+ * @returns The transfer ID and claim code, or null if the link is not a claim link
+ */
+export const parseTransferClaimLink = (link: string): TransferClaimLink | null => {
+  let url: URL;
+  try {
+    url = new URL(link.trim(), window.location.origin);
+  } catch (e) {
+    return null;
+  }
+
+  // Versioned links carry everything in the fragment
+  const fragment = new URLSearchParams(url.hash.replace(/^#/, ''));
+  const fragmentId = fragment.get('id');
+  if (fragmentId && TRANSFER_ID_REGEX.test(fragmentId)) {
+    return {
+      transferId: fragmentId,
+      claimCode: fragment.get('code') || '',
+      noteKey: fragment.get('key') || undefined,
+      version: Number(fragment.get('v')) || CLAIM_LINK_VERSION,
+    };
+  }
+
+  // Legacy links carry the ID and code in the query string or the path
+  const params = url.searchParams;
+  const pathId = url.pathname.includes('/claim/') ? url.pathname.split('/claim/')[1] : null;
+  const transferId = params.get('id') || params.get('transferId') || pathId;
+
+  if (!transferId || !TRANSFER_ID_REGEX.test(transferId)) {
+    return null;
   }
 
-  return url;
+  return {
+    transferId,
+    claimCode: params.get('code') || params.get('claimCode') || params.get('password') || '',
+    version: 1,
+  };
 };
 
 /**
@@ -58,6 +135,25 @@ export const processQRCodeData = (
     // Trim whitespace from the decoded text
     const trimmedText = decodedText.trim();
 
+    // Check if it's an EIP-681 payment request; the transfer form pre-fills from it
+    if (isPaymentRequestUri(trimmedText)) {
+      if (parsePaymentRequestUri(trimmedText)) {
+        navigate(`/app/transfer?request=${encodeURIComponent(trimmedText)}`);
+        toast({
+          title: "Payment Request Detected",
+          description: "Opening the transfer page",
+        });
+        return true;
+      }
+
+      toast({
+        title: "Unsupported Payment Request",
+        description: "This payment request can't be paid with STRAPT",
+        variant: "destructive",
+      });
+      return false;
+    }
+
     // Check if it's a URL
     if (trimmedText.startsWith('http')) {
       try {
@@ -95,30 +191,10 @@ export const processQRCodeData = (
           pathSegments.includes('claims') ||
           url.pathname.includes('/claim/')
         ) {
-          // Try to extract transfer ID from URL parameters
-          const params = new URLSearchParams(url.search);
-          const transferId = params.get('id') || params.get('transferId');
-          const claimCode = params.get('code') || params.get('claimCode') || params.get('password');
-
-          // Also check if the ID is in the path (e.g., /claim/0x123...)
-          let pathTransferId = null;
+          const claimLink = parseTransferClaimLink(trimmedText);
 
-          // Check various path formats
-          if (url.pathname.includes('/claim/')) {
-            pathTransferId = url.pathname.split('/claim/')[1];
-          } else if (pathSegments.length > 1 && pathSegments[pathSegments.length - 2] === 'claim') {
-            pathTransferId = pathSegments[pathSegments.length - 1];
-          }
-
-          const finalTransferId = transferId || (pathTransferId?.startsWith('0x') ? pathTransferId : null);
-
-          if (finalTransferId?.startsWith('0x')) {
-            // If we have a code parameter, include it in the URL
-            if (claimCode) {
-              navigate(`/app/claims?id=${finalTransferId}&code=${claimCode}`);
-            } else {
-              navigate(`/app/claims?id=${finalTransferId}`);
-            }
+          if (claimLink) {
+            navigate(getTransferClaimPath(claimLink.transferId, claimLink.claimCode, claimLink.noteKey));
 
             toast({
               title: "Transfer Claim Detected",
@@ -147,11 +223,7 @@ export const processQRCodeData = (
             });
           } else {
             // Otherwise, treat as a regular transfer
-            if (claimCode) {
-              navigate(`/app/claims?id=${genericId}&code=${claimCode}`);
-            } else {
-              navigate(`/app/claims?id=${genericId}`);
-            }
+            navigate(getTransferClaimPath(genericId, claimCode || undefined));
 
             toast({
               title: "Transfer ID Detected",
@@ -207,11 +279,7 @@ export const processQRCodeData = (
           const claimCode = jsonData.code || jsonData.claimCode || jsonData.password;
 
           if (transferId?.startsWith('0x')) {
-            if (claimCode) {
-              navigate(`/app/claims?id=${transferId}&code=${claimCode}`);
-            } else {
-              navigate(`/app/claims?id=${transferId}`);
-            }
+            navigate(getTransferClaimPath(transferId, claimCode));
 
             toast({
               title: "Transfer Data Detected",
@@ -255,7 +323,7 @@ export const processQRCodeData = (
                   description: "Opening the STRAPT Drop claim page",
                 });
               } else {
-                navigate(`/app/claims?id=${value}`);
+                navigate(getTransferClaimPath(value));
                 toast({
                   title: "Transfer ID Found in JSON",
                   description: "Opening the claim page",
@@ -297,7 +365,7 @@ export const processQRCodeData = (
         });
       } else {
         // Otherwise, assume it's a transfer ID
-        navigate(`/app/claims?id=${trimmedText}`);
+        navigate(getTransferClaimPath(trimmedText));
         toast({
           title: "Transfer ID Detected",
           description: "Opening the claim page",
@@ -324,7 +392,7 @@ export const processQRCodeData = (
           description: "Opening the STRAPT Drop claim page",
         });
       } else {
-        navigate(`/app/claims?id=${id}`);
+        navigate(getTransferClaimPath(id));
         toast({
           title: "Transfer ID Found",
           description: "Opening the claim page",